@@ -1,6 +1,14 @@
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useMemo, useState, useCallback, useRef, useSyncExternalStore } from 'react';
+import { API_BASE, apiFetch, getToken, setToken, subscribeToken } from '@/lib/api';
+import { describeOpen, formatDate, formatRelativeTime } from '@/lib/format';
+import ContactsView from '@/components/ContactsView';
+import CampaignsView from '@/components/CampaignsView';
+import AnalyticsView from '@/components/AnalyticsView';
+import ApiKeysView from '@/components/ApiKeysView';
+import LoginForm from '@/components/LoginForm';
+import ThreadView, { gmailThreadUrl } from '@/components/ThreadView';
 
 // Types matching the server
 interface Email {
@@ -10,8 +18,27 @@ interface Email {
   sender: string | null;
   created_at: string;
   open_count: number;
+  human_open_count: number;
+  click_count: number;
+  last_opened_at: string | null;
+  archived_at: string | null;
+  tracking_paused_at: string | null;
+  tags: string[];
+  thread_id: string | null;
+  message_id: string | null;
 }
 
+type BulkAction = 'archive' | 'unarchive' | 'tag' | 'delete';
+
+type EmailSort = 'recent' | 'oldest' | 'most_opens' | 'last_opened';
+
+const PAGE_SIZE = 50;
+
+// Wait before opening the event stream again after it was refused or a ticket couldn't be had
+const STREAM_RETRY_MS = 5000;
+
+type OpenClassification = 'human' | 'proxy' | 'prefetch' | 'scanner' | 'unknown';
+
 interface EmailWithOpens extends Email {
   opens: {
     id: number;
@@ -19,42 +46,135 @@ interface EmailWithOpens extends Email {
     opened_at: string;
     ip_address: string | null;
     user_agent: string | null;
+    classification: OpenClassification;
+    client: string | null;
+    os: string | null;
+    device_type: 'desktop' | 'mobile' | 'tablet' | 'unknown' | null;
+    country: string | null;
+    region: string | null;
+    city: string | null;
+    asn: number | null;
+    as_org: string | null;
+  }[];
+  links: {
+    id: number;
+    email_id: string;
+    url: string;
+    click_count: number;
+  }[];
+  clicks: {
+    id: number;
+    email_id: string;
+    link_id: number;
+    clicked_at: string;
+    ip_address: string | null;
+    user_agent: string | null;
+  }[];
+  recipients: {
+    address: string;
+    role: 'to' | 'cc' | 'bcc';
   }[];
 }
 
+// Payload of the email.opened stream event
+interface OpenEvent {
+  email_id: string;
+  open: EmailWithOpens['opens'][number];
+  open_count: number;
+  human_open_count: number;
+  last_opened_at: string | null;
+}
+
+interface User {
+  id: number;
+  email: string;
+  name: string | null;
+}
+
 interface Stats {
   total_emails: number;
   total_opens: number;
   emails_opened: number;
   open_rate: number;
+  human_opens: number;
+  emails_opened_human: number;
+  human_open_rate: number;
+  opens_by_classification: Record<OpenClassification, number>;
+  total_clicks: number;
+  emails_clicked: number;
+  click_rate: number;
 }
 
-const API_BASE = process.env.NEXT_PUBLIC_API_BASE || 'http://localhost:8080';
+// Badge label and colors for each open classification
+const CLASSIFICATION_BADGES: Record<OpenClassification, { label: string; className: string }> = {
+  human: { label: 'Opened', className: 'bg-emerald-100 text-emerald-800' },
+  proxy: { label: 'Image proxy', className: 'bg-blue-100 text-blue-800' },
+  prefetch: { label: 'Prefetch', className: 'bg-amber-100 text-amber-800' },
+  scanner: { label: 'Scanner', className: 'bg-red-100 text-red-800' },
+  unknown: { label: 'Unknown', className: 'bg-gray-100 text-gray-600' },
+};
 
 export default function Dashboard() {
+  const token = useSyncExternalStore(subscribeToken, getToken, () => null);
+  const [user, setUser] = useState<User | null>(null);
   const [emails, setEmails] = useState<Email[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [totalEmails, setTotalEmails] = useState(0);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [stats, setStats] = useState<Stats | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedEmail, setSelectedEmail] = useState<EmailWithOpens | null>(null);
-  const [sortBy, setSortBy] = useState<'recent' | 'most_opens' | 'last_opened'>('recent');
+  const [selectedThreadId, setSelectedThreadId] = useState<string | null>(null);
+  const [sortBy, setSortBy] = useState<EmailSort>('recent');
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [status, setStatus] = useState<'all' | 'opened' | 'unopened'>('all');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [archived, setArchived] = useState(false);
+  const [tag, setTag] = useState('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkTags, setBulkTags] = useState('');
+  const [bulkBusy, setBulkBusy] = useState(false);
+  const [exportFormat, setExportFormat] = useState<'csv' | 'json' | 'ndjson'>('csv');
+  const [exporting, setExporting] = useState(false);
+  const [view, setView] = useState<'emails' | 'contacts' | 'campaigns' | 'analytics' | 'keys'>('emails');
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const isFiltered = Boolean(search || status !== 'all' || fromDate || toDate || archived || tag);
+
+  // Live-created emails only belong at the top of an unfiltered, newest-first list
+  const prependNewEmailsRef = useRef(true);
+  useEffect(() => {
+    prependNewEmailsRef.current = sortBy === 'recent' && !isFiltered;
+  }, [sortBy, isFiltered]);
+
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchInput.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
 
   const fetchData = useCallback(async () => {
     try {
-      const [emailsRes, statsRes] = await Promise.all([
-        fetch(`${API_BASE}/api/emails`),
-        fetch(`${API_BASE}/api/stats`),
+      const [statsRes, userRes] = await Promise.all([
+        apiFetch('/api/stats'),
+        apiFetch('/api/auth/me'),
       ]);
 
-      if (!emailsRes.ok || !statsRes.ok) {
+      // Session expired - apiFetch already dropped the token, so the login form shows
+      if (statsRes.status === 401) return;
+
+      if (!statsRes.ok || !userRes.ok) {
         throw new Error('Failed to fetch data');
       }
 
-      const emailsData = await emailsRes.json();
       const statsData = await statsRes.json();
+      const userData = await userRes.json();
 
-      setEmails(emailsData);
       setStats(statsData);
+      setUser(userData);
       setError(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to connect to server');
@@ -63,16 +183,219 @@ export default function Dashboard() {
     }
   }, []);
 
+  const fetchStats = useCallback(async () => {
+    const res = await apiFetch('/api/stats');
+    if (res.ok) {
+      setStats(await res.json());
+    }
+  }, []);
+
   useEffect(() => {
+    if (!token) return;
     fetchData();
-    // Poll for updates every 30 seconds
-    const interval = setInterval(fetchData, 30000);
-    return () => clearInterval(interval);
-  }, [fetchData]);
+  }, [fetchData, token]);
+
+  // Query string for the list filters, shared by the email list and export
+  const filterQuery = useMemo(() => {
+    const params = new URLSearchParams();
+    if (search) params.set('q', search);
+    if (status !== 'all') params.set('status', status);
+    // Date inputs are local days; "to" includes the whole day
+    if (fromDate) params.set('from', new Date(`${fromDate}T00:00:00`).toISOString());
+    if (toDate) {
+      const end = new Date(`${toDate}T00:00:00`);
+      end.setDate(end.getDate() + 1);
+      params.set('to', end.toISOString());
+    }
+    if (archived) params.set('archived', 'only');
+    if (tag) params.set('tag', tag);
+    return params.toString();
+  }, [search, status, fromDate, toDate, archived, tag]);
+
+  // First page when cursor is omitted, otherwise the next page appended to the list
+  const fetchEmails = useCallback(async (cursor?: string) => {
+    const params = new URLSearchParams(filterQuery);
+    params.set('sort', sortBy);
+    params.set('limit', String(PAGE_SIZE));
+    if (cursor) params.set('cursor', cursor);
+
+    const res = await apiFetch(`/api/emails?${params}`);
+    if (!res.ok) return;
+
+    const page: { emails: Email[]; next_cursor: string | null; total: number } = await res.json();
+    setEmails((prev) => (cursor ? [...prev, ...page.emails] : page.emails));
+    if (!cursor) setSelectedIds(new Set());
+    setNextCursor(page.next_cursor);
+    setTotalEmails(page.total);
+  }, [sortBy, filterQuery]);
+
+  useEffect(() => {
+    if (!token) return;
+    fetchEmails();
+  }, [fetchEmails, token, refreshKey]);
+
+  // Download everything matching the current filters (not just the loaded pages)
+  const exportEmails = async () => {
+    setExporting(true);
+    try {
+      const params = new URLSearchParams(filterQuery);
+      params.set('sort', sortBy);
+      params.set('format', exportFormat);
+      const res = await apiFetch(`/api/export?${params}`);
+      if (!res.ok) return;
+
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `emails-${new Date().toISOString().slice(0, 10)}.${exportFormat}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const allSelected = emails.length > 0 && emails.every((email) => selectedIds.has(email.id));
+
+  const toggleAllSelected = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(emails.map((email) => email.id)));
+  };
+
+  // Apply an action to the checked rows, then reload the first page
+  const runBulkAction = async (action: BulkAction) => {
+    const tags = bulkTags.split(',').map((t) => t.trim()).filter(Boolean);
+    if (action === 'tag' && tags.length === 0) return;
+    if (action === 'delete' && !confirm(`Delete ${selectedIds.size} email${selectedIds.size !== 1 ? 's' : ''} and all their opens and clicks?`)) {
+      return;
+    }
 
-  const fetchEmailDetails = async (id: string) => {
+    setBulkBusy(true);
     try {
-      const res = await fetch(`${API_BASE}/api/emails/${id}`);
+      const res = await apiFetch('/api/emails/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: [...selectedIds], action, ...(action === 'tag' ? { tags } : {}) }),
+      });
+      if (!res.ok) return;
+
+      if (action === 'tag') setBulkTags('');
+      await Promise.all([fetchEmails(), fetchStats()]);
+    } finally {
+      setBulkBusy(false);
+    }
+  };
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    await fetchEmails(nextCursor);
+    setLoadingMore(false);
+  };
+
+  // Live updates. EventSource can't send the session token, so the stream is opened with
+  // a short-lived ticket. The browser reconnects on its own and resumes from the last
+  // event id; once the ticket has expired that fails, and a new ticket picks up from there
+  useEffect(() => {
+    if (!token) return;
+
+    let source: EventSource | null = null;
+    let retry: ReturnType<typeof setTimeout> | undefined;
+    let lastEventId = 0;
+    let stopped = false;
+
+    const connect = async () => {
+      let ticket: string;
+      try {
+        const res = await apiFetch('/api/events/ticket', { method: 'POST' });
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        ({ ticket } = await res.json());
+      } catch {
+        if (!stopped) retry = setTimeout(connect, STREAM_RETRY_MS);
+        return;
+      }
+      if (stopped) return;
+
+      const since = lastEventId > 0 ? `&since=${lastEventId}` : '';
+      const stream = new EventSource(`${API_BASE}/api/events?ticket=${encodeURIComponent(ticket)}${since}`);
+      source = stream;
+
+      const listen = (type: string, handler: (e: MessageEvent) => void) => {
+        stream.addEventListener(type, (e) => {
+          lastEventId = Number((e as MessageEvent).lastEventId) || lastEventId;
+          handler(e as MessageEvent);
+        });
+      };
+
+      listen('email.created', (e) => {
+        const email: Email = JSON.parse(e.data);
+        if (prependNewEmailsRef.current) {
+          setEmails((prev) => (prev.some((existing) => existing.id === email.id) ? prev : [email, ...prev]));
+          setTotalEmails((total) => total + 1);
+        }
+        fetchStats();
+      });
+
+      listen('email.opened', (e) => {
+        const event: OpenEvent = JSON.parse(e.data);
+
+        setEmails((prev) =>
+          prev.map((email) =>
+            email.id === event.email_id
+              ? {
+                  ...email,
+                  open_count: event.open_count,
+                  human_open_count: event.human_open_count,
+                  last_opened_at: event.last_opened_at,
+                }
+              : email
+          )
+        );
+        setSelectedEmail((prev) =>
+          prev && prev.id === event.email_id && !prev.opens.some((open) => open.id === event.open.id)
+            ? {
+                ...prev,
+                opens: [event.open, ...prev.opens],
+                open_count: event.open_count,
+                human_open_count: event.human_open_count,
+              }
+            : prev
+        );
+        fetchStats();
+      });
+
+      // A refused reconnect closes the stream for good
+      stream.onerror = () => {
+        if (stream.readyState === EventSource.CLOSED && !stopped) {
+          retry = setTimeout(connect, STREAM_RETRY_MS);
+        }
+      };
+    };
+
+    connect();
+    return () => {
+      stopped = true;
+      clearTimeout(retry);
+      source?.close();
+    };
+  }, [token, fetchStats]);
+
+  const logout = async () => {
+    await apiFetch('/api/auth/logout', { method: 'POST' });
+    setToken(null);
+  };
+
+  const fetchEmailDetails = useCallback(async (id: string) => {
+    try {
+      const res = await apiFetch(`/api/emails/${id}`);
       if (res.ok) {
         const data = await res.json();
         setSelectedEmail(data);
@@ -80,55 +403,20 @@ export default function Dashboard() {
     } catch {
       console.error('Failed to fetch email details');
     }
-  };
+  }, []);
 
-  const sortedEmails = [...emails].sort((a, b) => {
-    switch (sortBy) {
-      case 'most_opens':
-        return b.open_count - a.open_count;
-      case 'last_opened':
-        // For now, sort by open_count as proxy (would need last_open field)
-        return b.open_count - a.open_count;
-      case 'recent':
-      default:
-        return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+  // Deep link from extension notifications: /?email=<id> opens that email's details
+  useEffect(() => {
+    if (!token) return;
+    const emailId = new URLSearchParams(window.location.search).get('email');
+    if (emailId) {
+      fetchEmailDetails(emailId);
     }
-  });
-
-  // Parse SQLite datetime (stored in UTC) to local Date
-  const parseUTCDate = (dateStr: string) => {
-    // SQLite stores dates like "2026-01-02 03:22:00" in UTC
-    // We need to append 'Z' or '+00:00' to tell JS it's UTC
-    const normalized = dateStr.replace(' ', 'T') + 'Z';
-    return new Date(normalized);
-  };
+  }, [token, fetchEmailDetails]);
 
-  const formatDate = (dateStr: string) => {
-    const date = parseUTCDate(dateStr);
-    return date.toLocaleString('en-US', {
-      month: 'short',
-      day: 'numeric',
-      year: 'numeric',
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true,
-    });
-  };
-
-  const formatRelativeTime = (dateStr: string) => {
-    const date = parseUTCDate(dateStr);
-    const now = new Date();
-    const diffMs = now.getTime() - date.getTime();
-    const diffMins = Math.floor(diffMs / 60000);
-    const diffHours = Math.floor(diffMs / 3600000);
-    const diffDays = Math.floor(diffMs / 86400000);
-
-    if (diffMins < 1) return 'Just now';
-    if (diffMins < 60) return `${diffMins}m ago`;
-    if (diffHours < 24) return `${diffHours}h ago`;
-    if (diffDays < 7) return `${diffDays}d ago`;
-    return formatDate(dateStr);
-  };
+  if (!token) {
+    return <LoginForm />;
+  }
 
   if (loading) {
     return (
@@ -184,27 +472,69 @@ export default function Dashboard() {
           <div className="mb-2 px-3 text-xs font-semibold text-[var(--muted-light)] uppercase tracking-wider">
             Email
           </div>
-          <a
-            href="#"
-            className="flex items-center gap-3 px-3 py-2.5 rounded-lg bg-emerald-50 text-[var(--primary)] font-medium"
+          <button
+            onClick={() => setView('emails')}
+            className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-lg ${view === 'emails' ? 'bg-emerald-50 text-[var(--primary)] font-medium' : 'text-gray-700 hover:bg-gray-50 transition-colors'}`}
           >
             <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
             </svg>
             Email Tracking
-          </a>
+          </button>
+          <button
+            onClick={() => setView('contacts')}
+            className={`mt-1 w-full flex items-center gap-3 px-3 py-2.5 rounded-lg ${view === 'contacts' ? 'bg-emerald-50 text-[var(--primary)] font-medium' : 'text-gray-700 hover:bg-gray-50 transition-colors'}`}
+          >
+            <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+            </svg>
+            Contacts
+          </button>
+          <button
+            onClick={() => setView('campaigns')}
+            className={`mt-1 w-full flex items-center gap-3 px-3 py-2.5 rounded-lg ${view === 'campaigns' ? 'bg-emerald-50 text-[var(--primary)] font-medium' : 'text-gray-700 hover:bg-gray-50 transition-colors'}`}
+          >
+            <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5.882V19.24a1.76 1.76 0 01-3.417.592l-2.147-6.15M18 13a3 3 0 100-6M5.436 13.683A4.001 4.001 0 017 6h1.832c4.1 0 7.625-1.234 9.168-3v14c-1.543-1.766-5.067-3-9.168-3H7a3.988 3.988 0 01-1.564-.317z" />
+            </svg>
+            Campaigns
+          </button>
+          <button
+            onClick={() => setView('analytics')}
+            className={`mt-1 w-full flex items-center gap-3 px-3 py-2.5 rounded-lg ${view === 'analytics' ? 'bg-emerald-50 text-[var(--primary)] font-medium' : 'text-gray-700 hover:bg-gray-50 transition-colors'}`}
+          >
+            <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+            </svg>
+            Analytics
+          </button>
+
+          <div className="mt-6 mb-2 px-3 text-xs font-semibold text-[var(--muted-light)] uppercase tracking-wider">
+            Settings
+          </div>
+          <button
+            onClick={() => setView('keys')}
+            className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-lg ${view === 'keys' ? 'bg-emerald-50 text-[var(--primary)] font-medium' : 'text-gray-700 hover:bg-gray-50 transition-colors'}`}
+          >
+            <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
+            </svg>
+            API Keys
+          </button>
         </nav>
 
         {/* Footer */}
         <div className="p-4 border-t border-[var(--border)]">
           <div className="flex items-center gap-3 px-3 py-2">
             <div className="h-8 w-8 rounded-full bg-gradient-to-br from-emerald-400 to-cyan-500 flex items-center justify-center text-white font-medium text-sm">
-              R
+              {(user?.name || user?.email || '?').charAt(0).toUpperCase()}
             </div>
             <div className="flex-1 min-w-0">
-              <p className="text-sm font-medium text-gray-900 truncate">Ranvir</p>
-              <p className="text-xs text-[var(--muted)] truncate">Free Plan</p>
+              <p className="text-sm font-medium text-gray-900 truncate">{user?.name || user?.email}</p>
+              <button onClick={logout} className="text-xs text-[var(--muted)] hover:text-gray-900">
+                Sign out
+              </button>
             </div>
           </div>
         </div>
@@ -214,10 +544,12 @@ export default function Dashboard() {
       <main className="flex-1 flex flex-col overflow-hidden">
         {/* Header */}
         <header className="h-16 bg-white border-b border-[var(--border)] flex items-center justify-between px-8">
-          <h1 className="text-xl font-semibold text-gray-900">Email Tracking</h1>
+          <h1 className="text-xl font-semibold text-gray-900">
+            {{ emails: 'Email Tracking', contacts: 'Contacts', campaigns: 'Campaigns', analytics: 'Analytics', keys: 'API Keys' }[view]}
+          </h1>
           <div className="flex items-center gap-4">
             <button
-              onClick={fetchData}
+              onClick={() => { fetchData(); setRefreshKey((key) => key + 1); }}
               className="p-2 rounded-lg hover:bg-gray-100 transition-colors text-[var(--muted)]"
               title="Refresh"
             >
@@ -230,153 +562,347 @@ export default function Dashboard() {
 
         {/* Content */}
         <div className="flex-1 overflow-auto p-8">
-          {/* Stats Cards */}
-          {stats && (
-            <div className="grid grid-cols-4 gap-6 mb-8">
-              <StatCard
-                label="Total Emails"
-                value={stats.total_emails}
-                icon={
-                  <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
-                  </svg>
-                }
-              />
-              <StatCard
-                label="Total Opens"
-                value={stats.total_opens}
-                icon={
-                  <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
-                  </svg>
-                }
-              />
-              <StatCard
-                label="Emails Opened"
-                value={stats.emails_opened}
-                icon={
-                  <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 19v-8.93a2 2 0 01.89-1.664l7-4.666a2 2 0 012.22 0l7 4.666A2 2 0 0121 10.07V19M3 19a2 2 0 002 2h14a2 2 0 002-2M3 19l6.75-4.5M21 19l-6.75-4.5M3 10l6.75 4.5M21 10l-6.75 4.5m0 0l-1.14.76a2 2 0 01-2.22 0l-1.14-.76" />
-                  </svg>
-                }
-              />
-              <StatCard
-                label="Open Rate"
-                value={`${stats.open_rate}%`}
-                icon={
-                  <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
-                  </svg>
-                }
-                highlight
-              />
-            </div>
-          )}
-
-          {/* Email List */}
-          <div className="bg-white rounded-xl border border-[var(--border)] shadow-sm">
-            {/* Table Header */}
-            <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--border)]">
-              <div className="flex items-center gap-4">
-                <select
-                  value={sortBy}
-                  onChange={(e) => setSortBy(e.target.value as typeof sortBy)}
-                  className="px-4 py-2 rounded-lg border border-[var(--border)] bg-white text-sm font-medium text-gray-700 focus:outline-none focus:ring-2 focus:ring-[var(--primary)] focus:border-transparent"
-                >
-                  <option value="recent">Most Recent</option>
-                  <option value="most_opens">Most Opens</option>
-                </select>
-              </div>
-              <p className="text-sm text-[var(--muted)]">
-                {emails.length} tracked email{emails.length !== 1 ? 's' : ''}
-              </p>
-            </div>
+          {view === 'contacts' ? (
+            <ContactsView refreshKey={refreshKey} />
+          ) : view === 'campaigns' ? (
+            <CampaignsView refreshKey={refreshKey} />
+          ) : view === 'analytics' ? (
+            <AnalyticsView refreshKey={refreshKey} />
+          ) : view === 'keys' ? (
+            <ApiKeysView refreshKey={refreshKey} />
+          ) : (
+            <>
+              {/* Stats Cards */}
+              {stats && (
+                <div className="grid grid-cols-5 gap-6 mb-8">
+                  <StatCard
+                    label="Total Emails"
+                    value={stats.total_emails}
+                    icon={
+                      <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+                      </svg>
+                    }
+                  />
+                  <StatCard
+                    label="Total Opens"
+                    value={stats.total_opens}
+                    detail={`${stats.human_opens} human`}
+                    icon={
+                      <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                      </svg>
+                    }
+                  />
+                  <StatCard
+                    label="Emails Opened"
+                    value={stats.emails_opened}
+                    detail={`${stats.emails_opened_human} by a person`}
+                    icon={
+                      <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 19v-8.93a2 2 0 01.89-1.664l7-4.666a2 2 0 012.22 0l7 4.666A2 2 0 0121 10.07V19M3 19a2 2 0 002 2h14a2 2 0 002-2M3 19l6.75-4.5M21 19l-6.75-4.5M3 10l6.75 4.5M21 10l-6.75 4.5m0 0l-1.14.76a2 2 0 01-2.22 0l-1.14-.76" />
+                      </svg>
+                    }
+                  />
+                  <StatCard
+                    label="Total Clicks"
+                    value={stats.total_clicks}
+                    icon={
+                      <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+                      </svg>
+                    }
+                  />
+                  <StatCard
+                    label="Open Rate"
+                    value={`${stats.open_rate}%`}
+                    detail={`${stats.human_open_rate}% human`}
+                    icon={
+                      <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+                      </svg>
+                    }
+                    highlight
+                  />
+                </div>
+              )}
 
-            {/* Table */}
-            {sortedEmails.length === 0 ? (
-              <div className="px-6 py-16 text-center">
-                <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-gray-100">
-                  <svg className="h-8 w-8 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
-                  </svg>
+              {/* Email List */}
+              <div className="bg-white rounded-xl border border-[var(--border)] shadow-sm">
+                {/* Table Header */}
+                <div className="flex items-center justify-between gap-4 px-6 py-4 border-b border-[var(--border)]">
+                  <div className="flex flex-1 items-center gap-3">
+                    <input
+                      type="search"
+                      placeholder="Search subject or recipient"
+                      value={searchInput}
+                      onChange={(e) => setSearchInput(e.target.value)}
+                      className="w-64 px-4 py-2 rounded-lg border border-[var(--border)] bg-white text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-[var(--primary)] focus:border-transparent"
+                    />
+                    <select
+                      value={status}
+                      onChange={(e) => setStatus(e.target.value as typeof status)}
+                      className="px-4 py-2 rounded-lg border border-[var(--border)] bg-white text-sm font-medium text-gray-700 focus:outline-none focus:ring-2 focus:ring-[var(--primary)] focus:border-transparent"
+                    >
+                      <option value="all">All Emails</option>
+                      <option value="opened">Opened</option>
+                      <option value="unopened">Not Opened</option>
+                    </select>
+                    <select
+                      value={archived ? 'archived' : 'active'}
+                      onChange={(e) => setArchived(e.target.value === 'archived')}
+                      className="px-4 py-2 rounded-lg border border-[var(--border)] bg-white text-sm font-medium text-gray-700 focus:outline-none focus:ring-2 focus:ring-[var(--primary)] focus:border-transparent"
+                    >
+                      <option value="active">Active</option>
+                      <option value="archived">Archived</option>
+                    </select>
+                    {tag && (
+                      <button
+                        onClick={() => setTag('')}
+                        title="Clear tag filter"
+                        className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-sm font-medium bg-emerald-50 text-emerald-700 hover:bg-emerald-100 transition-colors"
+                      >
+                        #{tag}
+                        <svg className="h-3.5 w-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    )}
+                    <input
+                      type="date"
+                      value={fromDate}
+                      max={toDate || undefined}
+                      onChange={(e) => setFromDate(e.target.value)}
+                      title="Sent from"
+                      className="px-3 py-2 rounded-lg border border-[var(--border)] bg-white text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-[var(--primary)] focus:border-transparent"
+                    />
+                    <input
+                      type="date"
+                      value={toDate}
+                      min={fromDate || undefined}
+                      onChange={(e) => setToDate(e.target.value)}
+                      title="Sent until"
+                      className="px-3 py-2 rounded-lg border border-[var(--border)] bg-white text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-[var(--primary)] focus:border-transparent"
+                    />
+                    <select
+                      value={sortBy}
+                      onChange={(e) => setSortBy(e.target.value as EmailSort)}
+                      className="px-4 py-2 rounded-lg border border-[var(--border)] bg-white text-sm font-medium text-gray-700 focus:outline-none focus:ring-2 focus:ring-[var(--primary)] focus:border-transparent"
+                    >
+                      <option value="recent">Most Recent</option>
+                      <option value="oldest">Oldest</option>
+                      <option value="most_opens">Most Opens</option>
+                      <option value="last_opened">Last Opened</option>
+                    </select>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <p className="text-sm text-[var(--muted)] whitespace-nowrap">
+                      {totalEmails} {isFiltered ? 'matching' : 'tracked'} email{totalEmails !== 1 ? 's' : ''}
+                    </p>
+                    <select
+                      value={exportFormat}
+                      onChange={(e) => setExportFormat(e.target.value as typeof exportFormat)}
+                      title="Export format"
+                      className="px-3 py-2 rounded-lg border border-[var(--border)] bg-white text-sm font-medium text-gray-700 focus:outline-none focus:ring-2 focus:ring-[var(--primary)] focus:border-transparent"
+                    >
+                      <option value="csv">CSV</option>
+                      <option value="json">JSON</option>
+                      <option value="ndjson">NDJSON</option>
+                    </select>
+                    <button
+                      onClick={exportEmails}
+                      disabled={exporting || totalEmails === 0}
+                      className="px-4 py-2 rounded-lg border border-[var(--border)] bg-white text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50"
+                    >
+                      {exporting ? 'Exporting...' : 'Export'}
+                    </button>
+                  </div>
                 </div>
-                <h3 className="mb-2 text-lg font-medium text-gray-900">No tracked emails yet</h3>
-                <p className="text-[var(--muted)] max-w-sm mx-auto">
-                  Install the Chrome extension and start sending tracked emails to see them here.
-                </p>
+
+                {/* Bulk Actions */}
+                {selectedIds.size > 0 && (
+                  <div className="flex items-center gap-3 px-6 py-3 border-b border-[var(--border)] bg-emerald-50/50">
+                    <p className="text-sm font-medium text-gray-700 whitespace-nowrap">
+                      {selectedIds.size} selected
+                    </p>
+                    <button
+                      onClick={() => runBulkAction(archived ? 'unarchive' : 'archive')}
+                      disabled={bulkBusy}
+                      className="px-4 py-2 rounded-lg border border-[var(--border)] bg-white text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50"
+                    >
+                      {archived ? 'Unarchive' : 'Archive'}
+                    </button>
+                    <input
+                      type="text"
+                      placeholder="Tags, comma separated"
+                      value={bulkTags}
+                      onChange={(e) => setBulkTags(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && runBulkAction('tag')}
+                      className="w-56 px-4 py-2 rounded-lg border border-[var(--border)] bg-white text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-[var(--primary)] focus:border-transparent"
+                    />
+                    <button
+                      onClick={() => runBulkAction('tag')}
+                      disabled={bulkBusy || !bulkTags.trim()}
+                      className="px-4 py-2 rounded-lg border border-[var(--border)] bg-white text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50"
+                    >
+                      Add Tags
+                    </button>
+                    <button
+                      onClick={() => runBulkAction('delete')}
+                      disabled={bulkBusy}
+                      className="px-4 py-2 rounded-lg border border-red-200 bg-white text-sm font-medium text-red-600 hover:bg-red-50 transition-colors disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                    <button
+                      onClick={() => setSelectedIds(new Set())}
+                      className="ml-auto text-sm font-medium text-[var(--muted)] hover:text-gray-900 transition-colors"
+                    >
+                      Clear selection
+                    </button>
+                  </div>
+                )}
+
+                {/* Table */}
+                {emails.length === 0 && isFiltered ? (
+                  <p className="px-6 py-16 text-center text-[var(--muted)]">
+                    No emails match these filters.
+                  </p>
+                ) : emails.length === 0 ? (
+                  <div className="px-6 py-16 text-center">
+                    <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-gray-100">
+                      <svg className="h-8 w-8 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+                      </svg>
+                    </div>
+                    <h3 className="mb-2 text-lg font-medium text-gray-900">No tracked emails yet</h3>
+                    <p className="text-[var(--muted)] max-w-sm mx-auto">
+                      Install the Chrome extension and start sending tracked emails to see them here.
+                    </p>
+                  </div>
+                ) : (
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b border-[var(--border)] bg-gray-50/50">
+                        <th className="w-12 pl-6 py-3">
+                          <input
+                            type="checkbox"
+                            checked={allSelected}
+                            onChange={toggleAllSelected}
+                            aria-label="Select all"
+                            className="h-4 w-4 rounded border-gray-300 accent-[var(--primary)]"
+                          />
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-semibold text-[var(--muted-light)] uppercase tracking-wider">
+                          Recipient
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-semibold text-[var(--muted-light)] uppercase tracking-wider">
+                          Email
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-semibold text-[var(--muted-light)] uppercase tracking-wider">
+                          Activity
+                        </th>
+                        <th className="px-6 py-3 text-right text-xs font-semibold text-[var(--muted-light)] uppercase tracking-wider">
+                          Actions
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-[var(--border)]">
+                      {emails.map((email) => (
+                        <tr key={email.id} className="hover:bg-gray-50/50 transition-colors">
+                          <td className="w-12 pl-6 py-4">
+                            <input
+                              type="checkbox"
+                              checked={selectedIds.has(email.id)}
+                              onChange={() => toggleSelected(email.id)}
+                              aria-label={`Select email to ${email.recipient}`}
+                              className="h-4 w-4 rounded border-gray-300 accent-[var(--primary)]"
+                            />
+                          </td>
+                          <td className="px-6 py-4">
+                            <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-gray-100 text-gray-800">
+                              {email.recipient}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4">
+                            <div>
+                              <p className="font-medium text-gray-900 truncate max-w-xs">
+                                {email.subject || '(No subject)'}
+                              </p>
+                              <p className="text-sm text-[var(--muted)]">
+                                Sent on {formatDate(email.created_at)}
+                                {email.tracking_paused_at && <span className="text-amber-600"> · Tracking paused</span>}
+                              </p>
+                              {email.tags.length > 0 && (
+                                <div className="mt-1 flex flex-wrap gap-1">
+                                  {email.tags.map((emailTag) => (
+                                    <button
+                                      key={emailTag}
+                                      onClick={() => setTag(emailTag)}
+                                      className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700 hover:bg-emerald-50 hover:text-emerald-700 transition-colors"
+                                    >
+                                      #{emailTag}
+                                    </button>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
+                          </td>
+                          <td className="px-6 py-4">
+                            <div>
+                              <p className={`font-medium ${email.open_count > 0 ? 'text-[var(--primary)]' : 'text-gray-500'}`}>
+                                {email.open_count > 0 ? (
+                                  <>
+                                    {email.open_count} open{email.open_count !== 1 ? 's' : ''}
+                                    <span className="font-normal text-[var(--muted)]"> · {email.human_open_count} human</span>
+                                  </>
+                                ) : (
+                                  'Not opened'
+                                )}
+                              </p>
+                              {email.click_count > 0 ? (
+                                <p className="text-sm text-[var(--muted)]">
+                                  {email.click_count} click{email.click_count !== 1 ? 's' : ''}
+                                </p>
+                              ) : email.last_opened_at && (
+                                <p className="text-sm text-[var(--muted)]">
+                                  Last opened {formatRelativeTime(email.last_opened_at)}
+                                </p>
+                              )}
+                            </div>
+                          </td>
+                          <td className="px-6 py-4 text-right">
+                            <button
+                              onClick={() => fetchEmailDetails(email.id)}
+                              className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium text-[var(--primary)] hover:bg-emerald-50 transition-colors"
+                            >
+                              View Details
+                              <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                              </svg>
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+
+                {nextCursor && (
+                  <div className="px-6 py-4 border-t border-[var(--border)] text-center">
+                    <button
+                      onClick={loadMore}
+                      disabled={loadingMore}
+                      className="px-4 py-2 rounded-lg text-sm font-medium text-[var(--primary)] hover:bg-emerald-50 disabled:opacity-50 transition-colors"
+                    >
+                      {loadingMore ? 'Loading...' : `Load more (${totalEmails - emails.length} remaining)`}
+                    </button>
+                  </div>
+                )}
               </div>
-            ) : (
-              <table className="w-full">
-                <thead>
-                  <tr className="border-b border-[var(--border)] bg-gray-50/50">
-                    <th className="px-6 py-3 text-left text-xs font-semibold text-[var(--muted-light)] uppercase tracking-wider">
-                      Recipient
-                    </th>
-                    <th className="px-6 py-3 text-left text-xs font-semibold text-[var(--muted-light)] uppercase tracking-wider">
-                      Email
-                    </th>
-                    <th className="px-6 py-3 text-left text-xs font-semibold text-[var(--muted-light)] uppercase tracking-wider">
-                      Activity
-                    </th>
-                    <th className="px-6 py-3 text-right text-xs font-semibold text-[var(--muted-light)] uppercase tracking-wider">
-                      Actions
-                    </th>
-                  </tr>
-                </thead>
-                <tbody className="divide-y divide-[var(--border)]">
-                  {sortedEmails.map((email) => (
-                    <tr key={email.id} className="hover:bg-gray-50/50 transition-colors">
-                      <td className="px-6 py-4">
-                        <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-gray-100 text-gray-800">
-                          {email.recipient}
-                        </span>
-                      </td>
-                      <td className="px-6 py-4">
-                        <div>
-                          <p className="font-medium text-gray-900 truncate max-w-xs">
-                            {email.subject || '(No subject)'}
-                          </p>
-                          <p className="text-sm text-[var(--muted)]">
-                            Sent on {formatDate(email.created_at)}
-                          </p>
-                        </div>
-                      </td>
-                      <td className="px-6 py-4">
-                        <div>
-                          <p className={`font-medium ${email.open_count > 0 ? 'text-[var(--primary)]' : 'text-gray-500'}`}>
-                            {email.open_count > 0 ? (
-                              <>
-                                {email.open_count} open{email.open_count !== 1 ? 's' : ''}
-                              </>
-                            ) : (
-                              'Not opened'
-                            )}
-                          </p>
-                          {email.open_count > 0 && (
-                            <p className="text-sm text-[var(--muted)]">
-                              Tracking active
-                            </p>
-                          )}
-                        </div>
-                      </td>
-                      <td className="px-6 py-4 text-right">
-                        <button
-                          onClick={() => fetchEmailDetails(email.id)}
-                          className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium text-[var(--primary)] hover:bg-emerald-50 transition-colors"
-                        >
-                          View Details
-                          <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-                          </svg>
-                        </button>
-                      </td>
-                    </tr>
-                  ))}
-                </tbody>
-              </table>
-            )}
-          </div>
+            </>
+          )}
         </div>
       </main>
 
@@ -406,19 +932,54 @@ export default function Dashboard() {
                   <h3 className="text-xl font-semibold text-gray-900 mb-1">
                     {selectedEmail.subject || '(No subject)'}
                   </h3>
-                  <p className="text-[var(--muted)]">
-                    To: {selectedEmail.recipient}
-                  </p>
+                  {selectedEmail.recipients.length > 0 ? (
+                    (['to', 'cc', 'bcc'] as const).map((role) => {
+                      const addresses = selectedEmail.recipients.filter((r) => r.role === role);
+                      if (addresses.length === 0) return null;
+                      return (
+                        <p key={role} className="text-[var(--muted)]">
+                          <span className="capitalize">{role}</span>: {addresses.map((r) => r.address).join(', ')}
+                        </p>
+                      );
+                    })
+                  ) : (
+                    <p className="text-[var(--muted)]">
+                      To: {selectedEmail.recipient}
+                    </p>
+                  )}
                   <p className="text-sm text-[var(--muted)]">
                     Sent: {formatDate(selectedEmail.created_at)}
                   </p>
+                  {selectedEmail.thread_id && (
+                    <div className="flex items-center gap-4 mt-2 text-sm font-medium">
+                      <button
+                        onClick={() => setSelectedThreadId(selectedEmail.thread_id)}
+                        className="text-[var(--primary)] hover:underline"
+                      >
+                        View conversation
+                      </button>
+                      <a
+                        href={gmailThreadUrl(selectedEmail.thread_id)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-[var(--primary)] hover:underline"
+                      >
+                        Open in Gmail
+                      </a>
+                    </div>
+                  )}
                 </div>
 
                 {/* Stats */}
-                <div className="grid grid-cols-2 gap-4 mb-6">
+                <div className="grid grid-cols-3 gap-4 mb-6">
                   <div className="p-4 rounded-xl bg-emerald-50 border border-emerald-100">
                     <p className="text-2xl font-bold text-[var(--primary)]">{selectedEmail.open_count}</p>
                     <p className="text-sm text-emerald-700">Total Opens</p>
+                    <p className="text-xs text-emerald-700 mt-1">{selectedEmail.human_open_count} human</p>
+                  </div>
+                  <div className="p-4 rounded-xl bg-gray-50 border border-gray-100">
+                    <p className="text-2xl font-bold text-gray-900">{selectedEmail.click_count}</p>
+                    <p className="text-sm text-gray-600">Link Clicks</p>
                   </div>
                   <div className="p-4 rounded-xl bg-gray-50 border border-gray-100">
                     <p className="text-2xl font-bold text-gray-900">
@@ -448,13 +1009,18 @@ export default function Dashboard() {
                               </p>
                               <p className="text-sm text-[var(--muted)] mt-1">
                                 IP: {open.ip_address || 'Unknown'}
+                                {open.as_org && ` · ${open.as_org}`}
                               </p>
                             </div>
-                            <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-emerald-100 text-emerald-800">
-                              Opened
+                            <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${CLASSIFICATION_BADGES[open.classification].className}`}>
+                              {CLASSIFICATION_BADGES[open.classification].label}
                             </span>
                           </div>
-                          {open.user_agent && (
+                          {describeOpen(open) ? (
+                            <p className="text-sm text-gray-700 mt-2" title={open.user_agent || undefined}>
+                              {describeOpen(open)}
+                            </p>
+                          ) : open.user_agent && (
                             <p className="text-xs text-[var(--muted-light)] mt-2 truncate">
                               {open.user_agent}
                             </p>
@@ -465,6 +1031,42 @@ export default function Dashboard() {
                   )}
                 </div>
 
+                {/* Link Clicks */}
+                {selectedEmail.links.length > 0 && (
+                  <div className="mt-6">
+                    <h4 className="text-sm font-semibold text-gray-900 uppercase tracking-wider mb-3">
+                      Link Clicks
+                    </h4>
+                    <div className="space-y-3">
+                      {selectedEmail.links.map((link) => {
+                        const lastClick = selectedEmail.clicks.find((click) => click.link_id === link.id);
+                        return (
+                          <div key={link.id} className="p-4 rounded-lg bg-gray-50 border border-gray-100">
+                            <div className="flex items-start justify-between gap-3">
+                              <a
+                                href={link.url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-sm font-medium text-gray-900 truncate hover:text-[var(--primary)]"
+                              >
+                                {link.url}
+                              </a>
+                              <span className={`inline-flex flex-shrink-0 items-center px-2 py-1 rounded-full text-xs font-medium ${link.click_count > 0 ? 'bg-emerald-100 text-emerald-800' : 'bg-gray-100 text-gray-600'}`}>
+                                {link.click_count} click{link.click_count !== 1 ? 's' : ''}
+                              </span>
+                            </div>
+                            {lastClick && (
+                              <p className="text-sm text-[var(--muted)] mt-1">
+                                Last clicked {formatRelativeTime(lastClick.clicked_at)}
+                              </p>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+
                 {/* Tracking Pixel Info */}
                 <div className="mt-6 p-4 rounded-xl bg-amber-50 border border-amber-100">
                   <div className="flex gap-3">
@@ -482,6 +1084,11 @@ export default function Dashboard() {
           </div>
         </div>
       )}
+
+      {/* Conversation Slide-over */}
+      {selectedThreadId && (
+        <ThreadView threadId={selectedThreadId} onClose={() => setSelectedThreadId(null)} />
+      )}
     </div>
   );
 }
@@ -491,11 +1098,13 @@ function StatCard({
   label,
   value,
   icon,
+  detail,
   highlight = false,
 }: {
   label: string;
   value: number | string;
   icon: React.ReactNode;
+  detail?: string;
   highlight?: boolean;
 }) {
   return (
@@ -507,6 +1116,9 @@ function StatCard({
       </div>
       <p className={`text-3xl font-bold ${highlight ? 'text-[var(--primary)]' : 'text-gray-900'}`}>{value}</p>
       <p className={`text-sm mt-1 ${highlight ? 'text-emerald-700' : 'text-[var(--muted)]'}`}>{label}</p>
+      {detail && (
+        <p className={`text-xs mt-1 ${highlight ? 'text-emerald-600' : 'text-[var(--muted-light)]'}`}>{detail}</p>
+      )}
     </div>
   );
 }
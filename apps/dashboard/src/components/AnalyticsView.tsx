@@ -0,0 +1,220 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { apiFetch } from '@/lib/api';
+import { formatDuration } from '@/lib/format';
+
+// Types matching the server
+type StatsInterval = 'hour' | 'day' | 'week';
+
+interface TimeseriesBucket {
+  bucket: string;
+  emails_sent: number;
+  opens: number;
+  human_opens: number;
+}
+
+interface EngagementStats {
+  time_to_first_open: {
+    count: number;
+    average: number | null;
+    p50: number | null;
+    p75: number | null;
+    p90: number | null;
+    p95: number | null;
+  };
+  heatmap: number[][];
+  emails_opened: number;
+  emails_reopened: number;
+  reopen_rate: number;
+}
+
+const RANGES = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+];
+
+// The server caps a series at 1000 buckets
+const MAX_HOURLY_DAYS = 41;
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function buildQuery(days: number): string {
+  // Whole local days, ending at the end of today
+  const to = new Date();
+  to.setHours(24, 0, 0, 0);
+  const from = new Date(to);
+  from.setDate(from.getDate() - days);
+
+  const params = new URLSearchParams({
+    from: from.toISOString(),
+    to: to.toISOString(),
+    utc_offset: String(-new Date().getTimezoneOffset()),
+  });
+  return params.toString();
+}
+
+function formatBucket(bucket: string, interval: StatsInterval): string {
+  if (interval === 'hour') return bucket.slice(5);
+  const date = new Date(`${bucket}T00:00:00`);
+  const label = date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  return interval === 'week' ? `Week of ${label}` : label;
+}
+
+export default function AnalyticsView({ refreshKey }: { refreshKey: number }) {
+  const [days, setDays] = useState(30);
+  const [bucketInterval, setBucketInterval] = useState<StatsInterval>('day');
+  const [buckets, setBuckets] = useState<TimeseriesBucket[]>([]);
+  const [engagement, setEngagement] = useState<EngagementStats | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAnalytics = useCallback(async () => {
+    try {
+      const query = buildQuery(days);
+      const [timeseriesRes, engagementRes] = await Promise.all([
+        apiFetch(`/api/stats/timeseries?${query}&interval=${bucketInterval}`),
+        apiFetch(`/api/stats/engagement?${query}`),
+      ]);
+      if (!timeseriesRes.ok || !engagementRes.ok) {
+        throw new Error('Failed to fetch analytics');
+      }
+      setBuckets((await timeseriesRes.json()).buckets);
+      setEngagement(await engagementRes.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to connect to server');
+    }
+  }, [days, bucketInterval]);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fetchAnalytics, refreshKey]);
+
+  const selectRange = (rangeDays: number) => {
+    setDays(rangeDays);
+    if (bucketInterval === 'hour' && rangeDays > MAX_HOURLY_DAYS) {
+      setBucketInterval('day');
+    }
+  };
+
+  const maxBucket = Math.max(1, ...buckets.map((b) => Math.max(b.emails_sent, b.opens)));
+  const maxHeat = Math.max(1, ...(engagement?.heatmap.flat() ?? []));
+  const latency = engagement?.time_to_first_open;
+
+  return (
+    <div className="space-y-6">
+      {/* Range Picker */}
+      <div className="flex items-center justify-between">
+        <div className="inline-flex rounded-lg border border-[var(--border)] bg-white p-1">
+          {RANGES.map((range) => (
+            <button
+              key={range.days}
+              onClick={() => selectRange(range.days)}
+              className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${days === range.days ? 'bg-emerald-50 text-[var(--primary)]' : 'text-gray-600 hover:bg-gray-50'}`}
+            >
+              {range.label}
+            </button>
+          ))}
+        </div>
+        <select
+          value={bucketInterval}
+          onChange={(e) => setBucketInterval(e.target.value as StatsInterval)}
+          className="px-3 py-2 rounded-lg border border-[var(--border)] bg-white text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-[var(--primary)]"
+        >
+          <option value="hour" disabled={days > MAX_HOURLY_DAYS}>Hourly</option>
+          <option value="day">Daily</option>
+          <option value="week">Weekly</option>
+        </select>
+      </div>
+
+      {error && <p className="text-center text-red-600">{error}</p>}
+
+      {/* Sends and Opens */}
+      <div className="bg-white rounded-xl border border-[var(--border)] shadow-sm p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-semibold text-gray-900">Sends and Opens</h3>
+          <div className="flex items-center gap-4 text-sm text-[var(--muted)]">
+            <span className="flex items-center gap-1.5"><span className="h-2.5 w-2.5 rounded-sm bg-gray-300" /> Sent</span>
+            <span className="flex items-center gap-1.5"><span className="h-2.5 w-2.5 rounded-sm bg-[var(--primary)]" /> Opens</span>
+          </div>
+        </div>
+        <div className="flex items-end gap-px h-48">
+          {buckets.map((b) => (
+            <div
+              key={b.bucket}
+              className="flex-1 h-full flex items-end gap-px"
+              title={`${formatBucket(b.bucket, bucketInterval)}: ${b.emails_sent} sent, ${b.opens} opens (${b.human_opens} human)`}
+            >
+              <div className="flex-1 rounded-t-sm bg-gray-300" style={{ height: `${(b.emails_sent / maxBucket) * 100}%` }} />
+              <div className="flex-1 rounded-t-sm bg-[var(--primary)]" style={{ height: `${(b.opens / maxBucket) * 100}%` }} />
+            </div>
+          ))}
+        </div>
+        {buckets.length > 0 && (
+          <div className="flex justify-between mt-2 text-xs text-[var(--muted-light)]">
+            <span>{formatBucket(buckets[0].bucket, bucketInterval)}</span>
+            <span>{formatBucket(buckets[buckets.length - 1].bucket, bucketInterval)}</span>
+          </div>
+        )}
+      </div>
+
+      {/* Engagement */}
+      {engagement && latency && (
+        <div className="grid grid-cols-4 gap-6">
+          <div className="bg-white rounded-xl border border-[var(--border)] p-6 shadow-sm">
+            <p className="text-sm font-medium text-[var(--muted)]">Median Time to Open</p>
+            <p className="mt-2 text-3xl font-bold text-gray-900">{formatDuration(latency.p50)}</p>
+            <p className="mt-1 text-xs text-[var(--muted-light)]">{latency.count} opened email{latency.count !== 1 ? 's' : ''}</p>
+          </div>
+          <div className="bg-white rounded-xl border border-[var(--border)] p-6 shadow-sm">
+            <p className="text-sm font-medium text-[var(--muted)]">75th / 90th Percentile</p>
+            <p className="mt-2 text-3xl font-bold text-gray-900">{formatDuration(latency.p75)}</p>
+            <p className="mt-1 text-xs text-[var(--muted-light)]">90% within {formatDuration(latency.p90)}</p>
+          </div>
+          <div className="bg-white rounded-xl border border-[var(--border)] p-6 shadow-sm">
+            <p className="text-sm font-medium text-[var(--muted)]">95th Percentile</p>
+            <p className="mt-2 text-3xl font-bold text-gray-900">{formatDuration(latency.p95)}</p>
+            <p className="mt-1 text-xs text-[var(--muted-light)]">Average {formatDuration(latency.average)}</p>
+          </div>
+          <div className="bg-white rounded-xl border border-[var(--border)] p-6 shadow-sm">
+            <p className="text-sm font-medium text-[var(--muted)]">Re-open Rate</p>
+            <p className="mt-2 text-3xl font-bold text-gray-900">{engagement.reopen_rate}%</p>
+            <p className="mt-1 text-xs text-[var(--muted-light)]">
+              {engagement.emails_reopened} of {engagement.emails_opened} opened more than once
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Heatmap */}
+      {engagement && (
+        <div className="bg-white rounded-xl border border-[var(--border)] shadow-sm p-6">
+          <h3 className="font-semibold text-gray-900 mb-1">When Emails Get Opened</h3>
+          <p className="text-sm text-[var(--muted)] mb-4">Human opens by day and hour, in your time zone.</p>
+          <div className="space-y-1">
+            {engagement.heatmap.map((hours, day) => (
+              <div key={day} className="flex items-center gap-1">
+                <span className="w-10 text-xs text-[var(--muted)]">{DAY_NAMES[day]}</span>
+                {hours.map((opens, hour) => (
+                  <div
+                    key={hour}
+                    className="flex-1 h-6 rounded-sm bg-[var(--primary)]"
+                    style={{ opacity: opens === 0 ? 0.06 : 0.2 + (opens / maxHeat) * 0.8 }}
+                    title={`${DAY_NAMES[day]} ${hour}:00 - ${opens} open${opens !== 1 ? 's' : ''}`}
+                  />
+                ))}
+              </div>
+            ))}
+            <div className="flex items-center gap-1 text-xs text-[var(--muted-light)]">
+              <span className="w-10" />
+              {Array.from({ length: 24 }, (_, hour) => (
+                <span key={hour} className="flex-1 text-center">{hour % 3 === 0 ? hour : ''}</span>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { apiFetch } from '@/lib/api';
+import { formatDate, formatRelativeTime } from '@/lib/format';
+
+// Types matching the server
+interface ApiKey {
+  id: number;
+  name: string;
+  prefix: string;
+  created_at: string;
+  last_used_at: string | null;
+}
+
+export default function ApiKeysView({ refreshKey }: { refreshKey: number }) {
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [newKey, setNewKey] = useState<string | null>(null);
+
+  const fetchKeys = useCallback(async () => {
+    try {
+      const res = await apiFetch('/api/keys');
+      if (!res.ok) {
+        throw new Error('Failed to fetch API keys');
+      }
+      setKeys(await res.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to connect to server');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchKeys();
+  }, [fetchKeys, refreshKey]);
+
+  const createKey = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const res = await apiFetch('/api/keys', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name }),
+    });
+    if (res.ok) {
+      const data = await res.json();
+      setNewKey(data.key);
+      setName('');
+      fetchKeys();
+    }
+  };
+
+  const revokeKey = async (id: number) => {
+    const res = await apiFetch(`/api/keys/${id}`, { method: 'DELETE' });
+    if (res.ok) {
+      fetchKeys();
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-[var(--border)] shadow-sm">
+      {/* Create Key */}
+      <form onSubmit={createKey} className="flex items-center gap-4 px-6 py-4 border-b border-[var(--border)]">
+        <input
+          type="text"
+          placeholder="Key name, e.g. Chrome extension"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          required
+          className="flex-1 px-4 py-2 rounded-lg border border-[var(--border)] bg-white text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-[var(--primary)] focus:border-transparent"
+        />
+        <button
+          type="submit"
+          className="rounded-lg bg-[var(--primary)] px-4 py-2 text-sm text-white font-medium hover:bg-[var(--primary-hover)] transition-colors"
+        >
+          Create Key
+        </button>
+      </form>
+
+      {newKey && (
+        <div className="mx-6 mt-4 p-4 rounded-xl bg-amber-50 border border-amber-100">
+          <p className="text-sm font-medium text-amber-800">
+            Copy this key now - it won&apos;t be shown again.
+          </p>
+          <code className="mt-1 block text-xs text-amber-700 font-mono break-all">{newKey}</code>
+        </div>
+      )}
+
+      {error ? (
+        <p className="px-6 py-16 text-center text-red-600">{error}</p>
+      ) : keys.length === 0 ? (
+        <p className="px-6 py-16 text-center text-[var(--muted)]">
+          Create a key and paste it into the extension to start tracking.
+        </p>
+      ) : (
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-[var(--border)] bg-gray-50/50">
+              <th className="px-6 py-3 text-left text-xs font-semibold text-[var(--muted-light)] uppercase tracking-wider">
+                Name
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-semibold text-[var(--muted-light)] uppercase tracking-wider">
+                Key
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-semibold text-[var(--muted-light)] uppercase tracking-wider">
+                Last Used
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-semibold text-[var(--muted-light)] uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-[var(--border)]">
+            {keys.map((key) => (
+              <tr key={key.id} className="hover:bg-gray-50/50 transition-colors">
+                <td className="px-6 py-4">
+                  <p className="font-medium text-gray-900">{key.name}</p>
+                  <p className="text-sm text-[var(--muted)]">Created {formatDate(key.created_at)}</p>
+                </td>
+                <td className="px-6 py-4">
+                  <code className="text-sm text-gray-700 font-mono">{key.prefix}…</code>
+                </td>
+                <td className="px-6 py-4 text-sm text-[var(--muted)]">
+                  {key.last_used_at ? formatRelativeTime(key.last_used_at) : 'Never'}
+                </td>
+                <td className="px-6 py-4 text-right">
+                  <button
+                    onClick={() => revokeKey(key.id)}
+                    className="px-3 py-1.5 rounded-lg text-sm font-medium text-red-600 hover:bg-red-50 transition-colors"
+                  >
+                    Revoke
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
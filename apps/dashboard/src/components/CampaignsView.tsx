@@ -0,0 +1,319 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { apiFetch } from '@/lib/api';
+import { formatDate, formatDuration, formatRelativeTime } from '@/lib/format';
+
+// Types matching the server
+interface CampaignVariant {
+  id: number;
+  name: string;
+  subject: string | null;
+}
+
+interface CampaignSummary {
+  id: number;
+  name: string;
+  description: string | null;
+  created_at: string;
+  variants: CampaignVariant[];
+  email_count: number;
+  emails_opened: number;
+  open_rate: number;
+}
+
+interface CampaignStats {
+  email_count: number;
+  emails_opened: number;
+  open_rate: number;
+  recipient_count: number;
+  recipients_reached: number;
+  median_seconds_to_open: number | null;
+}
+
+interface CampaignReport {
+  id: number;
+  name: string;
+  description: string | null;
+  created_at: string;
+  stats: CampaignStats;
+  variants: (CampaignVariant & CampaignStats)[];
+  comparison: {
+    leader: string;
+    runner_up: string;
+    difference: number;
+    z: number;
+    p_value: number;
+    significant: boolean;
+  } | null;
+  top_recipients: {
+    address: string;
+    email_count: number;
+    open_count: number;
+    click_count: number;
+    last_opened_at: string | null;
+  }[];
+}
+
+export default function CampaignsView({ refreshKey }: { refreshKey: number }) {
+  const [campaigns, setCampaigns] = useState<CampaignSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedCampaign, setSelectedCampaign] = useState<CampaignReport | null>(null);
+
+  const fetchCampaigns = useCallback(async () => {
+    try {
+      const res = await apiFetch('/api/campaigns');
+      if (!res.ok) {
+        throw new Error('Failed to fetch campaigns');
+      }
+      setCampaigns(await res.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to connect to server');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCampaigns();
+  }, [fetchCampaigns, refreshKey]);
+
+  const fetchCampaignReport = async (id: number) => {
+    try {
+      const res = await apiFetch(`/api/campaigns/${id}`);
+      if (res.ok) {
+        const data = await res.json();
+        setSelectedCampaign(data);
+      }
+    } catch {
+      console.error('Failed to fetch campaign report');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-16">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-[var(--border)] border-t-[var(--primary)]" />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="bg-white rounded-xl border border-[var(--border)] shadow-sm">
+        {/* Table Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--border)]">
+          <p className="text-sm font-medium text-gray-700">
+            Only human and image-proxy opens count towards a campaign.
+          </p>
+          <p className="text-sm text-[var(--muted)]">
+            {campaigns.length} campaign{campaigns.length !== 1 ? 's' : ''}
+          </p>
+        </div>
+
+        {error ? (
+          <p className="px-6 py-16 text-center text-red-600">{error}</p>
+        ) : campaigns.length === 0 ? (
+          <div className="px-6 py-16 text-center">
+            <h3 className="mb-2 text-lg font-medium text-gray-900">No campaigns yet</h3>
+            <p className="text-[var(--muted)] max-w-sm mx-auto">
+              Create one with POST /api/campaigns, then pass its campaign_id when creating emails.
+            </p>
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-[var(--border)] bg-gray-50/50">
+                <th className="px-6 py-3 text-left text-xs font-semibold text-[var(--muted-light)] uppercase tracking-wider">
+                  Campaign
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-[var(--muted-light)] uppercase tracking-wider">
+                  Emails
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-[var(--muted-light)] uppercase tracking-wider">
+                  Open Rate
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-[var(--muted-light)] uppercase tracking-wider">
+                  Variants
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-semibold text-[var(--muted-light)] uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-[var(--border)]">
+              {campaigns.map((campaign) => (
+                <tr key={campaign.id} className="hover:bg-gray-50/50 transition-colors">
+                  <td className="px-6 py-4">
+                    <p className="font-medium text-gray-900">{campaign.name}</p>
+                    <p className="text-sm text-[var(--muted)]">
+                      Created {formatRelativeTime(campaign.created_at)}
+                    </p>
+                  </td>
+                  <td className="px-6 py-4 font-medium text-gray-900">{campaign.email_count}</td>
+                  <td className="px-6 py-4">
+                    <p className={`font-medium ${campaign.emails_opened > 0 ? 'text-[var(--primary)]' : 'text-gray-500'}`}>
+                      {campaign.open_rate}%
+                    </p>
+                    <p className="text-sm text-[var(--muted)]">
+                      {campaign.emails_opened} of {campaign.email_count} opened
+                    </p>
+                  </td>
+                  <td className="px-6 py-4">
+                    {campaign.variants.length === 0 ? (
+                      <span className="text-sm text-[var(--muted)]">—</span>
+                    ) : (
+                      <div className="flex flex-wrap gap-1">
+                        {campaign.variants.map((variant) => (
+                          <span
+                            key={variant.id}
+                            className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-600"
+                          >
+                            {variant.name}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-right">
+                    <button
+                      onClick={() => fetchCampaignReport(campaign.id)}
+                      className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium text-[var(--primary)] hover:bg-emerald-50 transition-colors"
+                    >
+                      View Report
+                      <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                      </svg>
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Campaign Slide-over */}
+      {selectedCampaign && (
+        <div className="fixed inset-0 z-50 overflow-hidden">
+          <div className="absolute inset-0 bg-black/20 backdrop-blur-sm" onClick={() => setSelectedCampaign(null)} />
+          <div className="absolute right-0 top-0 bottom-0 w-full max-w-2xl bg-white shadow-2xl">
+            <div className="h-full flex flex-col">
+              {/* Header */}
+              <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--border)]">
+                <h2 className="text-lg font-semibold text-gray-900">Campaign Report</h2>
+                <button
+                  onClick={() => setSelectedCampaign(null)}
+                  className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
+                >
+                  <svg className="h-5 w-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+
+              {/* Content */}
+              <div className="flex-1 overflow-auto p-6">
+                <h3 className="text-xl font-semibold text-gray-900">{selectedCampaign.name}</h3>
+                <p className="text-sm text-[var(--muted)] mt-1 mb-6">
+                  {selectedCampaign.description || `Created ${formatDate(selectedCampaign.created_at)}`}
+                </p>
+
+                {/* Stats */}
+                <div className="grid grid-cols-3 gap-4 mb-6">
+                  <div className="p-4 rounded-xl bg-gray-50 border border-gray-100">
+                    <p className="text-2xl font-bold text-gray-900">{selectedCampaign.stats.recipients_reached}</p>
+                    <p className="text-sm text-gray-600">Recipients Reached</p>
+                    <p className="text-xs text-gray-600 mt-1">of {selectedCampaign.stats.recipient_count} recipients</p>
+                  </div>
+                  <div className="p-4 rounded-xl bg-emerald-50 border border-emerald-100">
+                    <p className="text-2xl font-bold text-[var(--primary)]">{selectedCampaign.stats.open_rate}%</p>
+                    <p className="text-sm text-emerald-700">Open Rate</p>
+                    <p className="text-xs text-emerald-700 mt-1">
+                      {selectedCampaign.stats.emails_opened} of {selectedCampaign.stats.email_count} emails
+                    </p>
+                  </div>
+                  <div className="p-4 rounded-xl bg-gray-50 border border-gray-100">
+                    <p className="text-2xl font-bold text-gray-900">
+                      {formatDuration(selectedCampaign.stats.median_seconds_to_open)}
+                    </p>
+                    <p className="text-sm text-gray-600">Median Time to Open</p>
+                  </div>
+                </div>
+
+                {/* Variants */}
+                {selectedCampaign.variants.length > 0 && (
+                  <>
+                    <h4 className="text-sm font-semibold text-gray-900 uppercase tracking-wider mb-3">
+                      Variants
+                    </h4>
+                    <div className="grid grid-cols-2 gap-4 mb-3">
+                      {selectedCampaign.variants.map((variant) => {
+                        const leading = selectedCampaign.comparison?.leader === variant.name;
+                        return (
+                          <div
+                            key={variant.id}
+                            className={`p-4 rounded-lg border ${leading ? 'bg-emerald-50 border-emerald-100' : 'bg-gray-50 border-gray-100'}`}
+                          >
+                            <div className="flex items-start justify-between gap-3">
+                              <p className="font-medium text-gray-900">{variant.name}</p>
+                              <p className={`text-lg font-bold ${leading ? 'text-[var(--primary)]' : 'text-gray-900'}`}>
+                                {variant.open_rate}%
+                              </p>
+                            </div>
+                            <p className="text-sm text-[var(--muted)] mt-1 truncate">
+                              {variant.subject || '(Subject set per email)'}
+                            </p>
+                            <p className="text-sm text-gray-700 mt-2">
+                              {variant.emails_opened} of {variant.email_count} opened · median{' '}
+                              {formatDuration(variant.median_seconds_to_open)}
+                            </p>
+                          </div>
+                        );
+                      })}
+                    </div>
+                    <p
+                      className={`text-sm mb-6 ${selectedCampaign.comparison?.significant ? 'text-[var(--primary)] font-medium' : 'text-[var(--muted)]'}`}
+                    >
+                      {selectedCampaign.comparison
+                        ? `${selectedCampaign.comparison.leader} leads ${selectedCampaign.comparison.runner_up} by ${selectedCampaign.comparison.difference} points (p = ${selectedCampaign.comparison.p_value}) · ${selectedCampaign.comparison.significant ? 'significant' : 'not significant yet'}`
+                        : 'Variants are compared once at least two have been sent.'}
+                    </p>
+                  </>
+                )}
+
+                {/* Top Recipients */}
+                <h4 className="text-sm font-semibold text-gray-900 uppercase tracking-wider mb-3">
+                  Top Recipients
+                </h4>
+                {selectedCampaign.top_recipients.length === 0 ? (
+                  <p className="text-[var(--muted)] text-sm py-4">
+                    No one in this campaign has opened an email yet.
+                  </p>
+                ) : (
+                  <div className="space-y-3">
+                    {selectedCampaign.top_recipients.map((recipient) => (
+                      <div key={recipient.address} className="p-4 rounded-lg bg-gray-50 border border-gray-100">
+                        <p className="font-medium text-gray-900 truncate">{recipient.address}</p>
+                        <p className="text-sm text-[var(--muted)] mt-1">
+                          {recipient.open_count} open{recipient.open_count !== 1 ? 's' : ''}
+                          {' · '}
+                          {recipient.click_count} click{recipient.click_count !== 1 ? 's' : ''}
+                          {' · '}
+                          {recipient.email_count} email{recipient.email_count !== 1 ? 's' : ''}
+                          {recipient.last_opened_at && ` · last ${formatRelativeTime(recipient.last_opened_at)}`}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,241 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { apiFetch } from '@/lib/api';
+import { formatDate, formatRelativeTime } from '@/lib/format';
+
+// Types matching the server
+interface Contact {
+  id: number;
+  address: string;
+  created_at: string;
+  email_count: number;
+  emails_opened: number;
+  open_count: number;
+  open_rate: number;
+  last_emailed_at: string | null;
+  last_opened_at: string | null;
+}
+
+interface ContactWithHistory extends Contact {
+  emails: {
+    id: string;
+    recipient: string;
+    subject: string | null;
+    created_at: string;
+    role: 'to' | 'cc' | 'bcc';
+    open_count: number;
+    last_opened_at: string | null;
+  }[];
+}
+
+export default function ContactsView({ refreshKey }: { refreshKey: number }) {
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedContact, setSelectedContact] = useState<ContactWithHistory | null>(null);
+
+  const fetchContacts = useCallback(async () => {
+    try {
+      const res = await apiFetch('/api/contacts');
+      if (!res.ok) {
+        throw new Error('Failed to fetch contacts');
+      }
+      setContacts(await res.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to connect to server');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchContacts();
+  }, [fetchContacts, refreshKey]);
+
+  const fetchContactDetails = async (address: string) => {
+    try {
+      const res = await apiFetch(`/api/contacts/${encodeURIComponent(address)}`);
+      if (res.ok) {
+        const data = await res.json();
+        setSelectedContact(data);
+      }
+    } catch {
+      console.error('Failed to fetch contact details');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-16">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-[var(--border)] border-t-[var(--primary)]" />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="bg-white rounded-xl border border-[var(--border)] shadow-sm">
+        {/* Table Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--border)]">
+          <p className="text-sm font-medium text-gray-700">
+            Opens are counted per email, so every recipient on a shared email shares its opens.
+          </p>
+          <p className="text-sm text-[var(--muted)]">
+            {contacts.length} contact{contacts.length !== 1 ? 's' : ''}
+          </p>
+        </div>
+
+        {error ? (
+          <p className="px-6 py-16 text-center text-red-600">{error}</p>
+        ) : contacts.length === 0 ? (
+          <div className="px-6 py-16 text-center">
+            <h3 className="mb-2 text-lg font-medium text-gray-900">No contacts yet</h3>
+            <p className="text-[var(--muted)] max-w-sm mx-auto">
+              Contacts appear here once you send a tracked email.
+            </p>
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-[var(--border)] bg-gray-50/50">
+                <th className="px-6 py-3 text-left text-xs font-semibold text-[var(--muted-light)] uppercase tracking-wider">
+                  Contact
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-[var(--muted-light)] uppercase tracking-wider">
+                  Emails
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-[var(--muted-light)] uppercase tracking-wider">
+                  Open Rate
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-[var(--muted-light)] uppercase tracking-wider">
+                  Last Opened
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-semibold text-[var(--muted-light)] uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-[var(--border)]">
+              {contacts.map((contact) => (
+                <tr key={contact.id} className="hover:bg-gray-50/50 transition-colors">
+                  <td className="px-6 py-4">
+                    <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-gray-100 text-gray-800">
+                      {contact.address}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4">
+                    <p className="font-medium text-gray-900">{contact.email_count}</p>
+                    {contact.last_emailed_at && (
+                      <p className="text-sm text-[var(--muted)]">
+                        Last sent {formatRelativeTime(contact.last_emailed_at)}
+                      </p>
+                    )}
+                  </td>
+                  <td className="px-6 py-4">
+                    <p className={`font-medium ${contact.emails_opened > 0 ? 'text-[var(--primary)]' : 'text-gray-500'}`}>
+                      {contact.open_rate}%
+                    </p>
+                    <p className="text-sm text-[var(--muted)]">
+                      {contact.emails_opened} of {contact.email_count} opened
+                    </p>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-[var(--muted)]">
+                    {contact.last_opened_at ? formatRelativeTime(contact.last_opened_at) : '—'}
+                  </td>
+                  <td className="px-6 py-4 text-right">
+                    <button
+                      onClick={() => fetchContactDetails(contact.address)}
+                      className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium text-[var(--primary)] hover:bg-emerald-50 transition-colors"
+                    >
+                      View History
+                      <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                      </svg>
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Contact Slide-over */}
+      {selectedContact && (
+        <div className="fixed inset-0 z-50 overflow-hidden">
+          <div className="absolute inset-0 bg-black/20 backdrop-blur-sm" onClick={() => setSelectedContact(null)} />
+          <div className="absolute right-0 top-0 bottom-0 w-full max-w-lg bg-white shadow-2xl">
+            <div className="h-full flex flex-col">
+              {/* Header */}
+              <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--border)]">
+                <h2 className="text-lg font-semibold text-gray-900">Contact History</h2>
+                <button
+                  onClick={() => setSelectedContact(null)}
+                  className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
+                >
+                  <svg className="h-5 w-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+
+              {/* Content */}
+              <div className="flex-1 overflow-auto p-6">
+                <h3 className="text-xl font-semibold text-gray-900 mb-6 break-all">
+                  {selectedContact.address}
+                </h3>
+
+                {/* Stats */}
+                <div className="grid grid-cols-3 gap-4 mb-6">
+                  <div className="p-4 rounded-xl bg-gray-50 border border-gray-100">
+                    <p className="text-2xl font-bold text-gray-900">{selectedContact.email_count}</p>
+                    <p className="text-sm text-gray-600">Emails</p>
+                  </div>
+                  <div className="p-4 rounded-xl bg-emerald-50 border border-emerald-100">
+                    <p className="text-2xl font-bold text-[var(--primary)]">{selectedContact.open_rate}%</p>
+                    <p className="text-sm text-emerald-700">Open Rate</p>
+                  </div>
+                  <div className="p-4 rounded-xl bg-gray-50 border border-gray-100">
+                    <p className="text-2xl font-bold text-gray-900">{selectedContact.open_count}</p>
+                    <p className="text-sm text-gray-600">Total Opens</p>
+                  </div>
+                </div>
+
+                {/* Email History */}
+                <h4 className="text-sm font-semibold text-gray-900 uppercase tracking-wider mb-3">
+                  Email History
+                </h4>
+                <div className="space-y-3">
+                  {selectedContact.emails.map((email) => (
+                    <div key={email.id} className="p-4 rounded-lg bg-gray-50 border border-gray-100">
+                      <div className="flex items-start justify-between gap-3">
+                        <div className="min-w-0">
+                          <p className="font-medium text-gray-900 truncate">
+                            {email.subject || '(No subject)'}
+                          </p>
+                          <p className="text-sm text-[var(--muted)] mt-1">
+                            Sent {formatDate(email.created_at)}
+                          </p>
+                        </div>
+                        <span className="inline-flex flex-shrink-0 items-center px-2 py-1 rounded-full text-xs font-medium uppercase bg-gray-100 text-gray-600">
+                          {email.role}
+                        </span>
+                      </div>
+                      <p className={`text-sm mt-2 ${email.open_count > 0 ? 'text-[var(--primary)]' : 'text-gray-500'}`}>
+                        {email.open_count > 0 && email.last_opened_at
+                          ? `${email.open_count} open${email.open_count !== 1 ? 's' : ''} · last ${formatRelativeTime(email.last_opened_at)}`
+                          : 'Not opened'}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
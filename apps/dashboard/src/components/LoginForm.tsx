@@ -0,0 +1,119 @@
+'use client';
+
+import { useState } from 'react';
+import { API_BASE, setToken } from '@/lib/api';
+
+export default function LoginForm() {
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [name, setName] = useState('');
+  const [registrationCode, setRegistrationCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`${API_BASE}/api/auth/${mode}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(mode === 'register'
+          ? { email, password, name, ...(registrationCode ? { registration_code: registrationCode } : {}) }
+          : { email, password }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to sign in');
+      }
+
+      setToken(data.token);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to connect to server');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClassName =
+    'w-full px-4 py-2.5 rounded-lg border border-[var(--border)] bg-white text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-[var(--primary)] focus:border-transparent';
+
+  return (
+    <div className="flex h-screen items-center justify-center bg-[var(--background)]">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm rounded-xl bg-white p-8 shadow-lg">
+        <div className="mb-6 flex items-center gap-2">
+          <div className="h-8 w-8 rounded-lg bg-[var(--primary)] flex items-center justify-center">
+            <svg className="h-5 w-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+            </svg>
+          </div>
+          <span className="font-semibold text-lg text-gray-900">MailTracker</span>
+        </div>
+
+        <h2 className="mb-6 text-xl font-semibold text-gray-900">
+          {mode === 'login' ? 'Sign in' : 'Create an account'}
+        </h2>
+
+        <div className="space-y-4">
+          {mode === 'register' && (
+            <input
+              type="text"
+              placeholder="Name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className={inputClassName}
+            />
+          )}
+          <input
+            type="email"
+            placeholder="Email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+            className={inputClassName}
+          />
+          <input
+            type="password"
+            placeholder="Password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+            minLength={mode === 'register' ? 8 : undefined}
+            className={inputClassName}
+          />
+          {mode === 'register' && (
+            <input
+              type="password"
+              placeholder="Registration code (not needed for the first account)"
+              value={registrationCode}
+              onChange={(e) => setRegistrationCode(e.target.value)}
+              className={inputClassName}
+            />
+          )}
+        </div>
+
+        {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={submitting}
+          className="mt-6 w-full rounded-lg bg-[var(--primary)] px-6 py-2.5 text-white font-medium hover:bg-[var(--primary-hover)] transition-colors disabled:opacity-60"
+        >
+          {mode === 'login' ? 'Sign in' : 'Create account'}
+        </button>
+
+        <button
+          type="button"
+          onClick={() => { setMode(mode === 'login' ? 'register' : 'login'); setError(null); }}
+          className="mt-4 w-full text-sm text-[var(--muted)] hover:text-gray-900"
+        >
+          {mode === 'login' ? 'No account yet? Create one' : 'Already have an account? Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { apiFetch } from '@/lib/api';
+import { describeOpen, formatDate, formatRelativeTime } from '@/lib/format';
+
+// Types matching the server
+interface ThreadEmail {
+  id: string;
+  recipient: string;
+  subject: string | null;
+  created_at: string;
+}
+
+interface ThreadOpen {
+  id: number;
+  email_id: string;
+  opened_at: string;
+  classification: 'human' | 'proxy' | 'prefetch' | 'scanner' | 'unknown';
+  client: string | null;
+  os: string | null;
+  device_type: 'desktop' | 'mobile' | 'tablet' | 'unknown' | null;
+  country: string | null;
+  region: string | null;
+  city: string | null;
+}
+
+interface EmailThread {
+  thread_id: string;
+  emails: ThreadEmail[];
+  opens: ThreadOpen[];
+  open_count: number;
+  human_open_count: number;
+  last_opened_at: string | null;
+}
+
+/**
+ * The conversation in Gmail (the first signed-in account)
+ */
+export function gmailThreadUrl(threadId: string): string {
+  return `https://mail.google.com/mail/u/0/#all/${encodeURIComponent(threadId)}`;
+}
+
+export default function ThreadView({ threadId, onClose }: { threadId: string; onClose: () => void }) {
+  const [thread, setThread] = useState<EmailThread | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchThread = async () => {
+      try {
+        const res = await apiFetch(`/api/threads/${encodeURIComponent(threadId)}`);
+        if (!res.ok) {
+          throw new Error('Failed to fetch conversation');
+        }
+        const data = await res.json();
+        if (!cancelled) setThread(data);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to connect to server');
+      }
+    };
+
+    fetchThread();
+    return () => {
+      cancelled = true;
+    };
+  }, [threadId]);
+
+  const opensByEmail = new Map<string, ThreadOpen[]>();
+  for (const open of thread?.opens ?? []) {
+    opensByEmail.set(open.email_id, [...(opensByEmail.get(open.email_id) ?? []), open]);
+  }
+  const subjectOf = (emailId: string) =>
+    thread?.emails.find((email) => email.id === emailId)?.subject || '(No subject)';
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-hidden">
+      <div className="absolute inset-0 bg-black/20 backdrop-blur-sm" onClick={onClose} />
+      <div className="absolute right-0 top-0 bottom-0 w-full max-w-lg bg-white shadow-2xl">
+        <div className="h-full flex flex-col">
+          {/* Header */}
+          <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--border)]">
+            <h2 className="text-lg font-semibold text-gray-900">Conversation</h2>
+            <div className="flex items-center gap-2">
+              <a
+                href={gmailThreadUrl(threadId)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="px-3 py-1.5 rounded-lg text-sm font-medium text-[var(--primary)] hover:bg-emerald-50 transition-colors"
+              >
+                Open in Gmail
+              </a>
+              <button
+                onClick={onClose}
+                className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
+              >
+                <svg className="h-5 w-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          </div>
+
+          {/* Content */}
+          <div className="flex-1 overflow-auto p-6">
+            {error ? (
+              <p className="py-16 text-center text-red-600">{error}</p>
+            ) : !thread ? (
+              <div className="flex justify-center py-16">
+                <div className="h-8 w-8 animate-spin rounded-full border-4 border-[var(--border)] border-t-[var(--primary)]" />
+              </div>
+            ) : (
+              <>
+                <h3 className="text-xl font-semibold text-gray-900 mb-6">
+                  {thread.emails[0].subject || '(No subject)'}
+                </h3>
+
+                {/* Stats */}
+                <div className="grid grid-cols-3 gap-4 mb-6">
+                  <div className="p-4 rounded-xl bg-gray-50 border border-gray-100">
+                    <p className="text-2xl font-bold text-gray-900">{thread.emails.length}</p>
+                    <p className="text-sm text-gray-600">Tracked Sends</p>
+                  </div>
+                  <div className="p-4 rounded-xl bg-emerald-50 border border-emerald-100">
+                    <p className="text-2xl font-bold text-[var(--primary)]">{thread.open_count}</p>
+                    <p className="text-sm text-emerald-700">Total Opens</p>
+                    <p className="text-xs text-emerald-700 mt-1">{thread.human_open_count} human</p>
+                  </div>
+                  <div className="p-4 rounded-xl bg-gray-50 border border-gray-100">
+                    <p className="text-2xl font-bold text-gray-900">
+                      {thread.last_opened_at ? formatRelativeTime(thread.last_opened_at) : '—'}
+                    </p>
+                    <p className="text-sm text-gray-600">Last Opened</p>
+                  </div>
+                </div>
+
+                {/* Sends */}
+                <h4 className="text-sm font-semibold text-gray-900 uppercase tracking-wider mb-3">
+                  Sends
+                </h4>
+                <div className="space-y-3 mb-6">
+                  {thread.emails.map((email) => {
+                    const opens = opensByEmail.get(email.id) ?? [];
+                    return (
+                      <div key={email.id} className="p-4 rounded-lg bg-gray-50 border border-gray-100">
+                        <p className="font-medium text-gray-900 truncate">{email.subject || '(No subject)'}</p>
+                        <p className="text-sm text-[var(--muted)] mt-1">
+                          To {email.recipient} · {formatDate(email.created_at)}
+                        </p>
+                        <p className={`text-sm mt-2 ${opens.length > 0 ? 'text-[var(--primary)]' : 'text-gray-500'}`}>
+                          {opens.length > 0
+                            ? `${opens.length} open${opens.length !== 1 ? 's' : ''} · last ${formatRelativeTime(opens[0].opened_at)}`
+                            : 'Not opened'}
+                        </p>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                {/* Opens */}
+                <h4 className="text-sm font-semibold text-gray-900 uppercase tracking-wider mb-3">
+                  Opens
+                </h4>
+                {thread.opens.length === 0 ? (
+                  <p className="text-[var(--muted)] text-sm py-4">
+                    Nothing in this conversation has been opened yet.
+                  </p>
+                ) : (
+                  <div className="space-y-3">
+                    {thread.opens.map((open) => (
+                      <div key={open.id} className="p-4 rounded-lg bg-gray-50 border border-gray-100">
+                        <p className="font-medium text-gray-900">{formatDate(open.opened_at)}</p>
+                        <p className="text-sm text-[var(--muted)] mt-1 truncate">
+                          {subjectOf(open.email_id)}
+                          {open.classification !== 'human' && ` · ${open.classification}`}
+                        </p>
+                        {describeOpen(open) && (
+                          <p className="text-sm text-gray-700 mt-2">{describeOpen(open)}</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
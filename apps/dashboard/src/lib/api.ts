@@ -0,0 +1,47 @@
+export const API_BASE = process.env.NEXT_PUBLIC_API_BASE || 'http://localhost:8080';
+
+// ============================================
+// Session token (kept in localStorage)
+// ============================================
+
+const TOKEN_KEY = 'mailtracker_token';
+const listeners = new Set<() => void>();
+
+export function getToken(): string | null {
+  return typeof window === 'undefined' ? null : window.localStorage.getItem(TOKEN_KEY);
+}
+
+export function setToken(token: string | null): void {
+  if (token) {
+    window.localStorage.setItem(TOKEN_KEY, token);
+  } else {
+    window.localStorage.removeItem(TOKEN_KEY);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Subscribe to token changes (for useSyncExternalStore)
+ */
+export function subscribeToken(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * fetch() against the API with the session token attached
+ * - A 401 means the session expired, so the token is dropped and the login form shows
+ */
+export async function apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  const token = getToken();
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+
+  const res = await fetch(`${API_BASE}${path}`, { ...init, headers });
+  if (res.status === 401 && token) {
+    setToken(null);
+  }
+  return res;
+}
@@ -0,0 +1,75 @@
+// Parse SQLite datetime (stored in UTC) to local Date
+export function parseUTCDate(dateStr: string): Date {
+  // SQLite stores dates like "2026-01-02 03:22:00" in UTC
+  // We need to append 'Z' or '+00:00' to tell JS it's UTC
+  const normalized = dateStr.replace(' ', 'T') + 'Z';
+  return new Date(normalized);
+}
+
+export function formatDate(dateStr: string): string {
+  const date = parseUTCDate(dateStr);
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+  });
+}
+
+export function formatRelativeTime(dateStr: string): string {
+  const date = parseUTCDate(dateStr);
+  const now = new Date();
+  const diffMs = now.getTime() - date.getTime();
+  const diffMins = Math.floor(diffMs / 60000);
+  const diffHours = Math.floor(diffMs / 3600000);
+  const diffDays = Math.floor(diffMs / 86400000);
+
+  // Scheduled emails are dated when they go out
+  if (diffMs < 0) return formatDate(dateStr);
+  if (diffMins < 1) return 'Just now';
+  if (diffMins < 60) return `${diffMins}m ago`;
+  if (diffHours < 24) return `${diffHours}h ago`;
+  if (diffDays < 7) return `${diffDays}d ago`;
+  return formatDate(dateStr);
+}
+
+// Seconds -> "45s", "12m", "3.5h", "2.1d"
+export function formatDuration(seconds: number | null): string {
+  if (seconds === null) return '—';
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
+  if (seconds < 86400) return `${(seconds / 3600).toFixed(1)}h`;
+  return `${(seconds / 86400).toFixed(1)}d`;
+}
+
+interface OpenDetails {
+  client: string | null;
+  os: string | null;
+  device_type: 'desktop' | 'mobile' | 'tablet' | 'unknown' | null;
+  country: string | null;
+  region: string | null;
+  city: string | null;
+}
+
+function formatDevice(os: string | null, deviceType: OpenDetails['device_type']): string | null {
+  if (os === 'iOS') return deviceType === 'tablet' ? 'iPad' : 'iPhone';
+  if (os === 'Android') return deviceType === 'tablet' ? 'Android tablet' : 'Android';
+  if (os === 'macOS') return 'Mac';
+  return os;
+}
+
+// e.g. "Opened in Outlook on iPhone, Berlin"; null when nothing was recognised
+export function describeOpen(open: OpenDetails): string | null {
+  const device = formatDevice(open.os, open.device_type);
+  const place = open.city || open.region || open.country;
+
+  if (!open.client && !device && !place) return null;
+
+  let description = 'Opened';
+  if (open.client) description += ` in ${open.client}`;
+  if (device) description += ` on ${device}`;
+  if (place) description += `${open.client || device ? ',' : ' in'} ${place}`;
+  return description;
+}
@@ -1,16 +1,58 @@
 // Background Service Worker
 // Handles API calls for the extension (Manifest V3 requirement)
+// and desktop notifications for opens
 
-const API_BASE = 'http://localhost:8080';
+importScripts('settings.js');
+
+const RECENT_OPENS_LIMIT = 5;
+
+// The pixel is already in the sent email, so a confirmation is worth retrying
+const CONFIRM_ATTEMPTS = 3;
+const CONFIRM_RETRY_MS = 5000;
 
 // Listen for messages from content script
 chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
-  if (request.action === 'createTrackedEmail') {
-    createTrackedEmail(request.data)
+  if (request.action === 'reserveTrackedEmail') {
+    reserveTrackedEmail()
       .then(response => sendResponse({ success: true, data: response }))
       .catch(error => sendResponse({ success: false, error: error.message }));
     return true; // Keep the message channel open for async response
   }
+
+  if (request.action === 'confirmTrackedEmail') {
+    confirmTrackedEmail(request.data.id, request.data.email)
+      .then(response => sendResponse({ success: true, data: response }))
+      .catch(error => sendResponse({ success: false, error: error.message }));
+    return true;
+  }
+
+  if (request.action === 'releaseTrackedEmail') {
+    releaseTrackedEmail(request.data.id)
+      .then(response => sendResponse({ success: true, data: response }))
+      .catch(error => sendResponse({ success: false, error: error.message }));
+    return true;
+  }
+  
+  if (request.action === 'deleteTrackedEmail') {
+    deleteTrackedEmail(request.data.id)
+      .then(response => sendResponse({ success: true, data: response }))
+      .catch(error => sendResponse({ success: false, error: error.message }));
+    return true;
+  }
+
+  if (request.action === 'cancelScheduledEmail') {
+    cancelScheduledEmail(request.data.messageId)
+      .then(response => sendResponse({ success: true, data: response }))
+      .catch(error => sendResponse({ success: false, error: error.message }));
+    return true;
+  }
+
+  if (request.action === 'updateTrackedEmail') {
+    updateTrackedEmail(request.data.id, request.data.changes)
+      .then(response => sendResponse({ success: true, data: response }))
+      .catch(error => sendResponse({ success: false, error: error.message }));
+    return true;
+  }
   
   if (request.action === 'healthCheck') {
     healthCheck()
@@ -18,32 +60,464 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
       .catch(error => sendResponse({ success: false, error: error.message }));
     return true;
   }
+
+  if (request.action === 'lookupReadReceipts') {
+    lookupReadReceipts(request.data)
+      .then(response => sendResponse({ success: true, data: response }))
+      .catch(error => sendResponse({ success: false, error: error.message }));
+    return true;
+  }
+
+  if (request.action === 'getRecentOpens') {
+    getRecentOpens()
+      .then(response => sendResponse({ success: true, data: response }))
+      .catch(error => sendResponse({ success: false, error: error.message }));
+    return true;
+  }
 });
 
-async function createTrackedEmail(data) {
-  console.log('[MailTracker BG] Creating tracked email:', data);
-  
-  const response = await fetch(`${API_BASE}/api/emails`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(data),
+// Server URL and API key come from the options page, so read them on every call
+async function apiFetch(path, init = {}) {
+  const { apiBase, apiKey } = await loadConnectionSettings();
+  const headers = { ...init.headers };
+  if (apiKey) {
+    headers['Authorization'] = `Bearer ${apiKey}`;
+  }
+  return fetch(`${apiBase}${path}`, { ...init, headers });
+}
+
+// A tracking id for a compose window, taken before the email is written
+async function reserveTrackedEmail() {
+  const response = await apiFetch('/api/emails/reservations', { method: 'POST' });
+
+  if (response.status === 401) {
+    throw new Error('Unauthorized - set the API key in the extension options');
+  }
+
+  if (!response.ok) {
+    throw new Error(`API error: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+// The email went out with the reserved id's pixel; store what was sent
+// Network failures and server errors are retried, anything else is final. Once the
+// attempts run out the confirmation is kept and retried on the poll alarm.
+async function confirmTrackedEmail(id, data) {
+  console.log('[MailTracker BG] Confirming tracked email:', id, data);
+
+  for (let attempt = 1; ; attempt++) {
+    let response = null;
+    try {
+      response = await apiFetch(`/api/emails/${id}/confirm`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+    } catch (error) {
+      if (attempt >= CONFIRM_ATTEMPTS) {
+        await savePendingConfirm(id, data);
+        throw error;
+      }
+    }
+
+    if (response?.ok) {
+      const result = await response.json();
+      console.log('[MailTracker BG] Confirmed:', result);
+      return result;
+    }
+    if (response && (response.status < 500 || attempt >= CONFIRM_ATTEMPTS)) {
+      if (response.status >= 500) await savePendingConfirm(id, data);
+      throw new Error(`API error: ${response.status}`);
+    }
+
+    console.warn(`[MailTracker BG] Confirming ${id} failed, retrying (attempt ${attempt} of ${CONFIRM_ATTEMPTS})`);
+    await new Promise(resolve => setTimeout(resolve, CONFIRM_RETRY_MS));
+  }
+}
+
+// Confirmations that ran out of attempts, by id, kept across service worker restarts
+async function savePendingConfirm(id, data) {
+  const { pendingConfirms = {} } = await chrome.storage.local.get('pendingConfirms');
+  pendingConfirms[id] = data;
+  await chrome.storage.local.set({ pendingConfirms });
+}
+
+async function removePendingConfirm(id) {
+  const { pendingConfirms = {} } = await chrome.storage.local.get('pendingConfirms');
+  if (!(id in pendingConfirms)) return;
+  delete pendingConfirms[id];
+  await chrome.storage.local.set({ pendingConfirms });
+}
+
+// One attempt each; a server error or no network leaves it for the next alarm
+async function retryPendingConfirms() {
+  const { pendingConfirms = {} } = await chrome.storage.local.get('pendingConfirms');
+
+  for (const [id, data] of Object.entries(pendingConfirms)) {
+    const response = await apiFetch(`/api/emails/${id}/confirm`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    });
+    if (response.status >= 500) continue;
+
+    if (response.ok) {
+      console.log('[MailTracker BG] Confirmed after retrying:', id);
+    } else {
+      console.warn(`[MailTracker BG] Gave up confirming ${id}: API error ${response.status}`);
+    }
+    await removePendingConfirm(id);
+  }
+}
+
+// The draft was closed without sending; a reservation the server no longer has is fine
+async function releaseTrackedEmail(id) {
+  const response = await apiFetch(`/api/emails/reservations/${id}`, { method: 'DELETE' });
+
+  if (!response.ok && response.status !== 404) {
+    throw new Error(`API error: ${response.status}`);
+  }
+}
+
+// The send was undone: nothing went out. An email the server never recorded is fine.
+async function deleteTrackedEmail(id) {
+  await removePendingConfirm(id);
+  const response = await apiFetch(`/api/emails/${id}`, { method: 'DELETE' });
+
+  if (!response.ok && response.status !== 404) {
+    throw new Error(`API error: ${response.status}`);
+  }
+}
+
+// A scheduled send was cancelled in Gmail, which only shows us the message id
+async function cancelScheduledEmail(messageId) {
+  const { pendingConfirms = {} } = await chrome.storage.local.get('pendingConfirms');
+  for (const [id, data] of Object.entries(pendingConfirms)) {
+    if (data.message_id === messageId) await removePendingConfirm(id);
+  }
+
+  const [receipt] = await lookupReadReceipts([{ message_id: messageId }]);
+  for (const id of receipt?.email_ids ?? []) {
+    await deleteTrackedEmail(id);
+  }
+}
+
+async function updateTrackedEmail(id, changes) {
+  const response = await apiFetch(`/api/emails/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(changes),
   });
 
   if (!response.ok) {
     throw new Error(`API error: ${response.status}`);
   }
 
-  const result = await response.json();
-  console.log('[MailTracker BG] Created:', result);
-  return result;
+  return response.json();
 }
 
+// Reports whether the server answers and, when an API key is set, whether it's accepted
 async function healthCheck() {
-  const response = await fetch(`${API_BASE}/health`);
+  const { apiKey } = await loadConnectionSettings();
+  const response = await apiFetch('/health');
+  const health = await response.json();
+  if (!apiKey) {
+    return { ...health, authenticated: false };
+  }
+
+  const me = await apiFetch('/api/auth/me');
+  return { ...health, authenticated: me.ok, user: me.ok ? await me.json() : null };
+}
+
+// Read state for Sent rows and thread messages, one result (or null) per lookup
+async function lookupReadReceipts(lookups) {
+  const response = await apiFetch('/api/emails/lookup', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ lookups }),
+  });
+  if (!response.ok) {
+    throw new Error(`API error: ${response.status}`);
+  }
+
+  const { results } = await response.json();
+  return results;
+}
+
+// Emails most recently opened, for the toolbar popup
+async function getRecentOpens() {
+  const response = await apiFetch(`/api/emails?status=opened&sort=last_opened&limit=${RECENT_OPENS_LIMIT}`);
+  if (response.status === 401) {
+    throw new Error('Unauthorized - set the API key in the extension options');
+  }
+  if (!response.ok) {
+    throw new Error(`API error: ${response.status}`);
+  }
+
+  const { emails } = await response.json();
+  return emails;
+}
+
+// ============================================
+// Own Opens
+// ============================================
+
+// The sender looking at their own email mustn't count as an open. In Gmail the
+// pixel is blocked outright; anywhere else in this browser it goes out with the
+// account's sender marker, and the server ignores hits that carry it.
+// Rules are rebuilt whenever the server URL or API key changes.
+const BLOCK_PIXEL_RULE_ID = 1;
+const BLOCK_PROXIED_PIXEL_RULE_ID = 2;
+const SENDER_MARKER_RULE_ID = 3;
+
+function escapeRegex(text) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+async function fetchSenderMarker() {
+  const response = await apiFetch('/api/auth/sender-marker');
+  if (!response.ok) {
+    throw new Error(`API error: ${response.status}`);
+  }
   return response.json();
 }
 
+async function updateOwnOpenRules() {
+  const { apiBase, apiKey } = await loadConnectionSettings();
+  const origin = new URL(apiBase).origin;
+
+  const rules = [
+    {
+      // Compose windows and messages that load the pixel straight from the server
+      id: BLOCK_PIXEL_RULE_ID,
+      priority: 2,
+      action: { type: 'block' },
+      condition: { urlFilter: `|${origin}/track/`, initiatorDomains: ['mail.google.com'], resourceTypes: ['image'] },
+    },
+    {
+      // Gmail shows sent messages through its image proxy, with the original URL after the #
+      id: BLOCK_PROXIED_PIXEL_RULE_ID,
+      priority: 2,
+      action: { type: 'block' },
+      condition: {
+        regexFilter: `^https://[a-z0-9-]+\\.googleusercontent\\.com/.*#${escapeRegex(origin)}/track/`,
+        initiatorDomains: ['mail.google.com'],
+        resourceTypes: ['image'],
+      },
+    },
+  ];
+
+  if (apiKey) {
+    try {
+      const { marker, header } = await fetchSenderMarker();
+      rules.push({
+        id: SENDER_MARKER_RULE_ID,
+        priority: 1,
+        action: { type: 'modifyHeaders', requestHeaders: [{ header, operation: 'set', value: marker }] },
+        condition: { urlFilter: `|${origin}/track/`, resourceTypes: ['image', 'main_frame', 'sub_frame', 'other'] },
+      });
+    } catch (error) {
+      console.error('[MailTracker BG] Could not fetch the sender marker:', error.message);
+    }
+  }
+
+  await chrome.declarativeNetRequest.updateDynamicRules({
+    removeRuleIds: [BLOCK_PIXEL_RULE_ID, BLOCK_PROXIED_PIXEL_RULE_ID, SENDER_MARKER_RULE_ID],
+    addRules: rules,
+  });
+  console.log('[MailTracker BG] Own-open rules set for', origin);
+}
+
+function refreshOwnOpenRules() {
+  updateOwnOpenRules().catch(error => console.error('[MailTracker BG] Updating own-open rules failed:', error.message));
+}
+
+// Dynamic rules outlive the service worker; refresh them on install and browser start
+// in case the server was unreachable last time
+chrome.runtime.onInstalled.addListener(refreshOwnOpenRules);
+chrome.runtime.onStartup.addListener(refreshOwnOpenRules);
+
+chrome.storage.onChanged.addListener((changes, area) => {
+  if (area === 'sync' && changes.connectionSettings) {
+    refreshOwnOpenRules();
+  }
+});
+
+// ============================================
+// Open Notifications
+// ============================================
+
+// Service workers can't hold an event stream open, so we poll the server's
+// event cursor on an alarm instead (30 seconds is the shortest Chrome allows)
+const POLL_ALARM = 'pollOpenEvents';
+const POLL_PERIOD_MINUTES = 0.5;
+const NOTIFICATION_PREFIX = 'mailtracker-open-';
+const REMINDER_NOTIFICATION_PREFIX = 'mailtracker-reminder-';
+const REMINDER_SNOOZE_HOURS = 24;
+const MACHINE_CLASSIFICATIONS = ['prefetch', 'scanner'];
+
+chrome.alarms.get(POLL_ALARM, (alarm) => {
+  if (!alarm) {
+    chrome.alarms.create(POLL_ALARM, { periodInMinutes: POLL_PERIOD_MINUTES });
+  }
+});
+
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === POLL_ALARM) {
+    pollOpenEvents().catch(error => console.error('[MailTracker BG] Poll failed:', error.message));
+    retryPendingConfirms().catch(error => console.error('[MailTracker BG] Retrying confirmations failed:', error.message));
+  }
+});
+
+async function pollOpenEvents() {
+  const settings = await loadNotificationSettings();
+  const { apiKey } = await loadConnectionSettings();
+  if (!apiKey || !settings.enabled) return;
+
+  const { eventCursor } = await chrome.storage.local.get('eventCursor');
+  // First run: start from "now" rather than notifying about every past open
+  const query = eventCursor === undefined ? '' : `?since=${eventCursor}`;
+
+  const response = await apiFetch(`/api/events/poll${query}`);
+  if (!response.ok) {
+    throw new Error(`API error: ${response.status}`);
+  }
+
+  const { events, cursor } = await response.json();
+
+  for (const event of events) {
+    if (event.type === 'email.opened') {
+      await notifyOpen(event.data, settings);
+    } else if (event.type === 'reminder.due') {
+      notifyReminder(event.data, settings);
+    }
+  }
+
+  await chrome.storage.local.set({ eventCursor: cursor });
+}
+
+function isQuietHours(settings, now = new Date()) {
+  if (!settings.quietHoursStart || !settings.quietHoursEnd) return false;
+
+  const toMinutes = (hhmm) => {
+    const [hours, minutes] = hhmm.split(':').map(Number);
+    return hours * 60 + minutes;
+  };
+  const current = now.getHours() * 60 + now.getMinutes();
+  const start = toMinutes(settings.quietHoursStart);
+  const end = toMinutes(settings.quietHoursEnd);
+
+  // Quiet hours can wrap past midnight (e.g. 22:00 - 07:00)
+  return start <= end ? current >= start && current < end : current >= start || current < end;
+}
+
+async function notifyOpen(data, settings) {
+  if (settings.mutedEmails[data.email_id]) return;
+  if (settings.ignoreMachineOpens && MACHINE_CLASSIFICATIONS.includes(data.open.classification)) return;
+  if (isQuietHours(settings)) return;
+
+  // Coalesce bursts: repeat opens of the same email update one notification
+  const { openBursts = {} } = await chrome.storage.session.get('openBursts');
+  const now = Date.now();
+  const burst = openBursts[data.email_id];
+  const withinWindow = burst && now - burst.lastAt < settings.coalesceMinutes * 60 * 1000;
+  const count = withinWindow ? burst.count + 1 : 1;
+
+  const subject = data.subject || '(No subject)';
+  openBursts[data.email_id] = { count, lastAt: now, subject };
+  await chrome.storage.session.set({ openBursts });
+
+  chrome.notifications.create(`${NOTIFICATION_PREFIX}${data.email_id}`, {
+    type: 'basic',
+    iconUrl: 'icons/icon128.png',
+    title: count > 1 ? `Opened ${count} times: ${subject}` : `Opened: ${subject}`,
+    message: data.recipient,
+    buttons: [{ title: 'Mute this email' }],
+    priority: 1,
+  });
+}
+
+async function openDashboard(emailId) {
+  const { dashboardUrl } = await loadConnectionSettings();
+  chrome.tabs.create({ url: `${dashboardUrl}/?email=${emailId}` });
+}
+
+chrome.notifications.onClicked.addListener((notificationId) => {
+  if (!notificationId.startsWith(NOTIFICATION_PREFIX)) return;
+
+  const emailId = notificationId.slice(NOTIFICATION_PREFIX.length);
+  openDashboard(emailId);
+  chrome.notifications.clear(notificationId);
+});
+
+chrome.notifications.onButtonClicked.addListener(async (notificationId, buttonIndex) => {
+  if (!notificationId.startsWith(NOTIFICATION_PREFIX) || buttonIndex !== 0) return;
+
+  const emailId = notificationId.slice(NOTIFICATION_PREFIX.length);
+  const settings = await loadNotificationSettings();
+  const { openBursts = {} } = await chrome.storage.session.get('openBursts');
+
+  // Keep the subject so the options page can show what's muted
+  settings.mutedEmails[emailId] = openBursts[emailId]?.subject || emailId;
+  await saveNotificationSettings(settings);
+  console.log('[MailTracker BG] Muted notifications for', emailId);
+  chrome.notifications.clear(notificationId);
+});
+
+// ============================================
+// Follow-up Reminders
+// ============================================
+
+// Reminders were asked for explicitly, so muting an email's opens doesn't silence them
+function notifyReminder(reminder, settings) {
+  if (isQuietHours(settings)) return;
+
+  const subject = reminder.subject || '(No subject)';
+  chrome.notifications.create(`${REMINDER_NOTIFICATION_PREFIX}${reminder.id}:${reminder.email_id}`, {
+    type: 'basic',
+    iconUrl: 'icons/icon128.png',
+    title: reminder.kind === 'not_opened' ? `Not opened yet: ${subject}` : `Follow up: ${subject}`,
+    message: reminder.recipient,
+    buttons: [{ title: 'Snooze 1 day' }, { title: 'Dismiss' }],
+    requireInteraction: true,
+    priority: 2,
+  });
+}
+
+async function updateReminder(reminderId, action) {
+  const response = await apiFetch(`/api/reminders/${reminderId}/${action}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(action === 'snooze' ? { hours: REMINDER_SNOOZE_HOURS } : {}),
+  });
+  if (!response.ok) {
+    throw new Error(`API error: ${response.status}`);
+  }
+}
+
+function parseReminderNotificationId(notificationId) {
+  const [reminderId, emailId] = notificationId.slice(REMINDER_NOTIFICATION_PREFIX.length).split(':');
+  return { reminderId, emailId };
+}
+
+chrome.notifications.onClicked.addListener((notificationId) => {
+  if (!notificationId.startsWith(REMINDER_NOTIFICATION_PREFIX)) return;
+
+  const { emailId } = parseReminderNotificationId(notificationId);
+  openDashboard(emailId);
+  chrome.notifications.clear(notificationId);
+});
+
+chrome.notifications.onButtonClicked.addListener((notificationId, buttonIndex) => {
+  if (!notificationId.startsWith(REMINDER_NOTIFICATION_PREFIX)) return;
+
+  const { reminderId } = parseReminderNotificationId(notificationId);
+  updateReminder(reminderId, buttonIndex === 0 ? 'snooze' : 'dismiss')
+    .catch(error => console.error('[MailTracker BG] Reminder update failed:', error.message));
+  chrome.notifications.clear(notificationId);
+});
+
 console.log('[MailTracker BG] Background service worker loaded');
 
@@ -12,6 +12,18 @@
   // Store tracking state per compose window
   const composeWindowStates = new WeakMap();
 
+  // Compose windows holding a reserved tracking id, to give it back if they close unsent
+  const reservedComposeWindows = new Set();
+
+  // The compose window whose "More send options" menu was opened last
+  let sendOptionsComposeWindow = null;
+
+  // The last confirmed send, for Gmail's Undo: { confirmation, at }
+  let lastSend = null;
+
+  // Server and dashboard URLs from the options page (settings.js), kept current by init()
+  let connection = { ...DEFAULT_CONNECTION_SETTINGS };
+
   // ============================================
   // Gmail DOM Selectors (Gmail's DOM is complex)
   // ============================================
@@ -29,16 +41,55 @@
     sendButton: 'div[role="button"][aria-label*="Send"], div[data-tooltip*="Send"]',
     // Compose toolbar (where we'll add our toggle)
     composeToolbar: 'tr.btC td.gU',
+    // Hidden input holding the draft's message id, e.g. "#msg-a:r-1234567890"
+    draftId: 'input[name="draft"]',
+    // "View message" link in the "Message sent" toast; its param is the thread id
+    sentMessageLink: '#link_vsm',
+    // Arrow next to Send opening the menu with "Schedule send", and that menu's items
+    sendOptionsButton: 'div[role="button"][aria-label="More send options"]',
+    menuItem: 'div[role="menuitem"]',
+    // Text of the toast after a send ("Send scheduled for Tue, Oct 20, 8:00 AM"), and its Undo
+    toastMessage: 'span.bAq',
+    toastUndo: '#link_undo',
+    // Buttons, e.g. "Cancel send" above a scheduled message
+    button: 'div[role="button"], button',
+    // Conversation rows in a mail list, and the pieces of one we read
+    listRow: 'div[role="main"] tr.zA',
+    rowThreadId: '[data-legacy-thread-id]',
+    rowRecipient: 'span[email]',
+    rowSubject: 'span.bog',
+    rowDate: 'td.xW span[title]',
+    // A message in an open conversation; ours have ids like "#msg-a:r-1234567890"
+    threadMessage: 'div[role="main"] div[data-message-id^="#msg-a:"]',
+    messageSender: 'span.gD, span.zF',
   };
 
+  // How long to wait for Gmail's "Message sent" toast after clicking Send
+  const SENT_TOAST_TIMEOUT_MS = 15000;
+  // How long someone may take to pick a time after choosing "Schedule send"
+  const SCHEDULE_PICK_TIMEOUT_MS = 5 * 60 * 1000;
+  // Gmail offers Undo for a few seconds after a send; a bit longer covers slow clicks
+  const UNDO_WINDOW_MS = 30000;
+  // A draft still open this close to its reservation's expiry gets a new one
+  const RESERVATION_RENEW_MARGIN_MS = 60 * 60 * 1000;
+
+  // Follow-up reminder choices offered next to the toggle; values are the API's reminder body
+  const REMINDER_OPTIONS = [
+    { label: 'No reminder', value: null },
+    { label: 'Remind if not opened in 1 day', value: { kind: 'not_opened', days: 1 } },
+    { label: 'Remind if not opened in 3 days', value: { kind: 'not_opened', days: 3 } },
+    { label: 'Remind if not opened in 1 week', value: { kind: 'not_opened', days: 7 } },
+    { label: 'Remind 2 hours after opened', value: { kind: 'opened', hours: 2 } },
+    { label: 'Remind 1 day after opened', value: { kind: 'opened', hours: 24 } },
+  ];
+
   // ============================================
   // API Functions (via Background Script)
   // ============================================
 
-  async function createTrackedEmail(recipient, subject) {
+  // Resolves with the background's answer, or null if the call failed
+  function sendToBackground(action, data) {
     return new Promise((resolve) => {
-      console.log('[MailTracker] Sending to background:', { recipient, subject });
-      
       // Check if extension context is still valid
       if (!chrome.runtime?.id) {
         console.error('[MailTracker] Extension context invalidated - please refresh Gmail');
@@ -48,37 +99,26 @@
       }
       
       try {
-        chrome.runtime.sendMessage(
-          {
-            action: 'createTrackedEmail',
-            data: {
-              recipient: recipient,
-              subject: subject,
-              sender: 'me',
-            },
-          },
-          (response) => {
-            if (chrome.runtime.lastError) {
-              const errorMsg = chrome.runtime.lastError.message || 'Unknown error';
-              console.error('[MailTracker] Runtime error:', errorMsg);
-              
-              // Check for context invalidated error
-              if (errorMsg.includes('context invalidated') || errorMsg.includes('Extension context')) {
-                showNotification('Extension updated - please refresh Gmail', 'error');
-              }
-              resolve(null);
-              return;
-            }
+        chrome.runtime.sendMessage({ action, data }, (response) => {
+          if (chrome.runtime.lastError) {
+            const errorMsg = chrome.runtime.lastError.message || 'Unknown error';
+            console.error('[MailTracker] Runtime error:', errorMsg);
             
-            if (response && response.success) {
-              console.log('[MailTracker] Created tracked email:', response.data.id);
-              resolve(response.data);
-            } else {
-              console.error('[MailTracker] API Error:', response?.error);
-              resolve(null);
+            // Check for context invalidated error
+            if (errorMsg.includes('context invalidated') || errorMsg.includes('Extension context')) {
+              showNotification('Extension updated - please refresh Gmail', 'error');
             }
+            resolve(null);
+            return;
           }
-        );
+          
+          if (response && response.success) {
+            resolve(response.data);
+          } else {
+            console.error('[MailTracker] API Error:', response?.error);
+            resolve(null);
+          }
+        });
       } catch (error) {
         console.error('[MailTracker] Exception:', error);
         if (error.message?.includes('context invalidated')) {
@@ -89,6 +129,115 @@
     });
   }
 
+  /**
+   * Get a tracking id for the compose window ahead of time, so that sending
+   * never has to wait for the server
+   */
+  function reserveTrackingId(composeWindow) {
+    const state = composeWindowStates.get(composeWindow);
+    if (!state || state.reservation || state.reserving || state.sent) return;
+
+    state.reserving = true;
+    sendToBackground('reserveTrackedEmail').then((reservation) => {
+      state.reserving = false;
+      if (!reservation) {
+        console.error('[MailTracker] Failed to reserve a tracking id');
+        return;
+      }
+
+      state.reservation = reservation;
+      reservedComposeWindows.add(composeWindow);
+      console.log('[MailTracker] Reserved tracking id:', reservation.id);
+      startSigningLinks(composeWindow, reservation);
+      scheduleRenewal(composeWindow, reservation);
+
+      // Tracking was switched off, or the window closed, while we waited
+      if (!state.trackingEnabled || !composeWindow.isConnected) {
+        releaseTrackingId(composeWindow);
+      }
+    });
+  }
+
+  // The server prunes reservations at expires_at (UTC), and their links stop redirecting
+  function scheduleRenewal(composeWindow, reservation) {
+    const state = composeWindowStates.get(composeWindow);
+    const expiresAt = new Date(`${reservation.expires_at.replace(' ', 'T')}Z`).getTime();
+    if (!state || isNaN(expiresAt)) return;
+
+    state.renewTimer = setTimeout(() => {
+      if (state.reservation !== reservation || state.sent || state.scheduling) return;
+      console.log('[MailTracker] Renewing tracking id:', reservation.id);
+      releaseTrackingId(composeWindow);
+      reserveTrackingId(composeWindow);
+    }, Math.max(0, expiresAt - Date.now() - RESERVATION_RENEW_MARGIN_MS));
+  }
+
+  // Fire-and-forget: reservations the server never hears back about are pruned anyway
+  function releaseTrackingId(composeWindow) {
+    const state = composeWindowStates.get(composeWindow);
+    reservedComposeWindows.delete(composeWindow);
+    if (!state?.reservation || state.sent) return;
+
+    const { id } = state.reservation;
+    state.reservation = null;
+    clearTimeout(state.renewTimer);
+    stopSigningLinks(state);
+    if (!chrome.runtime?.id) return;
+
+    chrome.runtime.sendMessage({ action: 'releaseTrackedEmail', data: { id } }, () => {
+      if (chrome.runtime.lastError) {
+        console.error('[MailTracker] Failed to release tracking id:', chrome.runtime.lastError.message);
+      }
+    });
+    console.log('[MailTracker] Released tracking id:', id);
+  }
+
+  async function confirmTrackedEmail(id, recipients, subject, links, reminder, messageId, sendAt) {
+    const recipient = recipients.map(r => r.address).join(', ');
+    console.log('[MailTracker] Sending to background:', { id, recipient, subject, links: links.length });
+
+    const trackedEmail = await sendToBackground('confirmTrackedEmail', {
+      id,
+      email: {
+        recipient: recipient,
+        recipients: recipients,
+        subject: subject,
+        sender: 'me',
+        links: links,
+        ...(reminder ? { reminder } : {}),
+        ...(messageId ? { message_id: messageId } : {}),
+        ...(sendAt ? { send_at: sendAt.toISOString() } : {}),
+      },
+    });
+
+    if (trackedEmail) {
+      console.log('[MailTracker] Confirmed tracked email:', trackedEmail.id);
+    }
+    return trackedEmail;
+  }
+
+  // Fire-and-forget: the send was undone or the schedule cancelled, so nothing went out
+  function forgetTrackedEmail(action, data) {
+    if (!chrome.runtime?.id) return;
+
+    chrome.runtime.sendMessage({ action, data }, (response) => {
+      if (chrome.runtime.lastError || !response?.success) {
+        console.error('[MailTracker] Failed to forget tracked email:', chrome.runtime.lastError?.message || response?.error);
+      }
+    });
+  }
+
+  // Fire-and-forget: the email is already tracked, this only adds to it
+  function updateTrackedEmail(id, changes) {
+    if (!chrome.runtime?.id) return;
+
+    chrome.runtime.sendMessage({ action: 'updateTrackedEmail', data: { id, changes } }, (response) => {
+      if (chrome.runtime.lastError || !response?.success) {
+        console.error('[MailTracker] Failed to update tracked email:', chrome.runtime.lastError?.message || response?.error);
+      }
+    });
+  }
+
   // ============================================
   // UI Components
   // ============================================
@@ -99,7 +248,7 @@
     container.className = 'mailtracker-toggle-container';
     container.innerHTML = `
       <label class="mailtracker-toggle">
-        <input type="checkbox" checked>
+        <input type="checkbox" ${connection.trackByDefault ? 'checked' : ''}>
         <span class="mailtracker-toggle-slider"></span>
         <span class="mailtracker-toggle-label">
           <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
@@ -109,21 +258,53 @@
           Track
         </span>
       </label>
+      <select class="mailtracker-reminder" title="Follow-up reminder">
+        ${REMINDER_OPTIONS.map((option, index) => `<option value="${index}">${option.label}</option>`).join('')}
+      </select>
     `;
 
     const checkbox = container.querySelector('input[type="checkbox"]');
+    const reminderSelect = container.querySelector('.mailtracker-reminder');
     
+    reminderSelect.disabled = !connection.trackByDefault;
+
     // Store state
-    composeWindowStates.set(composeWindow, { trackingEnabled: true });
+    composeWindowStates.set(composeWindow, {
+      trackingEnabled: connection.trackByDefault,
+      reminder: null,
+      reservation: null,
+      reserving: false,
+      // Signatures of the draft's links, by destination (see startSigningLinks)
+      linkSignatures: new Map(),
+      linkObserver: null,
+      renewTimer: null,
+      scheduling: false,
+      sent: false,
+    });
     
     checkbox.addEventListener('change', (e) => {
       const state = composeWindowStates.get(composeWindow);
       if (state) {
         state.trackingEnabled = e.target.checked;
+        // A reminder needs tracking, so the choice goes away with it
+        reminderSelect.disabled = !e.target.checked;
+        if (e.target.checked) {
+          reserveTrackingId(composeWindow);
+        } else {
+          releaseTrackingId(composeWindow);
+        }
         console.log('[MailTracker] Tracking:', e.target.checked ? 'enabled' : 'disabled');
       }
     });
 
+    reminderSelect.addEventListener('change', (e) => {
+      const state = composeWindowStates.get(composeWindow);
+      if (state) {
+        state.reminder = REMINDER_OPTIONS[Number(e.target.value)].value;
+        console.log('[MailTracker] Reminder:', REMINDER_OPTIONS[Number(e.target.value)].label);
+      }
+    });
+
     return container;
   }
 
@@ -202,25 +383,80 @@
     return { messageBody, toField, subjectField, sendButton };
   }
 
+  const RECIPIENT_ROLES = ['to', 'cc', 'bcc'];
+
+  // Typed text can be "Name <address>"; the server only wants the address
+  function extractAddress(text) {
+    const angled = text.match(/<([^<>]*)>\s*$/);
+    const address = (angled ? angled[1] : text).trim();
+    return /^[^\s@<>",;]+@[^\s@<>",;]+$/.test(address) ? address : null;
+  }
+
+  // Split on commas, except inside a quoted display name such as "Doe, Jane"
+  function splitAddressList(text) {
+    return text.split(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  }
+
+  function getRecipientChipAddress(chip) {
+    const email = chip.getAttribute('email') || chip.getAttribute('data-hovercard-id');
+    return email && email.includes('@') ? email : null;
+  }
+
+  function findRecipientField(composeWindow, role) {
+    // Gmail marks each recipient row with name="to" / "cc" / "bcc", and labels
+    // the free-text input "To recipients", "Cc recipients" or "Bcc recipients"
+    const named = composeWindow.querySelector(`[name="${role}"]`);
+    const labelled = composeWindow.querySelector(`input[aria-label^="${role}" i][aria-label*="recipients" i]`);
+    const field = named || labelled;
+    if (!field) return null;
+
+    // Chips live next to the input, so search the whole row
+    return field.closest('tr') || field.parentElement;
+  }
+
   function getRecipients(composeWindow) {
     // Gmail shows recipients as chips/pills with email attribute
-    const recipientChips = composeWindow.querySelectorAll('[email], [data-hovercard-id]');
-    const emails = [];
-    
-    recipientChips.forEach(chip => {
-      const email = chip.getAttribute('email') || chip.getAttribute('data-hovercard-id');
-      if (email && email.includes('@')) {
-        emails.push(email);
-      }
+    const recipients = [];
+    const seen = new Set();
+
+    const addRecipient = (text, role) => {
+      const address = extractAddress(text);
+      if (!address) return;
+      const key = address.toLowerCase();
+      if (seen.has(key)) return;
+      seen.add(key);
+      recipients.push({ address, role });
+    };
+
+    RECIPIENT_ROLES.forEach(role => {
+      const row = findRecipientField(composeWindow, role);
+      if (!row) return;
+
+      row.querySelectorAll('[email], [data-hovercard-id]').forEach(chip => {
+        const email = getRecipientChipAddress(chip);
+        if (email) addRecipient(email, role);
+      });
+
+      // Also check the input field for an address that hasn't become a chip yet
+      row.querySelectorAll('input, textarea').forEach(input => {
+        if (input.value && input.value.includes('@')) {
+          splitAddressList(input.value).forEach(part => addRecipient(part, role));
+        }
+      });
+    });
+
+    // Anything we couldn't place in a row is treated as a To recipient
+    composeWindow.querySelectorAll('[email], [data-hovercard-id]').forEach(chip => {
+      const email = getRecipientChipAddress(chip);
+      if (email) addRecipient(email, 'to');
     });
 
-    // Also check input field
     const toInput = composeWindow.querySelector('input[aria-label="To recipients"], input[aria-label="To"]');
     if (toInput && toInput.value && toInput.value.includes('@')) {
-      emails.push(toInput.value);
+      splitAddressList(toInput.value).forEach(part => addRecipient(part, 'to'));
     }
 
-    return [...new Set(emails)]; // Remove duplicates
+    return recipients;
   }
 
   function getSubject(composeWindow) {
@@ -228,16 +464,155 @@
     return subjectInput ? subjectInput.value : '';
   }
 
+  function getDraftMessageId(composeWindow) {
+    const value = composeWindow.querySelector(SELECTORS.draftId)?.value;
+    return value && value !== 'undefined' ? value.replace(/^#/, '') : null;
+  }
+
+  function getSentThreadId() {
+    return document.querySelector(SELECTORS.sentMessageLink)?.getAttribute('param') || null;
+  }
+
+  /**
+   * Gmail only assigns a new conversation its thread id once the message is sent,
+   * so wait for the "Message sent" toast and read the id from its link
+   */
+  function waitForSentThreadId(previousThreadId) {
+    return new Promise((resolve) => {
+      const startedAt = Date.now();
+      const timer = setInterval(() => {
+        const threadId = getSentThreadId();
+        if (threadId && threadId !== previousThreadId) {
+          clearInterval(timer);
+          resolve(threadId);
+        } else if (Date.now() - startedAt > SENT_TOAST_TIMEOUT_MS) {
+          clearInterval(timer);
+          resolve(null);
+        }
+      }, 500);
+    });
+  }
+
+  function getTrackableAnchors(messageBody) {
+    if (!messageBody) return [];
+
+    // Only rewrite plain web links - mailto:, tel: and in-page anchors go out untouched
+    return Array.from(messageBody.querySelectorAll('a[href]')).filter(anchor => {
+      return /^https?:\/\//i.test(anchor.getAttribute('href'));
+    });
+  }
+
+  // Where a link goes. Our own redirect, left in a draft whose send was undone or
+  // whose schedule was cancelled, is unwrapped rather than redirected twice.
+  function linkDestination(anchor) {
+    const href = anchor.getAttribute('href');
+    if (href.startsWith(`${connection.apiBase}/r/`)) {
+      const url = new URL(href).searchParams.get('url');
+      if (url && /^https?:\/\//i.test(url)) return url;
+    }
+    return href;
+  }
+
+  /**
+   * Point the links at signed redirects that carry their destination, so they keep
+   * working whether or not the send is ever confirmed
+   * - A link typed a moment before sending may not be signed yet; it goes out as is
+   * - Returns the destinations that were rewritten, to confirm with the send
+   */
+  function rewriteLinks(anchors, reservation, signatures) {
+    const links = [];
+    for (const anchor of anchors) {
+      const url = linkDestination(anchor);
+      const signature = signatures.get(url);
+      if (!signature) {
+        anchor.setAttribute('href', url);
+        continue;
+      }
+
+      anchor.setAttribute('href', `${connection.apiBase}/r/${reservation.id}/u/${signature}?url=${encodeURIComponent(url)}`);
+      // Gmail keeps its own copy of the original URL on some anchors
+      anchor.removeAttribute('data-saferedirecturl');
+      if (!links.includes(url)) links.push(url);
+    }
+
+    console.log(`[MailTracker] Rewrote ${anchors.length} link(s) for click tracking, ${links.length} destination(s)`);
+    return links;
+  }
+
+  // ============================================
+  // Link Signing
+  // ============================================
+
+  // The server gives each reserved id a key (hex) for signing that email's redirects:
+  // base64url(HMAC-SHA256(key, destination)), cut to SIGNATURE_LENGTH characters.
+  // WebCrypto is async and the send handler can't wait, so links are signed as soon
+  // as they appear in the draft.
+  const SIGNATURE_LENGTH = 22;
+
+  function hexToBytes(hex) {
+    return new Uint8Array(hex.match(/../g).map(pair => parseInt(pair, 16)));
+  }
+
+  function toBase64Url(buffer) {
+    return btoa(String.fromCharCode(...new Uint8Array(buffer)))
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=+$/, '');
+  }
+
+  function startSigningLinks(composeWindow, reservation) {
+    const state = composeWindowStates.get(composeWindow);
+    const { messageBody } = findComposeElements(composeWindow);
+    if (!state || !messageBody || !reservation.link_key) return;
+
+    const key = crypto.subtle.importKey(
+      'raw', hexToBytes(reservation.link_key), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']
+    );
+    const signatures = new Map();
+    state.linkSignatures = signatures;
+
+    const signNewLinks = () => {
+      for (const anchor of getTrackableAnchors(messageBody)) {
+        const url = linkDestination(anchor);
+        if (signatures.has(url)) continue;
+
+        signatures.set(url, null); // being signed
+        key
+          .then(cryptoKey => crypto.subtle.sign('HMAC', cryptoKey, new TextEncoder().encode(url)))
+          .then(signature => signatures.set(url, toBase64Url(signature).slice(0, SIGNATURE_LENGTH)))
+          .catch(error => {
+            console.error('[MailTracker] Failed to sign link:', error);
+            signatures.delete(url);
+          });
+      }
+    };
+
+    signNewLinks();
+    state.linkObserver = new MutationObserver(signNewLinks);
+    state.linkObserver.observe(messageBody, { childList: true, subtree: true, attributes: true, attributeFilter: ['href'] });
+  }
+
+  function stopSigningLinks(state) {
+    state.linkObserver?.disconnect();
+    state.linkObserver = null;
+  }
+
   function injectTrackingPixel(messageBody, trackingUrl) {
     if (!messageBody) {
       console.error('[MailTracker] No message body found');
       return false;
     }
 
+    // A pixel already there is left from an undone send or a cancelled schedule, or
+    // from a schedule picker that was closed; only the current one goes out
+    messageBody.querySelectorAll(`img[src^="${connection.apiBase}/track/"]`).forEach(img => {
+      (img.parentElement === messageBody ? img : img.parentElement).remove();
+    });
+
     // Create tracking pixel HTML as a string
     // We use a zero-height div to hide it, and the img inside
-    // Note: The browser WILL load this image when injected, but the server
-    // will ignore opens that happen within 10 seconds of email creation
+    // Note: The browser WILL load this image when injected; the background script
+    // blocks the sender's own loads so they aren't counted as opens
     const pixelHtml = `<div style="height:0;width:0;max-height:0;max-width:0;overflow:hidden;visibility:hidden;mso-hide:all;"><img src="${trackingUrl}" width="1" height="1" alt="" style="display:block;height:1px;width:1px;border:0;" /></div>`;
     
     // Insert at the end of the email body
@@ -271,6 +646,9 @@
 
     // Add tracking toggle to compose window
     const toggle = createTrackingToggle(composeWindow);
+    if (connection.trackByDefault) {
+      reserveTrackingId(composeWindow);
+    }
     
     // Find a good place to insert the toggle
     // Try to find the formatting toolbar
@@ -307,49 +685,373 @@
   function interceptSendButton(composeWindow, sendButton) {
     // We can't directly intercept Gmail's send, but we can detect the click
     // and inject our pixel before Gmail processes it
-    
-    sendButton.addEventListener('click', async (e) => {
-      const state = composeWindowStates.get(composeWindow);
-      
-      if (!state || !state.trackingEnabled) {
-        console.log('[MailTracker] Tracking disabled for this email');
-        return; // Let send proceed without tracking
+    sendButton.addEventListener('click', () => trackSend(composeWindow), true); // Use capture phase to run before Gmail's handler
+  }
+
+  /**
+   * Catch the other ways a compose window gets sent: the Ctrl/Cmd+Enter shortcut
+   * and "Schedule send" in the menu next to the Send button, which Gmail shows
+   * outside the compose window. Listening on window in the capture phase runs
+   * us ahead of Gmail's own handlers.
+   */
+  function interceptOtherSends() {
+    window.addEventListener('keydown', (e) => {
+      if (e.key !== 'Enter' || !(e.ctrlKey || e.metaKey)) return;
+      const composeWindow = e.target.closest?.(SELECTORS.composeWindow);
+      if (composeWindow) trackSend(composeWindow);
+    }, true);
+
+    window.addEventListener('click', (e) => {
+      const optionsButton = e.target.closest?.(SELECTORS.sendOptionsButton);
+      if (optionsButton) {
+        sendOptionsComposeWindow = optionsButton.closest(SELECTORS.composeWindow);
+        return;
       }
 
-      // Get email details
-      const recipients = getRecipients(composeWindow);
-      const subject = getSubject(composeWindow);
-      const { messageBody } = findComposeElements(composeWindow);
+      // The pixel goes in now, before the time is picked; the send is confirmed
+      // once Gmail says when it will go out
+      const menuItem = e.target.closest?.(SELECTORS.menuItem);
+      if (menuItem && /^schedule send$/i.test(menuItem.textContent.trim()) && sendOptionsComposeWindow) {
+        trackSend(sendOptionsComposeWindow, { scheduled: true });
+        return;
+      }
 
-      if (recipients.length === 0) {
-        console.warn('[MailTracker] No recipients found');
+      if (e.target.closest?.(SELECTORS.toastUndo)) {
+        forgetUndoneSend();
         return;
       }
 
-      console.log('[MailTracker] Sending tracked email to:', recipients.join(', '));
-
-      // Create tracked email via API
-      const trackedEmail = await createTrackedEmail(
-        recipients.join(', '),
-        subject || '(No subject)'
-      );
-
-      if (trackedEmail && trackedEmail.id) {
-        // Construct tracking URL using CONFIG.API_BASE (handles ngrok/production URLs)
-        const trackingUrl = `${CONFIG.API_BASE}/track/${trackedEmail.id}.png`;
-        
-        // Inject tracking pixel
-        const injected = injectTrackingPixel(messageBody, trackingUrl);
-        
-        if (injected) {
-          showNotification(`Tracking enabled for: ${recipients[0]}`);
-          console.log('[MailTracker] Tracking URL:', trackingUrl);
+      const button = e.target.closest?.(SELECTORS.button);
+      if (button && /^cancel send$/i.test(button.textContent.trim())) {
+        forgetCancelledSchedule(button);
+      }
+    }, true);
+  }
+
+  // Undo right after a send or schedule: the email never left
+  function forgetUndoneSend() {
+    if (!lastSend || Date.now() - lastSend.at > UNDO_WINDOW_MS) return;
+
+    const { confirmation } = lastSend;
+    lastSend = null;
+    confirmation.then((trackedEmail) => {
+      if (!trackedEmail) return;
+      console.log('[MailTracker] Send undone, forgetting:', trackedEmail.id);
+      forgetTrackedEmail('deleteTrackedEmail', { id: trackedEmail.id });
+    });
+  }
+
+  // "Cancel send" on a scheduled message turns it back into a draft
+  function forgetCancelledSchedule(button) {
+    const messages = document.querySelectorAll(SELECTORS.threadMessage);
+    const message = button.closest('[data-message-id]') || (messages.length === 1 ? messages[0] : null);
+    const messageId = message?.getAttribute('data-message-id')?.replace(/^#/, '');
+    if (!messageId) {
+      console.warn('[MailTracker] Cancelled a scheduled send, but could not tell which');
+      return;
+    }
+
+    console.log('[MailTracker] Schedule cancelled, forgetting:', messageId);
+    forgetTrackedEmail('cancelScheduledEmail', { messageId });
+  }
+
+  /**
+   * The time in Gmail's "Send scheduled for ..." toast
+   * - Resolves with a Date, null if a schedule was made but its time can't be read,
+   *   or undefined if no schedule was made (the picker was closed)
+   * - Gmail leaves the year out for dates within the next twelve months
+   */
+  function waitForScheduledTime(composeWindow) {
+    return new Promise((resolve) => {
+      const startedAt = Date.now();
+      const timer = setInterval(() => {
+        const text = document.querySelector(SELECTORS.toastMessage)?.textContent || '';
+        const match = text.match(/scheduled for (?:[a-z]+, )?(.+)$/i);
+
+        if (match) {
+          clearInterval(timer);
+          const withYear = /\b\d{4}\b/.test(match[1])
+            ? match[1]
+            : match[1].replace(/^([^,]+)/, `$1, ${new Date().getFullYear()}`);
+          const sendAt = new Date(withYear);
+          if (isNaN(sendAt.getTime())) {
+            console.warn('[MailTracker] Could not read the scheduled time:', match[1]);
+            resolve(null);
+          } else {
+            // Past dates without a year are next year's
+            if (sendAt.getTime() < startedAt - 60 * 60 * 1000) sendAt.setFullYear(sendAt.getFullYear() + 1);
+            resolve(sendAt);
+          }
+        } else if (Date.now() - startedAt > SCHEDULE_PICK_TIMEOUT_MS) {
+          clearInterval(timer);
+          // A compose window that went away was most likely scheduled all the same
+          resolve(composeWindow.isConnected ? undefined : null);
         }
-      } else {
-        console.error('[MailTracker] Failed to create tracked email');
-        showNotification('Tracking failed - email will send without tracking', 'error');
+      }, 500);
+    });
+  }
+
+  /**
+   * Put the reserved id's pixel and link redirects into the email, then confirm the send
+   * - Synchronous up to the confirmation, so the body is ready before Gmail reads it
+   * - A scheduled send is confirmed once a time is picked, dated when it goes out;
+   *   if the picker is closed instead, a later Send or Schedule send redoes the body
+   * - Only the first confirmed send of a compose window counts
+   */
+  function trackSend(composeWindow, { scheduled = false } = {}) {
+    const state = composeWindowStates.get(composeWindow);
+    if (!state || state.sent) return;
+
+    if (!state.trackingEnabled) {
+      console.log('[MailTracker] Tracking disabled for this email');
+      return; // Let send proceed without tracking
+    }
+
+    // Get email details
+    const recipients = getRecipients(composeWindow);
+    const subject = getSubject(composeWindow);
+    const { messageBody } = findComposeElements(composeWindow);
+
+    if (recipients.length === 0) {
+      console.warn('[MailTracker] No recipients found');
+      return;
+    }
+
+    const { reservation } = state;
+    if (!reservation) {
+      console.error('[MailTracker] No tracking id reserved for this email');
+      showNotification('Tracking failed - email will send without tracking', 'error');
+      return;
+    }
+
+    // Construct tracking URL from the configured server (handles tunnel/production URLs)
+    // The token is only there when the server signs its pixels
+    const trackingUrl = reservation.tracking_token
+      ? `${connection.apiBase}/track/${reservation.id}/${reservation.tracking_token}.png`
+      : `${connection.apiBase}/track/${reservation.id}.png`;
+
+    if (!injectTrackingPixel(messageBody, trackingUrl)) return;
+
+    // Point links at the click redirect, remembering where they went
+    const links = rewriteLinks(getTrackableAnchors(messageBody), reservation, state.linkSignatures);
+    const send = { recipients, subject, links, messageId: getDraftMessageId(composeWindow) };
+
+    // A toast left over from an earlier send mustn't be mistaken for this one
+    const previousThreadId = getSentThreadId();
+
+    if (!scheduled) {
+      confirmSend(composeWindow, send, null, previousThreadId);
+      return;
+    }
+
+    if (state.scheduling) return;
+    state.scheduling = true;
+    waitForScheduledTime(composeWindow).then((sendAt) => {
+      state.scheduling = false;
+      if (state.sent) return; // Sent normally after all
+      if (sendAt === undefined) {
+        console.log('[MailTracker] No schedule was made');
+        releaseClosedComposeWindows();
+        return;
+      }
+      confirmSend(composeWindow, send, sendAt, previousThreadId);
+    });
+  }
+
+  function confirmSend(composeWindow, { recipients, subject, links, messageId }, sendAt, previousThreadId) {
+    const state = composeWindowStates.get(composeWindow);
+    const { reservation } = state;
+
+    state.sent = true;
+    clearTimeout(state.renewTimer);
+    stopSigningLinks(state);
+    reservedComposeWindows.delete(composeWindow);
+    console.log(`[MailTracker] ${sendAt ? `Scheduled for ${sendAt.toISOString()}` : 'Sending'} tracked email to:`, recipients.map(r => `${r.role}:${r.address}`).join(', '));
+
+    const confirmation = confirmTrackedEmail(
+      reservation.id,
+      recipients,
+      subject || '(No subject)',
+      links,
+      state.reminder,
+      messageId,
+      sendAt
+    );
+    lastSend = { confirmation, at: Date.now() };
+
+    confirmation.then((trackedEmail) => {
+      if (!trackedEmail) {
+        showNotification('Tracking failed - the server did not record this email', 'error');
+        return;
+      }
+      showNotification(`Tracking enabled for: ${recipients[0].address}`);
+
+      waitForSentThreadId(previousThreadId).then((threadId) => {
+        if (!threadId) return;
+        console.log('[MailTracker] Sent in thread:', threadId);
+        updateTrackedEmail(trackedEmail.id, { thread_id: threadId });
+      });
+    });
+  }
+
+  // Discarded drafts and windows closed without sending give their tracking id back;
+  // a window waiting for a schedule to be picked keeps it until then
+  function releaseClosedComposeWindows() {
+    for (const composeWindow of reservedComposeWindows) {
+      if (!composeWindow.isConnected && !composeWindowStates.get(composeWindow)?.scheduling) {
+        releaseTrackingId(composeWindow);
+      }
+    }
+  }
+
+  // ============================================
+  // Read Receipts
+  // ============================================
+
+  // Rows and messages are looked up in batches, and answers are reused for a while
+  // so that scrolling or switching folders doesn't go back to the server
+  const RECEIPT_CACHE_MS = 2 * 60 * 1000;
+  const RECEIPT_BATCH_DELAY_MS = 300;
+  const RECEIPT_SCAN_DELAY_MS = 500;
+  const MAX_LOOKUPS_PER_REQUEST = 100;
+
+  const receiptCache = new Map(); // lookup key -> { receipt, fetchedAt }
+  const pendingLookups = new Map(); // lookup key -> lookup, waiting for the next batch
+  const lookupsInFlight = new Set();
+  let lookupTimer = null;
+  let scanTimer = null;
+
+  function isSentFolder() {
+    return location.hash === '#sent' || location.hash.startsWith('#sent/');
+  }
+
+  // What to ask the server about a Sent row: its thread, or failing that who it went to and when
+  function getRowLookup(row) {
+    const threadId = row.querySelector(SELECTORS.rowThreadId)?.getAttribute('data-legacy-thread-id');
+    if (threadId) return { thread_id: threadId };
+
+    const recipient = row.querySelector(SELECTORS.rowRecipient)?.getAttribute('email');
+    const sentAt = new Date(row.querySelector(SELECTORS.rowDate)?.getAttribute('title') || '');
+    if (!recipient || isNaN(sentAt.getTime())) return null;
+
+    const subject = row.querySelector(SELECTORS.rowSubject)?.textContent.trim();
+    return { recipient, sent_at: sentAt.toISOString(), ...(subject ? { subject } : {}) };
+  }
+
+  function findReceiptTargets() {
+    const targets = [];
+
+    if (isSentFolder()) {
+      document.querySelectorAll(SELECTORS.listRow).forEach(row => {
+        const subject = row.querySelector(SELECTORS.rowSubject);
+        const lookup = subject && getRowLookup(row);
+        if (lookup) {
+          targets.push({ element: row, lookup, place: (mark) => subject.before(mark) });
+        }
+      });
+    }
+
+    document.querySelectorAll(SELECTORS.threadMessage).forEach(message => {
+      const sender = message.querySelector(SELECTORS.messageSender);
+      if (sender) {
+        const messageId = message.getAttribute('data-message-id').replace(/^#/, '');
+        targets.push({ element: message, lookup: { message_id: messageId }, place: (mark) => sender.after(mark) });
+      }
+    });
+
+    return targets;
+  }
+
+  function formatRelativeTime(dateStr) {
+    const diffMins = Math.floor((Date.now() - new Date(dateStr.replace(' ', 'T') + 'Z').getTime()) / 60000);
+    if (diffMins < 1) return 'just now';
+    if (diffMins < 60) return `${diffMins}m ago`;
+    if (diffMins < 24 * 60) return `${Math.floor(diffMins / 60)}h ago`;
+    return `${Math.floor(diffMins / (24 * 60))}d ago`;
+  }
+
+  function renderReceipt({ element, place }, receipt) {
+    let mark = element.querySelector('.mailtracker-receipt');
+    if (!receipt) {
+      mark?.remove();
+      return;
+    }
+
+    if (!mark) {
+      mark = document.createElement('span');
+      mark.className = 'mailtracker-receipt';
+      place(mark);
+    }
+
+    const read = receipt.read_count > 0;
+    mark.textContent = read ? '✓✓' : '✓';
+    mark.classList.toggle('mailtracker-receipt-read', read);
+    mark.title = read
+      ? `Opened ${receipt.read_count} time${receipt.read_count !== 1 ? 's' : ''}, last ${formatRelativeTime(receipt.last_read_at)}`
+      : 'Tracked, not opened yet';
+  }
+
+  function scanForReceipts() {
+    scanTimer = null;
+    if (!connection.apiKey) return;
+
+    for (const target of findReceiptTargets()) {
+      const key = JSON.stringify(target.lookup);
+      const cached = receiptCache.get(key);
+
+      if (cached && Date.now() - cached.fetchedAt < RECEIPT_CACHE_MS) {
+        // Rendering changes the DOM, which triggers another scan, so only render once per
+        // answer - unless Gmail has redrawn the part of the row holding the mark
+        const rendered = `${key}@${cached.fetchedAt}`;
+        const markLost = cached.receipt && !target.element.querySelector('.mailtracker-receipt');
+        if (target.element.dataset.mailtrackerReceipt !== rendered || markLost) {
+          target.element.dataset.mailtrackerReceipt = rendered;
+          renderReceipt(target, cached.receipt);
+        }
+      } else if (!lookupsInFlight.has(key)) {
+        pendingLookups.set(key, target.lookup);
       }
-    }, true); // Use capture phase to run before Gmail's handler
+    }
+
+    if (pendingLookups.size > 0 && !lookupTimer) {
+      lookupTimer = setTimeout(flushLookups, RECEIPT_BATCH_DELAY_MS);
+    }
+  }
+
+  function scheduleReceiptScan() {
+    if (!scanTimer) {
+      scanTimer = setTimeout(scanForReceipts, RECEIPT_SCAN_DELAY_MS);
+    }
+  }
+
+  function flushLookups() {
+    lookupTimer = null;
+    if (!chrome.runtime?.id) return;
+
+    const batch = [...pendingLookups].slice(0, MAX_LOOKUPS_PER_REQUEST);
+    batch.forEach(([key]) => {
+      pendingLookups.delete(key);
+      lookupsInFlight.add(key);
+    });
+
+    chrome.runtime.sendMessage({ action: 'lookupReadReceipts', data: batch.map(([, lookup]) => lookup) }, (response) => {
+      const failed = chrome.runtime.lastError || !response?.success;
+      if (failed) {
+        console.error('[MailTracker] Read receipt lookup failed:', chrome.runtime.lastError?.message || response?.error);
+      }
+
+      // A failed batch is cached as "not tracked" too, so it isn't retried on every scroll
+      const fetchedAt = Date.now();
+      batch.forEach(([key], index) => {
+        lookupsInFlight.delete(key);
+        receiptCache.set(key, { receipt: failed ? null : response.data[index], fetchedAt });
+      });
+
+      if (pendingLookups.size > 0) {
+        lookupTimer = setTimeout(flushLookups, RECEIPT_BATCH_DELAY_MS);
+      }
+      scheduleReceiptScan();
+    });
   }
 
   // ============================================
@@ -360,8 +1062,11 @@
     // Process any existing compose windows
     document.querySelectorAll(SELECTORS.composeWindow).forEach(processComposeWindow);
 
-    // Watch for new compose windows
+    // Watch for new compose windows, and for rows and messages to mark as read
     const observer = new MutationObserver((mutations) => {
+      scheduleReceiptScan();
+      releaseClosedComposeWindows();
+
       for (const mutation of mutations) {
         for (const node of mutation.addedNodes) {
           if (node.nodeType === Node.ELEMENT_NODE) {
@@ -385,6 +1090,10 @@
       subtree: true,
     });
 
+    window.addEventListener('hashchange', scheduleReceiptScan);
+    scheduleReceiptScan();
+    interceptOtherSends();
+
     console.log('[MailTracker] Gmail observer started');
   }
 
@@ -404,7 +1113,7 @@
       Dashboard
     `;
     button.addEventListener('click', () => {
-      window.open(CONFIG.DASHBOARD_URL, '_blank');
+      window.open(connection.dashboardUrl, '_blank');
     });
     document.body.appendChild(button);
   }
@@ -413,7 +1122,14 @@
   // Initialize
   // ============================================
 
-  function init() {
+  async function init() {
+    connection = await loadConnectionSettings();
+    chrome.storage.onChanged.addListener((changes, area) => {
+      if (area === 'sync' && changes.connectionSettings) {
+        connection = { ...DEFAULT_CONNECTION_SETTINGS, ...changes.connectionSettings.newValue };
+      }
+    });
+
     createDashboardButton();
     
     // Wait for Gmail to fully load
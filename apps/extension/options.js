@@ -0,0 +1,163 @@
+// Options page
+// Reads and writes the shared settings from settings.js
+// Chrome only grants host permissions from a user gesture, so the server's is
+// requested when Save is clicked
+
+(function () {
+  'use strict';
+
+  const fields = ['enabled', 'ignoreMachineOpens', 'quietHoursStart', 'quietHoursEnd', 'coalesceMinutes'];
+
+  function showStatus(message) {
+    const status = document.getElementById('status');
+    status.textContent = message;
+    setTimeout(() => (status.textContent = ''), 2000);
+  }
+
+  function showConnectionStatus(message, isError = false) {
+    const status = document.getElementById('connectionStatus');
+    status.textContent = message;
+    status.className = isError ? 'error' : 'hint';
+  }
+
+  // "https://host/path/" -> "https://host/path"; null unless http(s)
+  function normalizeUrl(value) {
+    try {
+      const url = new URL(value.trim());
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+      return url.href.replace(/\/+$/, '');
+    } catch {
+      return null;
+    }
+  }
+
+  async function saveConnection(event) {
+    event.preventDefault();
+
+    const apiBase = normalizeUrl(document.getElementById('apiBase').value);
+    const dashboardUrl = normalizeUrl(document.getElementById('dashboardUrl').value);
+    if (!apiBase || !dashboardUrl) {
+      showConnectionStatus('Enter http:// or https:// URLs', true);
+      return;
+    }
+
+    const granted = await chrome.permissions.request({ origins: [hostPermissionFor(apiBase)] });
+    if (!granted) {
+      showConnectionStatus(`The extension needs access to ${new URL(apiBase).origin} to reach the server`, true);
+      return;
+    }
+
+    const previous = await loadConnectionSettings();
+    const settings = {
+      apiBase,
+      dashboardUrl,
+      apiKey: document.getElementById('apiKey').value.trim(),
+      trackByDefault: document.getElementById('trackByDefault').checked,
+    };
+    await saveConnectionSettings(settings);
+
+    // The event cursor belongs to the old server or account
+    if (settings.apiBase !== previous.apiBase || settings.apiKey !== previous.apiKey) {
+      await chrome.storage.local.remove('eventCursor');
+    }
+
+    document.getElementById('apiBase').value = apiBase;
+    document.getElementById('dashboardUrl').value = dashboardUrl;
+    showConnectionStatus('Saved');
+  }
+
+  async function testConnection() {
+    const { apiBase, apiKey } = await loadConnectionSettings();
+    const hasPermission = await chrome.permissions.contains({ origins: [hostPermissionFor(apiBase)] });
+    if (!hasPermission) {
+      showConnectionStatus(`No access to ${new URL(apiBase).origin} yet - click Save to grant it`, true);
+      return;
+    }
+
+    showConnectionStatus('Testing...');
+    chrome.runtime.sendMessage({ action: 'healthCheck' }, (response) => {
+      if (chrome.runtime.lastError || !response?.success) {
+        showConnectionStatus(`Can't reach ${apiBase}: ${chrome.runtime.lastError?.message || response?.error}`, true);
+      } else if (response.data.authenticated) {
+        showConnectionStatus(`Connected as ${response.data.user.email}`);
+      } else {
+        showConnectionStatus(apiKey ? 'Server is up, but it rejected the API key' : 'Server is up, but no API key is saved', true);
+      }
+    });
+  }
+
+  async function initConnection() {
+    const settings = await loadConnectionSettings();
+    document.getElementById('apiBase').value = settings.apiBase;
+    document.getElementById('dashboardUrl').value = settings.dashboardUrl;
+    document.getElementById('apiKey').value = settings.apiKey;
+    document.getElementById('trackByDefault').checked = settings.trackByDefault;
+
+    document.getElementById('connectionForm').addEventListener('submit', saveConnection);
+    document.getElementById('testConnection').addEventListener('click', testConnection);
+  }
+
+  function renderMutedEmails(settings) {
+    const list = document.getElementById('mutedEmails');
+    list.innerHTML = '';
+
+    const entries = Object.entries(settings.mutedEmails);
+    if (entries.length === 0) {
+      const empty = document.createElement('li');
+      empty.className = 'hint';
+      empty.textContent = 'No muted emails';
+      list.appendChild(empty);
+      return;
+    }
+
+    entries.forEach(([emailId, subject]) => {
+      const item = document.createElement('li');
+      const label = document.createElement('span');
+      label.textContent = subject;
+
+      const unmute = document.createElement('button');
+      unmute.textContent = 'Unmute';
+      unmute.addEventListener('click', async () => {
+        const current = await loadNotificationSettings();
+        delete current.mutedEmails[emailId];
+        await saveNotificationSettings(current);
+        renderMutedEmails(current);
+        showStatus('Unmuted');
+      });
+
+      item.append(label, unmute);
+      list.appendChild(item);
+    });
+  }
+
+  async function init() {
+    const settings = await loadNotificationSettings();
+
+    fields.forEach(field => {
+      const input = document.getElementById(field);
+      if (input.type === 'checkbox') {
+        input.checked = settings[field];
+      } else {
+        input.value = settings[field];
+      }
+
+      input.addEventListener('change', async () => {
+        const current = await loadNotificationSettings();
+        if (input.type === 'checkbox') {
+          current[field] = input.checked;
+        } else if (input.type === 'number') {
+          current[field] = Math.max(0, Number(input.value) || 0);
+        } else {
+          current[field] = input.value;
+        }
+        await saveNotificationSettings(current);
+        showStatus('Saved');
+      });
+    });
+
+    renderMutedEmails(settings);
+    await initConnection();
+  }
+
+  document.addEventListener('DOMContentLoaded', init);
+})();
@@ -0,0 +1,76 @@
+// Toolbar popup
+// Lists the emails opened most recently; the background worker does the fetching
+
+(function () {
+  'use strict';
+
+  // Server timestamps are UTC without a zone suffix ("2026-01-02 03:22:00")
+  function formatRelativeTime(dateStr) {
+    const diffMins = Math.floor((Date.now() - new Date(dateStr.replace(' ', 'T') + 'Z').getTime()) / 60000);
+    if (diffMins < 1) return 'just now';
+    if (diffMins < 60) return `${diffMins}m ago`;
+    if (diffMins < 24 * 60) return `${Math.floor(diffMins / 60)}h ago`;
+    return `${Math.floor(diffMins / (24 * 60))}d ago`;
+  }
+
+  function showMessage(text) {
+    document.getElementById('message').textContent = text;
+  }
+
+  async function openDashboard(emailId) {
+    const { dashboardUrl } = await loadConnectionSettings();
+    chrome.tabs.create({ url: emailId ? `${dashboardUrl}/?email=${emailId}` : dashboardUrl });
+    window.close();
+  }
+
+  function renderOpens(emails) {
+    const list = document.getElementById('opens');
+    list.innerHTML = '';
+
+    if (emails.length === 0) {
+      showMessage('None of your tracked emails has been opened yet.');
+      return;
+    }
+
+    emails.forEach(email => {
+      const item = document.createElement('li');
+      item.title = 'Show in the dashboard';
+      item.addEventListener('click', () => openDashboard(email.id));
+
+      const subject = document.createElement('p');
+      subject.className = 'subject';
+      subject.textContent = email.subject || '(No subject)';
+
+      const details = document.createElement('p');
+      details.className = 'hint';
+      const opens = `${email.open_count} open${email.open_count !== 1 ? 's' : ''}`;
+      details.textContent = `${email.recipient} · ${opens} · ${formatRelativeTime(email.last_opened_at)}`;
+
+      item.append(subject, details);
+      list.appendChild(item);
+    });
+  }
+
+  async function init() {
+    document.getElementById('openDashboard').addEventListener('click', () => openDashboard());
+    document.getElementById('openOptions').addEventListener('click', () => chrome.runtime.openOptionsPage());
+
+    const { apiKey } = await loadConnectionSettings();
+    if (!apiKey) {
+      showMessage('Add your API key in Options to see opens here.');
+      return;
+    }
+
+    showMessage('Loading...');
+    chrome.runtime.sendMessage({ action: 'getRecentOpens' }, (response) => {
+      if (chrome.runtime.lastError || !response?.success) {
+        showMessage(`Couldn't load opens: ${chrome.runtime.lastError?.message || response?.error}`);
+        return;
+      }
+      showMessage('');
+      renderOpens(response.data);
+    });
+  }
+
+  document.addEventListener('DOMContentLoaded', init);
+})();
@@ -0,0 +1,51 @@
+// Shared extension settings
+// Loaded by the background service worker (importScripts), the content script,
+// the options page and the popup
+
+const DEFAULT_CONNECTION_SETTINGS = {
+  // Tracking server; pixels and link redirects point here, so for Gmail it has to be
+  // reachable from the internet (e.g. a cloudflared tunnel to localhost:8080)
+  apiBase: 'http://localhost:8080',
+  dashboardUrl: 'http://localhost:3000',
+  // API key from the dashboard (API Keys page) - every /api request needs it
+  apiKey: '',
+  // Whether the compose window's Track toggle starts switched on
+  trackByDefault: true,
+};
+
+const DEFAULT_NOTIFICATION_SETTINGS = {
+  // Show a desktop notification when a tracked email is opened
+  enabled: true,
+  // "HH:MM" in local time; notifications are dropped between start and end
+  quietHoursStart: '',
+  quietHoursEnd: '',
+  // Opens of the same email within this many minutes update one notification
+  coalesceMinutes: 5,
+  // Skip opens the server classified as prefetch or scanner hits
+  ignoreMachineOpens: true,
+  // { [emailId]: subject } - emails that never notify
+  mutedEmails: {},
+};
+
+async function loadConnectionSettings() {
+  const { connectionSettings } = await chrome.storage.sync.get('connectionSettings');
+  return { ...DEFAULT_CONNECTION_SETTINGS, ...connectionSettings };
+}
+
+async function saveConnectionSettings(settings) {
+  await chrome.storage.sync.set({ connectionSettings: settings });
+}
+
+// Host permission pattern covering a server URL, e.g. "https://abc.trycloudflare.com/*"
+function hostPermissionFor(url) {
+  return `${new URL(url).origin}/*`;
+}
+
+async function loadNotificationSettings() {
+  const { notificationSettings } = await chrome.storage.sync.get('notificationSettings');
+  return { ...DEFAULT_NOTIFICATION_SETTINGS, ...notificationSettings };
+}
+
+async function saveNotificationSettings(settings) {
+  await chrome.storage.sync.set({ notificationSettings: settings });
+}
@@ -0,0 +1,46 @@
+// IP anonymization for stored opens and clicks
+// Classification and geolocation still see the full address; only what is written
+// to the database is reduced.
+//
+//   IP_ANONYMIZATION=truncate  keep the network: 203.0.113.0, 2001:db8:85a3::
+//   IP_ANONYMIZATION=hash      keyed hash (IP_HASH_SECRET), so repeat opens from one
+//                              address still match without the address being stored
+//
+// Both are read into config.privacy (see config.ts).
+
+import crypto from 'crypto';
+import net from 'net';
+import { normalizeIp } from './classify';
+import { config } from './config';
+
+/**
+ * The form of an IP address that gets stored
+ */
+export function anonymizeIp(ipAddress?: string | null): string | null {
+  const { ipAnonymization, ipHashSecret } = config.privacy;
+  if (ipAnonymization === 'off') return ipAddress || null;
+
+  const ip = normalizeIp(ipAddress);
+  if (!ip) return null;
+
+  if (ipAnonymization === 'hash') {
+    // config.ts refuses hash without a secret
+    return crypto.createHmac('sha256', ipHashSecret ?? '').update(ip).digest('hex').slice(0, 32);
+  }
+  if (net.isIPv4(ip)) {
+    return ip.replace(/\.\d+$/, '.0');
+  }
+  if (net.isIPv6(ip)) {
+    return `${expandIpv6(ip).slice(0, 3).join(':')}::`;
+  }
+  // Not an address we can reduce, so don't keep it at all
+  return null;
+}
+
+function expandIpv6(ip: string): string[] {
+  const [head, tail] = ip.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const zeros = tail === undefined ? [] : Array(8 - headGroups.length - tailGroups.length).fill('0');
+  return [...headGroups, ...zeros, ...tailGroups].map((group) => parseInt(group, 16).toString(16));
+}
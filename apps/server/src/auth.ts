@@ -0,0 +1,187 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { User } from './types';
+import { storage } from './storage';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      user?: User;
+    }
+  }
+}
+
+// API keys are prefixed so they can be told apart from session tokens
+const API_KEY_PREFIX = 'etk_';
+
+export const SESSION_TTL_DAYS = 30;
+
+// Long enough to open the event stream with, short enough that a ticket left in a log is useless
+export const STREAM_TICKET_TTL_SECONDS = 60;
+
+// ============================================
+// Passwords
+// ============================================
+
+/**
+ * Hash a password with scrypt, returning "salt:hash"
+ */
+export function hashPassword(password: string): string {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.scryptSync(password, salt, 64).toString('hex');
+  return `${salt}:${hash}`;
+}
+
+/**
+ * Check a password against a stored "salt:hash"
+ */
+export function verifyPassword(password: string, stored: string): boolean {
+  const [salt, hash] = stored.split(':');
+  if (!salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = crypto.scryptSync(password, salt, expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+// ============================================
+// Tokens
+// ============================================
+
+/**
+ * Tokens are random, so a plain SHA-256 is enough to store them safely
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Whether a code sent by a client is the configured one, compared in constant time
+ */
+export function matchesCode(given: unknown, expected: string): boolean {
+  if (typeof given !== 'string') return false;
+  return crypto.timingSafeEqual(Buffer.from(hashToken(given), 'hex'), Buffer.from(hashToken(expected), 'hex'));
+}
+
+export function generateSessionToken(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * Generate an API key along with the short prefix shown in the dashboard
+ */
+export function generateApiKey(): { key: string; prefix: string } {
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(24).toString('hex')}`;
+  return { key, prefix: key.slice(0, API_KEY_PREFIX.length + 6) };
+}
+
+/**
+ * Read the bearer token from the Authorization header
+ */
+export function getBearerToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) return null;
+  return header.slice('Bearer '.length).trim() || null;
+}
+
+// ============================================
+// Stream tickets
+// ============================================
+// EventSource can't set an Authorization header, so the dashboard trades its session
+// for a ticket to put in the /api/events URL. A ticket opens the stream and nothing
+// else. It is signed rather than stored, so any server process can check it.
+
+let streamTicketSecret: string | null = null;
+
+/**
+ * Set the secret tickets are signed with (storage.getSecret, once the database is up)
+ */
+export function initStreamTickets(secret: string): void {
+  streamTicketSecret = secret;
+}
+
+function signStreamTicket(payload: string): string {
+  if (!streamTicketSecret) throw new Error('Stream tickets are not initialized');
+  return crypto.createHmac('sha256', streamTicketSecret).update(`stream:${payload}`).digest('base64url');
+}
+
+/**
+ * A ticket for the user's event stream, "<user id>.<expiry, unix seconds>.<signature>"
+ */
+export function issueStreamTicket(userId: number): string {
+  const payload = `${userId}.${Math.floor(Date.now() / 1000) + STREAM_TICKET_TTL_SECONDS}`;
+  return `${payload}.${signStreamTicket(payload)}`;
+}
+
+/**
+ * The user a ticket was issued to, or null if it is forged or expired
+ */
+export function readStreamTicket(ticket: string): number | null {
+  const match = /^(\d{1,10})\.(\d{1,12})\.([A-Za-z0-9_-]{43})$/.exec(ticket);
+  if (!match) return null;
+
+  const expected = Buffer.from(signStreamTicket(`${match[1]}.${match[2]}`));
+  if (!crypto.timingSafeEqual(expected, Buffer.from(match[3]))) return null;
+  return Number(match[2]) * 1000 > Date.now() ? Number(match[1]) : null;
+}
+
+/**
+ * Resolve a bearer token (API key or session) to a user
+ */
+export async function authenticateToken(token: string): Promise<User | null> {
+  const tokenHash = hashToken(token);
+  return token.startsWith(API_KEY_PREFIX)
+    ? storage.getUserByApiKeyHash(tokenHash)
+    : storage.getUserBySessionHash(tokenHash);
+}
+
+// ============================================
+// Middleware
+// ============================================
+
+/**
+ * Attach the user found to the request, or answer 401
+ */
+async function authenticateRequest(
+  findUser: () => Promise<User | null>,
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  let user: User | null;
+  try {
+    user = await findUser();
+  } catch (error) {
+    next(error);
+    return;
+  }
+
+  if (!user) {
+    res.status(401).json({ error: 'Authentication required' });
+    return;
+  }
+
+  req.user = user;
+  next();
+}
+
+/**
+ * Reject requests without a valid API key or session token
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const token = getBearerToken(req);
+  return authenticateRequest(async () => (token ? authenticateToken(token) : null), req, res, next);
+}
+
+/**
+ * Same as requireAuth, but also accepts a stream ticket as ?ticket=, because
+ * EventSource can't set an Authorization header
+ */
+export function requireStreamAuth(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const ticket = req.query.ticket;
+  if (getBearerToken(req) || typeof ticket !== 'string') return requireAuth(req, res, next);
+
+  const userId = readStreamTicket(ticket);
+  return authenticateRequest(async () => (userId === null ? null : storage.getUserById(userId)), req, res, next);
+}
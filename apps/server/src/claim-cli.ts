@@ -0,0 +1,42 @@
+// Usage: pnpm claim-emails <account email>
+// Gives an existing account every email tracked before accounts existed.
+// Registering never does this, so a stranger signing up first can't take them.
+// Works on the database the server would use: PostgreSQL when DATABASE_URL is set, otherwise SQLite
+
+import { storage } from './storage';
+import { DatabaseTooNewError } from './migrate';
+
+async function main(args: string[]): Promise<number> {
+  const [email] = args;
+  if (!email || args.length > 1) {
+    console.error('Usage: pnpm claim-emails <account email>');
+    return 1;
+  }
+
+  try {
+    await storage.init();
+
+    const user = await storage.getUserByEmail(email);
+    if (!user) {
+      console.error(`No account with the email ${email}. Create it in the dashboard first.`);
+      return 1;
+    }
+
+    const claimed = await storage.claimUnownedEmails(user.id);
+    console.log(claimed > 0
+      ? `Assigned ${claimed} email(s) to ${user.email}.`
+      : 'There are no emails without an owner.');
+    return 0;
+  } catch (error) {
+    if (error instanceof DatabaseTooNewError) {
+      console.error(error.message);
+    } else {
+      console.error('Claiming emails failed:', error);
+    }
+    return 1;
+  } finally {
+    await storage.close();
+  }
+}
+
+main(process.argv.slice(2)).then((code) => process.exit(code));
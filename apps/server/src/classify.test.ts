@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyOpen, isMailProviderIp, normalizeIp } from './classify';
+
+const CHROME = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36';
+
+describe('open classification', () => {
+  it('counts a browser or a mail app as the reader', () => {
+    assert.equal(classifyOpen({ userAgent: CHROME, ipAddress: '203.0.113.5', secondsSinceCreation: 5 }), 'human');
+    assert.equal(classifyOpen({ userAgent: 'Mozilla/4.0 (compatible; ms-office; MSOffice 16)', secondsSinceCreation: 5 }), 'human');
+    assert.equal(classifyOpen({ userAgent: 'Thunderbird/115.0', secondsSinceCreation: 5 }), 'human');
+  });
+
+  it('recognizes image proxies by user agent or address', () => {
+    assert.equal(classifyOpen({ userAgent: 'Mozilla/5.0 (Windows NT 5.1) (via ggpht.com GoogleImageProxy)', secondsSinceCreation: 600 }), 'proxy');
+    assert.equal(classifyOpen({ userAgent: CHROME, ipAddress: '66.249.84.10', secondsSinceCreation: 600 }), 'proxy');
+    assert.equal(classifyOpen({ userAgent: CHROME, ipAddress: '::ffff:74.125.1.1', secondsSinceCreation: 600 }), 'proxy');
+  });
+
+  it('recognizes Apple Mail Privacy Protection by its bare user agent or address', () => {
+    assert.equal(classifyOpen({ userAgent: 'Mozilla/5.0', secondsSinceCreation: 600 }), 'prefetch');
+    assert.equal(classifyOpen({ userAgent: CHROME, ipAddress: '17.58.0.1', secondsSinceCreation: 600 }), 'prefetch');
+  });
+
+  it('calls security gateways and scripts scanners', () => {
+    assert.equal(classifyOpen({ userAgent: 'Mimecast Security Scanner', secondsSinceCreation: 600 }), 'scanner');
+    assert.equal(classifyOpen({ userAgent: 'python-requests/2.31', secondsSinceCreation: 600 }), 'scanner');
+    assert.equal(classifyOpen({ userAgent: `${CHROME} HeadlessChrome`, secondsSinceCreation: 600 }), 'scanner');
+  });
+
+  it('takes an unrecognized non-browser for a scanner only right after sending', () => {
+    assert.equal(classifyOpen({ userAgent: 'SomeClient/1.0', secondsSinceCreation: 5 }), 'scanner');
+    assert.equal(classifyOpen({ userAgent: '', secondsSinceCreation: 5 }), 'scanner');
+    assert.equal(classifyOpen({ userAgent: 'SomeClient/1.0', secondsSinceCreation: 600 }), 'unknown');
+    assert.equal(classifyOpen({ userAgent: null, secondsSinceCreation: 600 }), 'unknown');
+  });
+});
+
+describe('addresses', () => {
+  it('takes the first address of a forwarded chain, without the IPv4-mapped prefix', () => {
+    assert.equal(normalizeIp('::ffff:203.0.113.5'), '203.0.113.5');
+    assert.equal(normalizeIp('203.0.113.5, 10.0.0.1'), '203.0.113.5');
+    assert.equal(normalizeIp('2001:db8::1'), '2001:db8::1');
+    assert.equal(normalizeIp(''), null);
+    assert.equal(normalizeIp(undefined), null);
+  });
+
+  it('knows mail providers\' proxy and prefetch addresses', () => {
+    assert.equal(isMailProviderIp('66.102.1.1'), true);
+    assert.equal(isMailProviderIp('17.0.0.1'), true);
+    assert.equal(isMailProviderIp('203.0.113.5'), false);
+    assert.equal(isMailProviderIp('2001:db8::1'), false);
+    assert.equal(isMailProviderIp(null), false);
+  });
+});
@@ -0,0 +1,111 @@
+// Open classification rules
+// Decides whether a pixel hit was a person reading the email or a machine
+// fetching it on their behalf (image proxies, privacy prefetches, scanners)
+
+export type OpenClassification = 'human' | 'proxy' | 'prefetch' | 'scanner' | 'unknown';
+
+export const OPEN_CLASSIFICATIONS: OpenClassification[] = ['human', 'proxy', 'prefetch', 'scanner', 'unknown'];
+
+// Image proxies that fetch the pixel when the recipient views the email.
+// A proxy hit usually does mean the email was opened, but we can't see the reader.
+const PROXY_USER_AGENTS = [
+  /GoogleImageProxy/i,
+  /ggpht\.com/i,
+  /YahooMailProxy/i,
+  /Yahoo! Slurp/i,
+];
+
+// Security gateways and scripted clients that fetch every image in an inbound email
+const SCANNER_USER_AGENTS = [
+  /bot\b|crawler|spider|scanner/i,
+  /Barracuda|Mimecast|Proofpoint|Symantec|Forcepoint|Trend ?Micro|Sophos/i,
+  /python-requests|python-urllib|curl\/|wget\/|Go-http-client|okhttp|Java\//i,
+  /HeadlessChrome|PhantomJS/i,
+];
+
+// Desktop and mobile mail apps load images themselves, so a hit from one is the reader.
+// Their UAs don't look like a browser's, e.g. "Mozilla/4.0 (compatible; ms-office; MSOffice 16)"
+const MAIL_CLIENT_USER_AGENTS = [
+  /Microsoft Outlook|Microsoft Office|MSOffice|ms-office/i,
+  /Outlook-(iOS|Android)/i,
+  /Thunderbird|Lotus-Notes|Postbox|eM ?Client|Mailbird|Windows[- ]Live[- ]Mail/i,
+];
+
+// Apple Mail Privacy Protection fetches remote content with a bare UA string
+const PREFETCH_USER_AGENTS = [/^Mozilla\/5\.0$/];
+
+// IPv4 ranges owned by the services above
+const PROXY_RANGES = ['66.249.80.0/20', '66.102.0.0/20', '74.125.0.0/16'];
+const PREFETCH_RANGES = ['17.0.0.0/8'];
+
+// Machine fetches arrive within seconds of delivery; a person rarely does
+const SCANNER_WINDOW_SECONDS = 30;
+
+/**
+ * Classify a single pixel hit
+ */
+export function classifyOpen(data: {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+  secondsSinceCreation: number;
+}): OpenClassification {
+  const userAgent = data.userAgent?.trim() || '';
+  const ip = normalizeIp(data.ipAddress);
+
+  if (PROXY_USER_AGENTS.some((pattern) => pattern.test(userAgent))) return 'proxy';
+  if (SCANNER_USER_AGENTS.some((pattern) => pattern.test(userAgent))) return 'scanner';
+  if (PREFETCH_USER_AGENTS.some((pattern) => pattern.test(userAgent))) return 'prefetch';
+
+  if (ip && PROXY_RANGES.some((range) => ipInRange(ip, range))) return 'proxy';
+  if (ip && PREFETCH_RANGES.some((range) => ipInRange(ip, range))) return 'prefetch';
+
+  if (MAIL_CLIENT_USER_AGENTS.some((pattern) => pattern.test(userAgent))) return 'human';
+
+  const looksLikeBrowser = /^Mozilla\/5\.0 \(/.test(userAgent);
+
+  if (!looksLikeBrowser && data.secondsSinceCreation < SCANNER_WINDOW_SECONDS) return 'scanner';
+  if (looksLikeBrowser) return 'human';
+
+  return 'unknown';
+}
+
+/**
+ * Whether an address belongs to a mail provider's image proxy or prefetcher,
+ * which fetch pixels for a great many recipients from a few addresses
+ */
+export function isMailProviderIp(ipAddress?: string | null): boolean {
+  const ip = normalizeIp(ipAddress);
+  return !!ip && [...PROXY_RANGES, ...PREFETCH_RANGES].some((range) => ipInRange(ip, range));
+}
+
+/**
+ * Take the client IP from an X-Forwarded-For chain and strip the IPv4-mapped prefix
+ */
+export function normalizeIp(ipAddress?: string | null): string | null {
+  if (!ipAddress) return null;
+  const first = ipAddress.split(',')[0].trim();
+  return first.startsWith('::ffff:') ? first.slice(7) : first;
+}
+
+function ipv4ToInt(ip: string): number | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4) return null;
+
+  let value = 0;
+  for (const part of parts) {
+    const octet = Number(part);
+    if (!Number.isInteger(octet) || octet < 0 || octet > 255) return null;
+    value = value * 256 + octet;
+  }
+  return value;
+}
+
+function ipInRange(ip: string, cidr: string): boolean {
+  const [base, bits] = cidr.split('/');
+  const ipValue = ipv4ToInt(ip);
+  const baseValue = ipv4ToInt(base);
+  if (ipValue === null || baseValue === null) return false;
+
+  const blockSize = 2 ** (32 - Number(bits));
+  return Math.floor(ipValue / blockSize) === Math.floor(baseValue / blockSize);
+}
@@ -0,0 +1,131 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const ENV_VARS = [
+  'PORT', 'PUBLIC_URL', 'CORS_ORIGINS', 'DATABASE_PATH', 'DATABASE_URL', 'PHANTOM_OPEN_SECONDS',
+  'DUPLICATE_OPEN_SECONDS', 'TRUST_PROXY', 'GEOIP_CITY_DB', 'GEOIP_ASN_DB', 'IP_ANONYMIZATION',
+  'IP_HASH_SECRET', 'RETENTION_OPENS_DAYS', 'RETENTION_EMAILS_DAYS', 'TRACKING_KEYS',
+  'TRACKING_ACCEPT_UNSIGNED', 'ALLOW_REGISTRATION', 'REGISTRATION_CODE',
+];
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tracker-config-'));
+const configFile = path.join(tempDir, 'tracker.config.json');
+
+let configModule: typeof import('./config');
+
+/**
+ * Load the config from this file content and environment, nothing else
+ */
+function load(file: object, env: Record<string, string> = {}) {
+  fs.writeFileSync(configFile, JSON.stringify(file));
+  for (const name of ENV_VARS) delete process.env[name];
+  Object.assign(process.env, env);
+  return configModule.loadConfig();
+}
+
+function problemsOf(file: object, env: Record<string, string> = {}): string[] {
+  try {
+    load(file, env);
+  } catch (error) {
+    assert.ok(error instanceof configModule.ConfigError);
+    return error.problems;
+  }
+  assert.fail('expected a ConfigError');
+}
+
+before(async () => {
+  // config.ts loads once on import too, so give it a valid setup first
+  fs.writeFileSync(configFile, '{}');
+  process.env.CONFIG_FILE = configFile;
+  for (const name of ENV_VARS) delete process.env[name];
+  configModule = await import('./config');
+});
+
+describe('config', () => {
+  it('has defaults for everything', () => {
+    const config = load({});
+    assert.equal(config.source, configFile);
+    assert.equal(config.port, 8080);
+    assert.equal(config.publicUrl, 'http://localhost:8080');
+    assert.equal(config.databaseUrl, null);
+    assert.deepEqual(config.opens, { phantomSeconds: 10, duplicateSeconds: 60 });
+    assert.equal(config.trustProxy, false);
+    assert.deepEqual(config.signing, { keys: [], acceptUnsigned: false });
+    assert.deepEqual(config.registration, { open: false, code: null });
+  });
+
+  it('takes the environment over the file', () => {
+    const config = load(
+      { port: 9000, publicUrl: 'https://file.example.com/', phantomOpenSeconds: 5 },
+      { PORT: '9100', PHANTOM_OPEN_SECONDS: '0' },
+    );
+    assert.equal(config.port, 9100);
+    assert.equal(config.publicUrl, 'https://file.example.com');
+    assert.equal(config.opens.phantomSeconds, 0);
+  });
+
+  it('reports every problem at once', () => {
+    const problems = problemsOf(
+      { port: 'eighty', colour: 'blue' },
+      { DATABASE_URL: 'mysql://localhost/tracker', TRACKING_ACCEPT_UNSIGNED: 'yes' },
+    );
+    assert.equal(problems.length, 4);
+    assert.match(problems.join('\n'), /unknown key "colour"/);
+    assert.match(problems.join('\n'), /config file "port" must be a whole number from 1 to 65535/);
+    assert.match(problems.join('\n'), /DATABASE_URL must be a postgres:\/\/ connection string/);
+    assert.match(problems.join('\n'), /TRACKING_ACCEPT_UNSIGNED must be true or false/);
+  });
+
+  it('refuses a file that is not a JSON object', () => {
+    fs.writeFileSync(configFile, '[1]');
+    assert.throws(() => configModule.loadConfig(), /must be a JSON object/);
+    fs.writeFileSync(configFile, '{');
+    assert.throws(() => configModule.loadConfig(), configModule.ConfigError);
+  });
+
+  it('reads trusted proxies as hops or addresses', () => {
+    assert.equal(load({}, { TRUST_PROXY: '0' }).trustProxy, false);
+    assert.equal(load({}, { TRUST_PROXY: '2' }).trustProxy, 2);
+    assert.deepEqual(load({}, { TRUST_PROXY: 'loopback, 10.0.0.0/8' }).trustProxy, ['loopback', '10.0.0.0/8']);
+    assert.deepEqual(load({ trustProxy: ['::1'] }).trustProxy, ['::1']);
+    assert.match(problemsOf({}, { TRUST_PROXY: 'proxy.example.com' })[0], /is not an address, subnet/);
+    assert.match(problemsOf({}, { TRUST_PROXY: '11' })[0], /from 0 to 10/);
+  });
+
+  it('checks CORS origins', () => {
+    assert.deepEqual(load({}, { CORS_ORIGINS: 'https://a.example.com, https://*.example.com' }).allowedOrigins, [
+      'https://a.example.com',
+      'https://*.example.com',
+    ]);
+    assert.match(problemsOf({}, { CORS_ORIGINS: 'https://example.com/' })[0], /is not an origin/);
+    assert.match(problemsOf({ allowedOrigins: ['chrome-extension://*'] })[0], /allows every origin of that scheme/);
+  });
+
+  it('checks signing keys', () => {
+    assert.deepEqual(load({}, { TRACKING_KEYS: 'k2:second-secret-0123, k1:first-secret-01234' }).signing.keys, [
+      { id: 'k2', secret: 'second-secret-0123' },
+      { id: 'k1', secret: 'first-secret-01234' },
+    ]);
+    assert.match(problemsOf({}, { TRACKING_KEYS: 'k1:short' })[0], /secret for k1 must be at least 16 characters/);
+    assert.match(problemsOf({}, { TRACKING_KEYS: 'k1:first-secret-01234,k1:other-secret-01234' })[0], /more than one key with id k1/);
+    assert.match(problemsOf({ trackingKeys: ['no-separator'] })[0], /<key id>:<secret>/);
+  });
+
+  it('needs a secret to hash addresses with and a long enough registration code', () => {
+    assert.match(problemsOf({}, { IP_ANONYMIZATION: 'hash' })[0], /needs IP_HASH_SECRET/);
+    assert.match(problemsOf({}, { IP_ANONYMIZATION: 'scramble' })[0], /must be one of off, truncate, hash/);
+    assert.match(problemsOf({ registrationCode: 'letmein' })[0], /REGISTRATION_CODE must be at least 16 characters/);
+    assert.deepEqual(load({ allowRegistration: true }).registration, { open: true, code: null });
+  });
+
+  it('matches wildcard origins within a single origin', () => {
+    const matcher = configModule.toOriginMatcher('https://*.example.com');
+    assert.ok(matcher instanceof RegExp);
+    assert.equal(matcher.test('https://app.example.com'), true);
+    assert.equal(matcher.test('https://example.com.evil.test'), false);
+    assert.equal(configModule.toOriginMatcher('https://example.com'), 'https://example.com');
+  });
+});
@@ -0,0 +1,467 @@
+// Server configuration
+// Read once at startup from an optional JSON file and then the environment,
+// which wins. Every problem is reported at once and the server refuses to start.
+//
+//   CONFIG_FILE=/etc/tracker.json   file to read (default: tracker.config.json next to src/,
+//                                   skipped when missing)
+//
+//   Environment              File key                Default
+//   PORT                     port                    8080
+//   PUBLIC_URL               publicUrl               http://localhost:<port>
+//   CORS_ORIGINS             allowedOrigins          http://localhost:3000, https://mail.google.com
+//   DATABASE_PATH            databasePath            data/tracker.db (SQLite)
+//   DATABASE_URL             databaseUrl             unset; a postgres:// URL selects PostgreSQL
+//   PHANTOM_OPEN_SECONDS     phantomOpenSeconds      10
+//   DUPLICATE_OPEN_SECONDS   duplicateOpenSeconds    60
+//   TRUST_PROXY              trustProxy              unset; proxies whose X-Forwarded-For is believed
+//   GEOIP_CITY_DB            geoipCityDb             unset (see geoip.ts)
+//   GEOIP_ASN_DB             geoipAsnDb              unset
+//   IP_ANONYMIZATION         ipAnonymization         off (see anonymize.ts)
+//   IP_HASH_SECRET           ipHashSecret            unset; required by IP_ANONYMIZATION=hash
+//   RETENTION_OPENS_DAYS     retentionOpensDays      unset, keep forever (see retention.ts)
+//   RETENTION_EMAILS_DAYS    retentionEmailsDays     unset, keep forever
+//   TRACKING_KEYS            trackingKeys            unset, pixels unsigned (see signing.ts)
+//   TRACKING_ACCEPT_UNSIGNED trackingAcceptUnsigned  false
+//   ALLOW_REGISTRATION       allowRegistration       false; only the first account may register
+//   REGISTRATION_CODE        registrationCode        unset; lets teammates register while closed
+//
+// CORS_ORIGINS is comma-separated; in either form a * matches any run of characters,
+// but not a whole origin such as chrome-extension://*.
+// TRUST_PROXY is a number of proxy hops, or a comma-separated list of proxy addresses,
+// subnets and Express's names for them (loopback, linklocal, uniquelocal).
+
+import fs from 'fs';
+import net from 'net';
+import path from 'path';
+
+export interface Config {
+  /** The config file read, if any */
+  source: string | null;
+  port: number;
+  /** Base of the pixel and redirect URLs handed out, without a trailing slash */
+  publicUrl: string;
+  allowedOrigins: string[];
+  /** SQLite file, used when databaseUrl is not set */
+  databasePath: string;
+  databaseUrl: string | null;
+  opens: {
+    /** Hits this soon after an email is created are the sender's own compose window */
+    phantomSeconds: number;
+    /** Repeat pixel loads from the same IP within this window count as one open */
+    duplicateSeconds: number;
+  };
+  /** Express's 'trust proxy': false takes the client IP from the socket, never from headers */
+  trustProxy: false | number | string[];
+  /** MaxMind database files */
+  geoip: { cityDb: string | null; asnDb: string | null };
+  privacy: {
+    ipAnonymization: IpAnonymization;
+    /** Key for IP_ANONYMIZATION=hash */
+    ipHashSecret: string | null;
+    /** Days to keep opens and clicks, and whole emails; null keeps them forever */
+    retentionOpensDays: number | null;
+    retentionEmailsDays: number | null;
+  };
+  signing: {
+    /** The first key signs new pixels; the others are only checked */
+    keys: SigningKey[];
+    /** Also count hits on unsigned pixels while keys are set */
+    acceptUnsigned: boolean;
+  };
+  registration: {
+    /** Anyone who can reach the server may create an account, not just the first */
+    open: boolean;
+    /** Creates an account while registration is closed */
+    code: string | null;
+  };
+}
+
+export type IpAnonymization = 'off' | 'truncate' | 'hash';
+
+export const IP_ANONYMIZATION_MODES: IpAnonymization[] = ['off', 'truncate', 'hash'];
+
+export interface SigningKey {
+  id: string;
+  secret: string;
+}
+
+type FileConfig = Partial<{
+  port: unknown;
+  publicUrl: unknown;
+  allowedOrigins: unknown;
+  databasePath: unknown;
+  databaseUrl: unknown;
+  phantomOpenSeconds: unknown;
+  duplicateOpenSeconds: unknown;
+  trustProxy: unknown;
+  geoipCityDb: unknown;
+  geoipAsnDb: unknown;
+  ipAnonymization: unknown;
+  ipHashSecret: unknown;
+  retentionOpensDays: unknown;
+  retentionEmailsDays: unknown;
+  trackingKeys: unknown;
+  trackingAcceptUnsigned: unknown;
+  allowRegistration: unknown;
+  registrationCode: unknown;
+}>;
+
+const FILE_KEYS = [
+  'port',
+  'publicUrl',
+  'allowedOrigins',
+  'databasePath',
+  'databaseUrl',
+  'phantomOpenSeconds',
+  'duplicateOpenSeconds',
+  'trustProxy',
+  'geoipCityDb',
+  'geoipAsnDb',
+  'ipAnonymization',
+  'ipHashSecret',
+  'retentionOpensDays',
+  'retentionEmailsDays',
+  'trackingKeys',
+  'trackingAcceptUnsigned',
+  'allowRegistration',
+  'registrationCode',
+];
+
+const SERVER_DIR = path.join(__dirname, '..');
+const DEFAULT_CONFIG_FILE = path.join(SERVER_DIR, 'tracker.config.json');
+// The extension calls the API from its background worker, which has host permission
+// for the server and so needs no CORS entry
+const DEFAULT_ORIGINS = ['http://localhost:3000', 'https://mail.google.com'];
+const PROXY_NAMES = ['loopback', 'linklocal', 'uniquelocal'];
+const KEY_ID_PATTERN = /^[A-Za-z0-9]{1,16}$/;
+const MIN_SECRET_LENGTH = 16;
+
+export class ConfigError extends Error {
+  constructor(public problems: string[]) {
+    super(`Invalid configuration:\n  ${problems.join('\n  ')}`);
+  }
+}
+
+function readConfigFile(problems: string[]): { file: FileConfig; source: string | null } {
+  const configured = process.env.CONFIG_FILE;
+  const filePath = configured ? path.resolve(configured) : DEFAULT_CONFIG_FILE;
+
+  if (!fs.existsSync(filePath)) {
+    if (configured) problems.push(`CONFIG_FILE: ${filePath} does not exist`);
+    return { file: {}, source: null };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    problems.push(`${filePath}: ${error instanceof Error ? error.message : 'could not be read'}`);
+    return { file: {}, source: filePath };
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    problems.push(`${filePath}: must be a JSON object`);
+    return { file: {}, source: filePath };
+  }
+  for (const key of Object.keys(parsed)) {
+    if (!FILE_KEYS.includes(key)) {
+      problems.push(`${filePath}: unknown key "${key}" (expected one of ${FILE_KEYS.join(', ')})`);
+    }
+  }
+  return { file: parsed as FileConfig, source: filePath };
+}
+
+/**
+ * The environment variable if set, otherwise the file's value, labelled for error messages
+ */
+function pick(envVar: string, fileKey: keyof FileConfig, file: FileConfig): { value: unknown; label: string } | null {
+  const fromEnv = process.env[envVar];
+  if (fromEnv !== undefined && fromEnv !== '') return { value: fromEnv, label: envVar };
+  if (file[fileKey] !== undefined) return { value: file[fileKey], label: `config file "${fileKey}"` };
+  return null;
+}
+
+function readInteger(
+  setting: { value: unknown; label: string } | null,
+  fallback: number,
+  min: number,
+  max: number,
+  problems: string[],
+): number {
+  if (!setting) return fallback;
+
+  const number = typeof setting.value === 'string' ? Number(setting.value) : setting.value;
+  if (typeof number !== 'number' || !Number.isInteger(number) || number < min || number > max) {
+    problems.push(`${setting.label} must be a whole number from ${min} to ${max}, got ${JSON.stringify(setting.value)}`);
+    return fallback;
+  }
+  return number;
+}
+
+function readString(setting: { value: unknown; label: string } | null, problems: string[]): string | null {
+  if (!setting) return null;
+  if (typeof setting.value !== 'string' || setting.value.trim() === '') {
+    problems.push(`${setting.label} must be a non-empty string`);
+    return null;
+  }
+  return setting.value.trim();
+}
+
+function readOrigins(setting: { value: unknown; label: string } | null, problems: string[]): string[] {
+  if (!setting) return DEFAULT_ORIGINS;
+
+  const origins = typeof setting.value === 'string'
+    ? setting.value.split(',').map((origin) => origin.trim()).filter(Boolean)
+    : setting.value;
+  if (!Array.isArray(origins) || origins.length === 0 || !origins.every((origin) => typeof origin === 'string')) {
+    problems.push(`${setting.label} must be a list of origins`);
+    return DEFAULT_ORIGINS;
+  }
+
+  for (const origin of origins as string[]) {
+    if (!/^[a-z][a-z0-9+.-]*:\/\/[^/\s]+$/i.test(origin)) {
+      problems.push(`${setting.label}: "${origin}" is not an origin like https://example.com (no path or trailing slash)`);
+    } else if (/:\/\/\*$/.test(origin)) {
+      // e.g. chrome-extension://* would let any installed extension call the API
+      problems.push(`${setting.label}: "${origin}" allows every origin of that scheme; name the one you mean, like chrome-extension://<extension id>`);
+    }
+  }
+  return origins as string[];
+}
+
+function readTrustProxy(setting: { value: unknown; label: string } | null, problems: string[]): Config['trustProxy'] {
+  if (!setting) return false;
+
+  const hops = typeof setting.value === 'string' && /^\d+$/.test(setting.value.trim())
+    ? Number(setting.value)
+    : setting.value;
+  if (typeof hops === 'number') {
+    if (!Number.isInteger(hops) || hops < 0 || hops > 10) {
+      problems.push(`${setting.label} must be a number of hops from 0 to 10, got ${hops}`);
+      return false;
+    }
+    return hops === 0 ? false : hops;
+  }
+
+  const proxies = typeof setting.value === 'string'
+    ? setting.value.split(',').map((proxy) => proxy.trim()).filter(Boolean)
+    : setting.value;
+  if (!Array.isArray(proxies) || proxies.length === 0 || !proxies.every((proxy) => typeof proxy === 'string')) {
+    problems.push(`${setting.label} must be a number of hops or a list of proxy addresses`);
+    return false;
+  }
+  for (const proxy of proxies as string[]) {
+    const [address, bits] = proxy.split('/');
+    const valid = PROXY_NAMES.includes(proxy) || (net.isIP(address) !== 0 && (bits === undefined || /^\d{1,3}$/.test(bits)));
+    if (!valid) {
+      problems.push(`${setting.label}: "${proxy}" is not an address, subnet or one of ${PROXY_NAMES.join(', ')}`);
+    }
+  }
+  return proxies as string[];
+}
+
+/**
+ * A retention limit in days; unset keeps data forever
+ */
+function readDays(setting: { value: unknown; label: string } | null, problems: string[]): number | null {
+  return setting ? readInteger(setting, 0, 1, 36500, problems) : null;
+}
+
+function readBoolean(setting: { value: unknown; label: string } | null, problems: string[]): boolean {
+  if (!setting) return false;
+  if (setting.value === true || setting.value === 'true') return true;
+  if (setting.value === false || setting.value === 'false') return false;
+  problems.push(`${setting.label} must be true or false, got ${JSON.stringify(setting.value)}`);
+  return false;
+}
+
+/**
+ * A file path, resolved from where the server was started
+ */
+function readPath(setting: { value: unknown; label: string } | null, problems: string[]): string | null {
+  const value = readString(setting, problems);
+  return value === null ? null : path.resolve(value);
+}
+
+function readIpAnonymization(setting: { value: unknown; label: string } | null, problems: string[]): IpAnonymization {
+  if (!setting) return 'off';
+  if (!IP_ANONYMIZATION_MODES.includes(setting.value as IpAnonymization)) {
+    problems.push(`${setting.label} must be one of ${IP_ANONYMIZATION_MODES.join(', ')}, got ${JSON.stringify(setting.value)}`);
+    return 'off';
+  }
+  return setting.value as IpAnonymization;
+}
+
+/**
+ * Signing keys as "id:secret,id:secret", or in the file a list of "id:secret" strings
+ */
+function readTrackingKeys(setting: { value: unknown; label: string } | null, problems: string[]): SigningKey[] {
+  if (!setting) return [];
+
+  const entries = typeof setting.value === 'string'
+    ? setting.value.split(',').map((entry) => entry.trim()).filter(Boolean)
+    : setting.value;
+  if (!Array.isArray(entries) || !entries.every((entry) => typeof entry === 'string')) {
+    problems.push(`${setting.label} must be a list of <key id>:<secret>`);
+    return [];
+  }
+
+  const keys: SigningKey[] = [];
+  for (const entry of entries as string[]) {
+    const separator = entry.indexOf(':');
+    const id = entry.slice(0, separator).trim();
+    const secret = entry.slice(separator + 1).trim();
+
+    if (separator === -1 || !KEY_ID_PATTERN.test(id)) {
+      problems.push(`${setting.label} must be a comma-separated list of <key id>:<secret>, key ids being letters and digits`);
+    } else if (secret.length < MIN_SECRET_LENGTH) {
+      problems.push(`${setting.label} secret for ${id} must be at least ${MIN_SECRET_LENGTH} characters`);
+    } else if (keys.some((key) => key.id === id)) {
+      problems.push(`${setting.label} has more than one key with id ${id}`);
+    } else {
+      keys.push({ id, secret });
+    }
+  }
+  return keys;
+}
+
+function readPublicUrl(setting: { value: unknown; label: string } | null, port: number, problems: string[]): string {
+  const fallback = `http://localhost:${port}`;
+  if (!setting) return fallback;
+
+  const value = readString(setting, problems);
+  if (value === null) return fallback;
+
+  try {
+    const url = new URL(value);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error();
+    return value.replace(/\/+$/, '');
+  } catch {
+    problems.push(`${setting.label} must be an http(s) URL, got "${value}"`);
+    return fallback;
+  }
+}
+
+/**
+ * Build the configuration from CONFIG_FILE and the environment
+ * - Throws ConfigError listing every problem found
+ */
+export function loadConfig(): Config {
+  const problems: string[] = [];
+  const { file, source } = readConfigFile(problems);
+
+  const port = readInteger(pick('PORT', 'port', file), 8080, 1, 65535, problems);
+  const publicUrl = readPublicUrl(pick('PUBLIC_URL', 'publicUrl', file), port, problems);
+  const allowedOrigins = readOrigins(pick('CORS_ORIGINS', 'allowedOrigins', file), problems);
+
+  const databasePath = readString(pick('DATABASE_PATH', 'databasePath', file), problems);
+  const databaseUrl = readString(pick('DATABASE_URL', 'databaseUrl', file), problems);
+  if (databaseUrl !== null && !/^postgres(ql)?:\/\//.test(databaseUrl)) {
+    problems.push('DATABASE_URL must be a postgres:// connection string');
+  }
+
+  const phantomSeconds = readInteger(pick('PHANTOM_OPEN_SECONDS', 'phantomOpenSeconds', file), 10, 0, 3600, problems);
+  const duplicateSeconds = readInteger(pick('DUPLICATE_OPEN_SECONDS', 'duplicateOpenSeconds', file), 60, 0, 86400, problems);
+  const trustProxy = readTrustProxy(pick('TRUST_PROXY', 'trustProxy', file), problems);
+
+  const geoip = {
+    cityDb: readPath(pick('GEOIP_CITY_DB', 'geoipCityDb', file), problems),
+    asnDb: readPath(pick('GEOIP_ASN_DB', 'geoipAsnDb', file), problems),
+  };
+
+  const ipAnonymization = readIpAnonymization(pick('IP_ANONYMIZATION', 'ipAnonymization', file), problems);
+  const ipHashSecret = readString(pick('IP_HASH_SECRET', 'ipHashSecret', file), problems);
+  if (ipAnonymization === 'hash' && ipHashSecret === null) {
+    // Without a secret the hash of an IPv4 address is trivially reversible
+    problems.push('IP_ANONYMIZATION=hash needs IP_HASH_SECRET to be set');
+  }
+  const retentionOpensDays = readDays(pick('RETENTION_OPENS_DAYS', 'retentionOpensDays', file), problems);
+  const retentionEmailsDays = readDays(pick('RETENTION_EMAILS_DAYS', 'retentionEmailsDays', file), problems);
+
+  const signing = {
+    keys: readTrackingKeys(pick('TRACKING_KEYS', 'trackingKeys', file), problems),
+    acceptUnsigned: readBoolean(pick('TRACKING_ACCEPT_UNSIGNED', 'trackingAcceptUnsigned', file), problems),
+  };
+
+  const registration = {
+    open: readBoolean(pick('ALLOW_REGISTRATION', 'allowRegistration', file), problems),
+    code: readString(pick('REGISTRATION_CODE', 'registrationCode', file), problems),
+  };
+  if (registration.code !== null && registration.code.length < MIN_SECRET_LENGTH) {
+    problems.push(`REGISTRATION_CODE must be at least ${MIN_SECRET_LENGTH} characters`);
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+
+  return {
+    source,
+    port,
+    publicUrl,
+    allowedOrigins,
+    // Relative paths in the file or environment are taken from where the server was started
+    databasePath: databasePath ? path.resolve(databasePath) : path.join(SERVER_DIR, 'data', 'tracker.db'),
+    databaseUrl,
+    opens: { phantomSeconds, duplicateSeconds },
+    trustProxy,
+    geoip,
+    privacy: {
+      ipAnonymization,
+      ipHashSecret,
+      retentionOpensDays,
+      retentionEmailsDays,
+    },
+    signing,
+    registration,
+  };
+}
+
+function loadConfigOrExit(): Config {
+  try {
+    return loadConfig();
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(`[config] ${error.message}`);
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
+export const config = loadConfigOrExit();
+
+/**
+ * A CORS origin setting as the cors middleware takes it: wildcards become a pattern
+ */
+export function toOriginMatcher(origin: string): string | RegExp {
+  if (!origin.includes('*')) return origin;
+  const pattern = origin.split('*').map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Log the effective configuration (secrets and the database URL's password are masked)
+ */
+export function printConfig(): void {
+  const databaseUrl = config.databaseUrl?.replace(/\/\/([^:/@]+):[^@]*@/, '//$1:***@');
+  const days = (value: number | null) => (value === null ? 'forever' : `${value} days`);
+  const { keys, acceptUnsigned } = config.signing;
+
+  console.log(`[config] Loaded from ${config.source ?? 'the environment only'}`);
+  console.log(`[config]   port                 ${config.port}`);
+  console.log(`[config]   publicUrl            ${config.publicUrl}`);
+  console.log(`[config]   allowedOrigins       ${config.allowedOrigins.join(', ')}`);
+  console.log(`[config]   database             ${databaseUrl ?? config.databasePath}`);
+  console.log(`[config]   phantomOpenSeconds   ${config.opens.phantomSeconds}`);
+  console.log(`[config]   duplicateOpenSeconds ${config.opens.duplicateSeconds}`);
+  console.log(`[config]   trustProxy           ${config.trustProxy === false ? 'off' : config.trustProxy}`);
+  console.log(`[config]   geoipCityDb          ${config.geoip.cityDb ?? 'none'}`);
+  console.log(`[config]   geoipAsnDb           ${config.geoip.asnDb ?? 'none'}`);
+  console.log(`[config]   ipAnonymization      ${config.privacy.ipAnonymization}${config.privacy.ipHashSecret ? ' (hash secret set)' : ''}`);
+  console.log(`[config]   retentionOpensDays   ${days(config.privacy.retentionOpensDays)}`);
+  console.log(`[config]   retentionEmailsDays  ${days(config.privacy.retentionEmailsDays)}`);
+  console.log(`[config]   trackingKeys         ${keys.length > 0 ? keys.map((key, i) => (i === 0 ? `${key.id} (signing)` : key.id)).join(', ') : 'none, pixels unsigned'}`);
+  console.log(`[config]   trackingAcceptUnsigned ${acceptUnsigned}`);
+  console.log(`[config]   allowRegistration    ${config.registration.open ? 'true' : `false${config.registration.code ? ' (registration code set)' : ''}`}`);
+}
@@ -1,200 +1,599 @@
+// SQLite storage backend (the default)
+// Synchronous better-sqlite3 queries; storage/sqlite.ts adapts them to the Repository interface
+
 import Database, { Database as DatabaseType } from 'better-sqlite3';
 import path from 'path';
 import fs from 'fs';
-import crypto from 'crypto';
-
-// Types
-export interface Email {
-  id: string;
-  recipient: string;
-  subject: string | null;
-  sender: string | null;
-  created_at: string;
-}
-
-export interface Open {
-  id: number;
-  email_id: string;
-  opened_at: string;
-  ip_address: string | null;
-  user_agent: string | null;
-}
-
-export interface EmailWithOpens extends Email {
-  opens: Open[];
-  open_count: number;
-}
+import { config } from './config';
+import { classifyOpen, OpenClassification } from './classify';
+import { publishEvent, EventType, TrackerEvent } from './events';
+import { parseUserAgent } from './useragent';
+import { lookupIp, GeoLocation } from './geoip';
+import { anonymizeIp } from './anonymize';
+import { runMigrations, getSchemaVersion } from './migrate';
+import {
+  Email,
+  Open,
+  Link,
+  Click,
+  LinkWithClicks,
+  Recipient,
+  ContactWithStats,
+  ContactEmail,
+  ContactWithHistory,
+  User,
+  UserWithPassword,
+  ApiKey,
+  Webhook,
+  WebhookWithSecret,
+  WebhookDelivery,
+  EmailWithOpens,
+  EmailChanges,
+  NewEmail,
+  Campaign,
+  CampaignVariant,
+  CampaignSummary,
+  CampaignReport,
+  Reservation,
+  EmailThread,
+  EmailLookup,
+  ReadReceipt,
+  EmailSort,
+  EmailListOptions,
+  OpenFeedOptions,
+  FeedOpen,
+  EmailPage,
+  PortableEmail,
+  ImportOutcome,
+  DeletionCounts,
+  RecipientErasure,
+  ReminderKind,
+  ReminderStatus,
+  Reminder,
+  ReminderWithEmail,
+  Stats,
+  StatsInterval,
+  StatsRange,
+  TimeseriesBucket,
+  EngagementStats,
+} from './types';
+import {
+  LOOKUP_SENT_AT_SLACK_SECONDS,
+  parseDbDate,
+  toDbDate,
+  generateTrackingId,
+  generateSecret,
+  generateSenderMarker,
+  matchesSenderMarker,
+  normalizeAddress,
+  parseRecipientString,
+  percentage,
+  withOpenRate,
+  emptyClassificationCounts,
+  encodeCursor,
+  decodeCursor,
+  toSearchTerms,
+  webhookPayload,
+  deliveryStatus,
+  buildCampaignReport,
+  CampaignEmailRow,
+} from './storage/shared';
 
 // Database setup
-const DATA_DIR = path.join(__dirname, '..', 'data');
-const DB_PATH = path.join(DATA_DIR, 'tracker.db');
+export const DB_PATH = config.databasePath;
 
-// Ensure data directory exists
-if (!fs.existsSync(DATA_DIR)) {
-  fs.mkdirSync(DATA_DIR, { recursive: true });
-}
-
-export const db: DatabaseType = new Database(DB_PATH);
+let db: DatabaseType;
 
-// Enable WAL mode for better concurrent read performance
-db.pragma('journal_mode = WAL');
+/**
+ * Open the database file (once), creating the data directory if needed
+ */
+export function openDb(): DatabaseType {
+  if (!db) {
+    const dataDir = path.dirname(DB_PATH);
+    if (!fs.existsSync(dataDir)) {
+      fs.mkdirSync(dataDir, { recursive: true });
+    }
+    db = new Database(DB_PATH);
+    // Enable WAL mode for better concurrent read performance
+    db.pragma('journal_mode = WAL');
+  }
+  return db;
+}
 
+/**
+ * Bring the schema up to date (see migrate.ts)
+ * - Throws DatabaseTooNewError if the file was migrated by a newer build
+ */
 export function initDb(): void {
-  // Create emails table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS emails (
-      id TEXT PRIMARY KEY,
-      recipient TEXT NOT NULL,
-      subject TEXT,
-      sender TEXT,
-      created_at TEXT DEFAULT CURRENT_TIMESTAMP
-    )
-  `);
-
-  // Create opens table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS opens (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      email_id TEXT NOT NULL,
-      opened_at TEXT DEFAULT CURRENT_TIMESTAMP,
-      ip_address TEXT,
-      user_agent TEXT,
-      FOREIGN KEY (email_id) REFERENCES emails(id)
-    )
-  `);
-
-  // Create index for faster open lookups
-  db.exec(`
-    CREATE INDEX IF NOT EXISTS idx_opens_email_id ON opens(email_id)
-  `);
+  runMigrations(openDb());
+  console.log(`[db] SQLite initialized at ${DB_PATH} (schema version ${getSchemaVersion(db)})`);
+}
 
-  console.log(`[db] SQLite initialized at ${DB_PATH}`);
+export function closeDb(): void {
+  db?.close();
 }
 
 // ============================================
 // Helper Functions
 // ============================================
 
+// tags is stored as a JSON array
+type EmailRow = Omit<Email, 'tags'> & { tags: string };
+
+function parseEmail<T extends EmailRow>(row: T): Omit<T, 'tags'> & { tags: string[] } {
+  return { ...row, tags: JSON.parse(row.tags) };
+}
+
 /**
- * Generate a short, URL-safe tracking ID
+ * Link an email to its recipients, creating contacts as needed
  */
-export function generateTrackingId(): string {
-  return crypto.randomBytes(8).toString('hex'); // 16 character hex string
+function addRecipients(emailId: string, recipients: Recipient[]): void {
+  const upsertContact = db.prepare(`
+    INSERT INTO contacts (address) VALUES (?)
+    ON CONFLICT(address) DO UPDATE SET address = excluded.address
+    RETURNING id
+  `);
+  const linkRecipient = db.prepare(`
+    INSERT OR IGNORE INTO email_recipients (email_id, contact_id, role)
+    VALUES (?, ?, ?)
+  `);
+
+  for (const recipient of recipients) {
+    const contact = upsertContact.get(normalizeAddress(recipient.address)) as { id: number };
+    linkRecipient.run(emailId, contact.id, recipient.role);
+  }
 }
 
 /**
  * Create a new tracked email
+ * - Registers any links so they can be rewritten to the click redirect
+ * - Falls back to parsing `recipient` when no structured recipients are given
+ * - Sets up the follow-up reminder, if any, in the same transaction
  */
-export function createEmail(data: {
-  recipient: string;
-  subject?: string;
-  sender?: string;
-}): Email {
-  const id = generateTrackingId();
+export function createEmail(data: NewEmail): Email {
+  const id = data.id ?? generateTrackingId();
   
   const stmt = db.prepare(`
-    INSERT INTO emails (id, recipient, subject, sender)
-    VALUES (?, ?, ?, ?)
+    INSERT INTO emails (id, recipient, subject, sender, owner_id, thread_id, message_id, campaign_id, variant_id, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP))
   `);
-  
-  stmt.run(id, data.recipient, data.subject || null, data.sender || null);
-  
-  return getEmailById(id)!;
+  const linkStmt = db.prepare('INSERT INTO links (email_id, url) VALUES (?, ?)');
+
+  db.transaction(() => {
+    stmt.run(
+      id, data.recipient, data.subject || null, data.sender || null, data.ownerId,
+      data.threadId || null, data.messageId || null, data.campaignId ?? null, data.variantId ?? null,
+      data.sentAt ?? null,
+    );
+    for (const url of data.links || []) {
+      linkStmt.run(id, url);
+    }
+    addRecipients(id, data.recipients?.length ? data.recipients : parseRecipientString(data.recipient));
+    if (data.reminder) {
+      addReminder(id, data.ownerId, data.reminder.kind, data.reminder.delayHours);
+    }
+  })();
+
+  const email = getEmailById(id)!;
+  emitEvent('email.created', email.owner_id, { ...email });
+  return email;
 }
 
 /**
  * Get email by ID
+ * - Unscoped: only for the public tracking routes, API routes go through the owner checks
  */
 export function getEmailById(id: string): Email | null {
-  const stmt = db.prepare('SELECT * FROM emails WHERE id = ?');
-  return stmt.get(id) as Email | null;
+  const row = db.prepare('SELECT * FROM emails WHERE id = ?').get(id) as EmailRow | undefined;
+  return row ? parseEmail(row) : null;
 }
 
 /**
  * Get email with all its opens
  */
-export function getEmailWithOpens(id: string): EmailWithOpens | null {
+export function getEmailWithOpens(id: string, ownerId: number): EmailWithOpens | null {
   const email = getEmailById(id);
-  if (!email) return null;
+  if (!email || email.owner_id !== ownerId) return null;
 
   const opens = db.prepare('SELECT * FROM opens WHERE email_id = ? ORDER BY opened_at DESC').all(id) as Open[];
+  const clicks = db.prepare('SELECT * FROM clicks WHERE email_id = ? ORDER BY clicked_at DESC').all(id) as Click[];
+  const links = db.prepare(`
+    SELECT
+      l.*,
+      (SELECT COUNT(*) FROM clicks c WHERE c.link_id = l.id) as click_count
+    FROM links l
+    WHERE l.email_id = ?
+    ORDER BY l.id
+  `).all(id) as LinkWithClicks[];
   
   return {
     ...email,
     opens,
     open_count: opens.length,
+    human_open_count: opens.filter((o) => o.classification === 'human').length,
+    links,
+    clicks,
+    click_count: clicks.length,
+    recipients: getRecipientsForEmail(id),
   };
 }
 
 /**
- * Get all emails with open counts
+ * Get the recipients of an email, To first, then Cc, then Bcc
  */
-export function getAllEmails(): (Email & { open_count: number })[] {
+export function getRecipientsForEmail(emailId: string): Recipient[] {
   const stmt = db.prepare(`
-    SELECT 
-      e.*,
-      COUNT(o.id) as open_count
+    SELECT c.address, er.role
+    FROM email_recipients er
+    JOIN contacts c ON c.id = er.contact_id
+    WHERE er.email_id = ?
+    ORDER BY CASE er.role WHEN 'to' THEN 0 WHEN 'cc' THEN 1 ELSE 2 END, c.address
+  `);
+  return stmt.all(emailId) as Recipient[];
+}
+
+// The column behind each sort (e.id breaks ties). Never-opened emails sort last under last_opened.
+const EMAIL_SORT_SQL: Record<EmailSort, { column: string; descending: boolean }> = {
+  recent: { column: 'e.created_at', descending: true },
+  oldest: { column: 'e.created_at', descending: false },
+  most_opens: { column: 'e.open_count', descending: true },
+  last_opened: { column: "COALESCE(e.last_opened_at, '')", descending: true },
+};
+
+/**
+ * Turn free text into an FTS5 query: every word must match, as a prefix
+ */
+function toFtsQuery(search: string): string | null {
+  const terms = toSearchTerms(search);
+  return terms.length > 0 ? terms.map((term) => `"${term}"*`).join(' ') : null;
+}
+
+/**
+ * Get a page of an owner's emails with open and click counts
+ * - open_count includes machine opens, human_open_count does not
+ * - search matches subject and recipient; from/to filter on send time
+ * - Pass next_cursor back as cursor for the following page
+ */
+export function getEmailsPage(ownerId: number, options: EmailListOptions): EmailPage {
+  const { column, descending } = EMAIL_SORT_SQL[options.sort];
+  const conditions = ['e.owner_id = @ownerId'];
+  const params: Record<string, unknown> = { ownerId, limit: options.limit + 1 };
+
+  const ftsQuery = options.search ? toFtsQuery(options.search) : null;
+  if (ftsQuery) {
+    conditions.push('e.rowid IN (SELECT rowid FROM emails_fts WHERE emails_fts MATCH @search)');
+    params.search = ftsQuery;
+  }
+  if (options.status === 'opened') conditions.push('e.open_count > 0');
+  if (options.status === 'unopened') conditions.push('e.open_count = 0');
+  if (options.from) {
+    conditions.push('e.created_at >= @from');
+    params.from = options.from;
+  }
+  if (options.to) {
+    conditions.push('e.created_at < @to');
+    params.to = options.to;
+  }
+  if (options.tag) {
+    conditions.push('EXISTS (SELECT 1 FROM json_each(e.tags) WHERE value = @tag)');
+    params.tag = options.tag;
+  }
+  if (options.archived === undefined) conditions.push('e.archived_at IS NULL');
+  if (options.archived === 'only') conditions.push('e.archived_at IS NOT NULL');
+
+  const where = conditions.join(' AND ');
+  const total = (db.prepare(`SELECT COUNT(*) as count FROM emails e WHERE ${where}`).get(params) as { count: number }).count;
+
+  const pageConditions = [...conditions];
+  if (options.cursor) {
+    const [value, id] = decodeCursor(options.cursor, options.sort);
+    const op = descending ? '<' : '>';
+    pageConditions.push(`(${column} ${op} @cursorValue OR (${column} = @cursorValue AND e.id ${op} @cursorId))`);
+    params.cursorValue = value;
+    params.cursorId = id;
+  }
+
+  const direction = descending ? 'DESC' : 'ASC';
+  const rows = db.prepare(`
+    SELECT e.*, ${column} as sort_value
     FROM emails e
-    LEFT JOIN opens o ON e.id = o.email_id
-    GROUP BY e.id
-    ORDER BY e.created_at DESC
+    WHERE ${pageConditions.join(' AND ')}
+    ORDER BY ${column} ${direction}, e.id ${direction}
+    LIMIT @limit
+  `).all(params) as (EmailRow & { sort_value: string | number })[];
+
+  const hasMore = rows.length > options.limit;
+  const page = rows.slice(0, options.limit);
+  const last = page[page.length - 1];
+
+  return {
+    emails: page.map(({ sort_value: _sortValue, ...email }) => parseEmail(email)),
+    next_cursor: hasMore && last ? encodeCursor(last.sort_value, last.id) : null,
+    total,
+  };
+}
+
+/**
+ * Get an owner's emails in a Gmail thread, oldest first, with all their opens
+ */
+export function getThread(ownerId: number, threadId: string): EmailThread | null {
+  const rows = db.prepare(`
+    SELECT * FROM emails WHERE owner_id = ? AND thread_id = ? ORDER BY created_at, id
+  `).all(ownerId, threadId) as EmailRow[];
+  if (rows.length === 0) return null;
+
+  const emails = rows.map(parseEmail);
+  const opens = db.prepare(`
+    SELECT * FROM opens
+    WHERE email_id IN (SELECT value FROM json_each(?))
+    ORDER BY opened_at DESC, id DESC
+  `).all(JSON.stringify(emails.map((email) => email.id))) as Open[];
+
+  return {
+    thread_id: threadId,
+    emails,
+    opens,
+    open_count: opens.length,
+    human_open_count: opens.filter((o) => o.classification === 'human').length,
+    last_opened_at: opens[0]?.opened_at ?? null,
+  };
+}
+
+function findEmailIds(ownerId: number, lookup: EmailLookup): string[] {
+  if (lookup.by !== 'sent') {
+    const rows = db.prepare(`
+      SELECT id FROM emails WHERE owner_id = ? AND ${lookup.by} = ? ORDER BY created_at, id
+    `).all(ownerId, lookup.value) as { id: string }[];
+    return rows.map((row) => row.id);
+  }
+
+  const slackMs = LOOKUP_SENT_AT_SLACK_SECONDS * 1000;
+  const rows = db.prepare(`
+    SELECT DISTINCT e.id, e.created_at FROM emails e
+    JOIN email_recipients er ON er.email_id = e.id
+    JOIN contacts c ON c.id = er.contact_id
+    WHERE e.owner_id = @ownerId AND c.address = @address
+      AND e.created_at BETWEEN @from AND @to
+      AND (@subject IS NULL OR e.subject = @subject)
+    ORDER BY e.created_at, e.id
+  `).all({
+    ownerId,
+    address: normalizeAddress(lookup.recipient),
+    from: toDbDate(new Date(lookup.sentAt.getTime() - slackMs)),
+    to: toDbDate(new Date(lookup.sentAt.getTime() + slackMs)),
+    subject: lookup.subject,
+  }) as { id: string }[];
+  return rows.map((row) => row.id);
+}
+
+/**
+ * Resolve each lookup to the read state of the owner's emails it matches
+ * - null where nothing matched, so results line up with the lookups
+ */
+export function lookupReadReceipts(ownerId: number, lookups: EmailLookup[]): (ReadReceipt | null)[] {
+  const summarize = db.prepare(`
+    SELECT
+      COUNT(*) as open_count,
+      COALESCE(SUM(CASE WHEN ${READ_OPENS} THEN 1 ELSE 0 END), 0) as read_count,
+      MAX(CASE WHEN ${READ_OPENS} THEN opened_at END) as last_read_at
+    FROM opens
+    WHERE email_id IN (SELECT value FROM json_each(?))
   `);
-  
-  return stmt.all() as (Email & { open_count: number })[];
+
+  return lookups.map((lookup) => {
+    const emailIds = findEmailIds(ownerId, lookup);
+    if (emailIds.length === 0) return null;
+
+    const summary = summarize.get(JSON.stringify(emailIds)) as Omit<ReadReceipt, 'email_ids'>;
+    return { email_ids: emailIds, ...summary };
+  });
+}
+
+/**
+ * Update some of an owner's emails (ids they don't own are ignored)
+ * - Tags come back de-duplicated and sorted
+ */
+export function updateEmails(ownerId: number, emailIds: string[], changes: EmailChanges): string[] {
+  const sets: string[] = [];
+  const params: Record<string, unknown> = { ownerId, ids: JSON.stringify(emailIds) };
+
+  if (changes.subject !== undefined) {
+    sets.push('subject = @subject');
+    params.subject = changes.subject;
+  }
+  if (changes.sender !== undefined) {
+    sets.push('sender = @sender');
+    params.sender = changes.sender;
+  }
+  if (changes.thread_id !== undefined) {
+    sets.push('thread_id = @threadId');
+    params.threadId = changes.thread_id;
+  }
+  if (changes.message_id !== undefined) {
+    sets.push('message_id = @messageId');
+    params.messageId = changes.message_id;
+  }
+  if (changes.archived !== undefined) {
+    sets.push(changes.archived ? 'archived_at = COALESCE(archived_at, CURRENT_TIMESTAMP)' : 'archived_at = NULL');
+  }
+  if (changes.tracking_paused !== undefined) {
+    sets.push(changes.tracking_paused ? 'tracking_paused_at = COALESCE(tracking_paused_at, CURRENT_TIMESTAMP)' : 'tracking_paused_at = NULL');
+  }
+  if (changes.tags !== undefined || changes.add_tags !== undefined || changes.remove_tags !== undefined) {
+    sets.push(`tags = (
+      SELECT json_group_array(value) FROM (
+        SELECT value FROM json_each(${changes.tags !== undefined ? '@tags' : 'tags'})
+        UNION SELECT value FROM json_each(@addTags)
+        EXCEPT SELECT value FROM json_each(@removeTags)
+        ORDER BY value
+      )
+    )`);
+    params.tags = JSON.stringify(changes.tags ?? []);
+    params.addTags = JSON.stringify(changes.add_tags ?? []);
+    params.removeTags = JSON.stringify(changes.remove_tags ?? []);
+  }
+
+  const owned = 'owner_id = @ownerId AND id IN (SELECT value FROM json_each(@ids))';
+  const rows = sets.length > 0
+    ? db.prepare(`UPDATE emails SET ${sets.join(', ')} WHERE ${owned} RETURNING id`).all(params)
+    : db.prepare(`SELECT id FROM emails WHERE ${owned}`).all(params);
+  return (rows as { id: string }[]).map((row) => row.id);
 }
 
 /**
  * Record an email open event
- * - Ignores opens within 10 seconds of email creation (sender's browser loading)
- * - Deduplicates opens within 60 seconds from the same IP
+ * - Ignores opens within config.opens.phantomSeconds of email creation (sender's browser loading)
+ * - Deduplicates opens within config.opens.duplicateSeconds from the same IP
+ * - Classifies the hit as human, proxy, prefetch, scanner or unknown
+ * - Ignores every hit while the email's tracking is paused
+ * - Ignores hits carrying the owner's sender marker (the sender's own browser)
+ * - Stores the IP as IP_ANONYMIZATION says (see anonymize.ts); dedup compares the stored form
  */
 export function recordOpen(data: {
   emailId: string;
   ipAddress?: string;
   userAgent?: string;
+  senderMarker?: string;
 }): Open | null {
   // First verify the email exists
   const email = getEmailById(data.emailId);
   if (!email) return null;
 
-  // IMPORTANT: Ignore opens that happen within 10 seconds of email creation
-  // This filters out the "phantom" open from the sender's browser when the
-  // tracking pixel is injected into the compose window
-  const emailCreatedAt = new Date(email.created_at.replace(' ', 'T') + 'Z');
+  if (email.tracking_paused_at) {
+    console.log(`[db] Ignoring open for ${data.emailId} - tracking paused`);
+    return null;
+  }
+
+  if (data.senderMarker && email.owner_id !== null) {
+    const owner = db.prepare('SELECT sender_marker FROM users WHERE id = ?').get(email.owner_id) as { sender_marker: string | null } | undefined;
+    if (matchesSenderMarker(owner?.sender_marker, data.senderMarker)) {
+      console.log(`[db] Ignoring open for ${data.emailId} - sender's own browser`);
+      return null;
+    }
+  }
+
+  // Fallback for senders without the extension: ignore opens that happen right
+  // after email creation. This filters out the "phantom" open from the sender's
+  // browser when the tracking pixel is injected into the compose window.
+  // A scheduled email is dated from when it goes out, so a hit before then counts
+  // as one right at sending rather than with a negative age
+
+  const emailCreatedAt = parseDbDate(email.created_at);
   const now = new Date();
-  const secondsSinceCreation = (now.getTime() - emailCreatedAt.getTime()) / 1000;
-  
-  if (secondsSinceCreation < 10) {
+  const secondsSinceCreation = Math.max(0, (now.getTime() - emailCreatedAt.getTime()) / 1000);
+
+  if (secondsSinceCreation < config.opens.phantomSeconds) {
     console.log(`[db] Ignoring open for ${data.emailId} - too soon after creation (${secondsSinceCreation.toFixed(1)}s)`);
     return null;
   }
 
-  // Check for recent opens from the same IP (within 60 seconds)
+  const storedIp = anonymizeIp(data.ipAddress);
+
+  // Check for recent opens from the same IP
   // This prevents counting multiple image loads as separate opens
   const recentOpen = db.prepare(`
     SELECT * FROM opens 
     WHERE email_id = ? 
       AND ip_address = ? 
-      AND datetime(opened_at) > datetime('now', '-60 seconds')
+      AND datetime(opened_at) > datetime('now', ?)
     LIMIT 1
-  `).get(data.emailId, data.ipAddress || null) as Open | undefined;
+  `).get(data.emailId, storedIp, `-${config.opens.duplicateSeconds} seconds`) as Open | undefined;
 
   if (recentOpen) {
-    console.log(`[db] Skipping duplicate open for ${data.emailId} from ${data.ipAddress}`);
+    console.log(`[db] Skipping duplicate open for ${data.emailId} from ${storedIp}`);
     return recentOpen; // Return existing open instead of creating duplicate
   }
 
+  const classification = classifyOpen({
+    userAgent: data.userAgent,
+    ipAddress: data.ipAddress,
+    secondsSinceCreation,
+  });
+
   const stmt = db.prepare(`
-    INSERT INTO opens (email_id, ip_address, user_agent, opened_at)
-    VALUES (?, ?, ?, datetime('now'))
+    INSERT INTO opens (
+      email_id, ip_address, user_agent, classification,
+      client, os, device_type, country, region, city, asn, as_org, opened_at
+    )
+    VALUES (
+      @email_id, @ip_address, @user_agent, @classification,
+      @client, @os, @device_type, @country, @region, @city, @asn, @as_org, datetime('now')
+    )
   `);
   
-  const result = stmt.run(data.emailId, data.ipAddress || null, data.userAgent || null);
-  console.log(`[db] Recorded open for ${data.emailId} (${secondsSinceCreation.toFixed(0)}s after creation)`);
+  const result = stmt.run({
+    email_id: data.emailId,
+    ip_address: storedIp,
+    user_agent: data.userAgent || null,
+    classification,
+    ...parseUserAgent(data.userAgent),
+    ...lookupIp(data.ipAddress),
+  });
+  console.log(`[db] Recorded ${classification} open for ${data.emailId} (${secondsSinceCreation.toFixed(0)}s after creation)`);
   
   // Return the created open
   const openStmt = db.prepare('SELECT * FROM opens WHERE id = ?');
-  return openStmt.get(result.lastInsertRowid) as Open;
+  const open = openStmt.get(result.lastInsertRowid) as Open;
+
+  // Tell connected dashboards, with the new totals so they don't need to refetch the email
+  // (the opens_counters_insert trigger has already bumped them)
+  const counts = db.prepare(`
+    SELECT open_count, human_open_count, last_opened_at FROM emails WHERE id = ?
+  `).get(data.emailId) as Pick<Email, 'open_count' | 'human_open_count' | 'last_opened_at'>;
+
+  emitEvent('email.opened', email.owner_id, {
+    email_id: email.id,
+    recipient: email.recipient,
+    subject: email.subject,
+    open,
+    ...counts,
+  });
+
+  return open;
+}
+
+/**
+ * Get a link by ID, scoped to the email it belongs to
+ */
+export function getLink(emailId: string, linkId: number): Link | null {
+  const stmt = db.prepare('SELECT * FROM links WHERE id = ? AND email_id = ?');
+  return (stmt.get(linkId, emailId) as Link | undefined) ?? null;
+}
+
+/**
+ * Get links registered for an email
+ */
+export function getLinksForEmail(emailId: string): Link[] {
+  const stmt = db.prepare('SELECT * FROM links WHERE email_id = ? ORDER BY id');
+  return stmt.all(emailId) as Link[];
+}
+
+/**
+ * Record a link click event
+ * - Every click is kept; the redirect should never be blocked by dedup logic
+ * - Nothing is recorded while the email's tracking is paused
+ */
+export function recordClick(data: {
+  emailId: string;
+  linkId: number;
+  ipAddress?: string;
+  userAgent?: string;
+}): Click | null {
+  const stmt = db.prepare(`
+    INSERT INTO clicks (email_id, link_id, ip_address, user_agent, clicked_at)
+    SELECT ?, ?, ?, ?, datetime('now')
+    WHERE NOT EXISTS (SELECT 1 FROM emails WHERE id = ? AND tracking_paused_at IS NOT NULL)
+  `);
+
+  const result = stmt.run(data.emailId, data.linkId, anonymizeIp(data.ipAddress), data.userAgent || null, data.emailId);
+  if (result.changes === 0) {
+    console.log(`[db] Ignoring click for ${data.emailId} - tracking paused`);
+    return null;
+  }
+  console.log(`[db] Recorded click for ${data.emailId} on link ${data.linkId}`);
+
+  const clickStmt = db.prepare('SELECT * FROM clicks WHERE id = ?');
+  return clickStmt.get(result.lastInsertRowid) as Click;
 }
 
 /**
@@ -205,23 +604,1038 @@ export function getOpensForEmail(emailId: string): Open[] {
   return stmt.all(emailId) as Open[];
 }
 
+/**
+ * The owner's opens across all emails, after a cursor and oldest first
+ */
+export function getOpenFeed(ownerId: number, options: OpenFeedOptions): FeedOpen[] {
+  const conditions = ['e.owner_id = @ownerId', 'o.id > @sinceId'];
+  const params: Record<string, unknown> = { ownerId, sinceId: options.sinceId, limit: options.limit };
+
+  if (options.emailId) {
+    conditions.push('o.email_id = @emailId');
+    params.emailId = options.emailId;
+  }
+  if (options.recipient) {
+    conditions.push(`o.email_id IN (
+      SELECT er.email_id FROM email_recipients er
+      JOIN contacts c ON c.id = er.contact_id
+      WHERE c.address = @recipient
+    )`);
+    params.recipient = normalizeAddress(options.recipient);
+  }
+  if (options.from) {
+    conditions.push('o.opened_at >= @from');
+    params.from = options.from;
+  }
+  if (options.to) {
+    conditions.push('o.opened_at < @to');
+    params.to = options.to;
+  }
+
+  return db.prepare(`
+    SELECT o.*, e.recipient, e.subject FROM opens o
+    JOIN emails e ON e.id = o.email_id
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY o.id
+    LIMIT @limit
+  `).all(params) as FeedOpen[];
+}
+
+/**
+ * Get opens for several emails in one query (for export)
+ */
+export function getOpensForEmails(emailIds: string[]): Open[] {
+  if (emailIds.length === 0) return [];
+
+  const stmt = db.prepare(`
+    SELECT * FROM opens
+    WHERE email_id IN (SELECT value FROM json_each(?))
+    ORDER BY email_id, opened_at, id
+  `);
+  return stmt.all(JSON.stringify(emailIds)) as Open[];
+}
+
+/**
+ * Import an exported email with its opens
+ * - Keeps the original id and timestamps so tracking pixels already sent keep working
+ * - Counters are rebuilt by the opens triggers
+ * - IP addresses are anonymized like live ones, or a re-import would bring back what IP_ANONYMIZATION reduced
+ */
+export function importEmail(ownerId: number, email: PortableEmail): ImportOutcome {
+  const openStmt = db.prepare(`
+    INSERT INTO opens (
+      email_id, opened_at, ip_address, user_agent, classification,
+      client, os, device_type, country, region, city, asn, as_org
+    ) VALUES (
+      @email_id, @opened_at, @ip_address, @user_agent, @classification,
+      @client, @os, @device_type, @country, @region, @city, @asn, @as_org
+    )
+  `);
+
+  return db.transaction((): ImportOutcome => {
+    const existing = db.prepare('SELECT owner_id FROM emails WHERE id = ?').get(email.id) as { owner_id: number | null } | undefined;
+    if (existing) {
+      return existing.owner_id === ownerId ? 'exists' : 'conflict';
+    }
+
+    db.prepare(`
+      INSERT INTO emails (id, recipient, subject, sender, owner_id, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(email.id, email.recipient, email.subject, email.sender, ownerId, email.created_at);
+    addRecipients(email.id, parseRecipientString(email.recipient));
+
+    for (const open of email.opens) {
+      openStmt.run({ ...open, email_id: email.id, ip_address: anonymizeIp(open.ip_address) });
+    }
+    return 'imported';
+  })();
+}
+
+/**
+ * Opens with an IP address but no location, in id order after afterId (see geolocate-cli.ts)
+ */
+export function getUnlocatedOpens(afterId: number, limit: number): Pick<Open, 'id' | 'ip_address'>[] {
+  return db.prepare(`
+    SELECT id, ip_address FROM opens
+    WHERE id > ? AND ip_address IS NOT NULL
+      AND country IS NULL AND region IS NULL AND city IS NULL AND asn IS NULL AND as_org IS NULL
+    ORDER BY id
+    LIMIT ?
+  `).all(afterId, limit) as Pick<Open, 'id' | 'ip_address'>[];
+}
+
+export function setOpenLocation(id: number, location: GeoLocation): void {
+  db.prepare(`
+    UPDATE opens SET country = @country, region = @region, city = @city, asn = @asn, as_org = @as_org
+    WHERE id = @id
+  `).run({ id, ...location });
+}
+
 /**
  * Get stats overview
  */
-export function getStats(): {
-  total_emails: number;
-  total_opens: number;
-  emails_opened: number;
-  open_rate: number;
-} {
-  const totalEmails = (db.prepare('SELECT COUNT(*) as count FROM emails').get() as { count: number }).count;
-  const totalOpens = (db.prepare('SELECT COUNT(*) as count FROM opens').get() as { count: number }).count;
-  const emailsOpened = (db.prepare('SELECT COUNT(DISTINCT email_id) as count FROM opens').get() as { count: number }).count;
+export function getStats(ownerId: number): Stats {
+  const ownOpens = 'opens o JOIN emails e ON e.id = o.email_id WHERE e.owner_id = ?';
+  const ownClicks = 'clicks c JOIN emails e ON e.id = c.email_id WHERE e.owner_id = ?';
+
+  const totalEmails = (db.prepare('SELECT COUNT(*) as count FROM emails WHERE owner_id = ?').get(ownerId) as { count: number }).count;
+  const totalOpens = (db.prepare(`SELECT COUNT(*) as count FROM ${ownOpens}`).get(ownerId) as { count: number }).count;
+  const emailsOpened = (db.prepare(`SELECT COUNT(DISTINCT o.email_id) as count FROM ${ownOpens}`).get(ownerId) as { count: number }).count;
+  const emailsOpenedHuman = (db.prepare(`SELECT COUNT(DISTINCT o.email_id) as count FROM ${ownOpens} AND o.classification = 'human'`).get(ownerId) as { count: number }).count;
+  const byClassification = db.prepare(`SELECT o.classification, COUNT(*) as count FROM ${ownOpens} GROUP BY o.classification`).all(ownerId) as { classification: OpenClassification; count: number }[];
+  const totalClicks = (db.prepare(`SELECT COUNT(*) as count FROM ${ownClicks}`).get(ownerId) as { count: number }).count;
+  const emailsClicked = (db.prepare(`SELECT COUNT(DISTINCT c.email_id) as count FROM ${ownClicks}`).get(ownerId) as { count: number }).count;
+
+  const opensByClassification = emptyClassificationCounts();
+  for (const row of byClassification) {
+    opensByClassification[row.classification ?? 'unknown'] += row.count;
+  }
   
   return {
     total_emails: totalEmails,
     total_opens: totalOpens,
     emails_opened: emailsOpened,
-    open_rate: totalEmails > 0 ? Math.round((emailsOpened / totalEmails) * 100) : 0,
+    open_rate: percentage(emailsOpened, totalEmails),
+    human_opens: opensByClassification.human,
+    emails_opened_human: emailsOpenedHuman,
+    human_open_rate: percentage(emailsOpenedHuman, totalEmails),
+    opens_by_classification: opensByClassification,
+    total_clicks: totalClicks,
+    emails_clicked: emailsClicked,
+    click_rate: percentage(emailsClicked, totalEmails),
+  };
+}
+
+// ============================================
+// Analytics
+// ============================================
+
+// Bucket key for a local datetime, and how to step from one bucket to the next.
+// Weeks start on Monday: jump to the coming Sunday, then back six days.
+const INTERVAL_SQL: Record<StatsInterval, { key: (column: string) => string; step: string }> = {
+  hour: { key: (column) => `strftime('%Y-%m-%d %H:00', ${column})`, step: '+1 hour' },
+  day: { key: (column) => `date(${column})`, step: '+1 day' },
+  week: { key: (column) => `date(${column}, 'weekday 0', '-6 days')`, step: '+7 days' },
+};
+
+/**
+ * Emails sent and opens per hour, day or week, including empty buckets
+ * - Buckets are labelled in the viewer's local time
+ */
+export function getTimeseries(ownerId: number, range: StatsRange, interval: StatsInterval): TimeseriesBucket[] {
+  const { key, step } = INTERVAL_SQL[interval];
+  const local = (column: string) => `datetime(${column}, @offset)`;
+
+  const stmt = db.prepare(`
+    WITH RECURSIVE series(bucket) AS (
+      SELECT ${key(local('@from'))}
+      UNION ALL
+      SELECT ${key(`datetime(bucket, '${step}')`)} FROM series
+      WHERE datetime(bucket, '${step}') < ${local('@to')}
+    ),
+    sent AS (
+      SELECT ${key(local('created_at'))} as bucket, COUNT(*) as emails_sent
+      FROM emails
+      WHERE owner_id = @ownerId AND created_at >= @from AND created_at < @to
+      GROUP BY 1
+    ),
+    opened AS (
+      SELECT
+        ${key(local('o.opened_at'))} as bucket,
+        COUNT(*) as opens,
+        SUM(CASE WHEN o.classification = 'human' THEN 1 ELSE 0 END) as human_opens
+      FROM opens o
+      JOIN emails e ON e.id = o.email_id
+      WHERE e.owner_id = @ownerId AND o.opened_at >= @from AND o.opened_at < @to
+      GROUP BY 1
+    )
+    SELECT
+      series.bucket,
+      COALESCE(sent.emails_sent, 0) as emails_sent,
+      COALESCE(opened.opens, 0) as opens,
+      COALESCE(opened.human_opens, 0) as human_opens
+    FROM series
+    LEFT JOIN sent ON sent.bucket = series.bucket
+    LEFT JOIN opened ON opened.bucket = series.bucket
+    ORDER BY series.bucket
+  `);
+
+  return stmt.all({
+    ownerId,
+    from: range.from,
+    to: range.to,
+    offset: `${range.utcOffsetMinutes} minutes`,
+  }) as TimeseriesBucket[];
+}
+
+/**
+ * Engagement for emails sent in the range, counting human opens only
+ * - time_to_first_open: seconds from send to first open, nearest-rank percentiles
+ * - heatmap: opens by local day of week (0 = Sunday) and hour
+ * - reopen_rate: % of opened emails that were opened more than once
+ */
+export function getEngagementStats(ownerId: number, range: StatsRange): EngagementStats {
+  const params = {
+    ownerId,
+    from: range.from,
+    to: range.to,
+    offset: `${range.utcOffsetMinutes} minutes`,
+  };
+
+  const humanOpens = `
+    SELECT o.email_id, o.opened_at, e.created_at
+    FROM opens o
+    JOIN emails e ON e.id = o.email_id
+    WHERE e.owner_id = @ownerId
+      AND e.created_at >= @from AND e.created_at < @to
+      AND o.classification = 'human'
+  `;
+
+  const latency = db.prepare(`
+    WITH first_opens AS (
+      SELECT (julianday(MIN(opened_at)) - julianday(created_at)) * 86400 as seconds
+      FROM (${humanOpens})
+      GROUP BY email_id
+    ),
+    ranked AS (
+      SELECT seconds, ROW_NUMBER() OVER (ORDER BY seconds) as position, COUNT(*) OVER () as total
+      FROM first_opens
+    )
+    SELECT
+      COUNT(*) as count,
+      AVG(seconds) as average,
+      MIN(CASE WHEN position >= total * 0.50 THEN seconds END) as p50,
+      MIN(CASE WHEN position >= total * 0.75 THEN seconds END) as p75,
+      MIN(CASE WHEN position >= total * 0.90 THEN seconds END) as p90,
+      MIN(CASE WHEN position >= total * 0.95 THEN seconds END) as p95
+    FROM ranked
+  `).get(params) as EngagementStats['time_to_first_open'];
+
+  const heatmapRows = db.prepare(`
+    SELECT
+      CAST(strftime('%w', datetime(opened_at, @offset)) AS INTEGER) as day,
+      CAST(strftime('%H', datetime(opened_at, @offset)) AS INTEGER) as hour,
+      COUNT(*) as opens
+    FROM (${humanOpens})
+    GROUP BY day, hour
+  `).all(params) as { day: number; hour: number; opens: number }[];
+
+  const reopens = db.prepare(`
+    SELECT
+      COUNT(*) as emails_opened,
+      SUM(CASE WHEN open_count > 1 THEN 1 ELSE 0 END) as emails_reopened
+    FROM (
+      SELECT COUNT(*) as open_count FROM (${humanOpens}) GROUP BY email_id
+    )
+  `).get(params) as { emails_opened: number; emails_reopened: number | null };
+
+  const heatmap = Array.from({ length: 7 }, () => Array<number>(24).fill(0));
+  for (const row of heatmapRows) {
+    heatmap[row.day][row.hour] = row.opens;
+  }
+
+  const round = (value: number | null) => (value === null ? null : Math.round(value));
+  const emailsReopened = reopens.emails_reopened ?? 0;
+
+  return {
+    time_to_first_open: {
+      count: latency.count,
+      average: round(latency.average),
+      p50: round(latency.p50),
+      p75: round(latency.p75),
+      p90: round(latency.p90),
+      p95: round(latency.p95),
+    },
+    heatmap,
+    emails_opened: reopens.emails_opened,
+    emails_reopened: emailsReopened,
+    reopen_rate: percentage(emailsReopened, reopens.emails_opened),
   };
 }
+
+// ============================================
+// Contacts
+// ============================================
+
+// Note: the pixel is shared by everyone on an email, so a contact's opens are
+// the opens of every email they received - not necessarily opens by them.
+const CONTACT_STATS_SELECT = `
+  SELECT
+    c.*,
+    COUNT(DISTINCT er.email_id) as email_count,
+    COUNT(DISTINCT o.email_id) as emails_opened,
+    COUNT(o.id) as open_count,
+    MAX(e.created_at) as last_emailed_at,
+    MAX(o.opened_at) as last_opened_at
+  FROM contacts c
+  JOIN (SELECT DISTINCT email_id, contact_id FROM email_recipients) er ON er.contact_id = c.id
+  JOIN emails e ON e.id = er.email_id
+  LEFT JOIN opens o ON o.email_id = er.email_id
+`;
+
+/**
+ * Get all contacts the owner has emailed, with aggregate open stats
+ */
+export function getAllContacts(ownerId: number): ContactWithStats[] {
+  const stmt = db.prepare(`
+    ${CONTACT_STATS_SELECT}
+    WHERE e.owner_id = ?
+    GROUP BY c.id
+    ORDER BY last_emailed_at DESC
+  `);
+
+  return (stmt.all(ownerId) as Omit<ContactWithStats, 'open_rate'>[]).map(withOpenRate);
+}
+
+/**
+ * Get a contact by address with the owner's full email history to them
+ */
+export function getContactWithHistory(address: string, ownerId: number): ContactWithHistory | null {
+  const contact = db.prepare(`
+    ${CONTACT_STATS_SELECT}
+    WHERE c.address = ? AND e.owner_id = ?
+    GROUP BY c.id
+  `).get(normalizeAddress(address), ownerId) as Omit<ContactWithStats, 'open_rate'> | undefined;
+
+  if (!contact) return null;
+
+  const emails = db.prepare(`
+    SELECT
+      e.*,
+      er.role,
+      (SELECT COUNT(*) FROM opens o WHERE o.email_id = e.id) as open_count,
+      (SELECT MAX(o.opened_at) FROM opens o WHERE o.email_id = e.id) as last_opened_at
+    FROM email_recipients er
+    JOIN emails e ON e.id = er.email_id
+    WHERE er.contact_id = ? AND e.owner_id = ?
+    GROUP BY e.id
+    ORDER BY e.created_at DESC
+  `).all(contact.id, ownerId) as (Omit<ContactEmail, 'tags'> & { tags: string })[];
+
+  return {
+    ...withOpenRate(contact),
+    emails: emails.map(parseEmail),
+  };
+}
+
+// ============================================
+// Retention & Erasure
+// ============================================
+
+// Emails are deleted this many at a time, each batch in its own transaction
+const DELETE_BATCH_SIZE = 500;
+
+/**
+ * Delete emails and everything that refers to them: opens, clicks, links,
+ * recipients, reminders, their events and those events' webhook deliveries
+ * - Contacts left without any email go too
+ * - Call inside a transaction
+ */
+function deleteEmailRows(emailIds: string[]): DeletionCounts {
+  const ids = JSON.stringify(emailIds);
+  const inIds = 'IN (SELECT value FROM json_each(?))';
+  const eventIds = `
+    SELECT id FROM events
+    WHERE (type LIKE 'email.%' OR type LIKE 'reminder.%')
+      AND COALESCE(json_extract(data, '$.email_id'), json_extract(data, '$.id')) ${inIds}
+  `;
+
+  db.prepare(`DELETE FROM webhook_deliveries WHERE event_id IN (${eventIds})`).run(ids);
+  db.prepare(`DELETE FROM events WHERE id IN (${eventIds})`).run(ids);
+  db.prepare(`DELETE FROM reminders WHERE email_id ${inIds}`).run(ids);
+  const clicks = db.prepare(`DELETE FROM clicks WHERE email_id ${inIds}`).run(ids).changes;
+  db.prepare(`DELETE FROM links WHERE email_id ${inIds}`).run(ids);
+  const opens = db.prepare(`DELETE FROM opens WHERE email_id ${inIds}`).run(ids).changes;
+  db.prepare(`DELETE FROM email_recipients WHERE email_id ${inIds}`).run(ids);
+  const emails = db.prepare(`DELETE FROM emails WHERE id ${inIds}`).run(ids).changes;
+  db.prepare('DELETE FROM contacts WHERE id NOT IN (SELECT contact_id FROM email_recipients)').run();
+
+  return { emails, opens, clicks };
+}
+
+export function purgeActivity(maxAgeDays: number): Pick<DeletionCounts, 'opens' | 'clicks'> {
+  const cutoff = `-${maxAgeDays} days`;
+  return db.transaction(() => ({
+    opens: db.prepare("DELETE FROM opens WHERE opened_at < datetime('now', ?)").run(cutoff).changes,
+    clicks: db.prepare("DELETE FROM clicks WHERE clicked_at < datetime('now', ?)").run(cutoff).changes,
+  }))();
+}
+
+export function purgeEmails(maxAgeDays: number): DeletionCounts {
+  const selectBatch = db.prepare("SELECT id FROM emails WHERE created_at < datetime('now', ?) LIMIT ?");
+  const deleteBatch = db.transaction((ids: string[]) => deleteEmailRows(ids));
+  const total: DeletionCounts = { emails: 0, opens: 0, clicks: 0 };
+
+  for (;;) {
+    const rows = selectBatch.all(`-${maxAgeDays} days`, DELETE_BATCH_SIZE) as { id: string }[];
+    if (rows.length === 0) return total;
+
+    const deleted = deleteBatch(rows.map((row) => row.id));
+    total.emails += deleted.emails;
+    total.opens += deleted.opens;
+    total.clicks += deleted.clicks;
+  }
+}
+
+export function eraseRecipient(ownerId: number, address: string): RecipientErasure {
+  const normalized = normalizeAddress(address);
+
+  return db.transaction((): RecipientErasure => {
+    const rows = db.prepare(`
+      SELECT DISTINCT e.id
+      FROM emails e
+      JOIN email_recipients er ON er.email_id = e.id
+      JOIN contacts c ON c.id = er.contact_id
+      WHERE e.owner_id = ? AND c.address = ?
+    `).all(ownerId, normalized) as { id: string }[];
+    const emailIds = rows.map((row) => row.id);
+
+    const deleted = emailIds.length > 0 ? deleteEmailRows(emailIds) : { emails: 0, opens: 0, clicks: 0 };
+    return { address: normalized, email_ids: emailIds, ...deleted };
+  })();
+}
+
+export function deleteEmails(ownerId: number, emailIds: string[]): DeletionCounts {
+  return db.transaction((): DeletionCounts => {
+    const rows = db.prepare(`
+      SELECT id FROM emails WHERE owner_id = ? AND id IN (SELECT value FROM json_each(?))
+    `).all(ownerId, JSON.stringify(emailIds)) as { id: string }[];
+
+    return rows.length > 0 ? deleteEmailRows(rows.map((row) => row.id)) : { emails: 0, opens: 0, clicks: 0 };
+  })();
+}
+
+// ============================================
+// Reminders
+// ============================================
+
+// Opens that mean someone read the email; prefetches and scanners don't count
+const READ_OPENS = "classification IN ('human', 'proxy')";
+
+const REMINDER_WITH_EMAIL_SELECT = `
+  SELECT r.*, e.recipient, e.subject
+  FROM reminders r
+  JOIN emails e ON e.id = r.email_id
+`;
+
+/**
+ * Schedule a reminder for an email
+ * - not_opened reminders are due delay_hours after the email is sent (later than now
+ *   for a scheduled send); opened ones get due_at at the first read
+ */
+function addReminder(emailId: string, ownerId: number, kind: ReminderKind, delayHours: number): void {
+  db.prepare(`
+    INSERT INTO reminders (email_id, owner_id, kind, delay_hours, due_at)
+    VALUES (?, ?, ?, ?, CASE WHEN ? = 'not_opened'
+      THEN datetime((SELECT created_at FROM emails WHERE id = ?), ?) END)
+  `).run(emailId, ownerId, kind, delayHours, kind, emailId, `+${delayHours} hours`);
+}
+
+/**
+ * Get an owner's reminders, soonest due first
+ * - status narrows the list; reminders still waiting for a first read come last
+ */
+export function getReminders(ownerId: number, status?: ReminderStatus): ReminderWithEmail[] {
+  return db.prepare(`
+    ${REMINDER_WITH_EMAIL_SELECT}
+    WHERE r.owner_id = ? AND (? IS NULL OR r.status = ?)
+    ORDER BY r.due_at IS NULL, r.due_at, r.id
+  `).all(ownerId, status ?? null, status ?? null) as ReminderWithEmail[];
+}
+
+/**
+ * Push a due reminder back; it fires again after `hours`
+ * - Returns null unless the reminder is the owner's and currently due
+ */
+export function snoozeReminder(id: number, ownerId: number, hours: number): Reminder | null {
+  const row = db.prepare(`
+    UPDATE reminders SET status = 'pending', due_at = datetime('now', ?), fired_at = NULL
+    WHERE id = ? AND owner_id = ? AND status = 'due'
+    RETURNING *
+  `).get(`+${hours} hours`, id, ownerId) as Reminder | undefined;
+  return row ?? null;
+}
+
+/**
+ * Stop a pending or due reminder for good
+ * - Returns null unless the reminder is the owner's and still pending or due
+ */
+export function dismissReminder(id: number, ownerId: number): Reminder | null {
+  const row = db.prepare(`
+    UPDATE reminders SET status = 'dismissed'
+    WHERE id = ? AND owner_id = ? AND status IN ('pending', 'due')
+    RETURNING *
+  `).get(id, ownerId) as Reminder | undefined;
+  return row ?? null;
+}
+
+/**
+ * Move reminders along and fire the ones that are due
+ * - Starts the clock on opened reminders whose email has been read
+ * - Cancels not_opened reminders whose email has been read
+ * - Marks every pending reminder past its due_at as due and emits reminder.due for it
+ */
+export function fireDueReminders(): ReminderWithEmail[] {
+  const fired = db.transaction(() => {
+    db.prepare(`
+      UPDATE reminders SET due_at = (
+        SELECT datetime(MIN(o.opened_at), '+' || reminders.delay_hours || ' hours')
+        FROM opens o WHERE o.email_id = reminders.email_id AND o.${READ_OPENS}
+      )
+      WHERE status = 'pending' AND kind = 'opened' AND due_at IS NULL
+        AND EXISTS (SELECT 1 FROM opens o WHERE o.email_id = reminders.email_id AND o.${READ_OPENS})
+    `).run();
+
+    db.prepare(`
+      UPDATE reminders SET status = 'cancelled'
+      WHERE status = 'pending' AND kind = 'not_opened'
+        AND EXISTS (SELECT 1 FROM opens o WHERE o.email_id = reminders.email_id AND o.${READ_OPENS})
+    `).run();
+
+    const rows = db.prepare(`
+      UPDATE reminders SET status = 'due', fired_at = CURRENT_TIMESTAMP
+      WHERE status = 'pending' AND due_at <= CURRENT_TIMESTAMP
+      RETURNING id
+    `).all() as { id: number }[];
+
+    return db.prepare(`
+      ${REMINDER_WITH_EMAIL_SELECT}
+      WHERE r.id IN (SELECT value FROM json_each(?))
+      ORDER BY r.due_at, r.id
+    `).all(JSON.stringify(rows.map((row) => row.id))) as ReminderWithEmail[];
+  })();
+
+  for (const reminder of fired) {
+    emitEvent('reminder.due', reminder.owner_id, { ...reminder });
+  }
+  return fired;
+}
+
+// ============================================
+// Campaigns
+// ============================================
+
+function getVariants(campaignIds: number[]): CampaignVariant[] {
+  return db.prepare(`
+    SELECT * FROM campaign_variants WHERE campaign_id IN (SELECT value FROM json_each(?)) ORDER BY id
+  `).all(JSON.stringify(campaignIds)) as CampaignVariant[];
+}
+
+/**
+ * Create a campaign with its variants, if any
+ */
+export function createCampaign(data: {
+  ownerId: number;
+  name: string;
+  description?: string;
+  variants: { name: string; subject?: string }[];
+}): Campaign {
+  const insertVariant = db.prepare('INSERT INTO campaign_variants (campaign_id, name, subject) VALUES (?, ?, ?)');
+
+  const id = db.transaction(() => {
+    const campaign = db.prepare(`
+      INSERT INTO campaigns (owner_id, name, description) VALUES (?, ?, ?)
+    `).run(data.ownerId, data.name, data.description || null);
+    const campaignId = Number(campaign.lastInsertRowid);
+    for (const variant of data.variants) {
+      insertVariant.run(campaignId, variant.name, variant.subject || null);
+    }
+    return campaignId;
+  })();
+
+  return getCampaign(data.ownerId, id)!;
+}
+
+/**
+ * The owner's campaigns, newest first, with how many of their emails were opened
+ */
+export function getCampaigns(ownerId: number): CampaignSummary[] {
+  const rows = db.prepare(`
+    SELECT
+      c.*,
+      COUNT(e.id) as email_count,
+      COUNT(CASE WHEN EXISTS (SELECT 1 FROM opens o WHERE o.email_id = e.id AND o.${READ_OPENS}) THEN 1 END) as emails_opened
+    FROM campaigns c
+    LEFT JOIN emails e ON e.campaign_id = c.id
+    WHERE c.owner_id = ?
+    GROUP BY c.id
+    ORDER BY c.created_at DESC, c.id DESC
+  `).all(ownerId) as Omit<CampaignSummary, 'variants' | 'open_rate'>[];
+
+  const variants = getVariants(rows.map((row) => row.id));
+  return rows.map((row) => ({
+    ...row,
+    open_rate: percentage(row.emails_opened, row.email_count),
+    variants: variants.filter((variant) => variant.campaign_id === row.id),
+  }));
+}
+
+export function getCampaign(ownerId: number, id: number): Campaign | null {
+  const campaign = db.prepare('SELECT * FROM campaigns WHERE id = ? AND owner_id = ?').get(id, ownerId) as
+    | Omit<Campaign, 'variants'>
+    | undefined;
+  return campaign ? { ...campaign, variants: getVariants([id]) } : null;
+}
+
+/**
+ * A campaign with its engagement, per variant and per recipient
+ */
+export function getCampaignReport(ownerId: number, id: number): CampaignReport | null {
+  const campaign = getCampaign(ownerId, id);
+  if (!campaign) return null;
+
+  const rows = db.prepare(`
+    SELECT
+      e.id as email_id,
+      e.variant_id,
+      c.address,
+      COALESCE(r.read_count, 0) as read_count,
+      e.click_count,
+      r.last_read_at,
+      (julianday(r.first_read_at) - julianday(e.created_at)) * 86400 as seconds_to_open
+    FROM emails e
+    LEFT JOIN (SELECT DISTINCT email_id, contact_id FROM email_recipients) er ON er.email_id = e.id
+    LEFT JOIN contacts c ON c.id = er.contact_id
+    LEFT JOIN (
+      SELECT email_id, COUNT(*) as read_count, MIN(opened_at) as first_read_at, MAX(opened_at) as last_read_at
+      FROM opens
+      WHERE ${READ_OPENS} AND email_id IN (SELECT id FROM emails WHERE campaign_id = @id)
+      GROUP BY email_id
+    ) r ON r.email_id = e.id
+    WHERE e.campaign_id = @id
+  `).all({ id }) as CampaignEmailRow[];
+
+  return buildCampaignReport(campaign, rows);
+}
+
+// ============================================
+// Reservations
+// ============================================
+
+/**
+ * Hand out a tracking id for an email that is still being written
+ */
+export function reserveEmailId(ownerId: number): Reservation {
+  return db.prepare(`
+    INSERT INTO reservations (id, owner_id) VALUES (?, ?) RETURNING *
+  `).get(generateTrackingId(), ownerId) as Reservation;
+}
+
+/**
+ * A reservation not yet confirmed, released or pruned
+ * - Unscoped, like getEmailById: for the public redirect route
+ */
+export function getReservation(id: string): Reservation | null {
+  return (db.prepare('SELECT * FROM reservations WHERE id = ?').get(id) as Reservation | undefined) ?? null;
+}
+
+/**
+ * Turn the owner's reservation into an email with that id
+ * - Null if there is no such reservation (never made, released or already confirmed)
+ */
+export function confirmReservation(id: string, data: NewEmail): Email | null {
+  const confirm = db.transaction(() => {
+    const reserved = db.prepare('DELETE FROM reservations WHERE id = ? AND owner_id = ?').run(id, data.ownerId);
+    return reserved.changes > 0 ? createEmail({ ...data, id }) : null;
+  });
+  return confirm();
+}
+
+/**
+ * Give back a reservation whose draft was discarded or closed unsent
+ */
+export function releaseReservation(id: string, ownerId: number): boolean {
+  const result = db.prepare('DELETE FROM reservations WHERE id = ? AND owner_id = ?').run(id, ownerId);
+  return result.changes > 0;
+}
+
+export function pruneReservations(maxAgeHours: number): number {
+  const result = db.prepare(`
+    DELETE FROM reservations WHERE created_at < datetime('now', ?)
+  `).run(`-${maxAgeHours} hours`);
+  return result.changes;
+}
+
+// ============================================
+// Secrets
+// ============================================
+
+/**
+ * A random secret of the server's own, made the first time it is asked for
+ */
+export function getSecret(name: string): string {
+  db.prepare('INSERT OR IGNORE INTO secrets (name, value) VALUES (?, ?)').run(name, generateSecret());
+  return (db.prepare('SELECT value FROM secrets WHERE name = ?').get(name) as { value: string }).value;
+}
+
+// ============================================
+// Users, Sessions & API Keys
+// ============================================
+
+/**
+ * Create a user
+ */
+export function createUser(data: { email: string; name?: string; passwordHash: string }): User {
+  const stmt = db.prepare('INSERT INTO users (email, name, password_hash) VALUES (?, ?, ?)');
+  const result = stmt.run(normalizeAddress(data.email), data.name || null, data.passwordHash);
+  return getUserById(Number(result.lastInsertRowid))!;
+}
+
+/**
+ * How many accounts there are
+ */
+export function countUsers(): number {
+  return (db.prepare('SELECT COUNT(*) as count FROM users').get() as { count: number }).count;
+}
+
+/**
+ * Give a user every email created before accounts existed (see claim-cli.ts)
+ * - Returns how many emails were claimed
+ */
+export function claimUnownedEmails(userId: number): number {
+  return db.prepare('UPDATE emails SET owner_id = ? WHERE owner_id IS NULL').run(userId).changes;
+}
+
+/**
+ * Get user by ID (without the password hash)
+ */
+export function getUserById(id: number): User | null {
+  const stmt = db.prepare('SELECT id, email, name, created_at FROM users WHERE id = ?');
+  return (stmt.get(id) as User | undefined) ?? null;
+}
+
+/**
+ * Get user by email, including the password hash for login
+ */
+export function getUserByEmail(email: string): UserWithPassword | null {
+  const stmt = db.prepare('SELECT * FROM users WHERE email = ?');
+  return (stmt.get(normalizeAddress(email)) as UserWithPassword | undefined) ?? null;
+}
+
+/**
+ * The user's sender marker, created on first use
+ */
+export function getSenderMarker(userId: number): string {
+  const row = db.prepare(`
+    UPDATE users SET sender_marker = COALESCE(sender_marker, ?) WHERE id = ? RETURNING sender_marker
+  `).get(generateSenderMarker(), userId) as { sender_marker: string };
+  return row.sender_marker;
+}
+
+/**
+ * Create a dashboard session
+ */
+export function createSession(data: { userId: number; tokenHash: string; ttlDays: number }): void {
+  db.prepare(`
+    INSERT INTO sessions (token_hash, user_id, expires_at)
+    VALUES (?, ?, datetime('now', ?))
+  `).run(data.tokenHash, data.userId, `+${data.ttlDays} days`);
+}
+
+/**
+ * Resolve a session token hash to its user, ignoring expired sessions
+ */
+export function getUserBySessionHash(tokenHash: string): User | null {
+  const stmt = db.prepare(`
+    SELECT u.id, u.email, u.name, u.created_at
+    FROM sessions s
+    JOIN users u ON u.id = s.user_id
+    WHERE s.token_hash = ? AND s.expires_at > datetime('now')
+  `);
+  return (stmt.get(tokenHash) as User | undefined) ?? null;
+}
+
+/**
+ * Delete a session (logout)
+ */
+export function deleteSession(tokenHash: string): void {
+  db.prepare('DELETE FROM sessions WHERE token_hash = ?').run(tokenHash);
+}
+
+/**
+ * Create an API key record; the raw key is never stored
+ */
+export function createApiKey(data: { userId: number; name: string; keyHash: string; prefix: string }): ApiKey {
+  const result = db.prepare(`
+    INSERT INTO api_keys (user_id, name, key_hash, prefix)
+    VALUES (?, ?, ?, ?)
+  `).run(data.userId, data.name, data.keyHash, data.prefix);
+
+  return db.prepare(`
+    SELECT id, user_id, name, prefix, created_at, last_used_at FROM api_keys WHERE id = ?
+  `).get(result.lastInsertRowid) as ApiKey;
+}
+
+/**
+ * List a user's API keys
+ */
+export function getApiKeysForUser(userId: number): ApiKey[] {
+  const stmt = db.prepare(`
+    SELECT id, user_id, name, prefix, created_at, last_used_at
+    FROM api_keys
+    WHERE user_id = ?
+    ORDER BY created_at DESC
+  `);
+  return stmt.all(userId) as ApiKey[];
+}
+
+/**
+ * Revoke one of a user's API keys
+ */
+export function deleteApiKey(id: number, userId: number): boolean {
+  const result = db.prepare('DELETE FROM api_keys WHERE id = ? AND user_id = ?').run(id, userId);
+  return result.changes > 0;
+}
+
+/**
+ * Resolve an API key hash to its user and record when it was last used
+ */
+export function getUserByApiKeyHash(keyHash: string): User | null {
+  const user = db.prepare(`
+    SELECT u.id, u.email, u.name, u.created_at
+    FROM api_keys k
+    JOIN users u ON u.id = k.user_id
+    WHERE k.key_hash = ?
+  `).get(keyHash) as User | undefined;
+
+  if (!user) return null;
+
+  db.prepare("UPDATE api_keys SET last_used_at = datetime('now') WHERE key_hash = ?").run(keyHash);
+  return user;
+}
+
+// ============================================
+// Events
+// ============================================
+
+interface EventRow extends Omit<TrackerEvent, 'data'> {
+  data: string;
+}
+
+function parseEvent(row: EventRow): TrackerEvent {
+  return { ...row, data: JSON.parse(row.data) };
+}
+
+/**
+ * Persist an event, queue it for the owner's webhooks and publish it to live subscribers
+ */
+export function emitEvent(type: EventType, ownerId: number | null, data: Record<string, unknown>): TrackerEvent {
+  const event = db.transaction(() => {
+    const result = db.prepare(`
+      INSERT INTO events (type, owner_id, data) VALUES (?, ?, ?)
+    `).run(type, ownerId, JSON.stringify(data));
+
+    const row = db.prepare('SELECT * FROM events WHERE id = ?').get(result.lastInsertRowid) as EventRow;
+    const event = parseEvent(row);
+    if (ownerId !== null) {
+      enqueueWebhookDeliveries(event);
+    }
+    return event;
+  })();
+
+  publishEvent(event);
+  return event;
+}
+
+/**
+ * Get an owner's events after a cursor, oldest first
+ */
+export function getEventsSince(ownerId: number, sinceId: number, limit = 500): TrackerEvent[] {
+  const rows = db.prepare(`
+    SELECT * FROM events
+    WHERE owner_id = ? AND id > ?
+    ORDER BY id
+    LIMIT ?
+  `).all(ownerId, sinceId, limit) as EventRow[];
+
+  return rows.map(parseEvent);
+}
+
+/**
+ * Get the newest event id for an owner (0 if none)
+ */
+export function getLatestEventId(ownerId: number): number {
+  const row = db.prepare('SELECT MAX(id) as id FROM events WHERE owner_id = ?').get(ownerId) as { id: number | null };
+  return row.id ?? 0;
+}
+
+/**
+ * Drop events older than the replay window
+ */
+export function pruneEvents(maxAgeDays: number): number {
+  const result = db.prepare(`
+    DELETE FROM events WHERE created_at < datetime('now', ?)
+  `).run(`-${maxAgeDays} days`);
+  return result.changes;
+}
+
+// ============================================
+// Webhooks
+// ============================================
+
+interface WebhookRow extends Omit<WebhookWithSecret, 'events'> {
+  events: string;
+}
+
+function parseWebhook(row: WebhookRow): WebhookWithSecret {
+  return { ...row, events: row.events.split(',') as EventType[] };
+}
+
+function withoutSecret({ secret: _secret, ...webhook }: WebhookWithSecret): Webhook {
+  return webhook;
+}
+
+/**
+ * Create a webhook subscription; the secret is only returned here
+ */
+export function createWebhook(data: { ownerId: number; url: string; events: EventType[]; secret: string }): WebhookWithSecret {
+  const result = db.prepare(`
+    INSERT INTO webhooks (owner_id, url, secret, events) VALUES (?, ?, ?, ?)
+  `).run(data.ownerId, data.url, data.secret, data.events.join(','));
+
+  return parseWebhook(db.prepare('SELECT * FROM webhooks WHERE id = ?').get(result.lastInsertRowid) as WebhookRow);
+}
+
+/**
+ * List an owner's webhooks (without secrets)
+ */
+export function getWebhooksForOwner(ownerId: number): Webhook[] {
+  const rows = db.prepare('SELECT * FROM webhooks WHERE owner_id = ? ORDER BY created_at DESC').all(ownerId) as WebhookRow[];
+  return rows.map(parseWebhook).map(withoutSecret);
+}
+
+/**
+ * Get a webhook including its secret (for signing deliveries)
+ */
+export function getWebhookById(id: number): WebhookWithSecret | null {
+  const row = db.prepare('SELECT * FROM webhooks WHERE id = ?').get(id) as WebhookRow | undefined;
+  return row ? parseWebhook(row) : null;
+}
+
+/**
+ * Delete a webhook and its delivery log
+ */
+export function deleteWebhook(id: number, ownerId: number): boolean {
+  return db.transaction(() => {
+    const webhook = db.prepare('SELECT id FROM webhooks WHERE id = ? AND owner_id = ?').get(id, ownerId);
+    if (!webhook) return false;
+
+    db.prepare('DELETE FROM webhook_deliveries WHERE webhook_id = ?').run(id);
+    db.prepare('DELETE FROM webhooks WHERE id = ?').run(id);
+    return true;
+  })();
+}
+
+/**
+ * Queue a delivery of an event to every matching webhook of its owner
+ */
+function enqueueWebhookDeliveries(event: TrackerEvent): void {
+  const webhooks = (db.prepare('SELECT * FROM webhooks WHERE owner_id = ?').all(event.owner_id) as WebhookRow[])
+    .map(parseWebhook)
+    .filter((webhook) => webhook.events.includes(event.type));
+
+  const insert = db.prepare(`
+    INSERT INTO webhook_deliveries (webhook_id, event_id, event_type, payload)
+    VALUES (?, ?, ?, ?)
+  `);
+
+  const payload = webhookPayload(event);
+
+  for (const webhook of webhooks) {
+    insert.run(webhook.id, event.id, event.type, payload);
+  }
+}
+
+/**
+ * Get pending deliveries whose next attempt is due
+ */
+export function getDueWebhookDeliveries(limit: number): WebhookDelivery[] {
+  const stmt = db.prepare(`
+    SELECT * FROM webhook_deliveries
+    WHERE status = 'pending' AND next_attempt_at <= datetime('now')
+    ORDER BY next_attempt_at
+    LIMIT ?
+  `);
+  return stmt.all(limit) as WebhookDelivery[];
+}
+
+/**
+ * Record the outcome of a delivery attempt
+ * - retryInSeconds schedules another attempt; null means give up (or succeeded)
+ */
+export function recordWebhookAttempt(data: {
+  id: number;
+  succeeded: boolean;
+  statusCode: number | null;
+  error: string | null;
+  retryInSeconds: number | null;
+}): void {
+  const status = deliveryStatus(data.succeeded, data.retryInSeconds);
+
+  db.prepare(`
+    UPDATE webhook_deliveries
+    SET status = ?,
+        attempts = attempts + 1,
+        last_status_code = ?,
+        last_error = ?,
+        next_attempt_at = CASE WHEN ? IS NULL THEN NULL ELSE datetime('now', '+' || ? || ' seconds') END,
+        delivered_at = CASE WHEN ? = 'succeeded' THEN datetime('now') ELSE delivered_at END
+    WHERE id = ?
+  `).run(status, data.statusCode, data.error, data.retryInSeconds, data.retryInSeconds, status, data.id);
+}
+
+/**
+ * Get the most recent deliveries for one of an owner's webhooks
+ */
+export function getWebhookDeliveries(webhookId: number, ownerId: number, limit = 100): WebhookDelivery[] | null {
+  const webhook = db.prepare('SELECT id FROM webhooks WHERE id = ? AND owner_id = ?').get(webhookId, ownerId);
+  if (!webhook) return null;
+
+  const stmt = db.prepare(`
+    SELECT * FROM webhook_deliveries
+    WHERE webhook_id = ?
+    ORDER BY id DESC
+    LIMIT ?
+  `);
+  return stmt.all(webhookId, limit) as WebhookDelivery[];
+}
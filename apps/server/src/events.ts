@@ -0,0 +1,36 @@
+// In-process event bus
+// db.ts persists each event and publishes it here; the /api/events stream
+// subscribes so connected dashboards hear about it immediately
+
+import { EventEmitter } from 'events';
+
+export type EventType = 'email.created' | 'email.opened' | 'reminder.due';
+
+export const EVENT_TYPES: EventType[] = ['email.created', 'email.opened', 'reminder.due'];
+
+export interface TrackerEvent {
+  id: number;
+  type: EventType;
+  owner_id: number | null;
+  data: Record<string, unknown>;
+  created_at: string;
+}
+
+const bus = new EventEmitter();
+
+// One listener per open stream, so don't warn at the default limit of 10
+bus.setMaxListeners(0);
+
+export function publishEvent(event: TrackerEvent): void {
+  bus.emit('event', event);
+}
+
+/**
+ * Listen for every published event; returns an unsubscribe function
+ */
+export function subscribeToEvents(listener: (event: TrackerEvent) => void): () => void {
+  bus.on('event', listener);
+  return () => {
+    bus.off('event', listener);
+  };
+}
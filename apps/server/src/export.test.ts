@@ -0,0 +1,146 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createExportWriter,
+  ExportFormat,
+  EXPORT_FORMATS,
+  formatFromContentType,
+  ImportFormatError,
+  parseImport,
+  toImportedEmail,
+} from './export';
+import { PortableEmail } from './types';
+
+const OPENED: PortableEmail = {
+  id: 'abc123',
+  recipient: 'Ann <ann@example.com>',
+  subject: 'Lunch, "soon"?\nSecond line',
+  sender: 'me@example.com',
+  created_at: '2024-01-31 09:15:00',
+  opens: [
+    {
+      opened_at: '2024-01-31 10:00:00',
+      ip_address: '203.0.113.5',
+      user_agent: 'Mozilla/5.0 (Windows NT 10.0) Chrome/120',
+      classification: 'human',
+      client: 'Chrome',
+      os: 'Windows',
+      device_type: 'desktop',
+      country: 'DE',
+      region: null,
+      city: 'Berlin',
+      asn: 3320,
+      as_org: 'Deutsche Telekom AG',
+    },
+    {
+      opened_at: '2024-01-31 11:30:00',
+      ip_address: '66.249.84.10',
+      user_agent: 'GoogleImageProxy',
+      classification: 'proxy',
+      client: null,
+      os: null,
+      device_type: null,
+      country: null,
+      region: null,
+      city: null,
+      asn: null,
+      as_org: null,
+    },
+  ],
+};
+
+const UNOPENED: PortableEmail = {
+  id: 'def456',
+  recipient: 'bob@example.com',
+  subject: null,
+  sender: null,
+  created_at: '2024-02-01 08:00:00',
+  opens: [],
+};
+
+function write(format: ExportFormat, emails: PortableEmail[]): string {
+  const writer = createExportWriter(format);
+  return writer.head + emails.map((email, index) => writer.email(email, index)).join('') + writer.tail;
+}
+
+describe('export', () => {
+  it('writes CSV with one row per open and quotes fields that need it', () => {
+    const rows = write('csv', [OPENED, UNOPENED]).split('\r\n');
+
+    assert.equal(rows[0], 'email_id,recipient,subject,sender,created_at,opened_at,ip_address,user_agent,classification,client,os,device_type,country,region,city,asn,as_org');
+    assert.equal(rows[1], 'abc123,Ann <ann@example.com>,"Lunch, ""soon""?\nSecond line",me@example.com,2024-01-31 09:15:00,2024-01-31 10:00:00,203.0.113.5,Mozilla/5.0 (Windows NT 10.0) Chrome/120,human,Chrome,Windows,desktop,DE,,Berlin,3320,Deutsche Telekom AG');
+    assert.match(rows[2], /^abc123,.*,2024-01-31 11:30:00,66\.249\.84\.10,GoogleImageProxy,proxy,,,,,,,,$/s);
+    assert.equal(rows[3], 'def456,bob@example.com,,,2024-02-01 08:00:00,,,,,,,,,,,,');
+    assert.equal(rows[4], '');
+  });
+
+  it('writes JSON as one array and NDJSON as one email per line', () => {
+    assert.deepEqual(JSON.parse(write('json', [OPENED, UNOPENED])), [OPENED, UNOPENED]);
+    assert.equal(write('json', []), '[\n]\n');
+
+    const lines = write('ndjson', [OPENED, UNOPENED]).split('\n');
+    assert.deepEqual(lines.slice(0, 2).map((line) => JSON.parse(line)), [OPENED, UNOPENED]);
+    assert.equal(lines[2], '');
+  });
+
+  it('reads back every format it writes', () => {
+    for (const format of EXPORT_FORMATS) {
+      const emails = parseImport(write(format, [OPENED, UNOPENED]), format).map(toImportedEmail);
+      assert.deepEqual(emails, [OPENED, UNOPENED], format);
+    }
+  });
+});
+
+describe('import', () => {
+  it('picks the format from the Content-Type', () => {
+    assert.equal(formatFromContentType('text/csv; charset=utf-8'), 'csv');
+    assert.equal(formatFromContentType('Application/JSON'), 'json');
+    assert.equal(formatFromContentType('application/ndjson'), 'ndjson');
+    assert.equal(formatFromContentType('text/plain'), null);
+    assert.equal(formatFromContentType(undefined), null);
+  });
+
+  it('reads CSV with a byte order mark, bare line feeds and blank lines', () => {
+    const csv = '\uFEFFemail_id,recipient,created_at\nabc,"a@example.com",2024-01-31 09:15:00\n\n';
+    assert.deepEqual(parseImport(csv, 'csv'), [
+      { id: 'abc', recipient: 'a@example.com', subject: undefined, sender: undefined, created_at: '2024-01-31 09:15:00', opens: [] },
+    ]);
+  });
+
+  it('refuses bodies it cannot parse', () => {
+    assert.throws(() => parseImport('{"id":"abc"}', 'json'), /must be an array/);
+    assert.throws(() => parseImport('[', 'json'), ImportFormatError);
+    assert.throws(() => parseImport('{"id":"abc"}\nnope\n', 'ndjson'), /Invalid JSON in line 2/);
+    assert.throws(() => parseImport('email_id,recipient\nabc,a@example.com\n', 'csv'), /missing column\(s\): created_at/);
+    assert.throws(() => parseImport('email_id,recipient,created_at\n"abc,a,b\n', 'csv'), /Unterminated/);
+  });
+
+  it('explains what is wrong with a record', () => {
+    const valid = { id: 'abc', recipient: 'a@example.com', created_at: '2024-01-31 09:15:00' };
+
+    assert.equal(toImportedEmail('abc'), 'record must be an object');
+    assert.equal(toImportedEmail({ ...valid, id: 'a b' }), 'id must be 1-64 letters, digits, _ or -');
+    assert.equal(toImportedEmail({ ...valid, recipient: ' ' }), 'recipient is required');
+    assert.equal(toImportedEmail({ ...valid, created_at: 'yesterday' }), 'created_at must be a date');
+    assert.equal(toImportedEmail({ ...valid, opens: {} }), 'opens must be an array');
+    assert.equal(toImportedEmail({ ...valid, opens: [{ opened_at: '' }] }), 'opens[0]: opened_at must be a date');
+  });
+
+  it('takes ISO dates and classifies opens exported before classification existed', () => {
+    const email = toImportedEmail({
+      id: 'abc',
+      recipient: 'a@example.com',
+      created_at: '2024-01-31T10:15:00+01:00',
+      opens: [
+        { opened_at: '2024-01-31 09:15:05', user_agent: 'curl/8.0' },
+        { opened_at: '2024-01-31 12:00:00', user_agent: 'Mozilla/5.0 (X11; Linux x86_64) Firefox/121', device_type: 'fridge', asn: 'AS1' },
+      ],
+    });
+
+    assert.ok(typeof email !== 'string');
+    assert.equal(email.created_at, '2024-01-31 09:15:00');
+    assert.deepEqual(email.opens.map((open) => open.classification), ['scanner', 'human']);
+    assert.equal(email.opens[1].device_type, null);
+    assert.equal(email.opens[1].asn, null);
+  });
+});
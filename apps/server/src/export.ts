@@ -0,0 +1,315 @@
+// Export and import formats for tracking data
+// JSON and NDJSON carry one object per email with its opens nested inside;
+// CSV is flat - one row per open, with the email columns repeated and a single
+// row with empty open columns for an email that was never opened.
+
+import { classifyOpen, OpenClassification, OPEN_CLASSIFICATIONS } from './classify';
+import { DeviceType, DEVICE_TYPES } from './useragent';
+import { Email, Open, PortableEmail, PortableOpen } from './types';
+import { parseDbDate, toDbDate } from './storage/shared';
+
+export type ExportFormat = 'csv' | 'json' | 'ndjson';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'ndjson'];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+/**
+ * Work out an import's format from its Content-Type when ?format= is not given
+ */
+export function formatFromContentType(contentType: string | undefined): ExportFormat | null {
+  const type = contentType?.split(';')[0].trim().toLowerCase();
+  if (type === 'text/csv') return 'csv';
+  if (type === 'application/json') return 'json';
+  if (type === 'application/x-ndjson' || type === 'application/ndjson') return 'ndjson';
+  return null;
+}
+
+const OPEN_FIELDS = [
+  'opened_at',
+  'ip_address',
+  'user_agent',
+  'classification',
+  'client',
+  'os',
+  'device_type',
+  'country',
+  'region',
+  'city',
+  'asn',
+  'as_org',
+] as const satisfies readonly (keyof PortableOpen)[];
+
+const CSV_COLUMNS = ['email_id', 'recipient', 'subject', 'sender', 'created_at', ...OPEN_FIELDS];
+
+export function toPortableEmail(email: Email, opens: Open[]): PortableEmail {
+  return {
+    id: email.id,
+    recipient: email.recipient,
+    subject: email.subject,
+    sender: email.sender,
+    created_at: email.created_at,
+    opens: opens.map(({ id: _id, email_id: _emailId, ...open }) => open),
+  };
+}
+
+// ============================================
+// Writing
+// ============================================
+
+/**
+ * Streams an export in pieces: head, then each email, then tail
+ */
+export interface ExportWriter {
+  head: string;
+  email(email: PortableEmail, index: number): string;
+  tail: string;
+}
+
+export function createExportWriter(format: ExportFormat): ExportWriter {
+  switch (format) {
+    case 'csv':
+      return {
+        head: toCsvRow(CSV_COLUMNS),
+        email: (email) => {
+          const columns = [email.id, email.recipient, email.subject, email.sender, email.created_at];
+          if (email.opens.length === 0) {
+            return toCsvRow([...columns, ...OPEN_FIELDS.map(() => null)]);
+          }
+          return email.opens.map((open) => toCsvRow([...columns, ...OPEN_FIELDS.map((field) => open[field])])).join('');
+        },
+        tail: '',
+      };
+    case 'json':
+      return {
+        head: '[',
+        email: (email, index) => `${index === 0 ? '\n' : ',\n'}${JSON.stringify(email)}`,
+        tail: '\n]\n',
+      };
+    case 'ndjson':
+      return {
+        head: '',
+        email: (email) => `${JSON.stringify(email)}\n`,
+        tail: '',
+      };
+  }
+}
+
+function toCsvRow(values: (string | number | null)[]): string {
+  return values.map(toCsvField).join(',') + '\r\n';
+}
+
+function toCsvField(value: string | number | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// ============================================
+// Reading
+// ============================================
+
+export class ImportFormatError extends Error {}
+
+/**
+ * Split an import body into raw email records (validated separately by toImportedEmail)
+ * - Throws ImportFormatError if the body can't be parsed at all
+ */
+export function parseImport(body: string, format: ExportFormat): unknown[] {
+  switch (format) {
+    case 'json': {
+      const parsed = parseJson(body, 'body');
+      if (!Array.isArray(parsed)) {
+        throw new ImportFormatError('JSON imports must be an array of emails');
+      }
+      return parsed;
+    }
+    case 'ndjson':
+      return body
+        .split('\n')
+        .map((line, index) => ({ line: line.trim(), index }))
+        .filter(({ line }) => line !== '')
+        .map(({ line, index }) => parseJson(line, `line ${index + 1}`));
+    case 'csv':
+      return csvToRecords(parseCsv(body));
+  }
+}
+
+function parseJson(text: string, where: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new ImportFormatError(`Invalid JSON in ${where}`);
+  }
+}
+
+/**
+ * RFC 4180 CSV: quoted fields may contain commas, quotes ("") and line breaks
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = text.charCodeAt(0) === 0xfeff ? 1 : 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new ImportFormatError('Unterminated quoted field in CSV');
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell !== ''));
+}
+
+/**
+ * Fold CSV rows (one per open) back into one record per email
+ */
+function csvToRecords(rows: string[][]): unknown[] {
+  const [header, ...dataRows] = rows;
+  if (!header) return [];
+
+  const missing = ['email_id', 'recipient', 'created_at'].filter((column) => !header.includes(column));
+  if (missing.length > 0) {
+    throw new ImportFormatError(`CSV is missing column(s): ${missing.join(', ')}`);
+  }
+
+  const records = new Map<string, Record<string, unknown> & { opens: Record<string, string>[] }>();
+  for (const cells of dataRows) {
+    const row: Record<string, string> = {};
+    header.forEach((column, index) => {
+      row[column] = cells[index] ?? '';
+    });
+
+    let record = records.get(row.email_id);
+    if (!record) {
+      record = { id: row.email_id, recipient: row.recipient, subject: row.subject, sender: row.sender, created_at: row.created_at, opens: [] };
+      records.set(row.email_id, record);
+    }
+    if (row.opened_at) {
+      record.opens.push(row);
+    }
+  }
+  return [...records.values()];
+}
+
+/**
+ * Check one imported record and normalize it to a PortableEmail
+ * - Returns an error message instead if the record can't be used
+ */
+export function toImportedEmail(value: unknown): PortableEmail | string {
+  if (!value || typeof value !== 'object') return 'record must be an object';
+  const record = value as Record<string, unknown>;
+
+  if (typeof record.id !== 'string' || !/^[A-Za-z0-9_-]{1,64}$/.test(record.id)) {
+    return 'id must be 1-64 letters, digits, _ or -';
+  }
+  if (typeof record.recipient !== 'string' || !record.recipient.trim()) {
+    return 'recipient is required';
+  }
+  const createdAt = toImportedDate(record.created_at);
+  if (!createdAt) {
+    return 'created_at must be a date';
+  }
+  if (record.opens !== undefined && !Array.isArray(record.opens)) {
+    return 'opens must be an array';
+  }
+
+  const opens: PortableOpen[] = [];
+  for (const [index, item] of ((record.opens as unknown[] | undefined) ?? []).entries()) {
+    const open = toImportedOpen(item, createdAt);
+    if (typeof open === 'string') return `opens[${index}]: ${open}`;
+    opens.push(open);
+  }
+
+  return {
+    id: record.id,
+    recipient: record.recipient.trim(),
+    subject: optionalString(record.subject),
+    sender: optionalString(record.sender),
+    created_at: createdAt,
+    opens,
+  };
+}
+
+function toImportedOpen(value: unknown, emailCreatedAt: string): PortableOpen | string {
+  if (!value || typeof value !== 'object') return 'must be an object';
+  const open = value as Record<string, unknown>;
+
+  const openedAt = toImportedDate(open.opened_at);
+  if (!openedAt) return 'opened_at must be a date';
+
+  const ipAddress = optionalString(open.ip_address);
+  const userAgent = optionalString(open.user_agent);
+  const asn = open.asn === '' || open.asn === null || open.asn === undefined ? null : Number(open.asn);
+
+  // Exports from before classification existed have none; work it out like a live open would
+  const classification = OPEN_CLASSIFICATIONS.includes(open.classification as OpenClassification)
+    ? (open.classification as OpenClassification)
+    : classifyOpen({
+        userAgent,
+        ipAddress,
+        secondsSinceCreation: (parseDbDate(openedAt).getTime() - parseDbDate(emailCreatedAt).getTime()) / 1000,
+      });
+
+  return {
+    opened_at: openedAt,
+    ip_address: ipAddress,
+    user_agent: userAgent,
+    classification,
+    client: optionalString(open.client),
+    os: optionalString(open.os),
+    device_type: DEVICE_TYPES.includes(open.device_type as DeviceType) ? (open.device_type as DeviceType) : null,
+    country: optionalString(open.country),
+    region: optionalString(open.region),
+    city: optionalString(open.city),
+    asn: asn !== null && Number.isInteger(asn) ? asn : null,
+    as_org: optionalString(open.as_org),
+  };
+}
+
+/**
+ * Accept stored timestamps ("2024-01-31 09:15:00", UTC) as well as ISO dates
+ */
+function toImportedDate(value: unknown): string | null {
+  if (typeof value !== 'string' || !value) return null;
+  const date = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value) ? parseDbDate(value) : new Date(value);
+  return isNaN(date.getTime()) ? null : toDbDate(date);
+}
+
+// Empty CSV cells and missing JSON keys both mean "no value"
+function optionalString(value: unknown): string | null {
+  return typeof value === 'string' && value !== '' ? value : null;
+}
@@ -0,0 +1,78 @@
+// Offline IP geolocation
+// Reads MaxMind-format databases (e.g. GeoLite2-City and GeoLite2-ASN) from disk.
+// Both files are optional - without them opens are simply stored without a location.
+//
+//   GEOIP_CITY_DB=/path/to/GeoLite2-City.mmdb
+//   GEOIP_ASN_DB=/path/to/GeoLite2-ASN.mmdb
+//
+// Both are read into config.geoip (see config.ts).
+
+import fs from 'fs';
+import { Reader, CityResponse, AsnResponse, Response } from 'maxmind';
+import { normalizeIp } from './classify';
+import { config } from './config';
+
+export interface GeoLocation {
+  country: string | null;
+  region: string | null;
+  city: string | null;
+  asn: number | null;
+  as_org: string | null;
+}
+
+const EMPTY_LOCATION: GeoLocation = { country: null, region: null, city: null, asn: null, as_org: null };
+
+let cityReader: Reader<CityResponse> | null = null;
+let asnReader: Reader<AsnResponse> | null = null;
+
+function openReader<T extends Response>(filePath: string | null): Reader<T> | null {
+  if (!filePath) return null;
+
+  try {
+    const reader = new Reader<T>(fs.readFileSync(filePath));
+    console.log(`[geoip] Loaded ${filePath}`);
+    return reader;
+  } catch (error) {
+    console.warn(`[geoip] Could not load ${filePath}, skipping:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Load the configured databases; safe to call with nothing configured
+ * - Returns whether either one loaded
+ */
+export function initGeoIp(): boolean {
+  cityReader = openReader<CityResponse>(config.geoip.cityDb);
+  asnReader = openReader<AsnResponse>(config.geoip.asnDb);
+
+  if (!cityReader && !asnReader) {
+    console.log('[geoip] No GeoIP database configured - opens will not be geolocated');
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Look up an IP; private, unknown or malformed addresses return all nulls
+ */
+export function lookupIp(ipAddress?: string | null): GeoLocation {
+  const ip = normalizeIp(ipAddress);
+  if (!ip || (!cityReader && !asnReader)) return EMPTY_LOCATION;
+
+  try {
+    const city = cityReader?.get(ip);
+    const asn = asnReader?.get(ip);
+
+    return {
+      country: city?.country?.iso_code ?? null,
+      region: city?.subdivisions?.[0]?.names.en ?? null,
+      city: city?.city?.names.en ?? null,
+      asn: asn?.autonomous_system_number ?? null,
+      as_org: asn?.autonomous_system_organization ?? null,
+    };
+  } catch {
+    // The reader throws on strings that aren't IP addresses
+    return EMPTY_LOCATION;
+  }
+}
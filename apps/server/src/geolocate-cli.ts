@@ -0,0 +1,58 @@
+// Usage: pnpm geolocate-opens
+// Fills in the location of opens recorded without one: before a GeoIP database was
+// configured, or before opens were geolocated at all. Uses GEOIP_CITY_DB and
+// GEOIP_ASN_DB like the server (see geoip.ts), and can be run again after updating them.
+// Works on the database the server would use: PostgreSQL when DATABASE_URL is set, otherwise SQLite
+
+import { storage } from './storage';
+import { initGeoIp, lookupIp } from './geoip';
+import { DatabaseTooNewError } from './migrate';
+
+const BATCH_SIZE = 500;
+
+async function main(args: string[]): Promise<number> {
+  if (args.length > 0) {
+    console.error('Usage: pnpm geolocate-opens');
+    return 1;
+  }
+  if (!initGeoIp()) {
+    console.error('Set GEOIP_CITY_DB or GEOIP_ASN_DB to a GeoIP database first.');
+    return 1;
+  }
+
+  try {
+    await storage.init();
+
+    let afterId = 0;
+    let checked = 0;
+    let located = 0;
+    for (;;) {
+      const opens = await storage.getUnlocatedOpens(afterId, BATCH_SIZE);
+      if (opens.length === 0) break;
+
+      for (const open of opens) {
+        const location = lookupIp(open.ip_address);
+        // Private and hashed addresses have no location
+        if (Object.values(location).every((value) => value === null)) continue;
+        await storage.setOpenLocation(open.id, location);
+        located++;
+      }
+      checked += opens.length;
+      afterId = opens[opens.length - 1].id;
+    }
+
+    console.log(`Located ${located} of ${checked} open(s) without a location.`);
+    return 0;
+  } catch (error) {
+    if (error instanceof DatabaseTooNewError) {
+      console.error(error.message);
+    } else {
+      console.error('Geolocating opens failed:', error);
+    }
+    return 1;
+  } finally {
+    await storage.close();
+  }
+}
+
+main(process.argv.slice(2)).then((code) => process.exit(code));
@@ -1,26 +1,84 @@
-import express from 'express';
+import express, { Request, Response } from 'express';
 import cors from 'cors';
+import { config, printConfig, toOriginMatcher } from './config';
+import { storage } from './storage';
+import { extractAddress, InvalidCursorError, parseDbDate, parseRecipientString, toDbDate } from './storage/shared';
 import {
-  initDb,
-  createEmail,
-  getAllEmails,
-  getEmailWithOpens,
-  recordOpen,
-  getStats,
-} from './db';
+  EmailSort,
+  EMAIL_SORTS,
+  Email,
+  EmailChanges,
+  EmailListOptions,
+  NewEmail,
+  CampaignVariant,
+  Open,
+  Recipient,
+  ReminderKind,
+  REMINDER_KINDS,
+  ReminderStatus,
+  REMINDER_STATUSES,
+  StatsRange,
+  StatsInterval,
+  STATS_INTERVALS,
+  EmailLookup,
+} from './types';
+import { subscribeToEvents, TrackerEvent, EventType, EVENT_TYPES } from './events';
+import { startWebhookWorker, generateWebhookSecret, checkWebhookUrl } from './webhooks';
+import { isMailProviderIp } from './classify';
+import { initGeoIp } from './geoip';
+import { startRetentionJob } from './retention';
+import { startReminderScheduler } from './reminders';
+import { initLinkSigning, linkKey, signTrackingId, trackingPath, verifyLinkSignature, verifyTrackingToken } from './signing';
+import { createRateLimiter, rateLimit, countRejection, logRejections, clientIp } from './ratelimit';
+import {
+  ExportFormat,
+  EXPORT_FORMATS,
+  EXPORT_CONTENT_TYPES,
+  createExportWriter,
+  toPortableEmail,
+  parseImport,
+  toImportedEmail,
+  formatFromContentType,
+  ImportFormatError,
+} from './export';
+import { DatabaseTooNewError } from './migrate';
+import {
+  requireAuth,
+  requireStreamAuth,
+  initStreamTickets,
+  issueStreamTicket,
+  STREAM_TICKET_TTL_SECONDS,
+  hashPassword,
+  verifyPassword,
+  hashToken,
+  generateSessionToken,
+  generateApiKey,
+  getBearerToken,
+  matchesCode,
+  SESSION_TTL_DAYS,
+} from './auth';
 
-const PORT = 8080;
 
-// For production/ngrok, set PUBLIC_URL environment variable
-// Example: PUBLIC_URL=https://abc123.ngrok-free.app
-const PUBLIC_URL = process.env.PUBLIC_URL || `http://localhost:${PORT}`;
+// Rate limits, per minute unless noted. Image proxies fetch pixels for many recipients
+// from a few addresses, so the pixel's per-IP limit doesn't apply to them.
+const trackPerIp = createRateLimiter('track_per_ip', 120, 60);
+const trackPerEmail = createRateLimiter('track_per_email', 60, 60);
+const apiPerIp = createRateLimiter('api_per_ip', 600, 60);
+const createEmailPerAccount = createRateLimiter('create_email_per_account', 60, 60);
+// Registering and logging in, per 15 minutes: password guessing from one address,
+// and against one account from many
+const authPerIp = createRateLimiter('auth_per_ip', 20, 15 * 60);
+const loginPerAccount = createRateLimiter('login_per_account', 10, 15 * 60);
 
 const app = express();
 
+// req.ip only believes X-Forwarded-For from the proxies configured here
+app.set('trust proxy', config.trustProxy);
+
 // Middleware - Explicit CORS configuration
 app.use(cors({
-  origin: ['http://localhost:3000', 'https://mail.google.com', 'chrome-extension://*'],
-  methods: ['GET', 'POST', 'OPTIONS'],
+  origin: config.allowedOrigins.map(toOriginMatcher),
+  methods: ['GET', 'POST', 'PATCH', 'DELETE', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization'],
   credentials: true,
 }));
@@ -28,7 +86,20 @@ app.use(cors({
 // Handle preflight requests explicitly
 app.options('*', cors());
 
-app.use(express.json());
+// POST /api/import reads its own, much larger, body
+const jsonBody = express.json();
+app.use((req, res, next) => (req.path === '/api/import' ? next() : jsonBody(req, res, next)));
+
+app.use('/api', rateLimit(apiPerIp, clientIp));
+
+// Row ids are 32-bit integer columns. Anything else can't name a row (and Postgres
+// rejects it rather than finding nothing), so routes answer it with 404 up front
+const MAX_ID = 2 ** 31 - 1;
+
+function parseId(value: unknown): number | null {
+  const id = typeof value === 'string' && /^\d{1,10}$/.test(value) ? Number(value) : value;
+  return typeof id === 'number' && Number.isInteger(id) && id >= 1 && id <= MAX_ID ? id : null;
+}
 
 // ============================================
 // Health Check
@@ -47,24 +118,50 @@ const TRANSPARENT_PNG = Buffer.from(
   'base64'
 );
 
-app.get('/track/:id.png', (req, res) => {
-  const { id } = req.params;
+/**
+ * Whether a pixel hit may be recorded
+ * Rejections are counted and logged in bulk, so a flood can't fill the log
+ */
+function acceptPixelHit(req: Request, id: string, token?: string): boolean {
+  const ip = clientIp(req);
+  if (ip && !isMailProviderIp(ip) && !trackPerIp.hit(ip)) return false;
+
+  if (!verifyTrackingToken(id, token)) {
+    countRejection('invalid_token');
+    return false;
+  }
+  return trackPerEmail.hit(id);
+}
+
+// Set by the extension on pixel requests from the sender's own browser
+const SENDER_MARKER_HEADER = 'X-Tracker-Sender';
+
+// /track/:id.png is the unsigned form, from before TRACKING_KEYS was set
+app.get(['/track/:id.png', '/track/:id/:token.png'], async (req, res) => {
+  const { id, token } = req.params as { id: string; token?: string };
   
   // Extract tracking metadata
-  const ipAddress = req.headers['x-forwarded-for'] as string || req.socket.remoteAddress || null;
+  const ipAddress = req.ip || null;
   const userAgent = req.headers['user-agent'] || null;
 
-  // Record the open (async-ish, we don't wait for it)
-  const open = recordOpen({
-    emailId: id,
-    ipAddress: ipAddress || undefined,
-    userAgent: userAgent || undefined,
-  });
+  if (acceptPixelHit(req, id, token)) {
+    try {
+      const open = await storage.recordOpen({
+        emailId: id,
+        ipAddress: ipAddress || undefined,
+        userAgent: userAgent || undefined,
+        senderMarker: req.get(SENDER_MARKER_HEADER) || undefined,
+      });
 
-  if (open) {
-    console.log(`[track] Email ${id} opened from ${ipAddress} using ${userAgent?.substring(0, 50)}...`);
-  } else {
-    console.log(`[track] Unknown email ID: ${id}`);
+      if (open) {
+        console.log(`[track] Email ${id} opened from ${ipAddress} using ${userAgent?.substring(0, 50)}...`);
+      } else {
+        console.log(`[track] Unknown email ID: ${id}`);
+      }
+    } catch (error) {
+      // The pixel still has to be served, or the email shows a broken image
+      console.error('[track] Error recording open:', error);
+    }
   }
 
   // Always return the pixel (even if email ID doesn't exist)
@@ -80,6 +177,275 @@ app.get('/track/:id.png', (req, res) => {
   res.send(TRANSPARENT_PNG);
 });
 
+// ============================================
+// Link Click Redirect
+// ============================================
+
+// /r/:emailId/n/:position numbers the links from 0 in the order they were registered;
+// earlier versions of the extension wrote these into emails before confirming them
+app.get(['/r/:emailId/:linkId', '/r/:emailId/n/:position'], async (req, res) => {
+  const { emailId, linkId, position } = req.params as { emailId: string; linkId?: string; position?: string };
+
+  // Ids are integer columns: anything else can't match, so don't query with it
+  if (!/^\d{1,9}$/.test(linkId ?? position ?? '')) {
+    return res.status(404).send('Link not found');
+  }
+  const number = Number(linkId ?? position);
+
+  let link;
+  try {
+    link = linkId !== undefined
+      ? await storage.getLink(emailId, number)
+      : (await storage.getLinksForEmail(emailId))[number];
+  } catch (error) {
+    console.error('[click] Error looking up link:', error);
+    return res.status(500).send('Something went wrong');
+  }
+
+  if (!link) {
+    console.log(`[click] Unknown link ${emailId}/${linkId ?? `n/${position}`}`);
+    return res.status(404).send('Link not found');
+  }
+
+  const ipAddress = req.ip || null;
+  const userAgent = req.headers['user-agent'] || null;
+
+  try {
+    await storage.recordClick({
+      emailId,
+      linkId: link.id,
+      ipAddress: ipAddress || undefined,
+      userAgent: userAgent || undefined,
+    });
+  } catch (error) {
+    // Never strand the recipient on our server because of a tracking failure
+    console.error('[click] Error recording click:', error);
+  }
+
+  res.set('Cache-Control', 'no-store');
+  res.redirect(302, link.url);
+});
+
+// /r/:emailId/u/:signature?url=... is what the extension writes into emails: the
+// destination travels with the link, so it works before the send is confirmed (see
+// signing.ts). It only works for an id that is reserved or sent, though: otherwise an
+// account could keep a reservation's key and mint redirects to anywhere on this domain.
+// A click counts once the server knows the email has that link.
+app.get('/r/:emailId/u/:signature', async (req, res) => {
+  const { emailId, signature } = req.params;
+  const { url } = req.query;
+
+  if (!isTrackableUrl(url) || !verifyLinkSignature(emailId, url, signature)) {
+    console.log(`[click] Bad link signature for ${emailId}`);
+    return res.status(404).send('Link not found');
+  }
+
+  try {
+    if (!await storage.getEmailById(emailId) && !await storage.getReservation(emailId)) {
+      console.log(`[click] ${emailId} is neither sent nor reserved`);
+      return res.status(404).send('Link not found');
+    }
+  } catch (error) {
+    console.error('[click] Error looking up email:', error);
+    return res.status(503).send('Link unavailable, try again later');
+  }
+
+  try {
+    const link = (await storage.getLinksForEmail(emailId)).find((candidate) => candidate.url === url);
+    if (link) {
+      await storage.recordClick({
+        emailId,
+        linkId: link.id,
+        ipAddress: req.ip || undefined,
+        userAgent: req.headers['user-agent'] || undefined,
+      });
+    } else {
+      console.log(`[click] Not recording click for ${emailId}: no such link on a confirmed email`);
+    }
+  } catch (error) {
+    // Never strand the recipient on our server because of a tracking failure
+    console.error('[click] Error recording click:', error);
+  }
+
+  res.set('Cache-Control', 'no-store');
+  res.redirect(302, url);
+});
+
+// ============================================
+// Auth Endpoints
+// ============================================
+
+/**
+ * Start a session and return its token (shown to the client once)
+ */
+async function issueSession(userId: number): Promise<string> {
+  const token = generateSessionToken();
+  await storage.createSession({ userId, tokenHash: hashToken(token), ttlDays: SESSION_TTL_DAYS });
+  return token;
+}
+
+/**
+ * Whether a new account may be made: the first one always can, later ones only
+ * with ALLOW_REGISTRATION or the REGISTRATION_CODE (see config.ts)
+ */
+async function mayRegister(registrationCode: unknown): Promise<boolean> {
+  const { open, code } = config.registration;
+  if (open || (code && matchesCode(registrationCode, code))) return true;
+  return await storage.countUsers() === 0;
+}
+
+/**
+ * POST /api/auth/register
+ * Create an account and log in
+ * Body: { email: string, password: string, name?: string, registration_code?: string }
+ */
+app.post('/api/auth/register', rateLimit(authPerIp, clientIp), async (req, res) => {
+  try {
+    const { email, password, name, registration_code } = req.body;
+
+    if (!await mayRegister(registration_code)) {
+      return res.status(403).json({ error: 'Registration is closed; ask the server\'s admin for the registration code' });
+    }
+
+    if (typeof email !== 'string' || !email.includes('@')) {
+      return res.status(400).json({ error: 'A valid email is required' });
+    }
+    if (typeof password !== 'string' || password.length < 8) {
+      return res.status(400).json({ error: 'password must be at least 8 characters' });
+    }
+    if (await storage.getUserByEmail(email)) {
+      return res.status(409).json({ error: 'An account with this email already exists' });
+    }
+
+    const user = await storage.createUser({ email, name, passwordHash: hashPassword(password) });
+    res.status(201).json({ user, token: await issueSession(user.id) });
+  } catch (error) {
+    console.error('[api] Error registering user:', error);
+    res.status(500).json({ error: 'Failed to register' });
+  }
+});
+
+function loginAddress(req: Request): string | null {
+  return typeof req.body.email === 'string' ? req.body.email.trim().toLowerCase() : null;
+}
+
+/**
+ * POST /api/auth/login
+ * Body: { email: string, password: string }
+ */
+app.post('/api/auth/login', rateLimit(authPerIp, clientIp), rateLimit(loginPerAccount, loginAddress), async (req, res) => {
+  try {
+    const { email, password } = req.body;
+
+    if (typeof email !== 'string' || typeof password !== 'string') {
+      return res.status(400).json({ error: 'email and password are required' });
+    }
+
+    const record = await storage.getUserByEmail(email);
+    if (!record || !verifyPassword(password, record.password_hash)) {
+      return res.status(401).json({ error: 'Invalid email or password' });
+    }
+
+    const user = (await storage.getUserById(record.id))!;
+    res.json({ user, token: await issueSession(user.id) });
+  } catch (error) {
+    console.error('[api] Error logging in:', error);
+    res.status(500).json({ error: 'Failed to log in' });
+  }
+});
+
+/**
+ * POST /api/auth/logout
+ * End the current session
+ */
+app.post('/api/auth/logout', requireAuth, async (req, res) => {
+  try {
+    await storage.deleteSession(hashToken(getBearerToken(req)!));
+    res.status(204).end();
+  } catch (error) {
+    console.error('[api] Error logging out:', error);
+    res.status(500).json({ error: 'Failed to log out' });
+  }
+});
+
+/**
+ * GET /api/auth/me
+ * Get the authenticated user
+ */
+app.get('/api/auth/me', requireAuth, (req, res) => {
+  res.json(req.user);
+});
+
+/**
+ * GET /api/auth/sender-marker
+ * The secret the extension adds to pixel requests from the user's own browser,
+ * and the header to send it in; hits carrying it are not counted as opens
+ */
+app.get('/api/auth/sender-marker', requireAuth, async (req, res) => {
+  try {
+    res.json({ marker: await storage.getSenderMarker(req.user!.id), header: SENDER_MARKER_HEADER });
+  } catch (error) {
+    console.error('[api] Error fetching sender marker:', error);
+    res.status(500).json({ error: 'Failed to fetch sender marker' });
+  }
+});
+
+// ============================================
+// API Key Endpoints
+// ============================================
+
+/**
+ * GET /api/keys
+ * List the user's API keys (prefixes only)
+ */
+app.get('/api/keys', requireAuth, async (req, res) => {
+  try {
+    res.json(await storage.getApiKeysForUser(req.user!.id));
+  } catch (error) {
+    console.error('[api] Error fetching API keys:', error);
+    res.status(500).json({ error: 'Failed to fetch API keys' });
+  }
+});
+
+/**
+ * POST /api/keys
+ * Create an API key; the full key is only returned in this response
+ * Body: { name: string }
+ */
+app.post('/api/keys', requireAuth, async (req, res) => {
+  try {
+    const { name } = req.body;
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'name is required' });
+    }
+
+    const { key, prefix } = generateApiKey();
+    const apiKey = await storage.createApiKey({ userId: req.user!.id, name: name.trim(), keyHash: hashToken(key), prefix });
+    res.status(201).json({ ...apiKey, key });
+  } catch (error) {
+    console.error('[api] Error creating API key:', error);
+    res.status(500).json({ error: 'Failed to create API key' });
+  }
+});
+
+/**
+ * DELETE /api/keys/:id
+ * Revoke an API key
+ */
+app.delete('/api/keys/:id', requireAuth, async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null || !await storage.deleteApiKey(id, req.user!.id)) {
+      return res.status(404).json({ error: 'API key not found' });
+    }
+    res.status(204).end();
+  } catch (error) {
+    console.error('[api] Error deleting API key:', error);
+    res.status(500).json({ error: 'Failed to delete API key' });
+  }
+});
+
 // ============================================
 // Email API Endpoints
 // ============================================
@@ -87,39 +453,286 @@ app.get('/track/:id.png', (req, res) => {
 /**
  * POST /api/emails
  * Create a new tracked email
- * Body: { recipient: string, subject?: string, sender?: string }
+ * Body: {
+ *   recipient?: string, recipients?: { address: string, role: 'to' | 'cc' | 'bcc' }[],
+ *   subject?: string, sender?: string, links?: string[],
+ *   reminder?: { kind: 'not_opened' | 'opened', days?: number, hours?: number },
+ *   thread_id?: string, message_id?: string,
+ *   campaign_id?: number, variant?: string (one of the campaign's variant names)
+ * }
+ * Either recipient or recipients is required; recipient defaults to the joined addresses
+ * A not_opened reminder is due that long after sending unless the email is read first;
+ * an opened one is due that long after the first read
+ * Without a subject, an email of a variant takes the variant's subject
  */
-app.post('/api/emails', (req, res) => {
+app.post('/api/emails', requireAuth, rateLimit(createEmailPerAccount, (req) => String(req.user!.id)), async (req, res) => {
   try {
-    const { recipient, subject, sender } = req.body;
-
-    if (!recipient) {
-      return res.status(400).json({ error: 'recipient is required' });
+    const data = await parseNewEmail(req.body, req.user!.id);
+    if (typeof data === 'string') {
+      return res.status(400).json({ error: data });
     }
 
-    const email = createEmail({ recipient, subject, sender });
-    
-    // Return the email with the tracking pixel URL
-    res.status(201).json({
-      ...email,
-      tracking_url: `${PUBLIC_URL}/track/${email.id}.png`,
-      tracking_html: `<img src="${PUBLIC_URL}/track/${email.id}.png" width="1" height="1" style="display:none" alt="">`,
-    });
+    const email = await storage.createEmail(data);
+    res.status(201).json(await describeCreatedEmail(email));
   } catch (error) {
     console.error('[api] Error creating email:', error);
     res.status(500).json({ error: 'Failed to create email' });
   }
 });
 
+/**
+ * Read the body of POST /api/emails (and of confirming a reservation)
+ * - Returns an error message if it is invalid
+ */
+async function parseNewEmail(body: Request['body'], ownerId: number): Promise<NewEmail | string> {
+  const { subject, sender, links } = body;
+
+  if (body.recipients !== undefined && (!Array.isArray(body.recipients) || !body.recipients.every(isRecipient))) {
+    return 'recipients must be an array of { address, role } with role to, cc or bcc';
+  }
+  // "Name <address>" is accepted, but only the address is kept
+  const recipients = (body.recipients as Recipient[] | undefined)?.map((r) => ({
+    address: extractAddress(r.address)!,
+    role: r.role,
+  }));
+
+  const recipient = body.recipient || recipients?.map((r) => r.address).join(', ');
+
+  if (!recipient) {
+    return 'recipient is required';
+  }
+  if (typeof recipient !== 'string' || (!recipients?.length && parseRecipientString(recipient).length === 0)) {
+    return 'recipient must contain an email address';
+  }
+
+  if (links !== undefined && (!Array.isArray(links) || !links.every(isTrackableUrl))) {
+    return 'links must be an array of http(s) URLs';
+  }
+
+  const reminder = body.reminder === undefined ? undefined : parseReminder(body.reminder);
+  if (typeof reminder === 'string') {
+    return reminder;
+  }
+
+  const { thread_id: threadId, message_id: messageId } = body;
+  for (const [field, value] of Object.entries({ thread_id: threadId, message_id: messageId })) {
+    if (value !== undefined && value !== null && !isGmailId(value)) {
+      return `${field} must be a Gmail id`;
+    }
+  }
+
+  const campaign = await parseCampaign(body, ownerId);
+  if (typeof campaign === 'string') {
+    return campaign;
+  }
+
+  return {
+    ownerId, recipient, sender, links, recipients, reminder,
+    subject: subject || campaign?.variant?.subject || undefined,
+    threadId: threadId || undefined,
+    messageId: messageId || undefined,
+    campaignId: campaign?.id,
+    variantId: campaign?.variant?.id,
+  };
+}
+
+/**
+ * Resolve campaign_id and variant (a variant name) against the owner's campaigns
+ * - Returns an error message if either doesn't match
+ */
+async function parseCampaign(
+  body: Request['body'],
+  ownerId: number,
+): Promise<{ id: number; variant: CampaignVariant | null } | null | string> {
+  const { campaign_id: campaignId, variant } = body;
+
+  if (campaignId === undefined || campaignId === null) {
+    return variant === undefined || variant === null ? null : 'variant needs a campaign_id';
+  }
+  if (typeof campaignId !== 'number' || parseId(campaignId) === null) {
+    return 'campaign_id must be a campaign id';
+  }
+
+  const campaign = await storage.getCampaign(ownerId, campaignId);
+  if (!campaign) {
+    return 'campaign_id is not one of your campaigns';
+  }
+  if (variant === undefined || variant === null) {
+    return { id: campaign.id, variant: null };
+  }
+
+  const match = campaign.variants.find((v) => v.name === variant);
+  if (!match) {
+    return campaign.variants.length > 0
+      ? `variant must be one of: ${campaign.variants.map((v) => v.name).join(', ')}`
+      : 'this campaign has no variants';
+  }
+  return { id: campaign.id, variant: match };
+}
+
+/**
+ * A new email with the tracking pixel URL and the redirect URL for each link
+ * (links are in the order they were submitted)
+ * - tracking_token is null while pixel signing is off
+ */
+async function describeCreatedEmail(email: Email) {
+  const trackingUrl = `${config.publicUrl}${trackingPath(email.id)}`;
+
+  return {
+    ...email,
+    tracking_token: signTrackingId(email.id),
+    tracking_url: trackingUrl,
+    tracking_html: `<img src="${trackingUrl}" width="1" height="1" style="display:none" alt="">`,
+    links: (await storage.getLinksForEmail(email.id)).map((link) => ({
+      ...link,
+      redirect_url: `${config.publicUrl}/r/${email.id}/${link.id}`,
+    })),
+  };
+}
+
+/**
+ * Only plain http(s) links can be registered for the click redirect
+ */
+function isTrackableUrl(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Gmail thread and message ids as the extension reads them from the page:
+ * hex legacy ids, "thread-f:..." / "msg-a:r..." ids or the ones in Gmail's URLs
+ */
+function isGmailId(value: unknown): value is string {
+  return typeof value === 'string' && /^[\w:#.-]{1,200}$/.test(value);
+}
+
+const MAX_REMINDER_HOURS = 365 * 24;
+
+/**
+ * Read a reminder request: a kind and a delay in either days or hours
+ * - Returns an error message if it is invalid
+ */
+function parseReminder(value: unknown): { kind: ReminderKind; delayHours: number } | string {
+  if (!value || typeof value !== 'object') return 'reminder must be an object';
+  const { kind, days, hours } = value as Record<string, unknown>;
+
+  if (!REMINDER_KINDS.includes(kind as ReminderKind)) {
+    return `reminder.kind must be one of: ${REMINDER_KINDS.join(', ')}`;
+  }
+  if ((days === undefined) === (hours === undefined)) {
+    return 'reminder needs either days or hours';
+  }
+
+  const delayHours = days !== undefined ? Number(days) * 24 : Number(hours);
+  if (!Number.isInteger(delayHours) || delayHours < 1 || delayHours > MAX_REMINDER_HOURS) {
+    return 'reminder days or hours must be a whole number, at most a year';
+  }
+  return { kind: kind as ReminderKind, delayHours };
+}
+
+function isRecipient(value: unknown): value is Recipient {
+  if (!value || typeof value !== 'object') return false;
+  const { address, role } = value as Record<string, unknown>;
+  return (
+    typeof address === 'string' &&
+    extractAddress(address) !== null &&
+    (role === 'to' || role === 'cc' || role === 'bcc')
+  );
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+type EmailFilters = Pick<EmailListOptions, 'search' | 'status' | 'from' | 'to' | 'tag' | 'archived'>;
+
+/**
+ * Read the list filters (q, status, from, to, tag, archived) shared by the email list and export
+ * - Returns an error message if any of them is invalid
+ */
+function parseEmailFilters(query: Request['query']): EmailFilters | string {
+  const { q, status, from, to, tag, archived } = query;
+
+  if (status !== undefined && status !== 'opened' && status !== 'unopened') {
+    return "status must be 'opened' or 'unopened'";
+  }
+  if (archived !== undefined && archived !== 'include' && archived !== 'only') {
+    return "archived must be 'include' or 'only'";
+  }
+
+  const range = parseDateRange(from, to);
+  if (typeof range === 'string') {
+    return range;
+  }
+
+  return {
+    search: typeof q === 'string' ? q : undefined,
+    status,
+    ...range,
+    tag: typeof tag === 'string' && tag ? tag : undefined,
+    archived,
+  };
+}
+
+/**
+ * Read optional from/to query parameters as database dates
+ * - Returns an error message if either is not a date
+ */
+function parseDateRange(from: unknown, to: unknown): { from?: string; to?: string } | string {
+  const fromDate = typeof from === 'string' ? new Date(from) : null;
+  const toDate = typeof to === 'string' ? new Date(to) : null;
+  if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+    return 'from and to must be ISO dates';
+  }
+
+  return {
+    from: fromDate ? toDbDate(fromDate) : undefined,
+    to: toDate ? toDbDate(toDate) : undefined,
+  };
+}
+
 /**
  * GET /api/emails
- * List all tracked emails with open counts
+ * List tracked emails with open and click counts, a page at a time
+ * Query: {
+ *   sort?: 'recent' | 'oldest' | 'most_opens' | 'last_opened', limit?: number, cursor?: string,
+ *   q?: string, status?: 'opened' | 'unopened', from?: ISO date, to?: ISO date,
+ *   tag?: string, archived?: 'include' | 'only' (archived emails are hidden by default)
+ * }
+ * Returns: { emails, next_cursor, total }
  */
-app.get('/api/emails', (_req, res) => {
+app.get('/api/emails', requireAuth, async (req, res) => {
   try {
-    const emails = getAllEmails();
-    res.json(emails);
+    const { sort = 'recent', cursor } = req.query;
+    const limit = req.query.limit === undefined ? DEFAULT_PAGE_SIZE : Number(req.query.limit);
+
+    if (!EMAIL_SORTS.includes(sort as EmailSort)) {
+      return res.status(400).json({ error: `sort must be one of: ${EMAIL_SORTS.join(', ')}` });
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return res.status(400).json({ error: `limit must be between 1 and ${MAX_PAGE_SIZE}` });
+    }
+
+    const filters = parseEmailFilters(req.query);
+    if (typeof filters === 'string') {
+      return res.status(400).json({ error: filters });
+    }
+
+    const page = await storage.getEmailsPage(req.user!.id, {
+      ...filters,
+      sort: sort as EmailSort,
+      limit,
+      cursor: typeof cursor === 'string' ? cursor : undefined,
+    });
+    res.json(page);
   } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('[api] Error fetching emails:', error);
     res.status(500).json({ error: 'Failed to fetch emails' });
   }
@@ -127,12 +740,12 @@ app.get('/api/emails', (_req, res) => {
 
 /**
  * GET /api/emails/:id
- * Get a single email with all its opens
+ * Get a single email with all its opens, links and clicks
  */
-app.get('/api/emails/:id', (req, res) => {
+app.get('/api/emails/:id', requireAuth, async (req, res) => {
   try {
     const { id } = req.params;
-    const email = getEmailWithOpens(id);
+    const email = await storage.getEmailWithOpens(id, req.user!.id);
     
     if (!email) {
       return res.status(404).json({ error: 'Email not found' });
@@ -145,32 +758,1202 @@ app.get('/api/emails/:id', (req, res) => {
   }
 });
 
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 50;
+const MAX_BULK_IDS = 500;
+
 /**
- * GET /api/stats
- * Get overview statistics
+ * Trim and de-duplicate a tag list
+ * - Returns null unless it is an array of non-empty strings within the limits
+ */
+function parseTags(value: unknown): string[] | null {
+  if (!Array.isArray(value) || !value.every((tag) => typeof tag === 'string')) return null;
+
+  const tags = [...new Set(value.map((tag: string) => tag.trim()))];
+  if (tags.length > MAX_TAGS || tags.some((tag) => !tag || tag.length > MAX_TAG_LENGTH)) return null;
+  return tags;
+}
+
+/**
+ * PATCH /api/emails/:id
+ * Edit an email or change its state
+ * Body: {
+ *   subject?: string | null, sender?: string | null, archived?: boolean, tracking_paused?: boolean,
+ *   tags?: string[], thread_id?: string | null, message_id?: string | null
+ * }
+ * While tracking is paused the pixel is still served but opens and clicks aren't recorded
+ * The extension sets thread_id after sending when Gmail only assigns it then
+ * Returns the updated email
  */
-app.get('/api/stats', (_req, res) => {
+app.patch('/api/emails/:id', requireAuth, async (req, res) => {
   try {
-    const stats = getStats();
-    res.json(stats);
+    const { subject, sender, archived, tracking_paused, thread_id, message_id } = req.body;
+    const changes: EmailChanges = {};
+
+    for (const [field, value] of Object.entries({ subject, sender })) {
+      if (value !== undefined && value !== null && typeof value !== 'string') {
+        return res.status(400).json({ error: `${field} must be a string or null` });
+      }
+    }
+    if (subject !== undefined) changes.subject = subject || null;
+    if (sender !== undefined) changes.sender = sender || null;
+
+    for (const [field, value] of Object.entries({ archived, tracking_paused })) {
+      if (value !== undefined && typeof value !== 'boolean') {
+        return res.status(400).json({ error: `${field} must be true or false` });
+      }
+    }
+    changes.archived = archived;
+    changes.tracking_paused = tracking_paused;
+
+    for (const [field, value] of Object.entries({ thread_id, message_id })) {
+      if (value !== undefined && value !== null && !isGmailId(value)) {
+        return res.status(400).json({ error: `${field} must be a Gmail id or null` });
+      }
+    }
+    if (thread_id !== undefined) changes.thread_id = thread_id || null;
+    if (message_id !== undefined) changes.message_id = message_id || null;
+
+    if (req.body.tags !== undefined) {
+      const tags = parseTags(req.body.tags);
+      if (!tags) {
+        return res.status(400).json({ error: `tags must be up to ${MAX_TAGS} strings of 1-${MAX_TAG_LENGTH} characters` });
+      }
+      changes.tags = tags;
+    }
+
+    const [updated] = await storage.updateEmails(req.user!.id, [req.params.id], changes);
+    if (!updated) {
+      return res.status(404).json({ error: 'Email not found' });
+    }
+
+    res.json(await storage.getEmailById(updated));
   } catch (error) {
-    console.error('[api] Error fetching stats:', error);
-    res.status(500).json({ error: 'Failed to fetch stats' });
+    console.error('[api] Error updating email:', error);
+    res.status(500).json({ error: 'Failed to update email' });
   }
 });
 
-// ============================================
-// Initialize and Start
-// ============================================
-initDb();
-
-app.listen(PORT, () => {
-  console.log(`[server] Running on http://localhost:${PORT}`);
-  console.log(`[server] Endpoints:`);
-  console.log(`         GET  /health         - Health check`);
-  console.log(`         GET  /track/:id.png  - Tracking pixel`);
-  console.log(`         POST /api/emails     - Create tracked email`);
-  console.log(`         GET  /api/emails     - List all emails`);
-  console.log(`         GET  /api/emails/:id - Get email details`);
-  console.log(`         GET  /api/stats      - Get statistics`);
+/**
+ * DELETE /api/emails/:id
+ * Delete an email with its opens, clicks, links and events
+ */
+app.delete('/api/emails/:id', requireAuth, async (req, res) => {
+  try {
+    const deleted = await storage.deleteEmails(req.user!.id, [req.params.id]);
+    if (deleted.emails === 0) {
+      return res.status(404).json({ error: 'Email not found' });
+    }
+    res.status(204).end();
+  } catch (error) {
+    console.error('[api] Error deleting email:', error);
+    res.status(500).json({ error: 'Failed to delete email' });
+  }
+});
+
+const BULK_ACTIONS: Record<string, EmailChanges | 'delete'> = {
+  archive: { archived: true },
+  unarchive: { archived: false },
+  pause: { tracking_paused: true },
+  resume: { tracking_paused: false },
+  tag: {},
+  untag: {},
+  delete: 'delete',
+};
+
+/**
+ * POST /api/emails/bulk
+ * Apply one action to several emails
+ * Body: { ids: string[], action: 'archive' | 'unarchive' | 'pause' | 'resume' | 'tag' | 'untag' | 'delete', tags?: string[] }
+ * tag adds the tags to each email, untag removes them; ids you don't own are ignored
+ * Returns: { updated: string[] }, or { emails, opens, clicks } deleted for 'delete'
+ */
+app.post('/api/emails/bulk', requireAuth, async (req, res) => {
+  try {
+    const { ids, action } = req.body;
+
+    if (!Array.isArray(ids) || ids.length === 0 || ids.length > MAX_BULK_IDS || !ids.every((id) => typeof id === 'string')) {
+      return res.status(400).json({ error: `ids must be an array of 1-${MAX_BULK_IDS} email ids` });
+    }
+    if (typeof action !== 'string' || !Object.hasOwn(BULK_ACTIONS, action)) {
+      return res.status(400).json({ error: `action must be one of: ${Object.keys(BULK_ACTIONS).join(', ')}` });
+    }
+
+    const change = BULK_ACTIONS[action];
+    if (change === 'delete') {
+      const deleted = await storage.deleteEmails(req.user!.id, ids);
+      console.log(`[api] Bulk deleted ${deleted.emails} email(s) for user ${req.user!.id}`);
+      return res.json(deleted);
+    }
+
+    const changes = { ...change };
+    if (action === 'tag' || action === 'untag') {
+      const tags = parseTags(req.body.tags);
+      if (!tags || tags.length === 0) {
+        return res.status(400).json({ error: `tags must be 1-${MAX_TAGS} strings of 1-${MAX_TAG_LENGTH} characters` });
+      }
+      changes[action === 'tag' ? 'add_tags' : 'remove_tags'] = tags;
+    }
+
+    res.json({ updated: await storage.updateEmails(req.user!.id, ids, changes) });
+  } catch (error) {
+    console.error('[api] Error applying bulk action:', error);
+    res.status(500).json({ error: 'Failed to update emails' });
+  }
+});
+
+/**
+ * GET /api/stats
+ * Get overview statistics
+ */
+app.get('/api/stats', requireAuth, async (req, res) => {
+  try {
+    const stats = await storage.getStats(req.user!.id);
+    res.json(stats);
+  } catch (error) {
+    console.error('[api] Error fetching stats:', error);
+    res.status(500).json({ error: 'Failed to fetch stats' });
+  }
+});
+
+const DEFAULT_STATS_DAYS = 30;
+const MAX_STATS_BUCKETS = 1000;
+const INTERVAL_MS: Record<StatsInterval, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Read ?from, ?to (ISO dates, default the last 30 days) and ?utc_offset
+ * (minutes east of UTC, default 0) into a StatsRange
+ */
+function parseStatsRange(query: Request['query']): StatsRange | string {
+  const to = typeof query.to === 'string' ? new Date(query.to) : new Date();
+  const from = typeof query.from === 'string'
+    ? new Date(query.from)
+    : new Date(to.getTime() - DEFAULT_STATS_DAYS * INTERVAL_MS.day);
+  const utcOffsetMinutes = query.utc_offset === undefined ? 0 : Number(query.utc_offset);
+
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) return 'from and to must be ISO dates';
+  if (from >= to) return 'from must be before to';
+  if (!Number.isInteger(utcOffsetMinutes) || Math.abs(utcOffsetMinutes) > 14 * 60) {
+    return 'utc_offset must be a whole number of minutes between -840 and 840';
+  }
+
+  return { from: toDbDate(from), to: toDbDate(to), utcOffsetMinutes };
+}
+
+/**
+ * GET /api/stats/timeseries
+ * Emails sent and opens bucketed over a date range
+ * Query: from?, to?, utc_offset?, interval? ('hour' | 'day' | 'week', default 'day')
+ */
+app.get('/api/stats/timeseries', requireAuth, async (req, res) => {
+  try {
+    const range = parseStatsRange(req.query);
+    if (typeof range === 'string') {
+      return res.status(400).json({ error: range });
+    }
+
+    const interval = (req.query.interval ?? 'day') as StatsInterval;
+    if (!STATS_INTERVALS.includes(interval)) {
+      return res.status(400).json({ error: `interval must be one of: ${STATS_INTERVALS.join(', ')}` });
+    }
+
+    const span = new Date(`${range.to}Z`).getTime() - new Date(`${range.from}Z`).getTime();
+    if (span / INTERVAL_MS[interval] > MAX_STATS_BUCKETS) {
+      return res.status(400).json({ error: `Range is too long for ${interval} buckets` });
+    }
+
+    res.json({
+      interval,
+      ...range,
+      buckets: await storage.getTimeseries(req.user!.id, range, interval),
+    });
+  } catch (error) {
+    console.error('[api] Error fetching timeseries:', error);
+    res.status(500).json({ error: 'Failed to fetch timeseries' });
+  }
+});
+
+/**
+ * GET /api/stats/engagement
+ * Time-to-first-open percentiles, hour-of-week heatmap and re-open rate
+ * for emails sent in a date range
+ * Query: from?, to?, utc_offset?
+ */
+app.get('/api/stats/engagement', requireAuth, async (req, res) => {
+  try {
+    const range = parseStatsRange(req.query);
+    if (typeof range === 'string') {
+      return res.status(400).json({ error: range });
+    }
+
+    res.json({ ...range, ...(await storage.getEngagementStats(req.user!.id, range)) });
+  } catch (error) {
+    console.error('[api] Error fetching engagement stats:', error);
+    res.status(500).json({ error: 'Failed to fetch engagement stats' });
+  }
+});
+
+// ============================================
+// Reservations
+// ============================================
+// The extension reserves a tracking id as soon as a compose window is tracked, so the
+// pixel and link redirects can go into the body without waiting on the server when the
+// email is sent. The send is confirmed afterwards; reservations never confirmed or
+// released are pruned after RESERVATION_TTL_HOURS. Until then nothing in the email
+// depends on the confirmation: the redirects carry their own destination. The extension
+// renews the reservation of a draft left open that long, and keeps retrying a failed
+// confirmation, so the TTL leaves it a week for that.
+
+const RESERVATION_TTL_HOURS = 7 * 24;
+// Gmail schedules sends up to a year or so ahead
+const MAX_SCHEDULE_MS = 366 * 24 * 60 * 60 * 1000;
+
+/**
+ * POST /api/emails/reservations
+ * Reserve a tracking id for an email being written
+ * Returns: { id, tracking_token, tracking_url, redirect_base, link_key, expires_at }
+ * A link redirects from redirect_base + <signature>?url=<destination>, the signature
+ * being the first 22 characters of base64url(HMAC-SHA256(link_key as hex bytes, destination))
+ */
+app.post('/api/emails/reservations', requireAuth, rateLimit(createEmailPerAccount, (req) => String(req.user!.id)), async (req, res) => {
+  try {
+    const reservation = await storage.reserveEmailId(req.user!.id);
+    const expiresAt = new Date(parseDbDate(reservation.created_at).getTime() + RESERVATION_TTL_HOURS * 60 * 60 * 1000);
+
+    res.status(201).json({
+      id: reservation.id,
+      tracking_token: signTrackingId(reservation.id),
+      tracking_url: `${config.publicUrl}${trackingPath(reservation.id)}`,
+      redirect_base: `${config.publicUrl}/r/${reservation.id}/u/`,
+      link_key: linkKey(reservation.id),
+      expires_at: toDbDate(expiresAt),
+    });
+  } catch (error) {
+    console.error('[api] Error reserving email id:', error);
+    res.status(500).json({ error: 'Failed to reserve email id' });
+  }
+});
+
+/**
+ * POST /api/emails/:id/confirm
+ * Record that the email with a reserved id was sent, or scheduled
+ * Body: as for POST /api/emails, plus send_at?: date (when a scheduled email goes out)
+ * Returns the email as POST /api/emails does: 201 when created, 200 if it already was
+ */
+app.post('/api/emails/:id/confirm', requireAuth, async (req, res) => {
+  try {
+    const data = await parseNewEmail(req.body, req.user!.id);
+    if (typeof data === 'string') {
+      return res.status(400).json({ error: data });
+    }
+
+    if (req.body.send_at !== undefined && req.body.send_at !== null) {
+      const sendAt = new Date(req.body.send_at);
+      if (typeof req.body.send_at !== 'string' || isNaN(sendAt.getTime()) || sendAt.getTime() > Date.now() + MAX_SCHEDULE_MS) {
+        return res.status(400).json({ error: 'send_at must be a date within the next year' });
+      }
+      // A schedule that has already gone off was sent now, as far as we know
+      if (sendAt.getTime() > Date.now()) {
+        data.sentAt = toDbDate(sendAt);
+      }
+    }
+
+    const email = await storage.confirmReservation(req.params.id, data);
+    if (email) {
+      return res.status(201).json(await describeCreatedEmail(email));
+    }
+
+    // A retried confirmation finds the email the first one created
+    const existing = await storage.getEmailById(req.params.id);
+    if (existing && existing.owner_id === req.user!.id) {
+      return res.json(await describeCreatedEmail(existing));
+    }
+    res.status(404).json({ error: 'Reservation not found' });
+  } catch (error) {
+    console.error('[api] Error confirming email:', error);
+    res.status(500).json({ error: 'Failed to confirm email' });
+  }
+});
+
+/**
+ * DELETE /api/emails/reservations/:id
+ * Give back a reserved id whose draft was discarded or closed without sending
+ */
+app.delete('/api/emails/reservations/:id', requireAuth, async (req, res) => {
+  try {
+    const released = await storage.releaseReservation(req.params.id, req.user!.id);
+    if (!released) {
+      return res.status(404).json({ error: 'Reservation not found' });
+    }
+    res.status(204).end();
+  } catch (error) {
+    console.error('[api] Error releasing reservation:', error);
+    res.status(500).json({ error: 'Failed to release reservation' });
+  }
+});
+
+// ============================================
+// Campaigns
+// ============================================
+
+const MAX_CAMPAIGN_NAME_LENGTH = 200;
+const MAX_VARIANTS = 10;
+const MAX_VARIANT_NAME_LENGTH = 50;
+
+/**
+ * Read the variants of a new campaign: none, or 2 to MAX_VARIANTS with distinct names
+ * - Returns an error message if they are invalid
+ */
+function parseVariants(value: unknown): { name: string; subject?: string }[] | string {
+  if (value === undefined) return [];
+
+  const message = `variants must be 2-${MAX_VARIANTS} objects { name, subject? } with distinct names of 1-${MAX_VARIANT_NAME_LENGTH} characters`;
+  if (!Array.isArray(value) || (value.length > 0 && (value.length < 2 || value.length > MAX_VARIANTS))) {
+    return message;
+  }
+
+  const variants: { name: string; subject?: string }[] = [];
+  for (const item of value) {
+    const { name, subject } = (item ?? {}) as Record<string, unknown>;
+    if (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_VARIANT_NAME_LENGTH) return message;
+    if (subject !== undefined && subject !== null && typeof subject !== 'string') return 'variant subjects must be strings';
+    variants.push({ name: name.trim(), subject: subject ?? undefined });
+  }
+  if (new Set(variants.map((v) => v.name)).size !== variants.length) return message;
+  return variants;
+}
+
+/**
+ * POST /api/campaigns
+ * Create a campaign to send a batch of emails under
+ * Body: { name: string, description?: string, variants?: { name: string, subject?: string }[] }
+ * Variants are for A/B tests: tag each email with one through POST /api/emails
+ */
+app.post('/api/campaigns', requireAuth, async (req, res) => {
+  try {
+    const { name, description } = req.body;
+
+    if (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_CAMPAIGN_NAME_LENGTH) {
+      return res.status(400).json({ error: `name must be 1-${MAX_CAMPAIGN_NAME_LENGTH} characters` });
+    }
+    if (description !== undefined && description !== null && typeof description !== 'string') {
+      return res.status(400).json({ error: 'description must be a string' });
+    }
+    const variants = parseVariants(req.body.variants);
+    if (typeof variants === 'string') {
+      return res.status(400).json({ error: variants });
+    }
+
+    const campaign = await storage.createCampaign({
+      ownerId: req.user!.id,
+      name: name.trim(),
+      description: description || undefined,
+      variants,
+    });
+    res.status(201).json(campaign);
+  } catch (error) {
+    console.error('[api] Error creating campaign:', error);
+    res.status(500).json({ error: 'Failed to create campaign' });
+  }
+});
+
+/**
+ * GET /api/campaigns
+ * List campaigns, newest first, with email_count, emails_opened and open_rate
+ */
+app.get('/api/campaigns', requireAuth, async (req, res) => {
+  try {
+    res.json(await storage.getCampaigns(req.user!.id));
+  } catch (error) {
+    console.error('[api] Error fetching campaigns:', error);
+    res.status(500).json({ error: 'Failed to fetch campaigns' });
+  }
+});
+
+/**
+ * GET /api/campaigns/:id
+ * A campaign's report: overall stats (open rate, recipients reached, median time to open),
+ * the same per variant, a comparison of the two best variants and the most engaged recipients
+ */
+app.get('/api/campaigns/:id', requireAuth, async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    const report = id === null ? null : await storage.getCampaignReport(req.user!.id, id);
+
+    if (!report) {
+      return res.status(404).json({ error: 'Campaign not found' });
+    }
+    res.json(report);
+  } catch (error) {
+    console.error('[api] Error fetching campaign:', error);
+    res.status(500).json({ error: 'Failed to fetch campaign' });
+  }
+});
+
+// ============================================
+// Threads
+// ============================================
+
+/**
+ * GET /api/threads/:threadId
+ * Every tracked send in a Gmail conversation with all their opens
+ */
+app.get('/api/threads/:threadId', requireAuth, async (req, res) => {
+  try {
+    const thread = await storage.getThread(req.user!.id, req.params.threadId);
+    if (!thread) {
+      return res.status(404).json({ error: 'No tracked emails in that thread' });
+    }
+    res.json(thread);
+  } catch (error) {
+    console.error('[api] Error fetching thread:', error);
+    res.status(500).json({ error: 'Failed to fetch thread' });
+  }
+});
+
+// ============================================
+// Read Receipts
+// ============================================
+
+const MAX_LOOKUPS = 100;
+const LOOKUP_FIELDS = ['id', 'message_id', 'thread_id'] as const;
+
+/**
+ * A lookup from the request body, or an error message
+ * - Takes the first of id, message_id or thread_id given, otherwise recipient and sent_at
+ */
+function parseLookup(value: unknown): EmailLookup | string {
+  if (!value || typeof value !== 'object') return 'each lookup must be an object';
+  const lookup = value as Record<string, unknown>;
+
+  for (const field of LOOKUP_FIELDS) {
+    if (lookup[field] === undefined) continue;
+    return isGmailId(lookup[field]) ? { by: field, value: lookup[field] } : `${field} must be a Gmail or tracking id`;
+  }
+
+  const { recipient, subject, sent_at } = lookup;
+  const sentAt = typeof sent_at === 'string' ? new Date(sent_at) : null;
+  if (typeof recipient !== 'string' || !recipient.includes('@') || !sentAt || isNaN(sentAt.getTime())) {
+    return 'each lookup needs an id, message_id, thread_id, or a recipient and an ISO sent_at';
+  }
+  if (subject !== undefined && subject !== null && typeof subject !== 'string') {
+    return 'subject must be a string';
+  }
+  return { by: 'sent', recipient, subject: subject ?? null, sentAt };
+}
+
+/**
+ * POST /api/emails/lookup
+ * Whether tracked emails have been read, for many Gmail rows or messages at once
+ * Body: { lookups: ({ id } | { message_id } | { thread_id } | { recipient, sent_at, subject? })[] }
+ * Returns: { results } in the order of lookups, null where no tracked email matched
+ */
+app.post('/api/emails/lookup', requireAuth, async (req, res) => {
+  try {
+    const { lookups } = req.body;
+    if (!Array.isArray(lookups) || lookups.length === 0 || lookups.length > MAX_LOOKUPS) {
+      return res.status(400).json({ error: `lookups must be an array of 1-${MAX_LOOKUPS} lookups` });
+    }
+
+    const parsed = lookups.map(parseLookup);
+    const invalid = parsed.findIndex((lookup) => typeof lookup === 'string');
+    if (invalid !== -1) {
+      return res.status(400).json({ error: `lookups[${invalid}]: ${parsed[invalid]}` });
+    }
+
+    res.json({ results: await storage.lookupReadReceipts(req.user!.id, parsed as EmailLookup[]) });
+  } catch (error) {
+    console.error('[api] Error looking up emails:', error);
+    res.status(500).json({ error: 'Failed to look up emails' });
+  }
+});
+
+// ============================================
+// Open Feed
+// ============================================
+
+const DEFAULT_FEED_SIZE = 100;
+const MAX_FEED_SIZE = 500;
+const MAX_FEED_WAIT_SECONDS = 60;
+
+/**
+ * Resolves once the owner's next open is recorded, after timeoutMs, or when the client goes away
+ */
+function waitForOpen(ownerId: number, timeoutMs: number, res: Response): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      unsubscribe();
+      res.off('close', done);
+      resolve();
+    };
+    const timer = setTimeout(done, timeoutMs);
+    const unsubscribe = subscribeToEvents((event) => {
+      if (event.type === 'email.opened' && event.owner_id === ownerId) done();
+    });
+    res.on('close', done);
+  });
+}
+
+/**
+ * GET /api/opens
+ * Opens across all emails, oldest first, with each email's recipient and subject
+ * Query: {
+ *   since_id?: number (the cursor from the previous page; default 0, from the start),
+ *   limit?: number, email_id?: string, recipient?: string, from?: ISO date, to?: ISO date,
+ *   wait?: seconds (up to 60) to hold the request when there is nothing new yet
+ * }
+ * Returns: { opens, cursor, has_more } - pass cursor as since_id to get the next page
+ * With wait, an empty page only comes back once the time is up
+ */
+app.get('/api/opens', requireAuth, async (req, res) => {
+  try {
+    const ownerId = req.user!.id;
+    const sinceId = req.query.since_id === undefined ? 0 : Number(req.query.since_id);
+    const limit = req.query.limit === undefined ? DEFAULT_FEED_SIZE : Number(req.query.limit);
+    const wait = req.query.wait === undefined ? 0 : Number(req.query.wait);
+    const { email_id: emailId, recipient } = req.query;
+
+    if (!Number.isInteger(sinceId) || sinceId < 0 || sinceId > MAX_ID) {
+      return res.status(400).json({ error: 'since_id must be an open id' });
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_FEED_SIZE) {
+      return res.status(400).json({ error: `limit must be between 1 and ${MAX_FEED_SIZE}` });
+    }
+    if (!Number.isInteger(wait) || wait < 0 || wait > MAX_FEED_WAIT_SECONDS) {
+      return res.status(400).json({ error: `wait must be a whole number of seconds up to ${MAX_FEED_WAIT_SECONDS}` });
+    }
+    if ((emailId !== undefined && typeof emailId !== 'string') || (recipient !== undefined && typeof recipient !== 'string')) {
+      return res.status(400).json({ error: 'email_id and recipient must be given once' });
+    }
+    const range = parseDateRange(req.query.from, req.query.to);
+    if (typeof range === 'string') {
+      return res.status(400).json({ error: range });
+    }
+
+    // One more than asked for tells us whether there is another page
+    const options = { sinceId, limit: limit + 1, emailId: emailId || undefined, recipient: recipient || undefined, ...range };
+    let opens = await storage.getOpenFeed(ownerId, options);
+
+    const deadline = Date.now() + wait * 1000;
+    while (opens.length === 0 && Date.now() < deadline && !req.socket.destroyed) {
+      await waitForOpen(ownerId, deadline - Date.now(), res);
+      opens = await storage.getOpenFeed(ownerId, options);
+    }
+    if (req.socket.destroyed) return;
+
+    const page = opens.slice(0, limit);
+    res.json({
+      opens: page,
+      cursor: page.length > 0 ? page[page.length - 1].id : sinceId,
+      has_more: opens.length > limit,
+    });
+  } catch (error) {
+    console.error('[api] Error fetching opens:', error);
+    res.status(500).json({ error: 'Failed to fetch opens' });
+  }
+});
+
+// ============================================
+// Reminders
+// ============================================
+
+const MAX_SNOOZE_HOURS = 30 * 24;
+
+/**
+ * GET /api/reminders
+ * Reminders across all emails, soonest first
+ * Query: status? ('due' by default, 'pending', 'dismissed', 'cancelled' or 'all')
+ */
+app.get('/api/reminders', requireAuth, async (req, res) => {
+  try {
+    const status = req.query.status ?? 'due';
+    if (status !== 'all' && !REMINDER_STATUSES.includes(status as ReminderStatus)) {
+      return res.status(400).json({ error: `status must be one of: ${REMINDER_STATUSES.join(', ')}, all` });
+    }
+
+    res.json(await storage.getReminders(req.user!.id, status === 'all' ? undefined : status as ReminderStatus));
+  } catch (error) {
+    console.error('[api] Error fetching reminders:', error);
+    res.status(500).json({ error: 'Failed to fetch reminders' });
+  }
+});
+
+/**
+ * POST /api/reminders/:id/snooze
+ * Put a due reminder off; it comes due again after the given time
+ * Body: { hours: number } (up to 30 days)
+ */
+app.post('/api/reminders/:id/snooze', requireAuth, async (req, res) => {
+  try {
+    const hours = req.body.hours;
+    if (!Number.isInteger(hours) || hours < 1 || hours > MAX_SNOOZE_HOURS) {
+      return res.status(400).json({ error: `hours must be a whole number from 1 to ${MAX_SNOOZE_HOURS}` });
+    }
+
+    const id = parseId(req.params.id);
+    const reminder = id === null ? null : await storage.snoozeReminder(id, req.user!.id, hours);
+    if (!reminder) {
+      return res.status(404).json({ error: 'No due reminder with that id' });
+    }
+    res.json(reminder);
+  } catch (error) {
+    console.error('[api] Error snoozing reminder:', error);
+    res.status(500).json({ error: 'Failed to snooze reminder' });
+  }
+});
+
+/**
+ * POST /api/reminders/:id/dismiss
+ * Stop a pending or due reminder for good
+ */
+app.post('/api/reminders/:id/dismiss', requireAuth, async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    const reminder = id === null ? null : await storage.dismissReminder(id, req.user!.id);
+    if (!reminder) {
+      return res.status(404).json({ error: 'No pending or due reminder with that id' });
+    }
+    res.json(reminder);
+  } catch (error) {
+    console.error('[api] Error dismissing reminder:', error);
+    res.status(500).json({ error: 'Failed to dismiss reminder' });
+  }
+});
+
+// ============================================
+// Export & Import
+// ============================================
+
+const EXPORT_BATCH_SIZE = 200;
+const IMPORT_MAX_BYTES = '50mb';
+const MAX_IMPORT_ERRORS = 100;
+
+/**
+ * Write to a streamed response, waiting if the client is reading slowly
+ */
+async function writeChunk(res: Response, chunk: string): Promise<void> {
+  if (res.write(chunk)) return;
+  await new Promise<void>((resolve) => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.on('drain', done);
+    res.on('close', done);
+  });
+}
+
+/**
+ * GET /api/export
+ * Download emails with their opens
+ * Query: {
+ *   format?: 'csv' | 'json' | 'ndjson', sort?: same as GET /api/emails (default 'oldest'),
+ *   q?, status?, from?, to?: same filters as GET /api/emails
+ * }
+ * Streams a batch of emails at a time, so exports of any size use constant memory
+ */
+app.get('/api/export', requireAuth, async (req, res) => {
+  const { format = 'csv', sort = 'oldest' } = req.query;
+
+  if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+    return res.status(400).json({ error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` });
+  }
+  if (!EMAIL_SORTS.includes(sort as EmailSort)) {
+    return res.status(400).json({ error: `sort must be one of: ${EMAIL_SORTS.join(', ')}` });
+  }
+  const filters = parseEmailFilters(req.query);
+  if (typeof filters === 'string') {
+    return res.status(400).json({ error: filters });
+  }
+
+  const writer = createExportWriter(format as ExportFormat);
+  let closed = false;
+  res.on('close', () => {
+    closed = true;
+  });
+
+  try {
+    let chunk = writer.head;
+    let index = 0;
+    let cursor: string | undefined;
+
+    do {
+      const page = await storage.getEmailsPage(req.user!.id, {
+        ...filters,
+        sort: sort as EmailSort,
+        limit: EXPORT_BATCH_SIZE,
+        cursor,
+      });
+
+      const opensByEmail = new Map<string, Open[]>();
+      for (const open of await storage.getOpensForEmails(page.emails.map((email) => email.id))) {
+        const opens = opensByEmail.get(open.email_id);
+        if (opens) {
+          opens.push(open);
+        } else {
+          opensByEmail.set(open.email_id, [open]);
+        }
+      }
+      for (const email of page.emails) {
+        chunk += writer.email(toPortableEmail(email, opensByEmail.get(email.id) ?? []), index++);
+      }
+
+      // Headers go out with the first batch, so an error before it still gets a proper 500
+      if (!res.headersSent) {
+        res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format as ExportFormat]);
+        res.setHeader('Content-Disposition', `attachment; filename="emails-${new Date().toISOString().slice(0, 10)}.${format}"`);
+      }
+      await writeChunk(res, chunk);
+      chunk = '';
+      cursor = page.next_cursor ?? undefined;
+    } while (cursor && !closed);
+
+    res.end(writer.tail);
+  } catch (error) {
+    console.error('[api] Error exporting emails:', error);
+    if (!res.headersSent) {
+      return res.status(500).json({ error: 'Failed to export emails' });
+    }
+    // Cut the download off so it fails visibly instead of ending up short
+    res.destroy();
+  }
+});
+
+/**
+ * POST /api/import
+ * Load emails and their opens from an export (from this server or another one)
+ * Query: { format?: 'csv' | 'json' | 'ndjson' } - defaults from the Content-Type
+ * Body: the export file as-is
+ * Emails keep their ids; any already present are skipped, so re-importing a file is safe
+ * Returns: { imported, skipped, failed, opens, errors: { record, id?, error }[] }
+ */
+app.post('/api/import', requireAuth, express.text({ type: () => true, limit: IMPORT_MAX_BYTES }), async (req, res) => {
+  try {
+    const format = req.query.format ?? formatFromContentType(req.headers['content-type']);
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      return res.status(400).json({
+        error: `Set format to one of ${EXPORT_FORMATS.join(', ')}, or send Content-Type text/csv, application/json or application/x-ndjson`,
+      });
+    }
+    if (typeof req.body !== 'string' || !req.body.trim()) {
+      return res.status(400).json({ error: 'Import body is empty' });
+    }
+
+    let records: unknown[];
+    try {
+      records = parseImport(req.body, format as ExportFormat);
+    } catch (error) {
+      if (error instanceof ImportFormatError) {
+        return res.status(400).json({ error: error.message });
+      }
+      throw error;
+    }
+
+    const result = { imported: 0, skipped: 0, failed: 0, opens: 0, errors: [] as { record: number; id?: string; error: string }[] };
+    const fail = (record: number, error: string, id?: string) => {
+      result.failed++;
+      if (result.errors.length < MAX_IMPORT_ERRORS) {
+        result.errors.push({ record, id, error });
+      }
+    };
+
+    for (const [index, record] of records.entries()) {
+      const email = toImportedEmail(record);
+      if (typeof email === 'string') {
+        fail(index + 1, email);
+        continue;
+      }
+
+      const outcome = await storage.importEmail(req.user!.id, email);
+      if (outcome === 'imported') {
+        result.imported++;
+        result.opens += email.opens.length;
+      } else {
+        // An id another account holds is skipped the same way, so an import
+        // can't be used to find out which ids exist elsewhere
+        result.skipped++;
+      }
+    }
+
+    console.log(`[api] Imported ${result.imported} emails (${result.opens} opens) for user ${req.user!.id}, ${result.skipped} skipped, ${result.failed} failed`);
+    res.json(result);
+  } catch (error) {
+    console.error('[api] Error importing emails:', error);
+    res.status(500).json({ error: 'Failed to import emails' });
+  }
+});
+
+// ============================================
+// Contact API Endpoints
+// ============================================
+
+/**
+ * GET /api/contacts
+ * List every recipient with aggregate open stats
+ */
+app.get('/api/contacts', requireAuth, async (req, res) => {
+  try {
+    const contacts = await storage.getAllContacts(req.user!.id);
+    res.json(contacts);
+  } catch (error) {
+    console.error('[api] Error fetching contacts:', error);
+    res.status(500).json({ error: 'Failed to fetch contacts' });
+  }
+});
+
+/**
+ * GET /api/contacts/:address
+ * Get a single contact with every email sent to them
+ */
+app.get('/api/contacts/:address', requireAuth, async (req, res) => {
+  try {
+    const contact = await storage.getContactWithHistory(req.params.address, req.user!.id);
+
+    if (!contact) {
+      return res.status(404).json({ error: 'Contact not found' });
+    }
+
+    res.json(contact);
+  } catch (error) {
+    console.error('[api] Error fetching contact:', error);
+    res.status(500).json({ error: 'Failed to fetch contact' });
+  }
+});
+
+/**
+ * DELETE /api/recipients/:address
+ * Erase a recipient: every one of your emails sent to the address (including ones
+ * with other recipients), with their opens, clicks, links and events
+ * Returns: { address, email_ids, emails, opens, clicks }
+ */
+app.delete('/api/recipients/:address', requireAuth, async (req, res) => {
+  try {
+    if (!req.params.address.includes('@')) {
+      return res.status(400).json({ error: 'address must be an email address' });
+    }
+
+    const erased = await storage.eraseRecipient(req.user!.id, req.params.address);
+    // The address itself stays out of the logs
+    console.log(`[api] Erased a recipient for user ${req.user!.id}: ${erased.emails} email(s), ${erased.opens} open(s), ${erased.clicks} click(s)`);
+    res.json(erased);
+  } catch (error) {
+    console.error('[api] Error erasing recipient:', error);
+    res.status(500).json({ error: 'Failed to erase recipient' });
+  }
+});
+
+// ============================================
+// Event Stream (Server-Sent Events)
+// ============================================
+
+// How long the browser waits before reconnecting, and how often we ping idle streams
+const SSE_RETRY_MS = 3000;
+const SSE_HEARTBEAT_MS = 25000;
+const SSE_REPLAY_BATCH = 500;
+
+// Events older than this can't be resumed from
+const EVENT_RETENTION_DAYS = 7;
+
+/**
+ * POST /api/events/ticket
+ * A ticket to open the event stream with, for clients that can't send headers (EventSource)
+ * Returns: { ticket, expires_in } - pass it as ?ticket= within expires_in seconds
+ */
+app.post('/api/events/ticket', requireAuth, (req, res) => {
+  res.json({ ticket: issueStreamTicket(req.user!.id), expires_in: STREAM_TICKET_TTL_SECONDS });
+});
+
+/**
+ * GET /api/events
+ * Stream the user's events as they happen
+ * - Authenticated with a bearer token, or with ?ticket= from POST /api/events/ticket
+ * - Resumes after the Last-Event-ID header (sent automatically on reconnect) or ?since=<id>
+ */
+app.get('/api/events', requireStreamAuth, async (req, res) => {
+  const ownerId = req.user!.id;
+  const lastEventId = Number(req.headers['last-event-id'] ?? req.query.since ?? 0) || 0;
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+  res.write(`retry: ${SSE_RETRY_MS}\n\n`);
+
+  let cursor = lastEventId;
+  const send = (event: TrackerEvent) => {
+    if (event.id <= cursor) return; // Already delivered during replay
+    cursor = event.id;
+    res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+  };
+
+  // Listen before replaying so nothing published mid-replay is lost; live events
+  // are held back until the replay has caught up, to keep them in order
+  let replaying = true;
+  const held: TrackerEvent[] = [];
+  const unsubscribe = subscribeToEvents((event) => {
+    if (event.owner_id !== ownerId) return;
+    if (replaying) held.push(event);
+    else send(event);
+  });
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), SSE_HEARTBEAT_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+
+  // Replay anything missed while disconnected, then switch to live events
+  try {
+    let batch: TrackerEvent[];
+    do {
+      batch = await storage.getEventsSince(ownerId, cursor, SSE_REPLAY_BATCH);
+      batch.forEach(send);
+    } while (batch.length === SSE_REPLAY_BATCH);
+  } catch (error) {
+    // The browser reconnects and resumes from the last id it received
+    console.error('[events] Error replaying events:', error);
+    res.end();
+    return;
+  }
+
+  replaying = false;
+  held.forEach(send);
+});
+
+/**
+ * GET /api/events/poll?since=<id>
+ * Same events as the stream, as a single JSON page - for clients that can't hold
+ * a connection open (the extension's service worker)
+ * - Without since, returns no events and the current cursor to start from
+ */
+app.get('/api/events/poll', requireAuth, async (req, res) => {
+  try {
+    const ownerId = req.user!.id;
+
+    if (req.query.since === undefined) {
+      return res.json({ events: [], cursor: await storage.getLatestEventId(ownerId) });
+    }
+
+    const since = Number(req.query.since) || 0;
+    const events = await storage.getEventsSince(ownerId, since, SSE_REPLAY_BATCH);
+    res.json({
+      events,
+      cursor: events.length > 0 ? events[events.length - 1].id : since,
+    });
+  } catch (error) {
+    console.error('[api] Error polling events:', error);
+    res.status(500).json({ error: 'Failed to fetch events' });
+  }
+});
+
+// ============================================
+// Webhook Endpoints
+// ============================================
+
+function isWebhookUrl(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * GET /api/webhooks
+ * List the user's webhooks (secrets are not included)
+ */
+app.get('/api/webhooks', requireAuth, async (req, res) => {
+  try {
+    res.json(await storage.getWebhooksForOwner(req.user!.id));
+  } catch (error) {
+    console.error('[api] Error fetching webhooks:', error);
+    res.status(500).json({ error: 'Failed to fetch webhooks' });
+  }
+});
+
+/**
+ * POST /api/webhooks
+ * Subscribe a URL to events; the signing secret is only returned in this response
+ * Body: { url: string, events?: EventType[] } (defaults to every event type)
+ * The URL's host must resolve to public addresses only (see webhooks.ts)
+ */
+app.post('/api/webhooks', requireAuth, async (req, res) => {
+  try {
+    const { url, events = EVENT_TYPES } = req.body;
+
+    if (!isWebhookUrl(url)) {
+      return res.status(400).json({ error: 'url must be an http(s) URL' });
+    }
+    const unreachable = await checkWebhookUrl(url);
+    if (unreachable) {
+      return res.status(400).json({ error: unreachable });
+    }
+
+    if (
+      !Array.isArray(events) ||
+      events.length === 0 ||
+      !events.every((type) => EVENT_TYPES.includes(type))
+    ) {
+      return res.status(400).json({ error: `events must be a non-empty list of: ${EVENT_TYPES.join(', ')}` });
+    }
+
+    const webhook = await storage.createWebhook({
+      ownerId: req.user!.id,
+      url,
+      events: [...new Set(events as EventType[])],
+      secret: generateWebhookSecret(),
+    });
+    res.status(201).json(webhook);
+  } catch (error) {
+    console.error('[api] Error creating webhook:', error);
+    res.status(500).json({ error: 'Failed to create webhook' });
+  }
+});
+
+/**
+ * DELETE /api/webhooks/:id
+ * Remove a webhook along with its pending deliveries and log
+ */
+app.delete('/api/webhooks/:id', requireAuth, async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null || !await storage.deleteWebhook(id, req.user!.id)) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+    res.status(204).end();
+  } catch (error) {
+    console.error('[api] Error deleting webhook:', error);
+    res.status(500).json({ error: 'Failed to delete webhook' });
+  }
+});
+
+/**
+ * GET /api/webhooks/:id/deliveries
+ * Most recent deliveries for a webhook, newest first
+ */
+app.get('/api/webhooks/:id/deliveries', requireAuth, async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    const deliveries = id === null ? null : await storage.getWebhookDeliveries(id, req.user!.id);
+    if (!deliveries) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+    res.json(deliveries);
+  } catch (error) {
+    console.error('[api] Error fetching webhook deliveries:', error);
+    res.status(500).json({ error: 'Failed to fetch webhook deliveries' });
+  }
+});
+
+// ============================================
+// Initialize and Start
+// ============================================
+async function pruneOldEvents(): Promise<void> {
+  try {
+    const pruned = await storage.pruneEvents(EVENT_RETENTION_DAYS);
+    if (pruned > 0) {
+      console.log(`[events] Pruned ${pruned} event(s) older than ${EVENT_RETENTION_DAYS} days`);
+    }
+  } catch (error) {
+    console.error('[events] Error pruning events:', error);
+  }
+}
+
+async function pruneStaleReservations(): Promise<void> {
+  try {
+    const pruned = await storage.pruneReservations(RESERVATION_TTL_HOURS);
+    if (pruned > 0) {
+      console.log(`[reservations] Pruned ${pruned} reservation(s) never confirmed within ${RESERVATION_TTL_HOURS} hours`);
+    }
+  } catch (error) {
+    console.error('[reservations] Error pruning reservations:', error);
+  }
+}
+
+async function start(): Promise<void> {
+  printConfig();
+  initGeoIp();
+
+  try {
+    await storage.init();
+  } catch (error) {
+    if (error instanceof DatabaseTooNewError) {
+      console.error(`[db] ${error.message}`);
+      process.exit(1);
+    }
+    throw error;
+  }
+  initLinkSigning(await storage.getSecret('link_signing'));
+  initStreamTickets(await storage.getSecret('stream_tickets'));
+
+  startWebhookWorker();
+  startRetentionJob();
+  startReminderScheduler();
+
+  setInterval(pruneOldEvents, 60 * 60 * 1000).unref();
+  setInterval(logRejections, 60 * 1000).unref();
+  setInterval(pruneStaleReservations, 60 * 60 * 1000).unref();
+
+  app.listen(config.port, () => {
+    console.log(`[server] Running on http://localhost:${config.port}`);
+    console.log(`[server] Endpoints:`);
+    console.log(`         GET  /health         - Health check`);
+    console.log(`         POST /api/auth/register - Create account`);
+    console.log(`         POST /api/auth/login - Log in`);
+    console.log(`         GET  /api/auth/sender-marker - Marker for the sender's own pixel hits`);
+    console.log(`         GET  /api/keys       - List API keys`);
+    console.log(`         GET  /track/:id/:token.png - Tracking pixel`);
+    console.log(`         GET  /r/:emailId/:linkId - Link click redirect`);
+    console.log(`         GET  /r/:emailId/n/:position - Link click redirect by position`);
+    console.log(`         GET  /r/:emailId/u/:signature - Signed link click redirect`);
+    console.log(`         POST /api/emails     - Create tracked email`);
+    console.log(`         POST /api/emails/reservations - Reserve a tracking id for a draft`);
+    console.log(`         POST /api/emails/:id/confirm - Confirm a reserved email was sent`);
+    console.log(`         DELETE /api/emails/reservations/:id - Release a reserved id`);
+    console.log(`         GET  /api/emails     - List all emails`);
+    console.log(`         GET  /api/emails/:id - Get email details`);
+    console.log(`         PATCH /api/emails/:id - Edit, archive, pause or tag an email`);
+    console.log(`         DELETE /api/emails/:id - Delete an email`);
+    console.log(`         POST /api/emails/bulk - Archive, tag or delete several emails`);
+    console.log(`         GET  /api/stats      - Get statistics`);
+    console.log(`         GET  /api/stats/timeseries - Sends and opens over time`);
+    console.log(`         GET  /api/stats/engagement - Open latency, heatmap, re-opens`);
+    console.log(`         GET  /api/threads/:threadId - Sends and opens in a conversation`);
+    console.log(`         POST /api/campaigns  - Create a campaign`);
+    console.log(`         GET  /api/campaigns  - List campaigns`);
+    console.log(`         GET  /api/campaigns/:id - Campaign report and A/B comparison`);
+    console.log(`         POST /api/emails/lookup - Read receipts for many emails`);
+    console.log(`         GET  /api/opens      - Opens across all emails, with long-polling`);
+    console.log(`         GET  /api/reminders  - Due follow-up reminders`);
+    console.log(`         POST /api/reminders/:id/snooze - Snooze a reminder`);
+    console.log(`         POST /api/reminders/:id/dismiss - Dismiss a reminder`);
+    console.log(`         GET  /api/export     - Download emails and opens`);
+    console.log(`         POST /api/import     - Load an export`);
+    console.log(`         POST /api/events/ticket - Ticket to open the event stream with`);
+    console.log(`         GET  /api/events     - Live event stream (SSE)`);
+    console.log(`         GET  /api/events/poll - Events since a cursor (JSON)`);
+    console.log(`         GET  /api/contacts   - List all contacts`);
+    console.log(`         GET  /api/contacts/:address - Get contact history`);
+    console.log(`         DELETE /api/recipients/:address - Erase a recipient`);
+    console.log(`         GET  /api/webhooks   - List webhooks`);
+    console.log(`         POST /api/webhooks   - Create webhook`);
+    console.log(`         GET  /api/webhooks/:id/deliveries - Webhook delivery log`);
+  });
+}
+
+start().catch((error) => {
+  console.error('[server] Failed to start:', error);
+  process.exit(1);
 });
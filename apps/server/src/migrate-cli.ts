@@ -0,0 +1,96 @@
+// Usage: pnpm migrate [status | up | up --dry-run]
+//   status          Show the schema version and pending migrations (default)
+//   up              Apply pending migrations
+//   up --dry-run    Run pending migrations and roll them back
+// Works on the database the server would use: PostgreSQL when DATABASE_URL is set, otherwise SQLite
+
+import { Pool } from 'pg';
+import { config } from './config';
+import { openDb, closeDb, DB_PATH } from './db';
+import { getMigrationStatus, runMigrations, DatabaseTooNewError } from './migrate';
+import { getPgMigrationStatus, runPgMigrations } from './storage/postgres/migrate';
+
+interface MigrationTarget {
+  description: string;
+  status(): Promise<{ current: number; latest: number; pending: { version: number; name: string }[] }>;
+  run(dryRun: boolean): Promise<{ version: number; name: string }[]>;
+  close(): Promise<void>;
+}
+
+function sqliteTarget(): MigrationTarget {
+  const db = openDb();
+  return {
+    description: DB_PATH,
+    status: async () => getMigrationStatus(db),
+    run: async (dryRun) => runMigrations(db, { dryRun }),
+    close: async () => closeDb(),
+  };
+}
+
+function postgresTarget(url: string): MigrationTarget {
+  const pool = new Pool({ connectionString: url });
+  return {
+    description: 'PostgreSQL (DATABASE_URL)',
+    status: () => getPgMigrationStatus(pool),
+    run: (dryRun) => runPgMigrations(pool, { dryRun }),
+    close: () => pool.end(),
+  };
+}
+
+async function printStatus(target: MigrationTarget): Promise<void> {
+  const { current, latest, pending } = await target.status();
+
+  console.log(`Database: ${target.description}`);
+  console.log(`Schema version: ${current} (latest ${latest})`);
+
+  if (current > latest) {
+    console.log('This database was migrated by a newer build of the server.');
+  } else if (pending.length === 0) {
+    console.log('Up to date.');
+  } else {
+    console.log('Pending:');
+    for (const migration of pending) {
+      console.log(`  ${migration.version}  ${migration.name}`);
+    }
+  }
+}
+
+async function main(args: string[]): Promise<number> {
+  const [command = 'status', ...flags] = args;
+  const target = config.databaseUrl ? postgresTarget(config.databaseUrl) : sqliteTarget();
+
+  try {
+    if (command === 'status') {
+      await printStatus(target);
+      return 0;
+    }
+
+    if (command === 'up') {
+      const dryRun = flags.includes('--dry-run');
+      const applied = await target.run(dryRun);
+
+      if (applied.length === 0) {
+        console.log('Nothing to migrate.');
+      } else if (dryRun) {
+        console.log(`Dry run OK - ${applied.length} migration(s) ran cleanly and were rolled back.`);
+      } else {
+        console.log(`Applied ${applied.length} migration(s).`);
+      }
+      return 0;
+    }
+
+    console.error(`Unknown command "${command}". Usage: pnpm migrate [status | up | up --dry-run]`);
+    return 1;
+  } catch (error) {
+    if (error instanceof DatabaseTooNewError) {
+      console.error(error.message);
+    } else {
+      console.error('Migration failed:', error);
+    }
+    return 1;
+  } finally {
+    await target.close();
+  }
+}
+
+main(process.argv.slice(2)).then((code) => process.exit(code));
@@ -0,0 +1,86 @@
+// Schema migrations
+// PRAGMA user_version holds the version of the last migration applied.
+// initDb runs anything pending on startup; `pnpm migrate` shows status or does a dry run.
+
+import { Database } from 'better-sqlite3';
+import { MIGRATIONS, Migration } from './migrations';
+
+export const LATEST_VERSION = MIGRATIONS.length;
+
+// Versions must run 1, 2, 3 ... with no gaps, in the order they're listed
+MIGRATIONS.forEach((migration, index) => {
+  if (migration.version !== index + 1) {
+    throw new Error(`Migration "${migration.name}" is version ${migration.version} but is listed at position ${index + 1}`);
+  }
+});
+
+export class DatabaseTooNewError extends Error {
+  constructor(public version: number, latest = LATEST_VERSION) {
+    super(
+      `Database schema is at version ${version} but this server only knows up to version ${latest}. ` +
+      'It was migrated by a newer build - upgrade the server rather than risk writing to it.'
+    );
+    this.name = 'DatabaseTooNewError';
+  }
+}
+
+export interface MigrationStatus {
+  current: number;
+  latest: number;
+  pending: Migration[];
+}
+
+// Thrown inside a dry run's transaction to roll it back
+class DryRunRollback extends Error {}
+
+export function getSchemaVersion(db: Database): number {
+  return db.pragma('user_version', { simple: true }) as number;
+}
+
+export function getMigrationStatus(db: Database): MigrationStatus {
+  const current = getSchemaVersion(db);
+  return {
+    current,
+    latest: LATEST_VERSION,
+    pending: MIGRATIONS.filter((migration) => migration.version > current),
+  };
+}
+
+/**
+ * Apply pending migrations in order, each in its own transaction
+ * - Refuses to touch a database newer than the code
+ * - dryRun runs them all in one transaction and rolls it back, so
+ *   failures show up without changing anything
+ */
+export function runMigrations(db: Database, options: { dryRun?: boolean } = {}): Migration[] {
+  const { current, pending } = getMigrationStatus(db);
+  if (current > LATEST_VERSION) {
+    throw new DatabaseTooNewError(current);
+  }
+
+  const apply = (migration: Migration) => {
+    migration.up(db);
+    db.pragma(`user_version = ${migration.version}`);
+  };
+
+  if (options.dryRun) {
+    try {
+      db.transaction(() => {
+        for (const migration of pending) {
+          apply(migration);
+          console.log(`[db] Would apply migration ${migration.version} (${migration.name})`);
+        }
+        throw new DryRunRollback();
+      })();
+    } catch (error) {
+      if (!(error instanceof DryRunRollback)) throw error;
+    }
+    return pending;
+  }
+
+  for (const migration of pending) {
+    db.transaction(() => apply(migration))();
+    console.log(`[db] Applied migration ${migration.version} (${migration.name})`);
+  }
+  return pending;
+}
@@ -0,0 +1,30 @@
+import { Migration } from './migration';
+
+const migration: Migration = {
+  version: 1,
+  name: 'initial',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS emails (
+        id TEXT PRIMARY KEY,
+        recipient TEXT NOT NULL,
+        subject TEXT,
+        sender TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS opens (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        email_id TEXT NOT NULL,
+        opened_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        ip_address TEXT,
+        user_agent TEXT,
+        FOREIGN KEY (email_id) REFERENCES emails(id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_opens_email_id ON opens(email_id);
+    `);
+  },
+};
+
+export default migration;
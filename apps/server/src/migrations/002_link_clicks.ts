@@ -0,0 +1,33 @@
+import { Migration } from './migration';
+
+// Links are the original URLs, rewritten through /r/:emailId/:linkId
+const migration: Migration = {
+  version: 2,
+  name: 'link_clicks',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS links (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        email_id TEXT NOT NULL,
+        url TEXT NOT NULL,
+        FOREIGN KEY (email_id) REFERENCES emails(id)
+      );
+
+      CREATE TABLE IF NOT EXISTS clicks (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        email_id TEXT NOT NULL,
+        link_id INTEGER NOT NULL,
+        clicked_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        ip_address TEXT,
+        user_agent TEXT,
+        FOREIGN KEY (email_id) REFERENCES emails(id),
+        FOREIGN KEY (link_id) REFERENCES links(id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_links_email_id ON links(email_id);
+      CREATE INDEX IF NOT EXISTS idx_clicks_email_id ON clicks(email_id);
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,66 @@
+import { Migration } from './migration';
+
+// One contact per normalized address, linked to emails with a To/Cc/Bcc role.
+// The address parsing is copied from db.ts as it was when this shipped, so what the
+// migration does can't change when the live rules do.
+const ADDRESS_PATTERN = /^[^\s@<>",;]+@[^\s@<>",;]+$/;
+
+function extractAddress(value: string): string | null {
+  const angled = value.match(/<([^<>]*)>\s*$/);
+  const address = (angled ? angled[1] : value).trim();
+  return ADDRESS_PATTERN.test(address) ? address : null;
+}
+
+const migration: Migration = {
+  version: 3,
+  name: 'contacts',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS contacts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        address TEXT NOT NULL UNIQUE,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS email_recipients (
+        email_id TEXT NOT NULL,
+        contact_id INTEGER NOT NULL,
+        role TEXT NOT NULL DEFAULT 'to',
+        PRIMARY KEY (email_id, contact_id, role),
+        FOREIGN KEY (email_id) REFERENCES emails(id),
+        FOREIGN KEY (contact_id) REFERENCES contacts(id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_email_recipients_contact_id ON email_recipients(contact_id);
+    `);
+
+    // Existing emails only have the comma-joined recipient string, so treat every address as "to"
+    const emails = db.prepare(`
+      SELECT id, recipient FROM emails e
+      WHERE NOT EXISTS (SELECT 1 FROM email_recipients er WHERE er.email_id = e.id)
+    `).all() as { id: string; recipient: string }[];
+
+    const upsertContact = db.prepare(`
+      INSERT INTO contacts (address) VALUES (?)
+      ON CONFLICT(address) DO UPDATE SET address = excluded.address
+      RETURNING id
+    `);
+    const linkRecipient = db.prepare(`
+      INSERT OR IGNORE INTO email_recipients (email_id, contact_id, role) VALUES (?, ?, 'to')
+    `);
+
+    for (const email of emails) {
+      // Commas inside a quoted display name don't split; parts without an address are dropped
+      const addresses = email.recipient
+        .split(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/)
+        .map(extractAddress)
+        .filter((address): address is string => address !== null);
+      for (const address of addresses) {
+        const contact = upsertContact.get(address.toLowerCase()) as { id: number };
+        linkRecipient.run(email.id, contact.id);
+      }
+    }
+  },
+};
+
+export default migration;
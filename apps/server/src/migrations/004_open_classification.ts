@@ -0,0 +1,90 @@
+import { Migration, addColumnIfMissing } from './migration';
+
+// Human/machine classification for each open.
+// The rules are copied from classify.ts as it was when this shipped, so what the
+// migration does can't change when the live rules do.
+const PROXY_USER_AGENTS = [/GoogleImageProxy/i, /ggpht\.com/i, /YahooMailProxy/i, /Yahoo! Slurp/i];
+const SCANNER_USER_AGENTS = [
+  /bot\b|crawler|spider|scanner/i,
+  /Barracuda|Mimecast|Proofpoint|Symantec|Forcepoint|Trend ?Micro|Sophos/i,
+  /python-requests|python-urllib|curl\/|wget\/|Go-http-client|okhttp|Java\//i,
+  /HeadlessChrome|PhantomJS/i,
+];
+const MAIL_CLIENT_USER_AGENTS = [
+  /Microsoft Outlook|Microsoft Office|MSOffice|ms-office/i,
+  /Outlook-(iOS|Android)/i,
+  /Thunderbird|Lotus-Notes|Postbox|eM ?Client|Mailbird|Windows[- ]Live[- ]Mail/i,
+];
+const PREFETCH_USER_AGENTS = [/^Mozilla\/5\.0$/];
+const PROXY_RANGES = ['66.249.80.0/20', '66.102.0.0/20', '74.125.0.0/16'];
+const PREFETCH_RANGES = ['17.0.0.0/8'];
+const SCANNER_WINDOW_SECONDS = 30;
+
+function ipv4ToInt(ip: string): number | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4) return null;
+
+  let value = 0;
+  for (const part of parts) {
+    const octet = Number(part);
+    if (!Number.isInteger(octet) || octet < 0 || octet > 255) return null;
+    value = value * 256 + octet;
+  }
+  return value;
+}
+
+function ipInRange(ip: string, cidr: string): boolean {
+  const [base, bits] = cidr.split('/');
+  const ipValue = ipv4ToInt(ip);
+  const baseValue = ipv4ToInt(base);
+  if (ipValue === null || baseValue === null) return false;
+
+  const blockSize = 2 ** (32 - Number(bits));
+  return Math.floor(ipValue / blockSize) === Math.floor(baseValue / blockSize);
+}
+
+function classify(userAgentValue: string | null, ipAddress: string | null, secondsSinceCreation: number): string {
+  const userAgent = userAgentValue?.trim() || '';
+  const first = ipAddress?.split(',')[0].trim() || null;
+  const ip = first?.startsWith('::ffff:') ? first.slice(7) : first;
+
+  if (PROXY_USER_AGENTS.some((pattern) => pattern.test(userAgent))) return 'proxy';
+  if (SCANNER_USER_AGENTS.some((pattern) => pattern.test(userAgent))) return 'scanner';
+  if (PREFETCH_USER_AGENTS.some((pattern) => pattern.test(userAgent))) return 'prefetch';
+
+  if (ip && PROXY_RANGES.some((range) => ipInRange(ip, range))) return 'proxy';
+  if (ip && PREFETCH_RANGES.some((range) => ipInRange(ip, range))) return 'prefetch';
+
+  if (MAIL_CLIENT_USER_AGENTS.some((pattern) => pattern.test(userAgent))) return 'human';
+
+  const looksLikeBrowser = /^Mozilla\/5\.0 \(/.test(userAgent);
+
+  if (!looksLikeBrowser && secondsSinceCreation < SCANNER_WINDOW_SECONDS) return 'scanner';
+  if (looksLikeBrowser) return 'human';
+
+  return 'unknown';
+}
+
+const migration: Migration = {
+  version: 4,
+  name: 'open_classification',
+  up: (db) => {
+    addColumnIfMissing(db, 'opens', 'classification', 'TEXT');
+
+    const opens = db.prepare(`
+      SELECT
+        o.id, o.ip_address, o.user_agent,
+        (julianday(o.opened_at) - julianday(e.created_at)) * 86400 as seconds_since_creation
+      FROM opens o
+      JOIN emails e ON e.id = o.email_id
+      WHERE o.classification IS NULL
+    `).all() as { id: number; ip_address: string | null; user_agent: string | null; seconds_since_creation: number }[];
+
+    const update = db.prepare('UPDATE opens SET classification = ? WHERE id = ?');
+    for (const open of opens) {
+      update.run(classify(open.user_agent, open.ip_address, open.seconds_since_creation), open.id);
+    }
+  },
+};
+
+export default migration;
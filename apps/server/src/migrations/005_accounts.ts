@@ -0,0 +1,43 @@
+import { Migration, addColumnIfMissing } from './migration';
+
+// Users log in to the dashboard with sessions; the extension and scripts use API keys
+const migration: Migration = {
+  version: 5,
+  name: 'accounts',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        email TEXT NOT NULL UNIQUE,
+        name TEXT,
+        password_hash TEXT NOT NULL,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE,
+        prefix TEXT NOT NULL,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        last_used_at TEXT,
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      );
+
+      CREATE TABLE IF NOT EXISTS sessions (
+        token_hash TEXT PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        expires_at TEXT NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      );
+    `);
+
+    // Every email belongs to the user who created it (the first account claims older ones)
+    addColumnIfMissing(db, 'emails', 'owner_id', 'INTEGER REFERENCES users(id)');
+    db.exec('CREATE INDEX IF NOT EXISTS idx_emails_owner_id ON emails(owner_id)');
+  },
+};
+
+export default migration;
@@ -0,0 +1,22 @@
+import { Migration } from './migration';
+
+// Replay log for /api/events reconnects and the extension's poller
+const migration: Migration = {
+  version: 6,
+  name: 'events',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        type TEXT NOT NULL,
+        owner_id INTEGER,
+        data TEXT NOT NULL,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_events_owner_id ON events(owner_id, id);
+    `);
+  },
+};
+
+export default migration;
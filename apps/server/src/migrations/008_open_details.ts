@@ -0,0 +1,74 @@
+import { Migration, addColumnIfMissing } from './migration';
+
+// Client/device and location for each open.
+// Existing opens get their client and device here; their location is left empty, since
+// it depends on which GeoIP database is around (pnpm geolocate-opens fills it in).
+// The parsing rules are copied from useragent.ts as they were when this shipped, so
+// what the migration does can't change when the live rules do.
+const CLIENT_PATTERNS: [RegExp, string][] = [
+  [/GoogleImageProxy|ggpht\.com/i, 'Gmail'],
+  [/YahooMailProxy/i, 'Yahoo Mail'],
+  [/Microsoft Outlook|Outlook-(iOS|Android)|MSOffice|ms-office/i, 'Outlook'],
+  [/Thunderbird/i, 'Thunderbird'],
+  [/Airmail/i, 'Airmail'],
+  [/Spark/i, 'Spark'],
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Version\/[\d.]+.*Safari\//, 'Safari'],
+  [/AppleWebKit\/[\d.]+ \(KHTML, like Gecko\)(?!.*Safari)/, 'Apple Mail'],
+  [/^Mozilla\/5\.0$/, 'Apple Mail'],
+];
+
+const OS_PATTERNS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod|Outlook-iOS/, 'iOS'],
+  [/Android|Outlook-Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Macintosh|Mac OS X/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+function parseUserAgent(userAgent: string | null) {
+  const ua = userAgent?.trim() || '';
+
+  let deviceType = 'unknown';
+  if (/iPad|Tablet/i.test(ua) || (/Android/.test(ua) && !/Mobile/.test(ua))) deviceType = 'tablet';
+  else if (/iPhone|iPod|Mobile|Android/.test(ua)) deviceType = 'mobile';
+  else if (/Windows|Macintosh|CrOS|X11|Linux/.test(ua)) deviceType = 'desktop';
+
+  return {
+    client: CLIENT_PATTERNS.find(([pattern]) => pattern.test(ua))?.[1] ?? null,
+    os: OS_PATTERNS.find(([pattern]) => pattern.test(ua))?.[1] ?? null,
+    device_type: deviceType,
+  };
+}
+
+const migration: Migration = {
+  version: 8,
+  name: 'open_details',
+  up: (db) => {
+    addColumnIfMissing(db, 'opens', 'client', 'TEXT');
+    addColumnIfMissing(db, 'opens', 'os', 'TEXT');
+    addColumnIfMissing(db, 'opens', 'device_type', 'TEXT');
+    addColumnIfMissing(db, 'opens', 'country', 'TEXT');
+    addColumnIfMissing(db, 'opens', 'region', 'TEXT');
+    addColumnIfMissing(db, 'opens', 'city', 'TEXT');
+    addColumnIfMissing(db, 'opens', 'asn', 'INTEGER');
+    addColumnIfMissing(db, 'opens', 'as_org', 'TEXT');
+
+    const opens = db.prepare(`
+      SELECT id, user_agent FROM opens WHERE device_type IS NULL
+    `).all() as { id: number; user_agent: string | null }[];
+
+    const update = db.prepare(`
+      UPDATE opens SET client = @client, os = @os, device_type = @device_type WHERE id = @id
+    `);
+    for (const open of opens) {
+      update.run({ id: open.id, ...parseUserAgent(open.user_agent) });
+    }
+  },
+};
+
+export default migration;
@@ -0,0 +1,94 @@
+import { Migration, addColumnIfMissing } from './migration';
+
+// Per-email counters and a full-text index so the email list can be paged,
+// sorted and searched without aggregating every open on each request.
+// Triggers keep both in step with opens, clicks and emails.
+const migration: Migration = {
+  version: 9,
+  name: 'email_list',
+  up: (db) => {
+    const addedCounters = [
+      addColumnIfMissing(db, 'emails', 'open_count', 'INTEGER NOT NULL DEFAULT 0'),
+      addColumnIfMissing(db, 'emails', 'human_open_count', 'INTEGER NOT NULL DEFAULT 0'),
+      addColumnIfMissing(db, 'emails', 'click_count', 'INTEGER NOT NULL DEFAULT 0'),
+      addColumnIfMissing(db, 'emails', 'last_opened_at', 'TEXT'),
+    ].some(Boolean);
+
+    db.exec(`
+      CREATE TRIGGER IF NOT EXISTS opens_counters_insert AFTER INSERT ON opens BEGIN
+        UPDATE emails SET
+          open_count = open_count + 1,
+          human_open_count = human_open_count + (new.classification = 'human'),
+          last_opened_at = MAX(COALESCE(last_opened_at, ''), new.opened_at)
+        WHERE id = new.email_id;
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS opens_counters_update AFTER UPDATE OF classification ON opens BEGIN
+        UPDATE emails SET
+          human_open_count = human_open_count - (old.classification IS 'human') + (new.classification IS 'human')
+        WHERE id = new.email_id;
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS opens_counters_delete AFTER DELETE ON opens BEGIN
+        UPDATE emails SET
+          open_count = open_count - 1,
+          human_open_count = human_open_count - (old.classification IS 'human'),
+          last_opened_at = (SELECT MAX(opened_at) FROM opens WHERE email_id = old.email_id)
+        WHERE id = old.email_id;
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS clicks_counters_insert AFTER INSERT ON clicks BEGIN
+        UPDATE emails SET click_count = click_count + 1 WHERE id = new.email_id;
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS clicks_counters_delete AFTER DELETE ON clicks BEGIN
+        UPDATE emails SET click_count = click_count - 1 WHERE id = old.email_id;
+      END;
+    `);
+
+    if (addedCounters) {
+      db.exec(`
+        UPDATE emails SET
+          open_count = (SELECT COUNT(*) FROM opens o WHERE o.email_id = emails.id),
+          human_open_count = (SELECT COUNT(*) FROM opens o WHERE o.email_id = emails.id AND o.classification = 'human'),
+          click_count = (SELECT COUNT(*) FROM clicks c WHERE c.email_id = emails.id),
+          last_opened_at = (SELECT MAX(opened_at) FROM opens o WHERE o.email_id = emails.id)
+      `);
+    }
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_emails_owner_created ON emails(owner_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_emails_owner_opens ON emails(owner_id, open_count);
+      CREATE INDEX IF NOT EXISTS idx_emails_owner_last_opened ON emails(owner_id, last_opened_at);
+    `);
+
+    // External-content FTS5 table over the emails rowid. emails has a TEXT primary key,
+    // so a VACUUM can renumber rowids - run "INSERT INTO emails_fts (emails_fts) VALUES ('rebuild')" after one.
+    const hasFts = db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'emails_fts'").get();
+
+    db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS emails_fts USING fts5(
+        subject, recipient, content = 'emails', content_rowid = 'rowid'
+      );
+
+      CREATE TRIGGER IF NOT EXISTS emails_fts_insert AFTER INSERT ON emails BEGIN
+        INSERT INTO emails_fts (rowid, subject, recipient) VALUES (new.rowid, new.subject, new.recipient);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS emails_fts_delete AFTER DELETE ON emails BEGIN
+        INSERT INTO emails_fts (emails_fts, rowid, subject, recipient) VALUES ('delete', old.rowid, old.subject, old.recipient);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS emails_fts_update AFTER UPDATE OF subject, recipient ON emails BEGIN
+        INSERT INTO emails_fts (emails_fts, rowid, subject, recipient) VALUES ('delete', old.rowid, old.subject, old.recipient);
+        INSERT INTO emails_fts (rowid, subject, recipient) VALUES (new.rowid, new.subject, new.recipient);
+      END;
+    `);
+
+    if (!hasFts) {
+      db.exec("INSERT INTO emails_fts (emails_fts) VALUES ('rebuild')");
+    }
+  },
+};
+
+export default migration;
@@ -0,0 +1,15 @@
+import { Migration, addColumnIfMissing } from './migration';
+
+// Archiving, pausing tracking and tags on emails.
+// archived_at and tracking_paused_at are set while the state is on; tags is a JSON array.
+const migration: Migration = {
+  version: 10,
+  name: 'email_lifecycle',
+  up: (db) => {
+    addColumnIfMissing(db, 'emails', 'archived_at', 'TEXT');
+    addColumnIfMissing(db, 'emails', 'tracking_paused_at', 'TEXT');
+    addColumnIfMissing(db, 'emails', 'tags', "TEXT NOT NULL DEFAULT '[]'");
+  },
+};
+
+export default migration;
@@ -0,0 +1,31 @@
+import { Migration } from './migration';
+
+// Follow-up reminders. A 'not_opened' reminder is due delay_hours after the email
+// was sent; an 'opened' one gets its due_at once the email is first read.
+const migration: Migration = {
+  version: 11,
+  name: 'reminders',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS reminders (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        email_id TEXT NOT NULL,
+        owner_id INTEGER NOT NULL,
+        kind TEXT NOT NULL,
+        delay_hours INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        due_at TEXT,
+        fired_at TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (email_id) REFERENCES emails(id),
+        FOREIGN KEY (owner_id) REFERENCES users(id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_reminders_due ON reminders(status, due_at);
+      CREATE INDEX IF NOT EXISTS idx_reminders_owner_status ON reminders(owner_id, status);
+      CREATE INDEX IF NOT EXISTS idx_reminders_email_id ON reminders(email_id);
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,16 @@
+import { Migration, addColumnIfMissing } from './migration';
+
+// The Gmail conversation and draft/message an email was sent from, so sends in
+// one thread can be grouped and linked back to Gmail. Both stay null for emails
+// tracked outside Gmail or before this existed.
+const migration: Migration = {
+  version: 12,
+  name: 'threads',
+  up: (db) => {
+    addColumnIfMissing(db, 'emails', 'thread_id', 'TEXT');
+    addColumnIfMissing(db, 'emails', 'message_id', 'TEXT');
+    db.exec('CREATE INDEX IF NOT EXISTS idx_emails_owner_thread ON emails(owner_id, thread_id)');
+  },
+};
+
+export default migration;
@@ -0,0 +1,14 @@
+import { Migration, addColumnIfMissing } from './migration';
+
+// A secret per user that the extension attaches to pixel requests from the
+// sender's own browser, so those hits can be told apart from the recipient's.
+// Created the first time the extension asks for it.
+const migration: Migration = {
+  version: 13,
+  name: 'sender_markers',
+  up: (db) => {
+    addColumnIfMissing(db, 'users', 'sender_marker', 'TEXT');
+  },
+};
+
+export default migration;
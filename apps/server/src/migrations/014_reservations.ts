@@ -0,0 +1,22 @@
+import { Migration } from './migration';
+
+// Tracking ids handed to the extension while an email is still being written.
+// Confirming the send turns one into an email; the rest are pruned.
+const migration: Migration = {
+  version: 14,
+  name: 'reservations',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS reservations (
+        id TEXT PRIMARY KEY,
+        owner_id INTEGER NOT NULL,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (owner_id) REFERENCES users(id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_reservations_created_at ON reservations(created_at);
+    `);
+  },
+};
+
+export default migration;
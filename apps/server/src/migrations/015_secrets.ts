@@ -0,0 +1,19 @@
+import { Migration } from './migration';
+
+// Random secrets the server makes for itself, such as the key link redirects are
+// signed with. They are created on first use, so this only adds the table.
+const migration: Migration = {
+  version: 15,
+  name: 'secrets',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS secrets (
+        name TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,38 @@
+import { Migration, addColumnIfMissing } from './migration';
+
+// Campaigns group a batch of outreach emails; variants within one (say, two
+// subjects) are compared for A/B tests. Emails sent outside a campaign keep
+// both columns null.
+const migration: Migration = {
+  version: 16,
+  name: 'campaigns',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS campaigns (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        owner_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        description TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (owner_id) REFERENCES users(id)
+      );
+
+      CREATE TABLE IF NOT EXISTS campaign_variants (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        campaign_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        subject TEXT,
+        UNIQUE (campaign_id, name),
+        FOREIGN KEY (campaign_id) REFERENCES campaigns(id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_campaigns_owner ON campaigns(owner_id, created_at);
+    `);
+
+    addColumnIfMissing(db, 'emails', 'campaign_id', 'INTEGER REFERENCES campaigns(id)');
+    addColumnIfMissing(db, 'emails', 'variant_id', 'INTEGER REFERENCES campaign_variants(id)');
+    db.exec('CREATE INDEX IF NOT EXISTS idx_emails_campaign ON emails(campaign_id)');
+  },
+};
+
+export default migration;
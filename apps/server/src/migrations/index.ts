@@ -0,0 +1,45 @@
+// Ordered list of schema migrations (see migrate.ts)
+//
+// To change the schema, add NNN_description.ts with the next version number and
+// append it here. Never edit a migration that has shipped - add a new one.
+// Don't call application code (classify.ts, useragent.ts...) from a migration: copy the
+// rules it needs into the file, so it does the same thing however that code changes.
+
+import { Migration } from './migration';
+import initial from './001_initial';
+import linkClicks from './002_link_clicks';
+import contacts from './003_contacts';
+import openClassification from './004_open_classification';
+import accounts from './005_accounts';
+import events from './006_events';
+import webhooks from './007_webhooks';
+import openDetails from './008_open_details';
+import emailList from './009_email_list';
+import emailLifecycle from './010_email_lifecycle';
+import reminders from './011_reminders';
+import threads from './012_threads';
+import senderMarkers from './013_sender_markers';
+import reservations from './014_reservations';
+import secrets from './015_secrets';
+import campaigns from './016_campaigns';
+
+export type { Migration };
+
+export const MIGRATIONS: Migration[] = [
+  initial,
+  linkClicks,
+  contacts,
+  openClassification,
+  accounts,
+  events,
+  webhooks,
+  openDetails,
+  emailList,
+  emailLifecycle,
+  reminders,
+  threads,
+  senderMarkers,
+  reservations,
+  secrets,
+  campaigns,
+];
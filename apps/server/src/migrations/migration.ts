@@ -0,0 +1,24 @@
+import { Database } from 'better-sqlite3';
+
+/**
+ * One schema change. `version` must match the file's number and is stored
+ * in PRAGMA user_version once `up` has run.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database) => void;
+}
+
+/**
+ * Add a column unless it's already there.
+ * Databases created before migrations existed (user_version 0) may already
+ * have any of the early columns, so those migrations have to be idempotent.
+ */
+export function addColumnIfMissing(db: Database, table: string, column: string, definition: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (columns.some((c) => c.name === column)) return false;
+
+  db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  return true;
+}
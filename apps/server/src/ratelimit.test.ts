@@ -0,0 +1,112 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { clientIp, createRateLimiter, logRejections, rateLimit } from './ratelimit';
+import type { Config } from './config';
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('rate limiter', () => {
+  it('allows the limit per key and window, then counts rejections', () => {
+    const warn = mock.method(console, 'warn', () => {});
+    const limiter = createRateLimiter('track_per_email', 2, 60);
+    logRejections();
+    warn.mock.resetCalls();
+
+    assert.equal(limiter.hit('a'), true);
+    assert.equal(limiter.hit('a'), true);
+    assert.equal(limiter.hit('a'), false);
+    assert.equal(limiter.hit('a'), false);
+    assert.equal(limiter.hit('b'), true);
+
+    logRejections();
+    assert.equal(warn.mock.callCount(), 1);
+    assert.match(warn.mock.calls[0].arguments[0], /^\[ratelimit\] Rejected since .*: track_per_email 2$/);
+    logRejections();
+    assert.equal(warn.mock.callCount(), 1);
+  });
+
+  it('starts a new window once the last one is over', () => {
+    let now = Date.parse('2024-01-31T09:15:00Z');
+    mock.method(Date, 'now', () => now);
+    const limiter = createRateLimiter('api_per_ip', 1, 60);
+
+    assert.equal(limiter.hit('a'), true);
+    assert.equal(limiter.hit('a'), false);
+    now += 45_000;
+    assert.equal(limiter.retryAfter('a'), 15);
+    assert.equal(limiter.hit('a'), false);
+    now += 15_000;
+    assert.equal(limiter.hit('a'), true);
+  });
+});
+
+/**
+ * Answer GET / with the address clientIp sees, behind Express's 'trust proxy' as config.ts sets it
+ */
+async function clientIpFor(trustProxy: Config['trustProxy'], forwardedFor?: string): Promise<string | null> {
+  const app = express();
+  app.set('trust proxy', trustProxy);
+  app.get('/', (req, res) => {
+    res.json({ ip: clientIp(req) });
+  });
+
+  const server = app.listen(0, '127.0.0.1');
+  await new Promise((resolve) => server.once('listening', resolve));
+  try {
+    const { port } = server.address() as AddressInfo;
+    const response = await fetch(`http://127.0.0.1:${port}/`, {
+      headers: forwardedFor ? { 'X-Forwarded-For': forwardedFor } : {},
+    });
+    return ((await response.json()) as { ip: string | null }).ip;
+  } finally {
+    server.close();
+    server.closeAllConnections();
+  }
+}
+
+describe('client address', () => {
+  it('takes the socket address and ignores X-Forwarded-For without trust proxy', async () => {
+    assert.equal(await clientIpFor(false), '127.0.0.1');
+    assert.equal(await clientIpFor(false, '203.0.113.5'), '127.0.0.1');
+  });
+
+  it('takes the address a trusted proxy saw, not one the client made up', async () => {
+    assert.equal(await clientIpFor(1, '203.0.113.5'), '203.0.113.5');
+    assert.equal(await clientIpFor(1, '198.51.100.1, 203.0.113.5'), '203.0.113.5');
+    assert.equal(await clientIpFor(['loopback'], '198.51.100.1, 203.0.113.5'), '203.0.113.5');
+  });
+
+  it('stops at the first address that is not a trusted proxy', async () => {
+    assert.equal(await clientIpFor(['10.0.0.0/8'], '203.0.113.5'), '127.0.0.1');
+  });
+});
+
+describe('rate limit middleware', () => {
+  it('answers 429 with Retry-After once the key is used up, and lets keyless requests through', async () => {
+    const app = express();
+    app.get('/', rateLimit(createRateLimiter('auth_per_ip', 1, 60), (req) => (req.query.key as string) || null), (_req, res) => {
+      res.status(204).end();
+    });
+
+    const server = app.listen(0, '127.0.0.1');
+    await new Promise((resolve) => server.once('listening', resolve));
+    try {
+      const { port } = server.address() as AddressInfo;
+      const get = (query: string) => fetch(`http://127.0.0.1:${port}/${query}`);
+
+      assert.equal((await get('?key=a')).status, 204);
+      const limited = await get('?key=a');
+      assert.equal(limited.status, 429);
+      assert.equal(limited.headers.get('retry-after'), '60');
+      assert.equal((await get('')).status, 204);
+      assert.equal((await get('')).status, 204);
+    } finally {
+      server.close();
+      server.closeAllConnections();
+    }
+  });
+});
@@ -0,0 +1,113 @@
+// In-memory rate limits
+// Fixed windows per key (an IP, an email id, an account). Counts live in this
+// process only, so with several server processes each one allows the full limit.
+//
+// Every rejected hit is counted by reason, and the counts are logged once a minute
+// (logRejections), so a flood adds one line to the log rather than a line per hit.
+
+import { Request, Response, NextFunction } from 'express';
+import { normalizeIp } from './classify';
+
+export type RejectionReason =
+  | 'invalid_token'
+  | 'track_per_ip'
+  | 'track_per_email'
+  | 'api_per_ip'
+  | 'auth_per_ip'
+  | 'login_per_account'
+  | 'create_email_per_account';
+
+const rejections: Record<RejectionReason, number> = {
+  invalid_token: 0,
+  track_per_ip: 0,
+  track_per_email: 0,
+  api_per_ip: 0,
+  auth_per_ip: 0,
+  login_per_account: 0,
+  create_email_per_account: 0,
+};
+
+let countingSince = new Date().toISOString();
+
+export interface RateLimiter {
+  /** Record a hit; false when the key is over its limit for this window */
+  hit(key: string): boolean;
+  /** Seconds until the key's window resets */
+  retryAfter(key: string): number;
+}
+
+/**
+ * A limiter allowing `limit` hits per key every `windowSeconds`
+ * - Rejected hits are counted under `reason`
+ */
+export function createRateLimiter(reason: RejectionReason, limit: number, windowSeconds: number): RateLimiter {
+  const windows = new Map<string, { count: number; resetsAt: number }>();
+
+  // Forget keys whose window is over so the map doesn't grow with every IP ever seen
+  setInterval(() => {
+    const now = Date.now();
+    for (const [key, window] of windows) {
+      if (window.resetsAt <= now) windows.delete(key);
+    }
+  }, windowSeconds * 1000).unref();
+
+  return {
+    hit(key) {
+      const now = Date.now();
+      const window = windows.get(key);
+      if (!window || window.resetsAt <= now) {
+        windows.set(key, { count: 1, resetsAt: now + windowSeconds * 1000 });
+        return true;
+      }
+      if (window.count >= limit) {
+        countRejection(reason);
+        return false;
+      }
+      window.count++;
+      return true;
+    },
+    retryAfter(key) {
+      const window = windows.get(key);
+      return window ? Math.max(1, Math.ceil((window.resetsAt - Date.now()) / 1000)) : 0;
+    },
+  };
+}
+
+export function countRejection(reason: RejectionReason): void {
+  rejections[reason]++;
+}
+
+/**
+ * Log the hits turned away since the last call, by reason, and start counting afresh
+ * - Logs nothing when there were none
+ */
+export function logRejections(): void {
+  const counted = (Object.keys(rejections) as RejectionReason[]).filter((reason) => rejections[reason] > 0);
+  if (counted.length > 0) {
+    console.warn(`[ratelimit] Rejected since ${countingSince}: ${counted.map((reason) => `${reason} ${rejections[reason]}`).join(', ')}`);
+  }
+  for (const reason of counted) rejections[reason] = 0;
+  countingSince = new Date().toISOString();
+}
+
+/**
+ * The client address a request is limited by
+ * - Express works it out from the socket, and from X-Forwarded-For only as far as config.trustProxy allows
+ */
+export function clientIp(req: Request): string | null {
+  return normalizeIp(req.ip);
+}
+
+/**
+ * Middleware answering 429 once `keyOf` has used up its limit
+ * - Requests without a key (no address, no user) are let through
+ */
+export function rateLimit(limiter: RateLimiter, keyOf: (req: Request) => string | null | undefined) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const key = keyOf(req);
+    if (!key || limiter.hit(key)) return next();
+
+    res.set('Retry-After', String(limiter.retryAfter(key)));
+    res.status(429).json({ error: 'Too many requests, try again later' });
+  };
+}
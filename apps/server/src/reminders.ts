@@ -0,0 +1,26 @@
+// Follow-up reminders
+// Every minute, due reminders are marked as such and announced with a
+// reminder.due event, which reaches the live stream, the poll endpoint and webhooks
+
+import { storage } from './storage';
+
+const REMINDER_INTERVAL_MS = 60 * 1000;
+
+async function fireReminders(): Promise<void> {
+  try {
+    const fired = await storage.fireDueReminders();
+    if (fired.length > 0) {
+      console.log(`[reminders] ${fired.length} reminder(s) due`);
+    }
+  } catch (error) {
+    console.error('[reminders] Error firing reminders:', error);
+  }
+}
+
+/**
+ * Check for due reminders once now, then every minute
+ */
+export function startReminderScheduler(): void {
+  setInterval(fireReminders, REMINDER_INTERVAL_MS).unref();
+  void fireReminders();
+}
@@ -0,0 +1,42 @@
+// Data retention
+// Both limits are off unless set, in days:
+//
+//   RETENTION_OPENS_DAYS=90    delete opens and clicks (IPs, user agents) older than this
+//   RETENTION_EMAILS_DAYS=365  delete whole emails sent before this, with all their data
+//
+// Both are read into config.privacy (see config.ts).
+
+import { config } from './config';
+import { storage } from './storage';
+
+const RETENTION_INTERVAL_MS = 60 * 60 * 1000;
+
+async function applyRetention(): Promise<void> {
+  const { retentionOpensDays: opensDays, retentionEmailsDays: emailsDays } = config.privacy;
+  try {
+    if (emailsDays !== null) {
+      const deleted = await storage.purgeEmails(emailsDays);
+      if (deleted.emails > 0) {
+        console.log(`[retention] Deleted ${deleted.emails} email(s) older than ${emailsDays} days (${deleted.opens} opens, ${deleted.clicks} clicks)`);
+      }
+    }
+    if (opensDays !== null) {
+      const deleted = await storage.purgeActivity(opensDays);
+      if (deleted.opens > 0 || deleted.clicks > 0) {
+        console.log(`[retention] Deleted ${deleted.opens} open(s) and ${deleted.clicks} click(s) older than ${opensDays} days`);
+      }
+    }
+  } catch (error) {
+    console.error('[retention] Error applying retention:', error);
+  }
+}
+
+/**
+ * Purge once now, then hourly; does nothing while neither limit is set
+ */
+export function startRetentionJob(): void {
+  if (config.privacy.retentionOpensDays === null && config.privacy.retentionEmailsDays === null) return;
+
+  setInterval(applyRetention, RETENTION_INTERVAL_MS).unref();
+  void applyRetention();
+}
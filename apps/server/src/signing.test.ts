@@ -0,0 +1,104 @@
+import { before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Config } from './config';
+
+let config: Config;
+let signing: typeof import('./signing');
+
+before(async () => {
+  // config.ts reads the environment on first import; start from no keys and change
+  // config.signing per test instead
+  const configFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'tracker-signing-')), 'tracker.config.json');
+  fs.writeFileSync(configFile, '{}');
+  process.env.CONFIG_FILE = configFile;
+  delete process.env.TRACKING_KEYS;
+  delete process.env.TRACKING_ACCEPT_UNSIGNED;
+
+  ({ config } = await import('./config'));
+  signing = await import('./signing');
+});
+
+const OLD_KEY = { id: 'k1', secret: 'first-secret-0123456789' };
+const NEW_KEY = { id: 'k2', secret: 'second-secret-0123456789' };
+
+describe('pixel tokens', () => {
+  beforeEach(() => {
+    config.signing = { keys: [], acceptUnsigned: false };
+  });
+
+  it('leaves pixels unsigned and counts every hit without keys', () => {
+    assert.equal(signing.signTrackingId('abc'), null);
+    assert.equal(signing.trackingPath('abc'), '/track/abc.png');
+    assert.equal(signing.verifyTrackingToken('abc'), true);
+    assert.equal(signing.verifyTrackingToken('abc', 'anything'), true);
+  });
+
+  it('signs with the first key and accepts only that email\'s token', () => {
+    config.signing.keys = [NEW_KEY];
+    const token = signing.signTrackingId('abc')!;
+
+    assert.match(token, /^k2\.[A-Za-z0-9_-]{22}$/);
+    assert.equal(signing.trackingPath('abc'), `/track/abc/${token}.png`);
+    assert.equal(signing.verifyTrackingToken('abc', token), true);
+    assert.equal(signing.verifyTrackingToken('abd', token), false);
+    assert.equal(signing.verifyTrackingToken('abc', `${token.slice(0, -1)}x`), false);
+    assert.equal(signing.verifyTrackingToken('abc', token.slice(0, -1)), false);
+    assert.equal(signing.verifyTrackingToken('abc', `k9.${token.slice(3)}`), false);
+  });
+
+  it('refuses unsigned hits unless told to accept them', () => {
+    config.signing.keys = [NEW_KEY];
+    assert.equal(signing.verifyTrackingToken('abc'), false);
+
+    config.signing.acceptUnsigned = true;
+    assert.equal(signing.verifyTrackingToken('abc'), true);
+  });
+
+  it('keeps old pixels working while a key is rotated out', () => {
+    config.signing.keys = [OLD_KEY];
+    const oldToken = signing.signTrackingId('abc')!;
+
+    config.signing.keys = [NEW_KEY, OLD_KEY];
+    assert.match(signing.signTrackingId('abc')!, /^k2\./);
+    assert.equal(signing.verifyTrackingToken('abc', oldToken), true);
+
+    config.signing.keys = [NEW_KEY];
+    assert.equal(signing.verifyTrackingToken('abc', oldToken), false);
+  });
+});
+
+describe('link signatures', () => {
+  // What the extension does with the key it gets along with a reserved id
+  function signAsExtension(key: string, url: string): string {
+    return crypto.createHmac('sha256', Buffer.from(key, 'hex')).update(url).digest('base64url').slice(0, 22);
+  }
+
+  it('needs the link secret first', () => {
+    assert.throws(() => signing.linkKey('abc'), /not initialized/);
+  });
+
+  it('accepts a destination signed with that email\'s key only', () => {
+    signing.initLinkSigning('link-secret');
+    const key = signing.linkKey('abc');
+    const signature = signAsExtension(key, 'https://example.com/a');
+
+    assert.match(key, /^[0-9a-f]{64}$/);
+    assert.notEqual(signing.linkKey('abd'), key);
+    assert.equal(signing.verifyLinkSignature('abc', 'https://example.com/a', signature), true);
+    assert.equal(signing.verifyLinkSignature('abc', 'https://example.com/b', signature), false);
+    assert.equal(signing.verifyLinkSignature('abd', 'https://example.com/a', signature), false);
+    assert.equal(signing.verifyLinkSignature('abc', 'https://example.com/a', signature.slice(0, -1)), false);
+    assert.equal(signing.verifyLinkSignature('abc', 'https://example.com/a', ''), false);
+  });
+
+  it('changes every email\'s key along with the secret', () => {
+    signing.initLinkSigning('link-secret');
+    const key = signing.linkKey('abc');
+    signing.initLinkSigning('another-secret');
+    assert.notEqual(signing.linkKey('abc'), key);
+  });
+});
@@ -0,0 +1,97 @@
+// Signed pixel URLs
+// Tracking ids alone are easy to replay or make up, so pixel URLs carry a token:
+// an HMAC of the email id under a named key, /track/<id>/<key id>.<signature>.png
+//
+//   TRACKING_KEYS=k2:secret2,k1:secret1  the first key signs new pixels; the rest
+//                                        are only checked, so old pixels keep working
+//                                        while a key is rotated out
+//   TRACKING_ACCEPT_UNSIGNED=true        also count hits on unsigned /track/<id>.png
+//                                        URLs, sent before signing was turned on
+//
+// Without TRACKING_KEYS pixels are unsigned and every hit is counted. Keys are
+// validated when the config is loaded (see config.ts).
+//
+// Link redirects from the extension carry their destination, so they work whether
+// or not the server ever heard which links the email had:
+// /r/<id>/u/<signature>?url=<destination>. The signature is an HMAC of the destination
+// under a key made for that one email (linkKey), which the extension gets with its
+// reserved id. Those keys come from a secret the server keeps in its database.
+
+import crypto from 'crypto';
+import { config, SigningKey } from './config';
+
+// 128 bits of the HMAC is plenty for a URL nobody can try out offline
+const SIGNATURE_LENGTH = 22;
+
+function sign(key: SigningKey, emailId: string): string {
+  const signature = crypto.createHmac('sha256', key.secret).update(emailId).digest('base64url');
+  return `${key.id}.${signature.slice(0, SIGNATURE_LENGTH)}`;
+}
+
+/**
+ * Token for a new pixel URL, or null when signing is off
+ */
+export function signTrackingId(emailId: string): string | null {
+  const { keys } = config.signing;
+  return keys.length > 0 ? sign(keys[0], emailId) : null;
+}
+
+/**
+ * Pixel path for an email, signed when keys are configured
+ */
+export function trackingPath(emailId: string): string {
+  const token = signTrackingId(emailId);
+  return token ? `/track/${emailId}/${token}.png` : `/track/${emailId}.png`;
+}
+
+/**
+ * Whether a hit should count
+ * - Everything passes while signing is off
+ * - A missing token passes only with TRACKING_ACCEPT_UNSIGNED
+ * - Any configured key is accepted, so pixels signed before a rotation still count
+ */
+export function verifyTrackingToken(emailId: string, token?: string): boolean {
+  const { keys, acceptUnsigned } = config.signing;
+  if (keys.length === 0) return true;
+  if (!token) return acceptUnsigned;
+
+  const key = keys.find((candidate) => token.startsWith(`${candidate.id}.`));
+  if (!key) return false;
+
+  const expected = Buffer.from(sign(key, emailId));
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+let linkSecret: string | null = null;
+
+/**
+ * Set the secret link keys are made from (storage.getSecret, once the database is up)
+ */
+export function initLinkSigning(secret: string): void {
+  linkSecret = secret;
+}
+
+/**
+ * Key the sender signs one email's link redirects with, as hex
+ * - It can't sign links for any other email
+ */
+export function linkKey(emailId: string): string {
+  if (!linkSecret) throw new Error('Link signing is not initialized');
+  return crypto.createHmac('sha256', linkSecret).update(`link:${emailId}`).digest('hex');
+}
+
+function signLink(emailId: string, url: string): string {
+  const signature = crypto.createHmac('sha256', Buffer.from(linkKey(emailId), 'hex')).update(url).digest('base64url');
+  return signature.slice(0, SIGNATURE_LENGTH);
+}
+
+/**
+ * Whether a redirect's destination was signed for this email
+ * - Without this the redirect would send people anywhere under our domain's name
+ */
+export function verifyLinkSignature(emailId: string, url: string, signature: string): boolean {
+  const expected = Buffer.from(signLink(emailId, url));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,1513 @@
+// PostgreSQL storage backend
+// Chosen with DATABASE_URL=postgres://... so several server processes can share one
+// database. Queries mirror db.ts; where the SQL has to differ the behaviour doesn't.
+// Events reach every process's live subscribers through LISTEN/NOTIFY.
+
+import { Client, Pool, PoolClient, types } from 'pg';
+import { config } from '../../config';
+import { classifyOpen, OpenClassification } from '../../classify';
+import { publishEvent, EventType, TrackerEvent } from '../../events';
+import { parseUserAgent } from '../../useragent';
+import { lookupIp, GeoLocation } from '../../geoip';
+import { anonymizeIp } from '../../anonymize';
+import {
+  Email,
+  Open,
+  Link,
+  Click,
+  LinkWithClicks,
+  Recipient,
+  ContactWithStats,
+  ContactEmail,
+  ContactWithHistory,
+  User,
+  UserWithPassword,
+  ApiKey,
+  Webhook,
+  WebhookWithSecret,
+  WebhookDelivery,
+  EmailWithOpens,
+  EmailChanges,
+  NewEmail,
+  Campaign,
+  CampaignVariant,
+  CampaignSummary,
+  CampaignReport,
+  Reservation,
+  EmailThread,
+  EmailLookup,
+  ReadReceipt,
+  EmailSort,
+  EmailListOptions,
+  OpenFeedOptions,
+  FeedOpen,
+  EmailPage,
+  PortableEmail,
+  ImportOutcome,
+  DeletionCounts,
+  RecipientErasure,
+  ReminderKind,
+  ReminderStatus,
+  Reminder,
+  ReminderWithEmail,
+  Stats,
+  StatsInterval,
+  StatsRange,
+  TimeseriesBucket,
+  EngagementStats,
+} from '../../types';
+import { Repository } from '../repository';
+import {
+  LOOKUP_SENT_AT_SLACK_SECONDS,
+  parseDbDate,
+  toDbDate,
+  generateTrackingId,
+  generateSecret,
+  generateSenderMarker,
+  matchesSenderMarker,
+  normalizeAddress,
+  parseRecipientString,
+  percentage,
+  withOpenRate,
+  emptyClassificationCounts,
+  encodeCursor,
+  decodeCursor,
+  toSearchTerms,
+  webhookPayload,
+  deliveryStatus,
+  buildCampaignReport,
+  CampaignEmailRow,
+} from '../shared';
+import { runPgMigrations, getPgSchemaVersion } from './migrate';
+
+// COUNT() is a BIGINT and AVG() a NUMERIC; both are well within a JS number here.
+// TIMESTAMP columns stay as the raw "YYYY-MM-DD HH:MM:SS" text, matching SQLite.
+types.setTypeParser(types.builtins.INT8, Number);
+types.setTypeParser(types.builtins.NUMERIC, Number);
+types.setTypeParser(types.builtins.TIMESTAMP, (value) => value);
+
+const NOW = "(now() AT TIME ZONE 'utc')";
+
+const EVENTS_CHANNEL = 'tracker_events';
+const LISTENER_RETRY_MS = 5000;
+
+// How long a claimed webhook delivery is hidden from other processes; longer than the
+// delivery timeout, so it only comes round again if the claiming process died
+const DELIVERY_LEASE_SECONDS = 60;
+
+type Queryable = Pool | PoolClient;
+
+let pool: Pool;
+let connectionString: string;
+let listener: Client | null = null;
+let closing = false;
+
+async function many<T>(sql: string, params: unknown[] = [], client: Queryable = pool): Promise<T[]> {
+  const result = await client.query(sql, params);
+  return result.rows as T[];
+}
+
+async function one<T>(sql: string, params: unknown[] = [], client: Queryable = pool): Promise<T | null> {
+  const rows = await many<T>(sql, params, client);
+  return rows[0] ?? null;
+}
+
+async function transaction<T>(work: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await work(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * host:port/database, without credentials, for logs
+ */
+function describeConnection(): string {
+  try {
+    const url = new URL(connectionString);
+    return `${url.host}${url.pathname}`;
+  } catch {
+    return 'DATABASE_URL';
+  }
+}
+
+async function init(): Promise<void> {
+  await runPgMigrations(pool);
+  await listenForEvents();
+  console.log(`[db] PostgreSQL initialized at ${describeConnection()} (schema version ${await getPgSchemaVersion(pool)})`);
+}
+
+async function close(): Promise<void> {
+  closing = true;
+  await listener?.end();
+  await pool.end();
+}
+
+// ============================================
+// Emails
+// ============================================
+
+/**
+ * Link an email to its recipients, creating contacts as needed
+ */
+async function addRecipients(client: PoolClient, emailId: string, recipients: Recipient[]): Promise<void> {
+  for (const recipient of recipients) {
+    const contact = await one<{ id: number }>(`
+      INSERT INTO contacts (address) VALUES ($1)
+      ON CONFLICT (address) DO UPDATE SET address = excluded.address
+      RETURNING id
+    `, [normalizeAddress(recipient.address)], client);
+
+    await client.query(`
+      INSERT INTO email_recipients (email_id, contact_id, role) VALUES ($1, $2, $3)
+      ON CONFLICT DO NOTHING
+    `, [emailId, contact!.id, recipient.role]);
+  }
+}
+
+async function createEmail(data: NewEmail): Promise<Email> {
+  const id = data.id ?? generateTrackingId();
+  await transaction((client) => insertEmail(client, id, data));
+  return announceEmail(id);
+}
+
+async function insertEmail(client: PoolClient, id: string, data: NewEmail): Promise<void> {
+  await client.query(`
+    INSERT INTO emails (id, recipient, subject, sender, owner_id, thread_id, message_id, campaign_id, variant_id, created_at)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, COALESCE($10::timestamp, ${NOW}))
+  `, [
+    id, data.recipient, data.subject || null, data.sender || null, data.ownerId,
+    data.threadId || null, data.messageId || null, data.campaignId ?? null, data.variantId ?? null,
+    data.sentAt ?? null,
+  ]);
+
+  for (const url of data.links || []) {
+    await client.query('INSERT INTO links (email_id, url) VALUES ($1, $2)', [id, url]);
+  }
+  await addRecipients(client, id, data.recipients?.length ? data.recipients : parseRecipientString(data.recipient));
+  if (data.reminder) {
+    await addReminder(client, id, data.ownerId, data.reminder.kind, data.reminder.delayHours);
+  }
+}
+
+// Once the email is committed
+async function announceEmail(id: string): Promise<Email> {
+  const email = (await getEmailById(id))!;
+  await emitEvent('email.created', email.owner_id, { ...email });
+  return email;
+}
+
+async function getEmailById(id: string): Promise<Email | null> {
+  return one<Email>('SELECT * FROM emails WHERE id = $1', [id]);
+}
+
+async function getEmailWithOpens(id: string, ownerId: number): Promise<EmailWithOpens | null> {
+  const email = await getEmailById(id);
+  if (!email || email.owner_id !== ownerId) return null;
+
+  const [opens, clicks, links, recipients] = await Promise.all([
+    getOpensForEmail(id),
+    many<Click>('SELECT * FROM clicks WHERE email_id = $1 ORDER BY clicked_at DESC', [id]),
+    many<LinkWithClicks>(`
+      SELECT
+        l.*,
+        (SELECT COUNT(*) FROM clicks c WHERE c.link_id = l.id) as click_count
+      FROM links l
+      WHERE l.email_id = $1
+      ORDER BY l.id
+    `, [id]),
+    getRecipientsForEmail(id),
+  ]);
+
+  return {
+    ...email,
+    opens,
+    open_count: opens.length,
+    human_open_count: opens.filter((o) => o.classification === 'human').length,
+    links,
+    clicks,
+    click_count: clicks.length,
+    recipients,
+  };
+}
+
+async function getRecipientsForEmail(emailId: string): Promise<Recipient[]> {
+  return many<Recipient>(`
+    SELECT c.address, er.role
+    FROM email_recipients er
+    JOIN contacts c ON c.id = er.contact_id
+    WHERE er.email_id = $1
+    ORDER BY CASE er.role WHEN 'to' THEN 0 WHEN 'cc' THEN 1 ELSE 2 END, c.address
+  `, [emailId]);
+}
+
+// last_opened compares as text so it can share the cursor format with SQLite
+const EMAIL_SORT_SQL: Record<EmailSort, { column: string; descending: boolean }> = {
+  recent: { column: 'e.created_at', descending: true },
+  oldest: { column: 'e.created_at', descending: false },
+  most_opens: { column: 'e.open_count', descending: true },
+  last_opened: { column: "COALESCE(to_char(e.last_opened_at, 'YYYY-MM-DD HH24:MI:SS'), '')", descending: true },
+};
+
+// Must match the expression behind idx_emails_search
+const SEARCH_VECTOR =
+  "to_tsvector('simple', regexp_replace(COALESCE(e.subject, '') || ' ' || e.recipient, '[^[:alnum:]]+', ' ', 'g'))";
+
+/**
+ * Every word must match, as a prefix; terms are split the same way as the index
+ */
+function toTsQuery(terms: string[]): string | null {
+  const words = terms.flatMap((term) => term.split(/[^\p{L}\p{N}]+/u)).filter(Boolean);
+  return words.length > 0 ? words.map((word) => `${word}:*`).join(' & ') : null;
+}
+
+async function getEmailsPage(ownerId: number, options: EmailListOptions): Promise<EmailPage> {
+  const { column, descending } = EMAIL_SORT_SQL[options.sort];
+  const params: unknown[] = [];
+  const bind = (value: unknown) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  const conditions = [`e.owner_id = ${bind(ownerId)}`];
+  const tsQuery = options.search ? toTsQuery(toSearchTerms(options.search)) : null;
+  if (tsQuery) conditions.push(`${SEARCH_VECTOR} @@ to_tsquery('simple', ${bind(tsQuery)})`);
+  if (options.status === 'opened') conditions.push('e.open_count > 0');
+  if (options.status === 'unopened') conditions.push('e.open_count = 0');
+  if (options.from) conditions.push(`e.created_at >= ${bind(options.from)}`);
+  if (options.to) conditions.push(`e.created_at < ${bind(options.to)}`);
+  if (options.tag) conditions.push(`e.tags @> ARRAY[${bind(options.tag)}]::text[]`);
+  if (options.archived === undefined) conditions.push('e.archived_at IS NULL');
+  if (options.archived === 'only') conditions.push('e.archived_at IS NOT NULL');
+
+  const where = conditions.join(' AND ');
+  const total = (await one<{ count: number }>(`SELECT COUNT(*) as count FROM emails e WHERE ${where}`, [...params]))!.count;
+
+  const pageConditions = [...conditions];
+  if (options.cursor) {
+    const [value, id] = decodeCursor(options.cursor, options.sort);
+    const op = descending ? '<' : '>';
+    const cursorValue = bind(value);
+    pageConditions.push(`(${column} ${op} ${cursorValue} OR (${column} = ${cursorValue} AND e.id ${op} ${bind(id)}))`);
+  }
+
+  const direction = descending ? 'DESC' : 'ASC';
+  const rows = await many<Email & { sort_value: string | number }>(`
+    SELECT e.*, ${column} as sort_value
+    FROM emails e
+    WHERE ${pageConditions.join(' AND ')}
+    ORDER BY ${column} ${direction}, e.id ${direction}
+    LIMIT ${bind(options.limit + 1)}
+  `, params);
+
+  const hasMore = rows.length > options.limit;
+  const page = rows.slice(0, options.limit);
+  const last = page[page.length - 1];
+
+  return {
+    emails: page.map(({ sort_value: _sortValue, ...email }) => email),
+    next_cursor: hasMore && last ? encodeCursor(last.sort_value, last.id) : null,
+    total,
+  };
+}
+
+async function getThread(ownerId: number, threadId: string): Promise<EmailThread | null> {
+  const emails = await many<Email>(`
+    SELECT * FROM emails WHERE owner_id = $1 AND thread_id = $2 ORDER BY created_at, id
+  `, [ownerId, threadId]);
+  if (emails.length === 0) return null;
+
+  const opens = await many<Open>(`
+    SELECT * FROM opens WHERE email_id = ANY($1) ORDER BY opened_at DESC, id DESC
+  `, [emails.map((email) => email.id)]);
+
+  return {
+    thread_id: threadId,
+    emails,
+    opens,
+    open_count: opens.length,
+    human_open_count: opens.filter((o) => o.classification === 'human').length,
+    last_opened_at: opens[0]?.opened_at ?? null,
+  };
+}
+
+async function findEmailIds(ownerId: number, lookup: EmailLookup): Promise<string[]> {
+  if (lookup.by !== 'sent') {
+    const rows = await many<{ id: string }>(`
+      SELECT id FROM emails WHERE owner_id = $1 AND ${lookup.by} = $2 ORDER BY created_at, id
+    `, [ownerId, lookup.value]);
+    return rows.map((row) => row.id);
+  }
+
+  const slackMs = LOOKUP_SENT_AT_SLACK_SECONDS * 1000;
+  const rows = await many<{ id: string }>(`
+    SELECT DISTINCT e.id, e.created_at FROM emails e
+    JOIN email_recipients er ON er.email_id = e.id
+    JOIN contacts c ON c.id = er.contact_id
+    WHERE e.owner_id = $1 AND c.address = $2
+      AND e.created_at BETWEEN $3 AND $4
+      AND ($5::text IS NULL OR e.subject = $5)
+    ORDER BY e.created_at, e.id
+  `, [
+    ownerId,
+    normalizeAddress(lookup.recipient),
+    toDbDate(new Date(lookup.sentAt.getTime() - slackMs)),
+    toDbDate(new Date(lookup.sentAt.getTime() + slackMs)),
+    lookup.subject,
+  ]);
+  return rows.map((row) => row.id);
+}
+
+async function lookupReadReceipts(ownerId: number, lookups: EmailLookup[]): Promise<(ReadReceipt | null)[]> {
+  const receipts: (ReadReceipt | null)[] = [];
+  for (const lookup of lookups) {
+    const emailIds = await findEmailIds(ownerId, lookup);
+    if (emailIds.length === 0) {
+      receipts.push(null);
+      continue;
+    }
+
+    const summary = (await one<Omit<ReadReceipt, 'email_ids'>>(`
+      SELECT
+        COUNT(*) as open_count,
+        COUNT(*) FILTER (WHERE ${READ_OPENS}) as read_count,
+        MAX(opened_at) FILTER (WHERE ${READ_OPENS}) as last_read_at
+      FROM opens
+      WHERE email_id = ANY($1)
+    `, [emailIds]))!;
+    receipts.push({ email_ids: emailIds, ...summary });
+  }
+  return receipts;
+}
+
+async function updateEmails(ownerId: number, emailIds: string[], changes: EmailChanges): Promise<string[]> {
+  const params: unknown[] = [ownerId, emailIds];
+  const bind = (value: unknown) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  const sets: string[] = [];
+  if (changes.subject !== undefined) sets.push(`subject = ${bind(changes.subject)}`);
+  if (changes.sender !== undefined) sets.push(`sender = ${bind(changes.sender)}`);
+  if (changes.thread_id !== undefined) sets.push(`thread_id = ${bind(changes.thread_id)}`);
+  if (changes.message_id !== undefined) sets.push(`message_id = ${bind(changes.message_id)}`);
+  if (changes.archived !== undefined) {
+    sets.push(changes.archived ? `archived_at = COALESCE(archived_at, ${NOW})` : 'archived_at = NULL');
+  }
+  if (changes.tracking_paused !== undefined) {
+    sets.push(changes.tracking_paused ? `tracking_paused_at = COALESCE(tracking_paused_at, ${NOW})` : 'tracking_paused_at = NULL');
+  }
+  if (changes.tags !== undefined || changes.add_tags !== undefined || changes.remove_tags !== undefined) {
+    const base = changes.tags !== undefined ? `${bind(changes.tags)}::text[]` : 'tags';
+    sets.push(`tags = ARRAY(
+      SELECT unnest(${base} || ${bind(changes.add_tags ?? [])}::text[])
+      EXCEPT SELECT unnest(${bind(changes.remove_tags ?? [])}::text[])
+      ORDER BY 1
+    )`);
+  }
+
+  const owned = 'owner_id = $1 AND id = ANY($2)';
+  const rows = sets.length > 0
+    ? await many<{ id: string }>(`UPDATE emails SET ${sets.join(', ')} WHERE ${owned} RETURNING id`, params)
+    : await many<{ id: string }>(`SELECT id FROM emails WHERE ${owned}`, params);
+  return rows.map((row) => row.id);
+}
+
+// ============================================
+// Opens & Clicks
+// ============================================
+
+/**
+ * Record an email open event - same rules as the SQLite recordOpen
+ */
+async function recordOpen(data: {
+  emailId: string;
+  ipAddress?: string;
+  userAgent?: string;
+  senderMarker?: string;
+}): Promise<Open | null> {
+  const email = await getEmailById(data.emailId);
+  if (!email) return null;
+
+  if (email.tracking_paused_at) {
+    console.log(`[db] Ignoring open for ${data.emailId} - tracking paused`);
+    return null;
+  }
+
+  if (data.senderMarker && email.owner_id !== null) {
+    const owner = await one<{ sender_marker: string | null }>('SELECT sender_marker FROM users WHERE id = $1', [email.owner_id]);
+    if (matchesSenderMarker(owner?.sender_marker, data.senderMarker)) {
+      console.log(`[db] Ignoring open for ${data.emailId} - sender's own browser`);
+      return null;
+    }
+  }
+
+  // Counted from zero like SQLite's: a scheduled email's created_at is in the future,
+  // and TIMESTAMP(0) rounds to the nearest second, so a new email can read as
+  // created up to half a second from now
+  const secondsSinceCreation = Math.max(0, (Date.now() - parseDbDate(email.created_at).getTime()) / 1000);
+  if (secondsSinceCreation < config.opens.phantomSeconds) {
+    console.log(`[db] Ignoring open for ${data.emailId} - too soon after creation (${secondsSinceCreation.toFixed(1)}s)`);
+    return null;
+  }
+
+  const storedIp = anonymizeIp(data.ipAddress);
+  const recentOpen = await one<Open>(`
+    SELECT * FROM opens
+    WHERE email_id = $1
+      AND ip_address = $2
+      AND opened_at > ${NOW} - make_interval(secs => $3)
+    LIMIT 1
+  `, [data.emailId, storedIp, config.opens.duplicateSeconds]);
+
+  if (recentOpen) {
+    console.log(`[db] Skipping duplicate open for ${data.emailId} from ${storedIp}`);
+    return recentOpen;
+  }
+
+  const classification = classifyOpen({
+    userAgent: data.userAgent,
+    ipAddress: data.ipAddress,
+    secondsSinceCreation,
+  });
+  const { client, os, device_type } = parseUserAgent(data.userAgent);
+  const location = lookupIp(data.ipAddress);
+
+  const open = (await one<Open>(`
+    INSERT INTO opens (
+      email_id, ip_address, user_agent, classification,
+      client, os, device_type, country, region, city, asn, as_org, opened_at
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, ${NOW})
+    RETURNING *
+  `, [
+    data.emailId, storedIp, data.userAgent || null, classification,
+    client, os, device_type,
+    location.country, location.region, location.city, location.asn, location.as_org,
+  ]))!;
+  console.log(`[db] Recorded ${classification} open for ${data.emailId} (${secondsSinceCreation.toFixed(0)}s after creation)`);
+
+  // The opens_counters trigger has already bumped the totals
+  const counts = (await one<Pick<Email, 'open_count' | 'human_open_count' | 'last_opened_at'>>(`
+    SELECT open_count, human_open_count, last_opened_at FROM emails WHERE id = $1
+  `, [data.emailId]))!;
+
+  await emitEvent('email.opened', email.owner_id, {
+    email_id: email.id,
+    recipient: email.recipient,
+    subject: email.subject,
+    open,
+    ...counts,
+  });
+
+  return open;
+}
+
+async function getOpensForEmail(emailId: string): Promise<Open[]> {
+  return many<Open>('SELECT * FROM opens WHERE email_id = $1 ORDER BY opened_at DESC', [emailId]);
+}
+
+async function getOpenFeed(ownerId: number, options: OpenFeedOptions): Promise<FeedOpen[]> {
+  const params: unknown[] = [];
+  const bind = (value: unknown) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  const conditions = [`e.owner_id = ${bind(ownerId)}`, `o.id > ${bind(options.sinceId)}`];
+
+  if (options.emailId) {
+    conditions.push(`o.email_id = ${bind(options.emailId)}`);
+  }
+  if (options.recipient) {
+    conditions.push(`o.email_id IN (
+      SELECT er.email_id FROM email_recipients er
+      JOIN contacts c ON c.id = er.contact_id
+      WHERE c.address = ${bind(normalizeAddress(options.recipient))}
+    )`);
+  }
+  if (options.from) {
+    conditions.push(`o.opened_at >= ${bind(options.from)}`);
+  }
+  if (options.to) {
+    conditions.push(`o.opened_at < ${bind(options.to)}`);
+  }
+
+  return many<FeedOpen>(`
+    SELECT o.*, e.recipient, e.subject FROM opens o
+    JOIN emails e ON e.id = o.email_id
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY o.id
+    LIMIT ${bind(options.limit)}
+  `, params);
+}
+
+async function getOpensForEmails(emailIds: string[]): Promise<Open[]> {
+  if (emailIds.length === 0) return [];
+  return many<Open>('SELECT * FROM opens WHERE email_id = ANY($1) ORDER BY email_id, opened_at, id', [emailIds]);
+}
+
+async function importEmail(ownerId: number, email: PortableEmail): Promise<ImportOutcome> {
+  return transaction(async (client) => {
+    const inserted = await one<{ id: string }>(`
+      INSERT INTO emails (id, recipient, subject, sender, owner_id, created_at)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (id) DO NOTHING
+      RETURNING id
+    `, [email.id, email.recipient, email.subject, email.sender, ownerId, email.created_at], client);
+
+    if (!inserted) {
+      const existing = await one<{ owner_id: number | null }>('SELECT owner_id FROM emails WHERE id = $1', [email.id], client);
+      return existing?.owner_id === ownerId ? 'exists' : 'conflict';
+    }
+
+    await addRecipients(client, email.id, parseRecipientString(email.recipient));
+    // Anonymized like live opens (see importEmail in db.ts)
+    for (const open of email.opens) {
+      await client.query(`
+        INSERT INTO opens (
+          email_id, opened_at, ip_address, user_agent, classification,
+          client, os, device_type, country, region, city, asn, as_org
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+      `, [
+        email.id, open.opened_at, anonymizeIp(open.ip_address), open.user_agent, open.classification,
+        open.client, open.os, open.device_type, open.country, open.region, open.city, open.asn, open.as_org,
+      ]);
+    }
+    return 'imported';
+  });
+}
+
+async function getUnlocatedOpens(afterId: number, limit: number): Promise<Pick<Open, 'id' | 'ip_address'>[]> {
+  return many<Pick<Open, 'id' | 'ip_address'>>(`
+    SELECT id, ip_address FROM opens
+    WHERE id > $1 AND ip_address IS NOT NULL
+      AND country IS NULL AND region IS NULL AND city IS NULL AND asn IS NULL AND as_org IS NULL
+    ORDER BY id
+    LIMIT $2
+  `, [afterId, limit]);
+}
+
+async function setOpenLocation(id: number, location: GeoLocation): Promise<void> {
+  await pool.query(`
+    UPDATE opens SET country = $2, region = $3, city = $4, asn = $5, as_org = $6 WHERE id = $1
+  `, [id, location.country, location.region, location.city, location.asn, location.as_org]);
+}
+
+async function getLink(emailId: string, linkId: number): Promise<Link | null> {
+  if (!Number.isInteger(linkId)) return null;
+  return one<Link>('SELECT * FROM links WHERE id = $1 AND email_id = $2', [linkId, emailId]);
+}
+
+async function getLinksForEmail(emailId: string): Promise<Link[]> {
+  return many<Link>('SELECT * FROM links WHERE email_id = $1 ORDER BY id', [emailId]);
+}
+
+async function recordClick(data: { emailId: string; linkId: number; ipAddress?: string; userAgent?: string }): Promise<Click | null> {
+  const click = await one<Click>(`
+    INSERT INTO clicks (email_id, link_id, ip_address, user_agent, clicked_at)
+    SELECT $1, $2, $3, $4, ${NOW}
+    WHERE NOT EXISTS (SELECT 1 FROM emails WHERE id = $1 AND tracking_paused_at IS NOT NULL)
+    RETURNING *
+  `, [data.emailId, data.linkId, anonymizeIp(data.ipAddress), data.userAgent || null]);
+  if (!click) {
+    console.log(`[db] Ignoring click for ${data.emailId} - tracking paused`);
+    return null;
+  }
+  console.log(`[db] Recorded click for ${data.emailId} on link ${data.linkId}`);
+  return click;
+}
+
+// ============================================
+// Stats & Analytics
+// ============================================
+
+async function getStats(ownerId: number): Promise<Stats> {
+  const ownOpens = 'opens o JOIN emails e ON e.id = o.email_id WHERE e.owner_id = $1';
+  const ownClicks = 'clicks c JOIN emails e ON e.id = c.email_id WHERE e.owner_id = $1';
+  const count = async (sql: string) => (await one<{ count: number }>(sql, [ownerId]))!.count;
+
+  const [totalEmails, totalOpens, emailsOpened, emailsOpenedHuman, totalClicks, emailsClicked, byClassification] = await Promise.all([
+    count('SELECT COUNT(*) as count FROM emails WHERE owner_id = $1'),
+    count(`SELECT COUNT(*) as count FROM ${ownOpens}`),
+    count(`SELECT COUNT(DISTINCT o.email_id) as count FROM ${ownOpens}`),
+    count(`SELECT COUNT(DISTINCT o.email_id) as count FROM ${ownOpens} AND o.classification = 'human'`),
+    count(`SELECT COUNT(*) as count FROM ${ownClicks}`),
+    count(`SELECT COUNT(DISTINCT c.email_id) as count FROM ${ownClicks}`),
+    many<{ classification: OpenClassification | null; count: number }>(
+      `SELECT o.classification, COUNT(*) as count FROM ${ownOpens} GROUP BY o.classification`,
+      [ownerId]
+    ),
+  ]);
+
+  const opensByClassification = emptyClassificationCounts();
+  for (const row of byClassification) {
+    opensByClassification[row.classification ?? 'unknown'] += row.count;
+  }
+
+  return {
+    total_emails: totalEmails,
+    total_opens: totalOpens,
+    emails_opened: emailsOpened,
+    open_rate: percentage(emailsOpened, totalEmails),
+    human_opens: opensByClassification.human,
+    emails_opened_human: emailsOpenedHuman,
+    human_open_rate: percentage(emailsOpenedHuman, totalEmails),
+    opens_by_classification: opensByClassification,
+    total_clicks: totalClicks,
+    emails_clicked: emailsClicked,
+    click_rate: percentage(emailsClicked, totalEmails),
+  };
+}
+
+// date_trunc weeks start on Monday, like the SQLite buckets
+const INTERVAL_FORMATS: Record<StatsInterval, string> = {
+  hour: 'YYYY-MM-DD HH24:00',
+  day: 'YYYY-MM-DD',
+  week: 'YYYY-MM-DD',
+};
+
+async function getTimeseries(ownerId: number, range: StatsRange, interval: StatsInterval): Promise<TimeseriesBucket[]> {
+  const local = (column: string) => `(${column} + make_interval(mins => $4))`;
+  const key = (column: string) => `date_trunc('${interval}', ${local(column)})`;
+
+  return many<TimeseriesBucket>(`
+    WITH series AS (
+      SELECT generate_series(
+        ${key('$2::timestamp')},
+        ${local('$3::timestamp')} - interval '1 second',
+        interval '1 ${interval}'
+      ) as bucket
+    ),
+    sent AS (
+      SELECT ${key('created_at')} as bucket, COUNT(*) as emails_sent
+      FROM emails
+      WHERE owner_id = $1 AND created_at >= $2 AND created_at < $3
+      GROUP BY 1
+    ),
+    opened AS (
+      SELECT
+        ${key('o.opened_at')} as bucket,
+        COUNT(*) as opens,
+        COUNT(*) FILTER (WHERE o.classification = 'human') as human_opens
+      FROM opens o
+      JOIN emails e ON e.id = o.email_id
+      WHERE e.owner_id = $1 AND o.opened_at >= $2 AND o.opened_at < $3
+      GROUP BY 1
+    )
+    SELECT
+      to_char(series.bucket, '${INTERVAL_FORMATS[interval]}') as bucket,
+      COALESCE(sent.emails_sent, 0) as emails_sent,
+      COALESCE(opened.opens, 0) as opens,
+      COALESCE(opened.human_opens, 0) as human_opens
+    FROM series
+    LEFT JOIN sent ON sent.bucket = series.bucket
+    LEFT JOIN opened ON opened.bucket = series.bucket
+    ORDER BY series.bucket
+  `, [ownerId, range.from, range.to, range.utcOffsetMinutes]);
+}
+
+async function getEngagementStats(ownerId: number, range: StatsRange): Promise<EngagementStats> {
+  const humanOpens = `
+    WITH human_opens AS (
+      SELECT o.email_id, o.opened_at, e.created_at
+      FROM opens o
+      JOIN emails e ON e.id = o.email_id
+      WHERE e.owner_id = $1
+        AND e.created_at >= $2 AND e.created_at < $3
+        AND o.classification = 'human'
+    )
+  `;
+  const params = [ownerId, range.from, range.to];
+
+  // percentile_disc is nearest-rank, the same definition the SQLite query uses
+  const [latency, heatmapRows, reopens] = await Promise.all([
+    one<EngagementStats['time_to_first_open']>(`
+      ${humanOpens},
+      first_opens AS (
+        SELECT EXTRACT(EPOCH FROM MIN(opened_at) - created_at) as seconds
+        FROM human_opens
+        GROUP BY email_id, created_at
+      )
+      SELECT
+        COUNT(*) as count,
+        AVG(seconds) as average,
+        percentile_disc(0.50) WITHIN GROUP (ORDER BY seconds) as p50,
+        percentile_disc(0.75) WITHIN GROUP (ORDER BY seconds) as p75,
+        percentile_disc(0.90) WITHIN GROUP (ORDER BY seconds) as p90,
+        percentile_disc(0.95) WITHIN GROUP (ORDER BY seconds) as p95
+      FROM first_opens
+    `, params),
+    many<{ day: number; hour: number; opens: number }>(`
+      ${humanOpens}
+      SELECT
+        EXTRACT(DOW FROM opened_at + make_interval(mins => $4))::int as day,
+        EXTRACT(HOUR FROM opened_at + make_interval(mins => $4))::int as hour,
+        COUNT(*) as opens
+      FROM human_opens
+      GROUP BY 1, 2
+    `, [...params, range.utcOffsetMinutes]),
+    one<{ emails_opened: number; emails_reopened: number }>(`
+      ${humanOpens}
+      SELECT
+        COUNT(*) as emails_opened,
+        COUNT(*) FILTER (WHERE open_count > 1) as emails_reopened
+      FROM (
+        SELECT COUNT(*) as open_count FROM human_opens GROUP BY email_id
+      ) per_email
+    `, params),
+  ]);
+
+  const heatmap = Array.from({ length: 7 }, () => Array<number>(24).fill(0));
+  for (const row of heatmapRows) {
+    heatmap[row.day][row.hour] = row.opens;
+  }
+
+  const round = (value: number | null) => (value === null ? null : Math.round(value));
+
+  return {
+    time_to_first_open: {
+      count: latency!.count,
+      average: round(latency!.average),
+      p50: round(latency!.p50),
+      p75: round(latency!.p75),
+      p90: round(latency!.p90),
+      p95: round(latency!.p95),
+    },
+    heatmap,
+    emails_opened: reopens!.emails_opened,
+    emails_reopened: reopens!.emails_reopened,
+    reopen_rate: percentage(reopens!.emails_reopened, reopens!.emails_opened),
+  };
+}
+
+// ============================================
+// Contacts
+// ============================================
+
+// See db.ts: a contact's opens are the opens of every email they received
+const CONTACT_STATS_SELECT = `
+  SELECT
+    c.*,
+    COUNT(DISTINCT er.email_id) as email_count,
+    COUNT(DISTINCT o.email_id) as emails_opened,
+    COUNT(o.id) as open_count,
+    MAX(e.created_at) as last_emailed_at,
+    MAX(o.opened_at) as last_opened_at
+  FROM contacts c
+  JOIN (SELECT DISTINCT email_id, contact_id FROM email_recipients) er ON er.contact_id = c.id
+  JOIN emails e ON e.id = er.email_id
+  LEFT JOIN opens o ON o.email_id = er.email_id
+`;
+
+async function getAllContacts(ownerId: number): Promise<ContactWithStats[]> {
+  const contacts = await many<Omit<ContactWithStats, 'open_rate'>>(`
+    ${CONTACT_STATS_SELECT}
+    WHERE e.owner_id = $1
+    GROUP BY c.id
+    ORDER BY last_emailed_at DESC
+  `, [ownerId]);
+
+  return contacts.map(withOpenRate);
+}
+
+async function getContactWithHistory(address: string, ownerId: number): Promise<ContactWithHistory | null> {
+  const contact = await one<Omit<ContactWithStats, 'open_rate'>>(`
+    ${CONTACT_STATS_SELECT}
+    WHERE c.address = $1 AND e.owner_id = $2
+    GROUP BY c.id
+  `, [normalizeAddress(address), ownerId]);
+
+  if (!contact) return null;
+
+  // One row per email, keeping the contact's most prominent role on it
+  const emails = await many<ContactEmail>(`
+    SELECT DISTINCT ON (e.created_at, e.id) e.*, er.role
+    FROM email_recipients er
+    JOIN emails e ON e.id = er.email_id
+    WHERE er.contact_id = $1 AND e.owner_id = $2
+    ORDER BY e.created_at DESC, e.id, CASE er.role WHEN 'to' THEN 0 WHEN 'cc' THEN 1 ELSE 2 END
+  `, [contact.id, ownerId]);
+
+  return {
+    ...withOpenRate(contact),
+    emails,
+  };
+}
+
+// ============================================
+// Retention & Erasure
+// ============================================
+
+const DELETE_BATCH_SIZE = 500;
+
+/**
+ * Delete emails and everything that refers to them (see the SQLite version)
+ */
+async function deleteEmailRows(client: PoolClient, emailIds: string[]): Promise<DeletionCounts> {
+  const eventIds = `
+    SELECT id FROM events
+    WHERE (type LIKE 'email.%' OR type LIKE 'reminder.%')
+      AND COALESCE(data->>'email_id', data->>'id') = ANY($1)
+  `;
+
+  await client.query(`DELETE FROM webhook_deliveries WHERE event_id IN (${eventIds})`, [emailIds]);
+  await client.query(`DELETE FROM events WHERE id IN (${eventIds})`, [emailIds]);
+  await client.query('DELETE FROM reminders WHERE email_id = ANY($1)', [emailIds]);
+  const clicks = await client.query('DELETE FROM clicks WHERE email_id = ANY($1)', [emailIds]);
+  await client.query('DELETE FROM links WHERE email_id = ANY($1)', [emailIds]);
+  const opens = await client.query('DELETE FROM opens WHERE email_id = ANY($1)', [emailIds]);
+  await client.query('DELETE FROM email_recipients WHERE email_id = ANY($1)', [emailIds]);
+  const emails = await client.query('DELETE FROM emails WHERE id = ANY($1)', [emailIds]);
+  await client.query(`
+    DELETE FROM contacts c
+    WHERE NOT EXISTS (SELECT 1 FROM email_recipients er WHERE er.contact_id = c.id)
+  `);
+
+  return { emails: emails.rowCount ?? 0, opens: opens.rowCount ?? 0, clicks: clicks.rowCount ?? 0 };
+}
+
+async function purgeActivity(maxAgeDays: number): Promise<Pick<DeletionCounts, 'opens' | 'clicks'>> {
+  return transaction(async (client) => {
+    const opens = await client.query(`
+      DELETE FROM opens WHERE opened_at < ${NOW} - make_interval(days => $1)
+    `, [maxAgeDays]);
+    const clicks = await client.query(`
+      DELETE FROM clicks WHERE clicked_at < ${NOW} - make_interval(days => $1)
+    `, [maxAgeDays]);
+    return { opens: opens.rowCount ?? 0, clicks: clicks.rowCount ?? 0 };
+  });
+}
+
+async function purgeEmails(maxAgeDays: number): Promise<DeletionCounts> {
+  const total: DeletionCounts = { emails: 0, opens: 0, clicks: 0 };
+
+  for (;;) {
+    const deleted = await transaction(async (client) => {
+      // SKIP LOCKED: another server running the same purge takes different rows
+      const rows = await many<{ id: string }>(`
+        SELECT id FROM emails
+        WHERE created_at < ${NOW} - make_interval(days => $1)
+        LIMIT $2
+        FOR UPDATE SKIP LOCKED
+      `, [maxAgeDays, DELETE_BATCH_SIZE], client);
+      return rows.length > 0 ? deleteEmailRows(client, rows.map((row) => row.id)) : null;
+    });
+    if (!deleted) return total;
+
+    total.emails += deleted.emails;
+    total.opens += deleted.opens;
+    total.clicks += deleted.clicks;
+  }
+}
+
+async function eraseRecipient(ownerId: number, address: string): Promise<RecipientErasure> {
+  const normalized = normalizeAddress(address);
+
+  return transaction(async (client) => {
+    const rows = await many<{ id: string }>(`
+      SELECT DISTINCT e.id
+      FROM emails e
+      JOIN email_recipients er ON er.email_id = e.id
+      JOIN contacts c ON c.id = er.contact_id
+      WHERE e.owner_id = $1 AND c.address = $2
+    `, [ownerId, normalized], client);
+    const emailIds = rows.map((row) => row.id);
+
+    const deleted = emailIds.length > 0 ? await deleteEmailRows(client, emailIds) : { emails: 0, opens: 0, clicks: 0 };
+    return { address: normalized, email_ids: emailIds, ...deleted };
+  });
+}
+
+async function deleteEmails(ownerId: number, emailIds: string[]): Promise<DeletionCounts> {
+  return transaction(async (client) => {
+    const rows = await many<{ id: string }>(`
+      SELECT id FROM emails WHERE owner_id = $1 AND id = ANY($2) FOR UPDATE
+    `, [ownerId, emailIds], client);
+
+    return rows.length > 0 ? deleteEmailRows(client, rows.map((row) => row.id)) : { emails: 0, opens: 0, clicks: 0 };
+  });
+}
+
+// ============================================
+// Reminders
+// ============================================
+
+// Opens that mean someone read the email; prefetches and scanners don't count
+const READ_OPENS = "classification IN ('human', 'proxy')";
+
+const REMINDER_WITH_EMAIL_SELECT = `
+  SELECT r.*, e.recipient, e.subject
+  FROM reminders r
+  JOIN emails e ON e.id = r.email_id
+`;
+
+async function addReminder(client: PoolClient, emailId: string, ownerId: number, kind: ReminderKind, delayHours: number): Promise<void> {
+  await client.query(`
+    INSERT INTO reminders (email_id, owner_id, kind, delay_hours, due_at)
+    VALUES ($1, $2, $3, $4, CASE WHEN $3 = 'not_opened'
+      THEN (SELECT created_at FROM emails WHERE id = $1) + make_interval(hours => $4) END)
+  `, [emailId, ownerId, kind, delayHours]);
+}
+
+async function getReminders(ownerId: number, status?: ReminderStatus): Promise<ReminderWithEmail[]> {
+  return many<ReminderWithEmail>(`
+    ${REMINDER_WITH_EMAIL_SELECT}
+    WHERE r.owner_id = $1 AND ($2::text IS NULL OR r.status = $2)
+    ORDER BY r.due_at IS NULL, r.due_at, r.id
+  `, [ownerId, status ?? null]);
+}
+
+async function snoozeReminder(id: number, ownerId: number, hours: number): Promise<Reminder | null> {
+  return one<Reminder>(`
+    UPDATE reminders SET status = 'pending', due_at = ${NOW} + make_interval(hours => $3), fired_at = NULL
+    WHERE id = $1 AND owner_id = $2 AND status = 'due'
+    RETURNING *
+  `, [id, ownerId, hours]);
+}
+
+async function dismissReminder(id: number, ownerId: number): Promise<Reminder | null> {
+  return one<Reminder>(`
+    UPDATE reminders SET status = 'dismissed'
+    WHERE id = $1 AND owner_id = $2 AND status IN ('pending', 'due')
+    RETURNING *
+  `, [id, ownerId]);
+}
+
+async function fireDueReminders(): Promise<ReminderWithEmail[]> {
+  const fired = await transaction(async (client) => {
+    await client.query(`
+      UPDATE reminders r SET due_at = (
+        SELECT MIN(o.opened_at) FROM opens o WHERE o.email_id = r.email_id AND o.${READ_OPENS}
+      ) + make_interval(hours => r.delay_hours)
+      WHERE r.status = 'pending' AND r.kind = 'opened' AND r.due_at IS NULL
+        AND EXISTS (SELECT 1 FROM opens o WHERE o.email_id = r.email_id AND o.${READ_OPENS})
+    `);
+
+    await client.query(`
+      UPDATE reminders r SET status = 'cancelled'
+      WHERE r.status = 'pending' AND r.kind = 'not_opened'
+        AND EXISTS (SELECT 1 FROM opens o WHERE o.email_id = r.email_id AND o.${READ_OPENS})
+    `);
+
+    // Another process running this at the same time waits on the row locks,
+    // then finds the reminders no longer pending
+    const rows = await many<{ id: number }>(`
+      UPDATE reminders SET status = 'due', fired_at = ${NOW}
+      WHERE status = 'pending' AND due_at <= ${NOW}
+      RETURNING id
+    `, [], client);
+
+    return many<ReminderWithEmail>(`
+      ${REMINDER_WITH_EMAIL_SELECT}
+      WHERE r.id = ANY($1)
+      ORDER BY r.due_at, r.id
+    `, [rows.map((row) => row.id)], client);
+  });
+
+  for (const reminder of fired) {
+    await emitEvent('reminder.due', reminder.owner_id, { ...reminder });
+  }
+  return fired;
+}
+
+// ============================================
+// Campaigns
+// ============================================
+
+async function getVariants(campaignIds: number[]): Promise<CampaignVariant[]> {
+  return many<CampaignVariant>('SELECT * FROM campaign_variants WHERE campaign_id = ANY($1) ORDER BY id', [campaignIds]);
+}
+
+async function createCampaign(data: {
+  ownerId: number;
+  name: string;
+  description?: string;
+  variants: { name: string; subject?: string }[];
+}): Promise<Campaign> {
+  const id = await transaction(async (client) => {
+    const campaign = await one<{ id: number }>(`
+      INSERT INTO campaigns (owner_id, name, description) VALUES ($1, $2, $3) RETURNING id
+    `, [data.ownerId, data.name, data.description || null], client);
+
+    for (const variant of data.variants) {
+      await client.query(`
+        INSERT INTO campaign_variants (campaign_id, name, subject) VALUES ($1, $2, $3)
+      `, [campaign!.id, variant.name, variant.subject || null]);
+    }
+    return campaign!.id;
+  });
+
+  return (await getCampaign(data.ownerId, id))!;
+}
+
+async function getCampaigns(ownerId: number): Promise<CampaignSummary[]> {
+  const rows = await many<Omit<CampaignSummary, 'variants' | 'open_rate'>>(`
+    SELECT
+      c.*,
+      COUNT(e.id) as email_count,
+      COUNT(*) FILTER (WHERE EXISTS (SELECT 1 FROM opens o WHERE o.email_id = e.id AND o.${READ_OPENS})) as emails_opened
+    FROM campaigns c
+    LEFT JOIN emails e ON e.campaign_id = c.id
+    WHERE c.owner_id = $1
+    GROUP BY c.id
+    ORDER BY c.created_at DESC, c.id DESC
+  `, [ownerId]);
+
+  const variants = await getVariants(rows.map((row) => row.id));
+  return rows.map((row) => ({
+    ...row,
+    open_rate: percentage(row.emails_opened, row.email_count),
+    variants: variants.filter((variant) => variant.campaign_id === row.id),
+  }));
+}
+
+async function getCampaign(ownerId: number, id: number): Promise<Campaign | null> {
+  const campaign = await one<Omit<Campaign, 'variants'>>('SELECT * FROM campaigns WHERE id = $1 AND owner_id = $2', [id, ownerId]);
+  return campaign ? { ...campaign, variants: await getVariants([id]) } : null;
+}
+
+async function getCampaignReport(ownerId: number, id: number): Promise<CampaignReport | null> {
+  const campaign = await getCampaign(ownerId, id);
+  if (!campaign) return null;
+
+  const rows = await many<CampaignEmailRow>(`
+    SELECT
+      e.id as email_id,
+      e.variant_id,
+      c.address,
+      COALESCE(r.read_count, 0) as read_count,
+      e.click_count,
+      r.last_read_at,
+      EXTRACT(EPOCH FROM r.first_read_at - e.created_at) as seconds_to_open
+    FROM emails e
+    LEFT JOIN (SELECT DISTINCT email_id, contact_id FROM email_recipients) er ON er.email_id = e.id
+    LEFT JOIN contacts c ON c.id = er.contact_id
+    LEFT JOIN (
+      SELECT email_id, COUNT(*) as read_count, MIN(opened_at) as first_read_at, MAX(opened_at) as last_read_at
+      FROM opens
+      WHERE ${READ_OPENS} AND email_id IN (SELECT id FROM emails WHERE campaign_id = $1)
+      GROUP BY email_id
+    ) r ON r.email_id = e.id
+    WHERE e.campaign_id = $1
+  `, [id]);
+
+  return buildCampaignReport(campaign, rows);
+}
+
+// ============================================
+// Reservations
+// ============================================
+
+async function reserveEmailId(ownerId: number): Promise<Reservation> {
+  const reservation = await one<Reservation>(`
+    INSERT INTO reservations (id, owner_id) VALUES ($1, $2) RETURNING *
+  `, [generateTrackingId(), ownerId]);
+  return reservation!;
+}
+
+async function getReservation(id: string): Promise<Reservation | null> {
+  return one<Reservation>('SELECT * FROM reservations WHERE id = $1', [id]);
+}
+
+/**
+ * The reservation is taken before the email is written, so of two confirmations
+ * racing for it only one goes on to create the email. Both happen in one
+ * transaction, so a failed insert leaves the reservation for a retry
+ */
+async function confirmReservation(id: string, data: NewEmail): Promise<Email | null> {
+  const confirmed = await transaction(async (client) => {
+    const reserved = await client.query('DELETE FROM reservations WHERE id = $1 AND owner_id = $2', [id, data.ownerId]);
+    if (!reserved.rowCount) return false;
+    await insertEmail(client, id, data);
+    return true;
+  });
+  return confirmed ? announceEmail(id) : null;
+}
+
+async function releaseReservation(id: string, ownerId: number): Promise<boolean> {
+  const result = await pool.query('DELETE FROM reservations WHERE id = $1 AND owner_id = $2', [id, ownerId]);
+  return (result.rowCount ?? 0) > 0;
+}
+
+async function pruneReservations(maxAgeHours: number): Promise<number> {
+  const result = await pool.query(`
+    DELETE FROM reservations WHERE created_at < ${NOW} - make_interval(hours => $1)
+  `, [maxAgeHours]);
+  return result.rowCount ?? 0;
+}
+
+// ============================================
+// Secrets
+// ============================================
+
+async function getSecret(name: string): Promise<string> {
+  // Of several processes starting at once, the first insert wins and all read it back
+  await pool.query('INSERT INTO secrets (name, value) VALUES ($1, $2) ON CONFLICT (name) DO NOTHING', [name, generateSecret()]);
+  return (await one<{ value: string }>('SELECT value FROM secrets WHERE name = $1', [name]))!.value;
+}
+
+// ============================================
+// Users, Sessions & API Keys
+// ============================================
+
+async function createUser(data: { email: string; name?: string; passwordHash: string }): Promise<User> {
+  const { id } = (await one<{ id: number }>(`
+    INSERT INTO users (email, name, password_hash) VALUES ($1, $2, $3) RETURNING id
+  `, [normalizeAddress(data.email), data.name || null, data.passwordHash]))!;
+  return (await getUserById(id))!;
+}
+
+async function countUsers(): Promise<number> {
+  return (await one<{ count: number }>('SELECT COUNT(*) as count FROM users'))!.count;
+}
+
+async function claimUnownedEmails(userId: number): Promise<number> {
+  const result = await pool.query('UPDATE emails SET owner_id = $1 WHERE owner_id IS NULL', [userId]);
+  return result.rowCount ?? 0;
+}
+
+async function getUserById(id: number): Promise<User | null> {
+  return one<User>('SELECT id, email, name, created_at FROM users WHERE id = $1', [id]);
+}
+
+async function getUserByEmail(email: string): Promise<UserWithPassword | null> {
+  return one<UserWithPassword>('SELECT * FROM users WHERE email = $1', [normalizeAddress(email)]);
+}
+
+async function getSenderMarker(userId: number): Promise<string> {
+  const row = await one<{ sender_marker: string }>(`
+    UPDATE users SET sender_marker = COALESCE(sender_marker, $2) WHERE id = $1 RETURNING sender_marker
+  `, [userId, generateSenderMarker()]);
+  return row!.sender_marker;
+}
+
+async function createSession(data: { userId: number; tokenHash: string; ttlDays: number }): Promise<void> {
+  await pool.query(`
+    INSERT INTO sessions (token_hash, user_id, expires_at)
+    VALUES ($1, $2, ${NOW} + make_interval(days => $3))
+  `, [data.tokenHash, data.userId, data.ttlDays]);
+}
+
+async function getUserBySessionHash(tokenHash: string): Promise<User | null> {
+  return one<User>(`
+    SELECT u.id, u.email, u.name, u.created_at
+    FROM sessions s
+    JOIN users u ON u.id = s.user_id
+    WHERE s.token_hash = $1 AND s.expires_at > ${NOW}
+  `, [tokenHash]);
+}
+
+async function deleteSession(tokenHash: string): Promise<void> {
+  await pool.query('DELETE FROM sessions WHERE token_hash = $1', [tokenHash]);
+}
+
+async function createApiKey(data: { userId: number; name: string; keyHash: string; prefix: string }): Promise<ApiKey> {
+  return (await one<ApiKey>(`
+    INSERT INTO api_keys (user_id, name, key_hash, prefix)
+    VALUES ($1, $2, $3, $4)
+    RETURNING id, user_id, name, prefix, created_at, last_used_at
+  `, [data.userId, data.name, data.keyHash, data.prefix]))!;
+}
+
+async function getApiKeysForUser(userId: number): Promise<ApiKey[]> {
+  return many<ApiKey>(`
+    SELECT id, user_id, name, prefix, created_at, last_used_at
+    FROM api_keys
+    WHERE user_id = $1
+    ORDER BY created_at DESC
+  `, [userId]);
+}
+
+async function deleteApiKey(id: number, userId: number): Promise<boolean> {
+  if (!Number.isInteger(id)) return false;
+  const result = await pool.query('DELETE FROM api_keys WHERE id = $1 AND user_id = $2', [id, userId]);
+  return (result.rowCount ?? 0) > 0;
+}
+
+async function getUserByApiKeyHash(keyHash: string): Promise<User | null> {
+  return one<User>(`
+    WITH used AS (
+      UPDATE api_keys SET last_used_at = ${NOW} WHERE key_hash = $1 RETURNING user_id
+    )
+    SELECT u.id, u.email, u.name, u.created_at
+    FROM used
+    JOIN users u ON u.id = used.user_id
+  `, [keyHash]);
+}
+
+// ============================================
+// Events
+// ============================================
+
+/**
+ * Persist an event and queue it for the owner's webhooks
+ * - NOTIFY fires on commit and every process (this one included) publishes
+ *   the event to its own subscribers from the listener below
+ */
+async function emitEvent(type: EventType, ownerId: number | null, data: Record<string, unknown>): Promise<TrackerEvent> {
+  return transaction(async (client) => {
+    const event = (await one<TrackerEvent>(`
+      INSERT INTO events (type, owner_id, data) VALUES ($1, $2, $3) RETURNING *
+    `, [type, ownerId, JSON.stringify(data)], client))!;
+
+    if (ownerId !== null) {
+      await enqueueWebhookDeliveries(client, event);
+    }
+    await client.query('SELECT pg_notify($1, $2)', [EVENTS_CHANNEL, String(event.id)]);
+    return event;
+  });
+}
+
+async function publishNotifiedEvent(eventId: number): Promise<void> {
+  try {
+    const event = await one<TrackerEvent>('SELECT * FROM events WHERE id = $1', [eventId]);
+    if (event) publishEvent(event);
+  } catch (error) {
+    console.error(`[events] Error loading event ${eventId}:`, error);
+  }
+}
+
+/**
+ * Hold a dedicated connection LISTENing for events, reconnecting if it drops
+ * - Anything emitted while it's down is still picked up by clients resuming from their cursor
+ */
+async function listenForEvents(): Promise<void> {
+  const client = new Client({ connectionString });
+
+  const reconnect = () => {
+    if (closing || listener !== client) return;
+    listener = null;
+    client.end().catch(() => {});
+    setTimeout(() => {
+      listenForEvents().catch((error) => {
+        console.error('[events] Could not re-listen for events:', error instanceof Error ? error.message : error);
+      });
+    }, LISTENER_RETRY_MS).unref();
+  };
+
+  client.on('notification', (message) => {
+    if (message.channel === EVENTS_CHANNEL && message.payload) {
+      void publishNotifiedEvent(Number(message.payload));
+    }
+  });
+  client.on('error', (error) => {
+    console.error('[events] Lost the event listener connection:', error.message);
+    reconnect();
+  });
+  client.on('end', reconnect);
+
+  listener = client;
+  try {
+    await client.connect();
+    await client.query(`LISTEN ${EVENTS_CHANNEL}`);
+  } catch (error) {
+    reconnect();
+    throw error;
+  }
+}
+
+async function getEventsSince(ownerId: number, sinceId: number, limit = 500): Promise<TrackerEvent[]> {
+  return many<TrackerEvent>(`
+    SELECT * FROM events
+    WHERE owner_id = $1 AND id > $2
+    ORDER BY id
+    LIMIT $3
+  `, [ownerId, sinceId, limit]);
+}
+
+async function getLatestEventId(ownerId: number): Promise<number> {
+  const row = await one<{ id: number | null }>('SELECT MAX(id) as id FROM events WHERE owner_id = $1', [ownerId]);
+  return row?.id ?? 0;
+}
+
+async function pruneEvents(maxAgeDays: number): Promise<number> {
+  const result = await pool.query(`
+    DELETE FROM events WHERE created_at < ${NOW} - make_interval(days => $1)
+  `, [maxAgeDays]);
+  return result.rowCount ?? 0;
+}
+
+// ============================================
+// Webhooks
+// ============================================
+
+async function createWebhook(data: { ownerId: number; url: string; events: EventType[]; secret: string }): Promise<WebhookWithSecret> {
+  return (await one<WebhookWithSecret>(`
+    INSERT INTO webhooks (owner_id, url, secret, events) VALUES ($1, $2, $3, $4) RETURNING *
+  `, [data.ownerId, data.url, data.secret, data.events]))!;
+}
+
+async function getWebhooksForOwner(ownerId: number): Promise<Webhook[]> {
+  return many<Webhook>(`
+    SELECT id, owner_id, url, events, created_at FROM webhooks WHERE owner_id = $1 ORDER BY created_at DESC
+  `, [ownerId]);
+}
+
+async function getWebhookById(id: number): Promise<WebhookWithSecret | null> {
+  return one<WebhookWithSecret>('SELECT * FROM webhooks WHERE id = $1', [id]);
+}
+
+async function deleteWebhook(id: number, ownerId: number): Promise<boolean> {
+  if (!Number.isInteger(id)) return false;
+
+  return transaction(async (client) => {
+    const webhook = await one('SELECT id FROM webhooks WHERE id = $1 AND owner_id = $2', [id, ownerId], client);
+    if (!webhook) return false;
+
+    await client.query('DELETE FROM webhook_deliveries WHERE webhook_id = $1', [id]);
+    await client.query('DELETE FROM webhooks WHERE id = $1', [id]);
+    return true;
+  });
+}
+
+async function enqueueWebhookDeliveries(client: PoolClient, event: TrackerEvent): Promise<void> {
+  await client.query(`
+    INSERT INTO webhook_deliveries (webhook_id, event_id, event_type, payload)
+    SELECT id, $2, $3, $4 FROM webhooks WHERE owner_id = $1 AND $3 = ANY(events)
+  `, [event.owner_id, event.id, event.type, webhookPayload(event)]);
+}
+
+/**
+ * Claim due deliveries for this process
+ * - SKIP LOCKED keeps two processes from claiming the same rows, and pushing
+ *   next_attempt_at out by the lease stops them picking it up afterwards
+ */
+async function getDueWebhookDeliveries(limit: number): Promise<WebhookDelivery[]> {
+  return many<WebhookDelivery>(`
+    UPDATE webhook_deliveries
+    SET next_attempt_at = ${NOW} + make_interval(secs => $2)
+    WHERE id IN (
+      SELECT id FROM webhook_deliveries
+      WHERE status = 'pending' AND next_attempt_at <= ${NOW}
+      ORDER BY next_attempt_at
+      LIMIT $1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `, [limit, DELIVERY_LEASE_SECONDS]);
+}
+
+async function recordWebhookAttempt(data: {
+  id: number;
+  succeeded: boolean;
+  statusCode: number | null;
+  error: string | null;
+  retryInSeconds: number | null;
+}): Promise<void> {
+  const status = deliveryStatus(data.succeeded, data.retryInSeconds);
+
+  await pool.query(`
+    UPDATE webhook_deliveries
+    SET status = $1,
+        attempts = attempts + 1,
+        last_status_code = $2,
+        last_error = $3,
+        next_attempt_at = CASE WHEN $4::float8 IS NULL THEN NULL ELSE ${NOW} + make_interval(secs => $4::float8) END,
+        delivered_at = CASE WHEN $1 = 'succeeded' THEN ${NOW} ELSE delivered_at END
+    WHERE id = $5
+  `, [status, data.statusCode, data.error, data.retryInSeconds, data.id]);
+}
+
+async function getWebhookDeliveries(webhookId: number, ownerId: number, limit = 100): Promise<WebhookDelivery[] | null> {
+  if (!Number.isInteger(webhookId)) return null;
+
+  const webhook = await one('SELECT id FROM webhooks WHERE id = $1 AND owner_id = $2', [webhookId, ownerId]);
+  if (!webhook) return null;
+
+  return many<WebhookDelivery>(`
+    SELECT * FROM webhook_deliveries
+    WHERE webhook_id = $1
+    ORDER BY id DESC
+    LIMIT $2
+  `, [webhookId, limit]);
+}
+
+export function createPostgresRepository(url: string): Repository {
+  connectionString = url;
+  pool = new Pool({ connectionString });
+  pool.on('error', (error) => {
+    // An idle client dropped; the pool replaces it on the next query
+    console.error('[db] PostgreSQL pool error:', error.message);
+  });
+
+  return {
+    name: 'postgres',
+    init,
+    close,
+    createEmail,
+    getEmailById,
+    getEmailWithOpens,
+    getRecipientsForEmail,
+    getEmailsPage,
+    getThread,
+    lookupReadReceipts,
+    updateEmails,
+    deleteEmails,
+    recordOpen,
+    getOpensForEmail,
+    getOpenFeed,
+    getLink,
+    getLinksForEmail,
+    recordClick,
+    getOpensForEmails,
+    importEmail,
+    getUnlocatedOpens,
+    setOpenLocation,
+    purgeActivity,
+    purgeEmails,
+    eraseRecipient,
+    getReminders,
+    snoozeReminder,
+    dismissReminder,
+    fireDueReminders,
+    createCampaign,
+    getCampaigns,
+    getCampaign,
+    getCampaignReport,
+    reserveEmailId,
+    getReservation,
+    confirmReservation,
+    releaseReservation,
+    pruneReservations,
+    getSecret,
+    getStats,
+    getTimeseries,
+    getEngagementStats,
+    getAllContacts,
+    getContactWithHistory,
+    createUser,
+    countUsers,
+    claimUnownedEmails,
+    getUserById,
+    getUserByEmail,
+    getSenderMarker,
+    createSession,
+    getUserBySessionHash,
+    deleteSession,
+    createApiKey,
+    getApiKeysForUser,
+    deleteApiKey,
+    getUserByApiKeyHash,
+    emitEvent,
+    getEventsSince,
+    getLatestEventId,
+    pruneEvents,
+    createWebhook,
+    getWebhooksForOwner,
+    getWebhookById,
+    deleteWebhook,
+    getDueWebhookDeliveries,
+    recordWebhookAttempt,
+    getWebhookDeliveries,
+  };
+}
@@ -0,0 +1,84 @@
+// PostgreSQL schema migrations runner
+// schema_migrations records each version applied. DDL is transactional in Postgres,
+// so everything pending runs in one transaction under an advisory lock - servers
+// starting at the same time wait for each other instead of racing.
+
+import { Pool, PoolClient } from 'pg';
+import { DatabaseTooNewError } from '../../migrate';
+import { PG_MIGRATIONS, PgMigration } from './migrations';
+
+export const PG_LATEST_VERSION = PG_MIGRATIONS.length;
+
+PG_MIGRATIONS.forEach((migration, index) => {
+  if (migration.version !== index + 1) {
+    throw new Error(`Migration "${migration.name}" is version ${migration.version} but is listed at position ${index + 1}`);
+  }
+});
+
+// Arbitrary key for pg_advisory_xact_lock, shared by every server process
+const MIGRATION_LOCK_ID = 7_208_541;
+
+export interface PgMigrationStatus {
+  current: number;
+  latest: number;
+  pending: PgMigration[];
+}
+
+export async function getPgSchemaVersion(client: Pool | PoolClient): Promise<number> {
+  const { rows } = await client.query("SELECT to_regclass('schema_migrations') IS NOT NULL as exists");
+  if (!rows[0].exists) return 0;
+
+  const result = await client.query('SELECT COALESCE(MAX(version), 0) as version FROM schema_migrations');
+  return Number(result.rows[0].version);
+}
+
+export async function getPgMigrationStatus(pool: Pool): Promise<PgMigrationStatus> {
+  const current = await getPgSchemaVersion(pool);
+  return {
+    current,
+    latest: PG_LATEST_VERSION,
+    pending: PG_MIGRATIONS.filter((migration) => migration.version > current),
+  };
+}
+
+/**
+ * Apply pending migrations in order
+ * - Refuses to touch a database newer than the code
+ * - dryRun rolls the transaction back instead of committing it
+ */
+export async function runPgMigrations(pool: Pool, options: { dryRun?: boolean } = {}): Promise<PgMigration[]> {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+    await client.query('SELECT pg_advisory_xact_lock($1)', [MIGRATION_LOCK_ID]);
+
+    const current = await getPgSchemaVersion(client);
+    if (current > PG_LATEST_VERSION) {
+      throw new DatabaseTooNewError(current, PG_LATEST_VERSION);
+    }
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TIMESTAMP(0) NOT NULL DEFAULT (now() AT TIME ZONE 'utc')
+      )
+    `);
+
+    const pending = PG_MIGRATIONS.filter((migration) => migration.version > current);
+    for (const migration of pending) {
+      await client.query(migration.sql);
+      await client.query('INSERT INTO schema_migrations (version, name) VALUES ($1, $2)', [migration.version, migration.name]);
+      console.log(`[db] ${options.dryRun ? 'Would apply' : 'Applied'} migration ${migration.version} (${migration.name})`);
+    }
+
+    await client.query(options.dryRun ? 'ROLLBACK' : 'COMMIT');
+    return pending;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
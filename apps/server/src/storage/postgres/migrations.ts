@@ -0,0 +1,305 @@
+// PostgreSQL schema migrations
+// Same rules as the SQLite ones in src/migrations: append, never edit one that has shipped.
+// Version 1 is the whole schema as of SQLite version 9, since there are no older
+// Postgres databases to carry forward.
+//
+// Timestamps are TIMESTAMP(0) in UTC so they read back exactly like SQLite's CURRENT_TIMESTAMP.
+
+export interface PgMigration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+const NOW_UTC = "(now() AT TIME ZONE 'utc')";
+
+export const PG_MIGRATIONS: PgMigration[] = [
+  {
+    version: 1,
+    name: 'initial',
+    sql: `
+      CREATE TABLE users (
+        id SERIAL PRIMARY KEY,
+        email TEXT NOT NULL UNIQUE,
+        name TEXT,
+        password_hash TEXT NOT NULL,
+        created_at TIMESTAMP(0) NOT NULL DEFAULT ${NOW_UTC}
+      );
+
+      CREATE TABLE api_keys (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        name TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE,
+        prefix TEXT NOT NULL,
+        created_at TIMESTAMP(0) NOT NULL DEFAULT ${NOW_UTC},
+        last_used_at TIMESTAMP(0)
+      );
+
+      CREATE TABLE sessions (
+        token_hash TEXT PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        created_at TIMESTAMP(0) NOT NULL DEFAULT ${NOW_UTC},
+        expires_at TIMESTAMP(0) NOT NULL
+      );
+
+      CREATE TABLE emails (
+        id TEXT PRIMARY KEY,
+        recipient TEXT NOT NULL,
+        subject TEXT,
+        sender TEXT,
+        created_at TIMESTAMP(0) NOT NULL DEFAULT ${NOW_UTC},
+        owner_id INTEGER REFERENCES users(id),
+        open_count INTEGER NOT NULL DEFAULT 0,
+        human_open_count INTEGER NOT NULL DEFAULT 0,
+        click_count INTEGER NOT NULL DEFAULT 0,
+        last_opened_at TIMESTAMP(0)
+      );
+
+      CREATE INDEX idx_emails_owner_created ON emails(owner_id, created_at);
+      CREATE INDEX idx_emails_owner_opens ON emails(owner_id, open_count);
+      CREATE INDEX idx_emails_owner_last_opened ON emails(owner_id, last_opened_at);
+      -- Split on punctuation like SQLite's FTS5 tokenizer, so "alice@acme.com" is alice, acme, com
+      CREATE INDEX idx_emails_search ON emails USING GIN (
+        to_tsvector('simple', regexp_replace(COALESCE(subject, '') || ' ' || recipient, '[^[:alnum:]]+', ' ', 'g'))
+      );
+
+      CREATE TABLE opens (
+        id SERIAL PRIMARY KEY,
+        email_id TEXT NOT NULL REFERENCES emails(id),
+        opened_at TIMESTAMP(0) NOT NULL DEFAULT ${NOW_UTC},
+        ip_address TEXT,
+        user_agent TEXT,
+        classification TEXT,
+        client TEXT,
+        os TEXT,
+        device_type TEXT,
+        country TEXT,
+        region TEXT,
+        city TEXT,
+        asn BIGINT,
+        as_org TEXT
+      );
+
+      CREATE INDEX idx_opens_email_id ON opens(email_id);
+
+      CREATE TABLE links (
+        id SERIAL PRIMARY KEY,
+        email_id TEXT NOT NULL REFERENCES emails(id),
+        url TEXT NOT NULL
+      );
+
+      CREATE TABLE clicks (
+        id SERIAL PRIMARY KEY,
+        email_id TEXT NOT NULL REFERENCES emails(id),
+        link_id INTEGER NOT NULL REFERENCES links(id),
+        clicked_at TIMESTAMP(0) NOT NULL DEFAULT ${NOW_UTC},
+        ip_address TEXT,
+        user_agent TEXT
+      );
+
+      CREATE INDEX idx_links_email_id ON links(email_id);
+      CREATE INDEX idx_clicks_email_id ON clicks(email_id);
+
+      CREATE TABLE contacts (
+        id SERIAL PRIMARY KEY,
+        address TEXT NOT NULL UNIQUE,
+        created_at TIMESTAMP(0) NOT NULL DEFAULT ${NOW_UTC}
+      );
+
+      CREATE TABLE email_recipients (
+        email_id TEXT NOT NULL REFERENCES emails(id),
+        contact_id INTEGER NOT NULL REFERENCES contacts(id),
+        role TEXT NOT NULL DEFAULT 'to',
+        PRIMARY KEY (email_id, contact_id, role)
+      );
+
+      CREATE INDEX idx_email_recipients_contact_id ON email_recipients(contact_id);
+
+      CREATE TABLE events (
+        id BIGSERIAL PRIMARY KEY,
+        type TEXT NOT NULL,
+        owner_id INTEGER,
+        data JSON NOT NULL,
+        created_at TIMESTAMP(0) NOT NULL DEFAULT ${NOW_UTC}
+      );
+
+      CREATE INDEX idx_events_owner_id ON events(owner_id, id);
+
+      CREATE TABLE webhooks (
+        id SERIAL PRIMARY KEY,
+        owner_id INTEGER NOT NULL REFERENCES users(id),
+        url TEXT NOT NULL,
+        secret TEXT NOT NULL,
+        events TEXT[] NOT NULL,
+        created_at TIMESTAMP(0) NOT NULL DEFAULT ${NOW_UTC}
+      );
+
+      CREATE TABLE webhook_deliveries (
+        id BIGSERIAL PRIMARY KEY,
+        webhook_id INTEGER NOT NULL REFERENCES webhooks(id),
+        event_id BIGINT NOT NULL,
+        event_type TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at TIMESTAMP(0) DEFAULT ${NOW_UTC},
+        last_status_code INTEGER,
+        last_error TEXT,
+        created_at TIMESTAMP(0) NOT NULL DEFAULT ${NOW_UTC},
+        delivered_at TIMESTAMP(0)
+      );
+
+      CREATE INDEX idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+      CREATE INDEX idx_webhook_deliveries_webhook_id ON webhook_deliveries(webhook_id);
+
+      -- Keep the per-email counters in step with opens and clicks
+      CREATE FUNCTION opens_counters() RETURNS trigger AS $$
+      BEGIN
+        IF TG_OP = 'INSERT' THEN
+          UPDATE emails SET
+            open_count = open_count + 1,
+            human_open_count = human_open_count + (NEW.classification IS NOT DISTINCT FROM 'human')::int,
+            last_opened_at = GREATEST(last_opened_at, NEW.opened_at)
+          WHERE id = NEW.email_id;
+        ELSIF TG_OP = 'UPDATE' THEN
+          UPDATE emails SET
+            human_open_count = human_open_count
+              - (OLD.classification IS NOT DISTINCT FROM 'human')::int
+              + (NEW.classification IS NOT DISTINCT FROM 'human')::int
+          WHERE id = NEW.email_id;
+        ELSE
+          UPDATE emails SET
+            open_count = open_count - 1,
+            human_open_count = human_open_count - (OLD.classification IS NOT DISTINCT FROM 'human')::int,
+            last_opened_at = (SELECT MAX(opened_at) FROM opens WHERE email_id = OLD.email_id)
+          WHERE id = OLD.email_id;
+        END IF;
+        RETURN NULL;
+      END;
+      $$ LANGUAGE plpgsql;
+
+      CREATE TRIGGER opens_counters AFTER INSERT OR DELETE OR UPDATE OF classification ON opens
+        FOR EACH ROW EXECUTE FUNCTION opens_counters();
+
+      CREATE FUNCTION clicks_counters() RETURNS trigger AS $$
+      BEGIN
+        IF TG_OP = 'INSERT' THEN
+          UPDATE emails SET click_count = click_count + 1 WHERE id = NEW.email_id;
+        ELSE
+          UPDATE emails SET click_count = click_count - 1 WHERE id = OLD.email_id;
+        END IF;
+        RETURN NULL;
+      END;
+      $$ LANGUAGE plpgsql;
+
+      CREATE TRIGGER clicks_counters AFTER INSERT OR DELETE ON clicks
+        FOR EACH ROW EXECUTE FUNCTION clicks_counters();
+    `,
+  },
+  {
+    version: 2,
+    name: 'email_lifecycle',
+    sql: `
+      ALTER TABLE emails
+        ADD COLUMN archived_at TIMESTAMP(0),
+        ADD COLUMN tracking_paused_at TIMESTAMP(0),
+        ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}';
+
+      CREATE INDEX idx_emails_tags ON emails USING GIN (tags);
+    `,
+  },
+  {
+    version: 3,
+    name: 'reminders',
+    sql: `
+      CREATE TABLE reminders (
+        id SERIAL PRIMARY KEY,
+        email_id TEXT NOT NULL REFERENCES emails(id),
+        owner_id INTEGER NOT NULL REFERENCES users(id),
+        kind TEXT NOT NULL,
+        delay_hours INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        due_at TIMESTAMP(0),
+        fired_at TIMESTAMP(0),
+        created_at TIMESTAMP(0) NOT NULL DEFAULT ${NOW_UTC}
+      );
+
+      CREATE INDEX idx_reminders_due ON reminders(status, due_at);
+      CREATE INDEX idx_reminders_owner_status ON reminders(owner_id, status);
+      CREATE INDEX idx_reminders_email_id ON reminders(email_id);
+    `,
+  },
+  {
+    version: 4,
+    name: 'threads',
+    sql: `
+      ALTER TABLE emails
+        ADD COLUMN thread_id TEXT,
+        ADD COLUMN message_id TEXT;
+
+      CREATE INDEX idx_emails_owner_thread ON emails(owner_id, thread_id);
+    `,
+  },
+  {
+    version: 5,
+    name: 'sender_markers',
+    sql: `
+      ALTER TABLE users ADD COLUMN sender_marker TEXT;
+    `,
+  },
+  {
+    version: 6,
+    name: 'reservations',
+    sql: `
+      CREATE TABLE reservations (
+        id TEXT PRIMARY KEY,
+        owner_id INTEGER NOT NULL REFERENCES users(id),
+        created_at TIMESTAMP(0) NOT NULL DEFAULT ${NOW_UTC}
+      );
+
+      CREATE INDEX idx_reservations_created_at ON reservations(created_at);
+    `,
+  },
+  {
+    version: 7,
+    name: 'secrets',
+    // Random secrets the server makes for itself, created on first use
+    sql: `
+      CREATE TABLE secrets (
+        name TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        created_at TIMESTAMP(0) NOT NULL DEFAULT ${NOW_UTC}
+      );
+    `,
+  },
+  {
+    version: 8,
+    name: 'campaigns',
+    sql: `
+      CREATE TABLE campaigns (
+        id SERIAL PRIMARY KEY,
+        owner_id INTEGER NOT NULL REFERENCES users(id),
+        name TEXT NOT NULL,
+        description TEXT,
+        created_at TIMESTAMP(0) NOT NULL DEFAULT ${NOW_UTC}
+      );
+
+      CREATE TABLE campaign_variants (
+        id SERIAL PRIMARY KEY,
+        campaign_id INTEGER NOT NULL REFERENCES campaigns(id),
+        name TEXT NOT NULL,
+        subject TEXT,
+        UNIQUE (campaign_id, name)
+      );
+
+      CREATE INDEX idx_campaigns_owner ON campaigns(owner_id, created_at);
+
+      ALTER TABLE emails
+        ADD COLUMN campaign_id INTEGER REFERENCES campaigns(id),
+        ADD COLUMN variant_id INTEGER REFERENCES campaign_variants(id);
+
+      CREATE INDEX idx_emails_campaign ON emails(campaign_id);
+    `,
+  },
+];
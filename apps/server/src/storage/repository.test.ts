@@ -0,0 +1,476 @@
+// Repository contract tests, run the same way against either backend: pnpm test
+// Uses a throwaway SQLite file, or PostgreSQL when DATABASE_URL is set. Point that
+// at a scratch database: every run adds its own users and emails to it.
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Repository } from './repository';
+import type { User } from '../types';
+
+const HUMAN_UA = 'Mozilla/5.0 (Windows NT 10.0) Chrome/120';
+const run = crypto.randomBytes(4).toString('hex');
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tracker-test-'));
+
+let storage: Repository;
+
+before(async () => {
+  // config.ts reads the environment once, on first import, so set it up before that.
+  // An empty config file keeps a local tracker.config.json out of it.
+  const configFile = path.join(tempDir, 'tracker.config.json');
+  fs.writeFileSync(configFile, '{}');
+  process.env.CONFIG_FILE = configFile;
+  process.env.DATABASE_PATH = path.join(tempDir, 'tracker.db');
+  process.env.PHANTOM_OPEN_SECONDS = '0';
+  process.env.DUPLICATE_OPEN_SECONDS = '60';
+  delete process.env.IP_ANONYMIZATION;
+
+  ({ storage } = await import('./index'));
+  await storage.init();
+});
+
+after(async () => {
+  await storage?.close();
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+let userCount = 0;
+
+function createUser(): Promise<User> {
+  userCount++;
+  return storage.createUser({ email: `user${userCount}-${run}@example.com`, passwordHash: 'hash' });
+}
+
+function address(name: string): string {
+  return `${name}-${run}@example.com`;
+}
+
+/** Milliseconds since the epoch of a stored UTC timestamp */
+function storedTime(value: string): number {
+  return Date.parse(`${value.replace(' ', 'T')}Z`);
+}
+
+describe('users, sessions and API keys', () => {
+  it('stores the account address lowercased and finds it either way', async () => {
+    const user = await storage.createUser({ email: `Mixed-${run}@Example.com`, name: 'Mixed', passwordHash: 'hash' });
+    assert.equal(user.email, `mixed-${run}@example.com`);
+    assert.equal(user.name, 'Mixed');
+
+    const found = await storage.getUserByEmail(`MIXED-${run}@example.com`);
+    assert.equal(found?.id, user.id);
+    assert.equal(found?.password_hash, 'hash');
+    assert.deepEqual(await storage.getUserById(user.id), user);
+  });
+
+  it('counts accounts', async () => {
+    const before = await storage.countUsers();
+    await createUser();
+    assert.equal(await storage.countUsers(), before + 1);
+  });
+
+  it('finds a user by session until the session is deleted', async () => {
+    const user = await createUser();
+    const tokenHash = `session-${run}`;
+    await storage.createSession({ userId: user.id, tokenHash, ttlDays: 1 });
+
+    assert.equal((await storage.getUserBySessionHash(tokenHash))?.id, user.id);
+    await storage.deleteSession(tokenHash);
+    assert.equal(await storage.getUserBySessionHash(tokenHash), null);
+  });
+
+  it('lets only the key owner delete an API key', async () => {
+    const user = await createUser();
+    const other = await createUser();
+    const key = await storage.createApiKey({ userId: user.id, name: 'ci', keyHash: `key-${run}`, prefix: 'et_abc' });
+
+    assert.equal((await storage.getUserByApiKeyHash(`key-${run}`))?.id, user.id);
+    assert.deepEqual((await storage.getApiKeysForUser(user.id)).map((k) => k.id), [key.id]);
+    assert.equal(await storage.deleteApiKey(key.id, other.id), false);
+    assert.equal(await storage.deleteApiKey(key.id, user.id), true);
+    assert.equal(await storage.getUserByApiKeyHash(`key-${run}`), null);
+  });
+
+  it('gives every user a sender marker that stays the same', async () => {
+    const user = await createUser();
+    const marker = await storage.getSenderMarker(user.id);
+    assert.ok(marker.length > 0);
+    assert.equal(await storage.getSenderMarker(user.id), marker);
+  });
+});
+
+describe('emails, opens and clicks', () => {
+  it('creates an email with its links and recipients, visible only to its owner', async () => {
+    const owner = await createUser();
+    const other = await createUser();
+    const email = await storage.createEmail({
+      ownerId: owner.id,
+      recipient: address('to'),
+      subject: 'Hello',
+      links: ['https://example.com/a', 'https://example.com/b'],
+      recipients: [{ address: address('to'), role: 'to' }, { address: address('cc'), role: 'cc' }],
+    });
+
+    assert.equal(email.owner_id, owner.id);
+    assert.equal(email.open_count, 0);
+    assert.deepEqual(email.tags, []);
+    assert.deepEqual(await storage.getEmailById(email.id), email);
+
+    const full = await storage.getEmailWithOpens(email.id, owner.id);
+    assert.deepEqual(full?.links.map((link) => link.url), ['https://example.com/a', 'https://example.com/b']);
+    assert.deepEqual(
+      full?.recipients.map((recipient) => `${recipient.role}:${recipient.address}`).sort(),
+      [`cc:${address('cc')}`, `to:${address('to')}`],
+    );
+    assert.equal(await storage.getEmailWithOpens(email.id, other.id), null);
+  });
+
+  it('sets a reminder due a delay after sending that only its owner can dismiss', async () => {
+    const owner = await createUser();
+    const other = await createUser();
+    const email = await storage.createEmail({
+      ownerId: owner.id,
+      recipient: address('remind'),
+      reminder: { kind: 'not_opened', delayHours: 24 },
+    });
+
+    const [reminder] = await storage.getReminders(owner.id);
+    assert.equal(reminder.email_id, email.id);
+    assert.equal(reminder.status, 'pending');
+    const delay = storedTime(reminder.due_at!) - storedTime(email.created_at);
+    assert.ok(delay >= 24 * 3600 * 1000 && delay <= 24 * 3600 * 1000 + 1000, `${delay}`);
+
+    assert.equal(await storage.dismissReminder(reminder.id, other.id), null);
+    assert.equal((await storage.dismissReminder(reminder.id, owner.id))?.status, 'dismissed');
+  });
+
+  it('dates a scheduled email, and its reminder, from when it goes out', async () => {
+    const owner = await createUser();
+    const email = await storage.createEmail({
+      ownerId: owner.id,
+      recipient: address('scheduled'),
+      sentAt: '2099-01-31 09:15:00',
+      reminder: { kind: 'not_opened', delayHours: 24 },
+    });
+
+    assert.equal(email.created_at, '2099-01-31 09:15:00');
+    const [reminder] = await storage.getReminders(owner.id);
+    assert.equal(reminder.due_at, '2099-02-01 09:15:00');
+  });
+
+  it('counts a hit before a scheduled email goes out as one right at sending', async () => {
+    const owner = await createUser();
+    const email = await storage.createEmail({ ownerId: owner.id, recipient: address('early'), sentAt: '2099-01-31 09:15:00' });
+
+    const human = await storage.recordOpen({ emailId: email.id, ipAddress: '198.51.100.9', userAgent: HUMAN_UA });
+    const machine = await storage.recordOpen({ emailId: email.id, ipAddress: '198.51.100.10', userAgent: 'curl/8.0' });
+
+    assert.equal(human?.classification, 'human');
+    assert.equal(machine?.classification, 'scanner');
+    assert.equal((await storage.getEmailById(email.id))?.open_count, 2);
+  });
+
+  it('counts a human open once per IP and keeps the counters in step', async () => {
+    const owner = await createUser();
+    const email = await storage.createEmail({ ownerId: owner.id, recipient: address('opens') });
+
+    const first = await storage.recordOpen({ emailId: email.id, ipAddress: '198.51.100.7', userAgent: HUMAN_UA });
+    const repeat = await storage.recordOpen({ emailId: email.id, ipAddress: '198.51.100.7', userAgent: HUMAN_UA });
+    await storage.recordOpen({ emailId: email.id, ipAddress: '198.51.100.8', userAgent: 'curl/8.0' });
+
+    assert.equal(first?.classification, 'human');
+    assert.equal(repeat?.id, first?.id);
+
+    const opened = await storage.getEmailById(email.id);
+    assert.equal(opened?.open_count, 2);
+    assert.equal(opened?.human_open_count, 1);
+    assert.ok(opened?.last_opened_at);
+    assert.equal((await storage.getOpensForEmail(email.id)).length, 2);
+  });
+
+  it('ignores opens from the sender and clicks while tracking is paused', async () => {
+    const owner = await createUser();
+    const email = await storage.createEmail({ ownerId: owner.id, recipient: address('paused'), links: ['https://example.com'] });
+    const marker = await storage.getSenderMarker(owner.id);
+
+    assert.equal(await storage.recordOpen({ emailId: email.id, userAgent: HUMAN_UA, senderMarker: marker }), null);
+
+    await storage.updateEmails(owner.id, [email.id], { tracking_paused: true });
+    const [link] = await storage.getLinksForEmail(email.id);
+    assert.equal(await storage.recordOpen({ emailId: email.id, ipAddress: '198.51.100.9', userAgent: HUMAN_UA }), null);
+    assert.equal(await storage.recordClick({ emailId: email.id, linkId: link.id }), null);
+    assert.equal((await storage.getEmailById(email.id))?.open_count, 0);
+  });
+
+  it('records clicks on the email\'s own links', async () => {
+    const owner = await createUser();
+    const email = await storage.createEmail({ ownerId: owner.id, recipient: address('clicks'), links: ['https://example.com'] });
+    const other = await storage.createEmail({ ownerId: owner.id, recipient: address('clicks') });
+    const [link] = await storage.getLinksForEmail(email.id);
+
+    assert.deepEqual(await storage.getLink(email.id, link.id), link);
+    assert.equal(await storage.getLink(other.id, link.id), null);
+
+    const click = await storage.recordClick({ emailId: email.id, linkId: link.id, ipAddress: '198.51.100.10', userAgent: HUMAN_UA });
+    assert.equal(click?.link_id, link.id);
+    const full = await storage.getEmailWithOpens(email.id, owner.id);
+    assert.equal(full?.click_count, 1);
+    assert.equal(full?.links[0].click_count, 1);
+  });
+
+  it('lists opens in the feed after a given id', async () => {
+    const owner = await createUser();
+    const email = await storage.createEmail({ ownerId: owner.id, recipient: address('feed'), subject: 'Feed' });
+    const first = await storage.recordOpen({ emailId: email.id, ipAddress: '198.51.100.11', userAgent: HUMAN_UA });
+    const second = await storage.recordOpen({ emailId: email.id, ipAddress: '198.51.100.12', userAgent: HUMAN_UA });
+
+    const feed = await storage.getOpenFeed(owner.id, { sinceId: 0, limit: 10 });
+    assert.deepEqual(feed.map((open) => open.id), [first!.id, second!.id]);
+    assert.equal(feed[0].subject, 'Feed');
+
+    const later = await storage.getOpenFeed(owner.id, { sinceId: first!.id, limit: 10 });
+    assert.deepEqual(later.map((open) => open.id), [second!.id]);
+  });
+});
+
+describe('email list', () => {
+  it('pages through every email exactly once with the cursor, in each sort', async () => {
+    const owner = await createUser();
+    const ids: string[] = [];
+    for (let i = 0; i < 5; i++) {
+      ids.push((await storage.createEmail({ ownerId: owner.id, recipient: address(`page${i}`) })).id);
+    }
+    await storage.recordOpen({ emailId: ids[2], ipAddress: '198.51.100.20', userAgent: HUMAN_UA });
+
+    for (const sort of ['recent', 'oldest', 'most_opens', 'last_opened'] as const) {
+      const seen: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await storage.getEmailsPage(owner.id, { sort, limit: 2, cursor });
+        assert.equal(page.total, 5);
+        seen.push(...page.emails.map((email) => email.id));
+        cursor = page.next_cursor ?? undefined;
+      } while (cursor);
+
+      assert.deepEqual([...seen].sort(), [...ids].sort(), sort);
+      if (sort === 'most_opens' || sort === 'last_opened') {
+        assert.equal(seen[0], ids[2], sort);
+      }
+    }
+  });
+
+  it('filters by status, tag and archive state', async () => {
+    const owner = await createUser();
+    const opened = await storage.createEmail({ ownerId: owner.id, recipient: address('filter') });
+    const tagged = await storage.createEmail({ ownerId: owner.id, recipient: address('filter') });
+    const archived = await storage.createEmail({ ownerId: owner.id, recipient: address('filter') });
+    await storage.recordOpen({ emailId: opened.id, ipAddress: '198.51.100.21', userAgent: HUMAN_UA });
+    await storage.updateEmails(owner.id, [tagged.id], { add_tags: ['lead'] });
+    await storage.updateEmails(owner.id, [archived.id], { archived: true });
+
+    const list = async (options: Partial<Parameters<Repository['getEmailsPage']>[1]>) =>
+      (await storage.getEmailsPage(owner.id, { sort: 'recent', limit: 10, ...options })).emails.map((email) => email.id).sort();
+
+    assert.deepEqual(await list({}), [opened.id, tagged.id].sort());
+    assert.deepEqual(await list({ status: 'opened' }), [opened.id]);
+    assert.deepEqual(await list({ status: 'unopened' }), [tagged.id]);
+    assert.deepEqual(await list({ tag: 'lead' }), [tagged.id]);
+    assert.deepEqual(await list({ archived: 'only' }), [archived.id]);
+    assert.deepEqual(await list({ archived: 'include' }), [opened.id, tagged.id, archived.id].sort());
+  });
+
+  it('finds emails by subject', async () => {
+    const owner = await createUser();
+    const match = await storage.createEmail({ ownerId: owner.id, recipient: address('search'), subject: `Quarterly report ${run}` });
+    await storage.createEmail({ ownerId: owner.id, recipient: address('search'), subject: 'Lunch' });
+
+    const page = await storage.getEmailsPage(owner.id, { sort: 'recent', limit: 10, search: 'quarterly' });
+    assert.deepEqual(page.emails.map((email) => email.id), [match.id]);
+  });
+});
+
+describe('changing and deleting emails', () => {
+  it('only touches the owner\'s emails', async () => {
+    const owner = await createUser();
+    const other = await createUser();
+    const email = await storage.createEmail({ ownerId: owner.id, recipient: address('change'), subject: 'Before' });
+
+    assert.deepEqual(await storage.updateEmails(other.id, [email.id], { subject: 'Hijacked' }), []);
+    assert.deepEqual(await storage.updateEmails(owner.id, [email.id, 'missing'], { subject: 'After', tags: ['b', 'a'] }), [email.id]);
+
+    const changed = await storage.getEmailById(email.id);
+    assert.equal(changed?.subject, 'After');
+    assert.deepEqual(changed?.tags, ['a', 'b']);
+
+    await storage.updateEmails(owner.id, [email.id], { add_tags: ['c'], remove_tags: ['a'] });
+    assert.deepEqual((await storage.getEmailById(email.id))?.tags, ['b', 'c']);
+
+    assert.deepEqual(await storage.deleteEmails(other.id, [email.id]), { emails: 0, opens: 0, clicks: 0 });
+    assert.ok(await storage.getEmailById(email.id));
+  });
+
+  it('deletes an email with its opens and clicks', async () => {
+    const owner = await createUser();
+    const email = await storage.createEmail({ ownerId: owner.id, recipient: address('delete'), links: ['https://example.com'] });
+    const [link] = await storage.getLinksForEmail(email.id);
+    await storage.recordOpen({ emailId: email.id, ipAddress: '198.51.100.30', userAgent: HUMAN_UA });
+    await storage.recordClick({ emailId: email.id, linkId: link.id });
+
+    assert.deepEqual(await storage.deleteEmails(owner.id, [email.id]), { emails: 1, opens: 1, clicks: 1 });
+    assert.equal(await storage.getEmailById(email.id), null);
+    assert.deepEqual(await storage.getOpensForEmail(email.id), []);
+  });
+
+  it('erases everything an owner sent to an address', async () => {
+    const owner = await createUser();
+    const other = await createUser();
+    const sent = await storage.createEmail({ ownerId: owner.id, recipient: address('erase') });
+    const kept = await storage.createEmail({ ownerId: other.id, recipient: address('erase') });
+
+    const erased = await storage.eraseRecipient(owner.id, address('Erase').toUpperCase());
+    assert.equal(erased.address, address('erase'));
+    assert.deepEqual(erased.email_ids, [sent.id]);
+    assert.equal(await storage.getEmailById(sent.id), null);
+    assert.ok(await storage.getEmailById(kept.id));
+  });
+});
+
+describe('reservations', () => {
+  it('turns a reservation into an email once', async () => {
+    const owner = await createUser();
+    const other = await createUser();
+    const reservation = await storage.reserveEmailId(owner.id);
+    assert.equal(reservation.owner_id, owner.id);
+    assert.equal(await storage.getEmailById(reservation.id), null);
+    assert.deepEqual(await storage.getReservation(reservation.id), reservation);
+
+    assert.equal(await storage.confirmReservation(reservation.id, { ownerId: other.id, recipient: address('reserved') }), null);
+    const email = await storage.confirmReservation(reservation.id, { ownerId: owner.id, recipient: address('reserved') });
+    assert.equal(email?.id, reservation.id);
+    assert.equal(await storage.getReservation(reservation.id), null);
+    assert.equal(await storage.confirmReservation(reservation.id, { ownerId: owner.id, recipient: address('reserved') }), null);
+  });
+
+  it('gives a reservation back only to its owner', async () => {
+    const owner = await createUser();
+    const other = await createUser();
+    const reservation = await storage.reserveEmailId(owner.id);
+
+    assert.equal(await storage.releaseReservation(reservation.id, other.id), false);
+    assert.equal(await storage.releaseReservation(reservation.id, owner.id), true);
+    assert.equal(await storage.confirmReservation(reservation.id, { ownerId: owner.id, recipient: address('released') }), null);
+  });
+});
+
+describe('import', () => {
+  it('imports an email once and leaves ids held by another account alone', async () => {
+    const owner = await createUser();
+    const other = await createUser();
+    const email = {
+      id: `imported${run}`,
+      recipient: address('imported'),
+      subject: 'Imported',
+      sender: null,
+      created_at: '2024-01-31 09:15:00',
+      opens: [{
+        opened_at: '2024-01-31 10:00:00',
+        ip_address: '198.51.100.40',
+        user_agent: HUMAN_UA,
+        classification: 'human' as const,
+        client: 'Chrome', os: 'Windows', device_type: 'desktop' as const,
+        country: null, region: null, city: null, asn: null, as_org: null,
+      }],
+    };
+
+    assert.equal(await storage.importEmail(owner.id, email), 'imported');
+    assert.equal(await storage.importEmail(owner.id, email), 'exists');
+    assert.equal(await storage.importEmail(other.id, email), 'conflict');
+
+    const imported = await storage.getEmailWithOpens(email.id, owner.id);
+    assert.equal(imported?.created_at, '2024-01-31 09:15:00');
+    assert.equal(imported?.open_count, 1);
+    assert.equal(imported?.human_open_count, 1);
+    assert.equal(imported?.opens[0].opened_at, '2024-01-31 10:00:00');
+    assert.deepEqual((await storage.getOpensForEmails([email.id])).map((open) => open.ip_address), ['198.51.100.40']);
+  });
+});
+
+describe('geolocating old opens', () => {
+  it('lists opens without a location until one is set', async () => {
+    const owner = await createUser();
+    const email = await storage.createEmail({ ownerId: owner.id, recipient: address('geo') });
+    const open = await storage.recordOpen({ emailId: email.id, ipAddress: '198.51.100.20', userAgent: HUMAN_UA });
+
+    assert.deepEqual(await storage.getUnlocatedOpens(open!.id - 1, 1), [{ id: open!.id, ip_address: '198.51.100.20' }]);
+    await storage.setOpenLocation(open!.id, { country: 'NL', region: null, city: 'Amsterdam', asn: 64500, as_org: 'Example' });
+    assert.notEqual((await storage.getUnlocatedOpens(open!.id - 1, 1))[0]?.id, open!.id);
+
+    const [located] = await storage.getOpensForEmail(email.id);
+    assert.equal(located.city, 'Amsterdam');
+    assert.equal(located.asn, 64500);
+  });
+});
+
+describe('campaigns', () => {
+  it('creates a campaign with its variants, visible only to its owner', async () => {
+    const owner = await createUser();
+    const other = await createUser();
+    const campaign = await storage.createCampaign({
+      ownerId: owner.id,
+      name: 'Launch',
+      variants: [{ name: 'A', subject: 'Hi' }, { name: 'B' }],
+    });
+
+    assert.deepEqual(campaign.variants.map((variant) => variant.name), ['A', 'B']);
+    assert.deepEqual(await storage.getCampaign(owner.id, campaign.id), campaign);
+    assert.equal(await storage.getCampaign(other.id, campaign.id), null);
+    assert.deepEqual((await storage.getCampaigns(owner.id)).map((summary) => summary.id), [campaign.id]);
+  });
+
+  it('reports opened emails, and every recipient of one as reached', async () => {
+    const owner = await createUser();
+    const campaign = await storage.createCampaign({ ownerId: owner.id, name: 'Batch', variants: [{ name: 'A' }, { name: 'B' }] });
+    const [variantA, variantB] = campaign.variants;
+    const shared = await storage.createEmail({
+      ownerId: owner.id,
+      recipient: address('shared'),
+      recipients: [{ address: address('shared'), role: 'to' }, { address: address('copied'), role: 'cc' }],
+      campaignId: campaign.id,
+      variantId: variantA.id,
+    });
+    await storage.createEmail({ ownerId: owner.id, recipient: address('unread'), campaignId: campaign.id, variantId: variantB.id });
+    await storage.recordOpen({ emailId: shared.id, ipAddress: '198.51.100.20', userAgent: HUMAN_UA });
+
+    const report = await storage.getCampaignReport(owner.id, campaign.id);
+    assert.equal(report?.stats.email_count, 2);
+    assert.equal(report?.stats.emails_opened, 1);
+    assert.equal(report?.stats.open_rate, 50);
+    assert.equal(report?.stats.recipient_count, 3);
+    assert.equal(report?.stats.recipients_reached, 2);
+    assert.deepEqual(report?.variants.map((variant) => variant.emails_opened), [1, 0]);
+  });
+});
+
+describe('secrets', () => {
+  it('makes a secret once and hands back the same one after', async () => {
+    const secret = await storage.getSecret(`test-${run}`);
+    assert.match(secret, /^[0-9a-f]{64}$/);
+    assert.equal(await storage.getSecret(`test-${run}`), secret);
+    assert.notEqual(await storage.getSecret(`other-${run}`), secret);
+  });
+});
+
+describe('events', () => {
+  it('returns an owner\'s events after a given id', async () => {
+    const owner = await createUser();
+    const since = await storage.getLatestEventId(owner.id);
+    const email = await storage.createEmail({ ownerId: owner.id, recipient: address('events') });
+
+    const events = await storage.getEventsSince(owner.id, since);
+    assert.deepEqual(events.map((event) => event.type), ['email.created']);
+    assert.equal(events[0].data.id, email.id);
+    assert.equal(await storage.getLatestEventId(owner.id), events[0].id);
+  });
+});
@@ -0,0 +1,199 @@
+// The persistence interface the server talks to
+// SQLite (db.ts, the default) and PostgreSQL (storage/postgres) both implement it;
+// storage/index.ts picks one from the configuration at startup
+
+import { EventType, TrackerEvent } from '../events';
+import { GeoLocation } from '../geoip';
+import {
+  Email,
+  Open,
+  Link,
+  Click,
+  Recipient,
+  ContactWithStats,
+  ContactWithHistory,
+  User,
+  UserWithPassword,
+  ApiKey,
+  Webhook,
+  WebhookWithSecret,
+  WebhookDelivery,
+  EmailWithOpens,
+  EmailChanges,
+  NewEmail,
+  Campaign,
+  CampaignSummary,
+  CampaignReport,
+  Reservation,
+  EmailThread,
+  EmailLookup,
+  ReadReceipt,
+  EmailListOptions,
+  OpenFeedOptions,
+  FeedOpen,
+  EmailPage,
+  PortableEmail,
+  ImportOutcome,
+  DeletionCounts,
+  RecipientErasure,
+  ReminderStatus,
+  Reminder,
+  ReminderWithEmail,
+  Stats,
+  StatsInterval,
+  StatsRange,
+  TimeseriesBucket,
+  EngagementStats,
+} from '../types';
+
+export interface Repository {
+  /** Human-readable backend name for logs */
+  readonly name: string;
+
+  /**
+   * Connect and bring the schema up to date
+   * - Throws DatabaseTooNewError if the database was migrated by a newer build
+   */
+  init(): Promise<void>;
+
+  close(): Promise<void>;
+
+  // Emails, opens & clicks
+  createEmail(data: NewEmail): Promise<Email>;
+  getEmailById(id: string): Promise<Email | null>;
+  getEmailWithOpens(id: string, ownerId: number): Promise<EmailWithOpens | null>;
+  getRecipientsForEmail(emailId: string): Promise<Recipient[]>;
+  getEmailsPage(ownerId: number, options: EmailListOptions): Promise<EmailPage>;
+  /** The owner's emails in a Gmail thread with their opens; null if there are none */
+  getThread(ownerId: number, threadId: string): Promise<EmailThread | null>;
+  lookupReadReceipts(ownerId: number, lookups: EmailLookup[]): Promise<(ReadReceipt | null)[]>;
+  /** Apply changes to those of emailIds the owner has; returns the ids that were updated */
+  updateEmails(ownerId: number, emailIds: string[], changes: EmailChanges): Promise<string[]>;
+  /** Delete those of emailIds the owner has, with everything recorded for them */
+  deleteEmails(ownerId: number, emailIds: string[]): Promise<DeletionCounts>;
+  recordOpen(data: { emailId: string; ipAddress?: string; userAgent?: string; senderMarker?: string }): Promise<Open | null>;
+  getOpensForEmail(emailId: string): Promise<Open[]>;
+  getOpenFeed(ownerId: number, options: OpenFeedOptions): Promise<FeedOpen[]>;
+  getLink(emailId: string, linkId: number): Promise<Link | null>;
+  getLinksForEmail(emailId: string): Promise<Link[]>;
+  /** Returns null (and records nothing) while the email's tracking is paused */
+  recordClick(data: { emailId: string; linkId: number; ipAddress?: string; userAgent?: string }): Promise<Click | null>;
+
+  // Export & import
+  /** Opens for several emails at once, oldest first */
+  getOpensForEmails(emailIds: string[]): Promise<Open[]>;
+  /**
+   * Insert an exported email and its opens under a new owner
+   * - Does nothing if the id already exists, so importing the same file twice is safe
+   * - Fires no events or webhooks; these opens happened long ago
+   */
+  importEmail(ownerId: number, email: PortableEmail): Promise<ImportOutcome>;
+
+  // Geolocating old opens (geolocate-cli.ts)
+  /** Opens with an IP address but no location, in id order after afterId */
+  getUnlocatedOpens(afterId: number, limit: number): Promise<Pick<Open, 'id' | 'ip_address'>[]>;
+  setOpenLocation(id: number, location: GeoLocation): Promise<void>;
+
+  // Retention & erasure
+  /** Delete opens and clicks older than maxAgeDays; the emails stay */
+  purgeActivity(maxAgeDays: number): Promise<Pick<DeletionCounts, 'opens' | 'clicks'>>;
+  /** Delete emails sent more than maxAgeDays ago, with everything recorded for them */
+  purgeEmails(maxAgeDays: number): Promise<DeletionCounts>;
+  /**
+   * Delete every email of this owner sent to the address, with its opens, clicks and events
+   * - The contact itself goes once no account has emails to it
+   */
+  eraseRecipient(ownerId: number, address: string): Promise<RecipientErasure>;
+
+  // Reminders
+  getReminders(ownerId: number, status?: ReminderStatus): Promise<ReminderWithEmail[]>;
+  /** Only a due reminder can be snoozed; null if there is none with that id */
+  snoozeReminder(id: number, ownerId: number, hours: number): Promise<Reminder | null>;
+  /** Only a pending or due reminder can be dismissed; null if there is none with that id */
+  dismissReminder(id: number, ownerId: number): Promise<Reminder | null>;
+  /**
+   * Mark reminders whose time has come as due and emit reminder.due for each
+   * - Safe to run from several processes at once: each reminder fires once
+   */
+  fireDueReminders(): Promise<ReminderWithEmail[]>;
+
+  // Campaigns
+  createCampaign(data: {
+    ownerId: number;
+    name: string;
+    description?: string;
+    variants: { name: string; subject?: string }[];
+  }): Promise<Campaign>;
+  /** Newest first, with how many of each campaign's emails were opened */
+  getCampaigns(ownerId: number): Promise<CampaignSummary[]>;
+  getCampaign(ownerId: number, id: number): Promise<Campaign | null>;
+  /** Null if the owner has no campaign with that id */
+  getCampaignReport(ownerId: number, id: number): Promise<CampaignReport | null>;
+
+  // Reservations
+  reserveEmailId(ownerId: number): Promise<Reservation>;
+  /** Unscoped, for the public redirect route */
+  getReservation(id: string): Promise<Reservation | null>;
+  /**
+   * Create the email under its reserved id, using up the reservation
+   * - Null if the owner has no reservation with that id
+   */
+  confirmReservation(id: string, data: NewEmail): Promise<Email | null>;
+  releaseReservation(id: string, ownerId: number): Promise<boolean>;
+  /** Delete reservations never confirmed or released within maxAgeHours */
+  pruneReservations(maxAgeHours: number): Promise<number>;
+
+  // Secrets
+  /** A random secret of the server's own, made the first time it is asked for */
+  getSecret(name: string): Promise<string>;
+
+  // Stats & analytics
+  getStats(ownerId: number): Promise<Stats>;
+  getTimeseries(ownerId: number, range: StatsRange, interval: StatsInterval): Promise<TimeseriesBucket[]>;
+  getEngagementStats(ownerId: number, range: StatsRange): Promise<EngagementStats>;
+
+  // Contacts
+  getAllContacts(ownerId: number): Promise<ContactWithStats[]>;
+  getContactWithHistory(address: string, ownerId: number): Promise<ContactWithHistory | null>;
+
+  // Users, sessions & API keys
+  createUser(data: { email: string; name?: string; passwordHash: string }): Promise<User>;
+  countUsers(): Promise<number>;
+  /** Give a user every email created before accounts existed; returns how many */
+  claimUnownedEmails(userId: number): Promise<number>;
+  getUserById(id: number): Promise<User | null>;
+  getUserByEmail(email: string): Promise<UserWithPassword | null>;
+  getSenderMarker(userId: number): Promise<string>;
+  createSession(data: { userId: number; tokenHash: string; ttlDays: number }): Promise<void>;
+  getUserBySessionHash(tokenHash: string): Promise<User | null>;
+  deleteSession(tokenHash: string): Promise<void>;
+  createApiKey(data: { userId: number; name: string; keyHash: string; prefix: string }): Promise<ApiKey>;
+  getApiKeysForUser(userId: number): Promise<ApiKey[]>;
+  deleteApiKey(id: number, userId: number): Promise<boolean>;
+  getUserByApiKeyHash(keyHash: string): Promise<User | null>;
+
+  // Events
+  emitEvent(type: EventType, ownerId: number | null, data: Record<string, unknown>): Promise<TrackerEvent>;
+  getEventsSince(ownerId: number, sinceId: number, limit?: number): Promise<TrackerEvent[]>;
+  getLatestEventId(ownerId: number): Promise<number>;
+  pruneEvents(maxAgeDays: number): Promise<number>;
+
+  // Webhooks
+  createWebhook(data: { ownerId: number; url: string; events: EventType[]; secret: string }): Promise<WebhookWithSecret>;
+  getWebhooksForOwner(ownerId: number): Promise<Webhook[]>;
+  getWebhookById(id: number): Promise<WebhookWithSecret | null>;
+  deleteWebhook(id: number, ownerId: number): Promise<boolean>;
+  /**
+   * Pending deliveries whose next attempt is due
+   * - Backends shared by several server processes must hand each delivery to only one of them
+   */
+  getDueWebhookDeliveries(limit: number): Promise<WebhookDelivery[]>;
+  recordWebhookAttempt(data: {
+    id: number;
+    succeeded: boolean;
+    statusCode: number | null;
+    error: string | null;
+    retryInSeconds: number | null;
+  }): Promise<void>;
+  getWebhookDeliveries(webhookId: number, ownerId: number, limit?: number): Promise<WebhookDelivery[] | null>;
+}
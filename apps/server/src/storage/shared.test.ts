@@ -0,0 +1,44 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeCursor, encodeCursor, InvalidCursorError } from './shared';
+
+function rawCursor(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+describe('email list cursors', () => {
+  it('reads back what it wrote for each sort', () => {
+    assert.deepEqual(decodeCursor(encodeCursor('2024-01-31 09:15:00', 'abc'), 'recent'), ['2024-01-31 09:15:00', 'abc']);
+    assert.deepEqual(decodeCursor(encodeCursor('2024-01-31 09:15:00', 'abc'), 'oldest'), ['2024-01-31 09:15:00', 'abc']);
+    assert.deepEqual(decodeCursor(encodeCursor(12, 'abc'), 'most_opens'), [12, 'abc']);
+    assert.deepEqual(decodeCursor(encodeCursor('', 'abc'), 'last_opened'), ['', 'abc']);
+  });
+
+  it('rejects cursors that are not base64url JSON of [value, id]', () => {
+    for (const cursor of ['', 'not a cursor', rawCursor({ value: 1 }), rawCursor(['2024-01-31 09:15:00']), rawCursor(['2024-01-31 09:15:00', 'abc', 1])]) {
+      assert.throws(() => decodeCursor(cursor, 'recent'), InvalidCursorError, cursor);
+    }
+  });
+
+  it('rejects a value of the wrong type for the sort', () => {
+    assert.throws(() => decodeCursor(encodeCursor(12, 'abc'), 'recent'), InvalidCursorError);
+    assert.throws(() => decodeCursor(encodeCursor('12', 'abc'), 'most_opens'), InvalidCursorError);
+    assert.throws(() => decodeCursor(encodeCursor(-1, 'abc'), 'most_opens'), InvalidCursorError);
+    assert.throws(() => decodeCursor(encodeCursor(1.5, 'abc'), 'most_opens'), InvalidCursorError);
+    assert.throws(() => decodeCursor(rawCursor([1e300, 'abc']), 'most_opens'), InvalidCursorError);
+    assert.throws(() => decodeCursor(encodeCursor('', 'abc'), 'recent'), InvalidCursorError);
+  });
+
+  it('rejects dates that are not stored timestamps', () => {
+    for (const value of ['2024-01-31', '2024-01-31T09:15:00Z', '2024-02-30 09:15:00', '2024-01-31 25:00:00', "2024-01-31 09:15:00' OR 1=1"]) {
+      assert.throws(() => decodeCursor(encodeCursor(value, 'abc'), 'recent'), InvalidCursorError, value);
+    }
+  });
+
+  it('rejects ids that could not be a tracking id', () => {
+    assert.throws(() => decodeCursor(rawCursor(['2024-01-31 09:15:00', 7]), 'recent'), InvalidCursorError);
+    assert.throws(() => decodeCursor(encodeCursor('2024-01-31 09:15:00', ''), 'recent'), InvalidCursorError);
+    assert.throws(() => decodeCursor(encodeCursor('2024-01-31 09:15:00', 'a/b'), 'recent'), InvalidCursorError);
+    assert.throws(() => decodeCursor(encodeCursor('2024-01-31 09:15:00', 'a'.repeat(65)), 'recent'), InvalidCursorError);
+  });
+});
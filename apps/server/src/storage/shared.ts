@@ -0,0 +1,318 @@
+// Rules and helpers every storage backend applies the same way, so the API
+// behaves identically whichever database is behind it
+
+import crypto from 'crypto';
+import { OpenClassification, OPEN_CLASSIFICATIONS } from '../classify';
+import { TrackerEvent } from '../events';
+import {
+  Campaign,
+  CampaignRecipient,
+  CampaignReport,
+  CampaignStats,
+  ContactWithStats,
+  DeliveryStatus,
+  EmailSort,
+  Recipient,
+  VariantComparison,
+  VariantStats,
+} from '../types';
+
+// A 'sent' lookup matches emails tracked this close to the time Gmail shows, which is
+// rounded to the minute and can trail the click on Send
+export const LOOKUP_SENT_AT_SLACK_SECONDS = 5 * 60;
+
+/**
+ * Parse a stored timestamp (UTC, no zone suffix)
+ */
+export function parseDbDate(value: string): Date {
+  return new Date(value.replace(' ', 'T') + 'Z');
+}
+
+/**
+ * Format a date the way timestamps are stored (UTC, second precision)
+ */
+export function toDbDate(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+/**
+ * Generate a short, URL-safe tracking ID
+ */
+export function generateTrackingId(): string {
+  return crypto.randomBytes(8).toString('hex'); // 16 character hex string
+}
+
+const ADDRESS_PATTERN = /^[^\s@<>",;]+@[^\s@<>",;]+$/;
+
+/**
+ * The address from "Name <address>" or a bare address, or null if there isn't a valid one
+ */
+export function extractAddress(value: string): string | null {
+  const angled = value.match(/<([^<>]*)>\s*$/);
+  const address = (angled ? angled[1] : value).trim();
+  return ADDRESS_PATTERN.test(address) ? address : null;
+}
+
+/**
+ * Value for a new server secret (see getSecret)
+ */
+export function generateSecret(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * Secret the extension sends with pixel requests from the sender's own browser
+ */
+export function generateSenderMarker(): string {
+  return crypto.randomBytes(24).toString('base64url');
+}
+
+/**
+ * Whether a pixel request carried the email owner's sender marker
+ */
+export function matchesSenderMarker(expected: string | null | undefined, given: string): boolean {
+  if (!expected) return false;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(given);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Normalize an email address so the same person maps to one contact
+ * - "Name <address>" becomes just the address
+ */
+export function normalizeAddress(address: string): string {
+  return (extractAddress(address) ?? address).trim().toLowerCase();
+}
+
+/**
+ * Split a comma-joined recipient string into "to" recipients
+ * - Commas inside a quoted display name don't split, and parts without a valid address are dropped
+ */
+export function parseRecipientString(recipient: string): Recipient[] {
+  return recipient
+    .split(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/)
+    .map(extractAddress)
+    .filter((address): address is string => address !== null)
+    .map((address) => ({ address, role: 'to' as const }));
+}
+
+/**
+ * Whole-number percentage, 0 when there's nothing to divide by
+ */
+export function percentage(part: number, whole: number): number {
+  return whole > 0 ? Math.round((part / whole) * 100) : 0;
+}
+
+export function withOpenRate(contact: Omit<ContactWithStats, 'open_rate'>): ContactWithStats {
+  return { ...contact, open_rate: percentage(contact.emails_opened, contact.email_count) };
+}
+
+/**
+ * Every classification with a zero count, for stats to fill in
+ */
+export function emptyClassificationCounts(): Record<OpenClassification, number> {
+  return Object.fromEntries(OPEN_CLASSIFICATIONS.map((c) => [c, 0])) as Record<OpenClassification, number>;
+}
+
+// ============================================
+// Email List Cursors
+// ============================================
+
+export class InvalidCursorError extends Error {}
+
+// Each sort is a single column plus the email id as the tie-breaker,
+// so a cursor is just the last row's [value, id]
+export function encodeCursor(value: string | number, id: string): string {
+  return Buffer.from(JSON.stringify([value, id])).toString('base64url');
+}
+
+const CURSOR_DATE = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/;
+
+/**
+ * Whether a decoded cursor value could have come from the sort it's used with
+ * - Anything else would reach the database as the wrong type
+ */
+function isCursorValue(value: unknown, sort: EmailSort): boolean {
+  if (sort === 'most_opens') return Number.isSafeInteger(value) && (value as number) >= 0;
+  if (typeof value !== 'string') return false;
+  // Never-opened emails sort under last_opened with an empty value
+  if (sort === 'last_opened' && value === '') return true;
+  if (!CURSOR_DATE.test(value)) return false;
+  const date = parseDbDate(value);
+  return !isNaN(date.getTime()) && toDbDate(date) === value;
+}
+
+export function decodeCursor(cursor: string, sort: EmailSort): [string | number, string] {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (
+      Array.isArray(decoded) &&
+      decoded.length === 2 &&
+      isCursorValue(decoded[0], sort) &&
+      typeof decoded[1] === 'string' &&
+      /^[A-Za-z0-9_-]{1,64}$/.test(decoded[1])
+    ) {
+      return decoded as [string | number, string];
+    }
+  } catch {
+    // fall through
+  }
+  throw new InvalidCursorError('Invalid cursor');
+}
+
+/**
+ * Split free text into search terms (quotes stripped); every term must match as a prefix
+ */
+export function toSearchTerms(search: string): string[] {
+  return search
+    .split(/\s+/)
+    .map((term) => term.replace(/"/g, ''))
+    .filter(Boolean);
+}
+
+// ============================================
+// Campaigns
+// ============================================
+
+/**
+ * One recipient of one campaign email, with the email's engagement
+ * - address is null for an email without parseable recipients
+ */
+export interface CampaignEmailRow {
+  email_id: string;
+  variant_id: number | null;
+  address: string | null;
+  read_count: number;
+  click_count: number;
+  last_read_at: string | null;
+  seconds_to_open: number | null;
+}
+
+const TOP_RECIPIENTS = 10;
+const SIGNIFICANCE_LEVEL = 0.05;
+
+function campaignStats(rows: CampaignEmailRow[]): CampaignStats {
+  const secondsToOpen = new Map<string, number | null>();
+  const recipients = new Set<string>();
+  const reached = new Set<string>();
+
+  for (const row of rows) {
+    secondsToOpen.set(row.email_id, row.seconds_to_open);
+    if (row.address === null) continue;
+    recipients.add(row.address);
+    if (row.seconds_to_open !== null) reached.add(row.address);
+  }
+
+  // Nearest-rank median, the definition the engagement stats use for percentiles
+  const latencies = [...secondsToOpen.values()].filter((s): s is number => s !== null).sort((a, b) => a - b);
+  return {
+    email_count: secondsToOpen.size,
+    emails_opened: latencies.length,
+    open_rate: percentage(latencies.length, secondsToOpen.size),
+    recipient_count: recipients.size,
+    recipients_reached: reached.size,
+    median_seconds_to_open: latencies.length > 0 ? Math.round(latencies[Math.ceil(latencies.length / 2) - 1]) : null,
+  };
+}
+
+function topRecipients(rows: CampaignEmailRow[]): CampaignRecipient[] {
+  const byAddress = new Map<string, CampaignRecipient>();
+
+  for (const row of rows) {
+    if (row.address === null) continue;
+    const recipient = byAddress.get(row.address) ?? {
+      address: row.address, email_count: 0, open_count: 0, click_count: 0, last_opened_at: null,
+    };
+    recipient.email_count++;
+    recipient.open_count += row.read_count;
+    recipient.click_count += row.click_count;
+    if (row.last_read_at && (!recipient.last_opened_at || row.last_read_at > recipient.last_opened_at)) {
+      recipient.last_opened_at = row.last_read_at;
+    }
+    byAddress.set(row.address, recipient);
+  }
+
+  return [...byAddress.values()]
+    .filter((r) => r.open_count > 0 || r.click_count > 0)
+    .sort((a, b) => b.open_count - a.open_count || b.click_count - a.click_count || a.address.localeCompare(b.address))
+    .slice(0, TOP_RECIPIENTS);
+}
+
+/**
+ * Standard normal CDF, from the Abramowitz & Stegun approximation of erf (error below 1.5e-7)
+ */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Two-proportion z-test between the variants with the best and second-best open rates
+ * - Null until two variants have been sent
+ */
+function compareVariants(variants: VariantStats[]): VariantComparison | null {
+  const rate = (v: VariantStats) => v.emails_opened / v.email_count;
+  const [leader, runnerUp] = variants.filter((v) => v.email_count > 0).sort((a, b) => rate(b) - rate(a));
+  if (!runnerUp) return null;
+
+  const pooled = (leader.emails_opened + runnerUp.emails_opened) / (leader.email_count + runnerUp.email_count);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / leader.email_count + 1 / runnerUp.email_count));
+  const z = standardError > 0 ? (rate(leader) - rate(runnerUp)) / standardError : 0;
+  const pValue = 2 * (1 - normalCdf(Math.abs(z)));
+
+  return {
+    leader: leader.name,
+    runner_up: runnerUp.name,
+    difference: Math.round((rate(leader) - rate(runnerUp)) * 1000) / 10,
+    z: Math.round(z * 100) / 100,
+    p_value: Math.round(pValue * 10000) / 10000,
+    significant: pValue < SIGNIFICANCE_LEVEL,
+  };
+}
+
+/**
+ * Campaign totals, per-variant stats, the A/B comparison and top recipients from its email rows
+ */
+export function buildCampaignReport(campaign: Campaign, rows: CampaignEmailRow[]): CampaignReport {
+  const variants = campaign.variants.map((variant) => ({
+    ...variant,
+    ...campaignStats(rows.filter((row) => row.variant_id === variant.id)),
+  }));
+
+  return {
+    ...campaign,
+    stats: campaignStats(rows),
+    variants,
+    comparison: compareVariants(variants),
+    top_recipients: topRecipients(rows),
+  };
+}
+
+// ============================================
+// Webhooks
+// ============================================
+
+/**
+ * The JSON body POSTed to webhook receivers
+ */
+export function webhookPayload(event: TrackerEvent): string {
+  return JSON.stringify({
+    id: event.id,
+    type: event.type,
+    created_at: event.created_at,
+    data: event.data,
+  });
+}
+
+/**
+ * Where a delivery stands after an attempt
+ * - retryInSeconds null after a failure means give up
+ */
+export function deliveryStatus(succeeded: boolean, retryInSeconds: number | null): DeliveryStatus {
+  if (succeeded) return 'succeeded';
+  return retryInSeconds === null ? 'failed' : 'pending';
+}
@@ -0,0 +1,91 @@
+// SQLite adapter: db.ts does the work synchronously, this just gives it the async Repository shape
+
+import * as db from '../db';
+import { Repository } from './repository';
+
+export function createSqliteRepository(): Repository {
+  return {
+    name: 'sqlite',
+    init: async () => db.initDb(),
+    close: async () => db.closeDb(),
+
+    createEmail: async (data) => db.createEmail(data),
+    getEmailById: async (id) => db.getEmailById(id),
+    getEmailWithOpens: async (id, ownerId) => db.getEmailWithOpens(id, ownerId),
+    getRecipientsForEmail: async (emailId) => db.getRecipientsForEmail(emailId),
+    getEmailsPage: async (ownerId, options) => db.getEmailsPage(ownerId, options),
+    getThread: async (ownerId, threadId) => db.getThread(ownerId, threadId),
+    lookupReadReceipts: async (ownerId, lookups) => db.lookupReadReceipts(ownerId, lookups),
+    updateEmails: async (ownerId, emailIds, changes) => db.updateEmails(ownerId, emailIds, changes),
+    deleteEmails: async (ownerId, emailIds) => db.deleteEmails(ownerId, emailIds),
+    recordOpen: async (data) => db.recordOpen(data),
+    getOpensForEmail: async (emailId) => db.getOpensForEmail(emailId),
+    getOpenFeed: async (ownerId, options) => db.getOpenFeed(ownerId, options),
+    getLink: async (emailId, linkId) => db.getLink(emailId, linkId),
+    getLinksForEmail: async (emailId) => db.getLinksForEmail(emailId),
+    recordClick: async (data) => db.recordClick(data),
+
+    getOpensForEmails: async (emailIds) => db.getOpensForEmails(emailIds),
+    importEmail: async (ownerId, email) => db.importEmail(ownerId, email),
+
+    getUnlocatedOpens: async (afterId, limit) => db.getUnlocatedOpens(afterId, limit),
+    setOpenLocation: async (id, location) => db.setOpenLocation(id, location),
+
+    purgeActivity: async (maxAgeDays) => db.purgeActivity(maxAgeDays),
+    purgeEmails: async (maxAgeDays) => db.purgeEmails(maxAgeDays),
+    eraseRecipient: async (ownerId, address) => db.eraseRecipient(ownerId, address),
+
+    getReminders: async (ownerId, status) => db.getReminders(ownerId, status),
+    snoozeReminder: async (id, ownerId, hours) => db.snoozeReminder(id, ownerId, hours),
+    dismissReminder: async (id, ownerId) => db.dismissReminder(id, ownerId),
+    fireDueReminders: async () => db.fireDueReminders(),
+
+    createCampaign: async (data) => db.createCampaign(data),
+    getCampaigns: async (ownerId) => db.getCampaigns(ownerId),
+    getCampaign: async (ownerId, id) => db.getCampaign(ownerId, id),
+    getCampaignReport: async (ownerId, id) => db.getCampaignReport(ownerId, id),
+
+    reserveEmailId: async (ownerId) => db.reserveEmailId(ownerId),
+    getReservation: async (id) => db.getReservation(id),
+    confirmReservation: async (id, data) => db.confirmReservation(id, data),
+    releaseReservation: async (id, ownerId) => db.releaseReservation(id, ownerId),
+    pruneReservations: async (maxAgeHours) => db.pruneReservations(maxAgeHours),
+
+    getSecret: async (name) => db.getSecret(name),
+
+    getStats: async (ownerId) => db.getStats(ownerId),
+    getTimeseries: async (ownerId, range, interval) => db.getTimeseries(ownerId, range, interval),
+    getEngagementStats: async (ownerId, range) => db.getEngagementStats(ownerId, range),
+
+    getAllContacts: async (ownerId) => db.getAllContacts(ownerId),
+    getContactWithHistory: async (address, ownerId) => db.getContactWithHistory(address, ownerId),
+
+    createUser: async (data) => db.createUser(data),
+    countUsers: async () => db.countUsers(),
+    claimUnownedEmails: async (userId) => db.claimUnownedEmails(userId),
+    getUserById: async (id) => db.getUserById(id),
+    getUserByEmail: async (email) => db.getUserByEmail(email),
+    getSenderMarker: async (userId) => db.getSenderMarker(userId),
+    createSession: async (data) => db.createSession(data),
+    getUserBySessionHash: async (tokenHash) => db.getUserBySessionHash(tokenHash),
+    deleteSession: async (tokenHash) => db.deleteSession(tokenHash),
+    createApiKey: async (data) => db.createApiKey(data),
+    getApiKeysForUser: async (userId) => db.getApiKeysForUser(userId),
+    deleteApiKey: async (id, userId) => db.deleteApiKey(id, userId),
+    getUserByApiKeyHash: async (keyHash) => db.getUserByApiKeyHash(keyHash),
+
+    emitEvent: async (type, ownerId, data) => db.emitEvent(type, ownerId, data),
+    getEventsSince: async (ownerId, sinceId, limit) => db.getEventsSince(ownerId, sinceId, limit),
+    getLatestEventId: async (ownerId) => db.getLatestEventId(ownerId),
+    pruneEvents: async (maxAgeDays) => db.pruneEvents(maxAgeDays),
+
+    createWebhook: async (data) => db.createWebhook(data),
+    getWebhooksForOwner: async (ownerId) => db.getWebhooksForOwner(ownerId),
+    getWebhookById: async (id) => db.getWebhookById(id),
+    deleteWebhook: async (id, ownerId) => db.deleteWebhook(id, ownerId),
+    // A SQLite file has a single server process, so there's nothing to claim
+    getDueWebhookDeliveries: async (limit) => db.getDueWebhookDeliveries(limit),
+    recordWebhookAttempt: async (data) => db.recordWebhookAttempt(data),
+    getWebhookDeliveries: async (webhookId, ownerId, limit) => db.getWebhookDeliveries(webhookId, ownerId, limit),
+  };
+}
@@ -0,0 +1,478 @@
+// Shapes shared by the storage backends and the API
+// Dates are UTC strings in SQLite's CURRENT_TIMESTAMP format ("2024-01-31 09:15:00")
+// whichever backend produced them
+
+import { OpenClassification } from './classify';
+import { EventType } from './events';
+import { DeviceType } from './useragent';
+
+export interface Email {
+  id: string;
+  recipient: string;
+  subject: string | null;
+  sender: string | null;
+  owner_id: number | null;
+  created_at: string;
+  open_count: number;
+  human_open_count: number;
+  click_count: number;
+  last_opened_at: string | null;
+  archived_at: string | null;
+  tracking_paused_at: string | null;
+  tags: string[];
+  /** Gmail conversation and draft/message the email was sent from, when known */
+  thread_id: string | null;
+  message_id: string | null;
+  campaign_id: number | null;
+  variant_id: number | null;
+}
+
+/**
+ * What POST /api/emails and confirming a reservation store
+ * - id is only given for a reserved id; otherwise a new one is generated
+ */
+export interface NewEmail {
+  id?: string;
+  ownerId: number;
+  recipient: string;
+  subject?: string;
+  sender?: string;
+  links?: string[];
+  recipients?: Recipient[];
+  reminder?: { kind: ReminderKind; delayHours: number };
+  threadId?: string;
+  messageId?: string;
+  campaignId?: number;
+  variantId?: number;
+  /** When a scheduled email goes out, as a stored timestamp; defaults to now */
+  sentAt?: string;
+}
+
+/**
+ * A tracking id handed out before the email is written, so the pixel can go in
+ * the moment it is sent; it becomes an email once the send is confirmed
+ */
+export interface Reservation {
+  id: string;
+  owner_id: number;
+  created_at: string;
+}
+
+/**
+ * What PATCH /api/emails/:id and the bulk actions can change
+ * - tags replaces the list; add_tags and remove_tags are applied after it
+ */
+export interface EmailChanges {
+  subject?: string | null;
+  sender?: string | null;
+  archived?: boolean;
+  tracking_paused?: boolean;
+  tags?: string[];
+  add_tags?: string[];
+  remove_tags?: string[];
+  thread_id?: string | null;
+  message_id?: string | null;
+}
+
+export interface Open {
+  id: number;
+  email_id: string;
+  opened_at: string;
+  ip_address: string | null;
+  user_agent: string | null;
+  classification: OpenClassification;
+  client: string | null;
+  os: string | null;
+  device_type: DeviceType | null;
+  country: string | null;
+  region: string | null;
+  city: string | null;
+  asn: number | null;
+  as_org: string | null;
+}
+
+export interface Link {
+  id: number;
+  email_id: string;
+  url: string;
+}
+
+export interface Click {
+  id: number;
+  email_id: string;
+  link_id: number;
+  clicked_at: string;
+  ip_address: string | null;
+  user_agent: string | null;
+}
+
+export interface LinkWithClicks extends Link {
+  click_count: number;
+}
+
+export type RecipientRole = 'to' | 'cc' | 'bcc';
+
+export interface Recipient {
+  address: string;
+  role: RecipientRole;
+}
+
+export interface Contact {
+  id: number;
+  address: string;
+  created_at: string;
+}
+
+export interface ContactWithStats extends Contact {
+  email_count: number;
+  emails_opened: number;
+  open_count: number;
+  open_rate: number;
+  last_emailed_at: string | null;
+  last_opened_at: string | null;
+}
+
+export interface ContactEmail extends Email {
+  role: RecipientRole;
+  open_count: number;
+  last_opened_at: string | null;
+}
+
+export interface ContactWithHistory extends ContactWithStats {
+  emails: ContactEmail[];
+}
+
+export interface User {
+  id: number;
+  email: string;
+  name: string | null;
+  created_at: string;
+}
+
+export interface UserWithPassword extends User {
+  password_hash: string;
+}
+
+export interface ApiKey {
+  id: number;
+  user_id: number;
+  name: string;
+  prefix: string;
+  created_at: string;
+  last_used_at: string | null;
+}
+
+export interface Webhook {
+  id: number;
+  owner_id: number;
+  url: string;
+  events: EventType[];
+  created_at: string;
+}
+
+export interface WebhookWithSecret extends Webhook {
+  secret: string;
+}
+
+export type DeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookDelivery {
+  id: number;
+  webhook_id: number;
+  event_id: number;
+  event_type: EventType;
+  payload: string;
+  status: DeliveryStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_status_code: number | null;
+  last_error: string | null;
+  created_at: string;
+  delivered_at: string | null;
+}
+
+export interface EmailWithOpens extends Email {
+  opens: Open[];
+  open_count: number;
+  human_open_count: number;
+  links: LinkWithClicks[];
+  clicks: Click[];
+  click_count: number;
+  recipients: Recipient[];
+}
+
+/** Every tracked send in one conversation, oldest first, with their opens newest first */
+export interface EmailThread {
+  thread_id: string;
+  emails: Email[];
+  opens: Open[];
+  open_count: number;
+  human_open_count: number;
+  last_opened_at: string | null;
+}
+
+/**
+ * How to find tracked emails from what Gmail shows
+ * - 'sent' matches emails to the recipient tracked within a few minutes of sentAt,
+ *   for emails sent before their Gmail ids were recorded
+ */
+export type EmailLookup =
+  | { by: 'id' | 'message_id' | 'thread_id'; value: string }
+  | { by: 'sent'; recipient: string; subject: string | null; sentAt: Date };
+
+/** Whether the emails a lookup found have been read */
+export interface ReadReceipt {
+  email_ids: string[];
+  open_count: number;
+  /** Human and image-proxy opens; prefetches and scanners don't count as reading */
+  read_count: number;
+  last_read_at: string | null;
+}
+
+// ============================================
+// Email List
+// ============================================
+
+export type EmailSort = 'recent' | 'oldest' | 'most_opens' | 'last_opened';
+
+export const EMAIL_SORTS: EmailSort[] = ['recent', 'oldest', 'most_opens', 'last_opened'];
+
+export interface EmailListOptions {
+  sort: EmailSort;
+  limit: number;
+  cursor?: string;
+  search?: string;
+  status?: 'opened' | 'unopened';
+  from?: string;
+  to?: string;
+  tag?: string;
+  /** Archived emails are left out unless this says otherwise */
+  archived?: 'include' | 'only';
+}
+
+export interface EmailPage {
+  emails: Email[];
+  next_cursor: string | null;
+  total: number;
+}
+
+// ============================================
+// Open Feed
+// ============================================
+
+export interface OpenFeedOptions {
+  /** Only opens recorded after this one, oldest first */
+  sinceId: number;
+  limit: number;
+  emailId?: string;
+  /** An address the email went to, as To, Cc or Bcc */
+  recipient?: string;
+  /** Opened at or after from and before to */
+  from?: string;
+  to?: string;
+}
+
+/** An open with the email it belongs to */
+export interface FeedOpen extends Open {
+  recipient: string;
+  subject: string | null;
+}
+
+// ============================================
+// Export & Import
+// ============================================
+
+/** An open as it travels between servers - the receiving side assigns new ids */
+export type PortableOpen = Omit<Open, 'id' | 'email_id'>;
+
+/** An email with its opens, as written by GET /api/export and read by POST /api/import */
+export interface PortableEmail {
+  id: string;
+  recipient: string;
+  subject: string | null;
+  sender: string | null;
+  created_at: string;
+  opens: PortableOpen[];
+}
+
+/** 'conflict' means the id is already taken by another account */
+export type ImportOutcome = 'imported' | 'exists' | 'conflict';
+
+// ============================================
+// Retention & Erasure
+// ============================================
+
+/** Rows removed by a purge or erasure */
+export interface DeletionCounts {
+  emails: number;
+  opens: number;
+  clicks: number;
+}
+
+export interface RecipientErasure extends DeletionCounts {
+  address: string;
+  email_ids: string[];
+}
+
+// ============================================
+// Reminders
+// ============================================
+
+/**
+ * 'not_opened' is due delay_hours after sending unless the email was read by then;
+ * 'opened' is due delay_hours after it was first read
+ */
+export type ReminderKind = 'not_opened' | 'opened';
+
+export const REMINDER_KINDS: ReminderKind[] = ['not_opened', 'opened'];
+
+/** 'cancelled' is a not_opened reminder whose email got read first */
+export type ReminderStatus = 'pending' | 'due' | 'dismissed' | 'cancelled';
+
+export const REMINDER_STATUSES: ReminderStatus[] = ['pending', 'due', 'dismissed', 'cancelled'];
+
+export interface Reminder {
+  id: number;
+  email_id: string;
+  owner_id: number;
+  kind: ReminderKind;
+  delay_hours: number;
+  status: ReminderStatus;
+  due_at: string | null;
+  fired_at: string | null;
+  created_at: string;
+}
+
+export interface ReminderWithEmail extends Reminder {
+  recipient: string;
+  subject: string | null;
+}
+
+// ============================================
+// Stats & Analytics
+// ============================================
+
+export interface Stats {
+  total_emails: number;
+  total_opens: number;
+  emails_opened: number;
+  open_rate: number;
+  human_opens: number;
+  emails_opened_human: number;
+  human_open_rate: number;
+  opens_by_classification: Record<OpenClassification, number>;
+  total_clicks: number;
+  emails_clicked: number;
+  click_rate: number;
+}
+
+export type StatsInterval = 'hour' | 'day' | 'week';
+
+export const STATS_INTERVALS: StatsInterval[] = ['hour', 'day', 'week'];
+
+/**
+ * A date range in UTC (SQLite datetime strings, end exclusive) plus the
+ * viewer's offset from UTC so buckets and the heatmap line up with their day
+ */
+export interface StatsRange {
+  from: string;
+  to: string;
+  utcOffsetMinutes: number;
+}
+
+export interface TimeseriesBucket {
+  bucket: string;
+  emails_sent: number;
+  opens: number;
+  human_opens: number;
+}
+
+export interface EngagementStats {
+  time_to_first_open: {
+    count: number;
+    average: number | null;
+    p50: number | null;
+    p75: number | null;
+    p90: number | null;
+    p95: number | null;
+  };
+  heatmap: number[][];
+  emails_opened: number;
+  emails_reopened: number;
+  reopen_rate: number;
+}
+
+// ============================================
+// Campaigns
+// ============================================
+
+/** A version of a campaign's email, e.g. one of two subjects under test */
+export interface CampaignVariant {
+  id: number;
+  campaign_id: number;
+  name: string;
+  /** Used for emails of this variant that don't give a subject of their own */
+  subject: string | null;
+}
+
+export interface Campaign {
+  id: number;
+  owner_id: number;
+  name: string;
+  description: string | null;
+  created_at: string;
+  variants: CampaignVariant[];
+}
+
+export interface CampaignSummary extends Campaign {
+  email_count: number;
+  emails_opened: number;
+  open_rate: number;
+}
+
+/**
+ * Engagement of a set of a campaign's emails. Only human and image-proxy opens count,
+ * as for read receipts; the pixel is shared, so an opened email counts for all its recipients.
+ */
+export interface CampaignStats {
+  email_count: number;
+  emails_opened: number;
+  open_rate: number;
+  recipient_count: number;
+  /** Recipients of opened emails - not who opened them, which the shared pixel can't tell */
+  recipients_reached: number;
+  /** Median seconds from sending to the first open, over the opened emails */
+  median_seconds_to_open: number | null;
+}
+
+export interface VariantStats extends CampaignVariant, CampaignStats {}
+
+export interface CampaignRecipient {
+  address: string;
+  email_count: number;
+  open_count: number;
+  click_count: number;
+  last_opened_at: string | null;
+}
+
+/**
+ * The best variant against the runner-up, by a two-proportion z-test on their open rates
+ * - significant when p_value is below 0.05
+ */
+export interface VariantComparison {
+  leader: string;
+  runner_up: string;
+  /** Percentage points between the two open rates */
+  difference: number;
+  z: number;
+  p_value: number;
+  significant: boolean;
+}
+
+export interface CampaignReport extends Omit<Campaign, 'variants'> {
+  stats: CampaignStats;
+  variants: VariantStats[];
+  comparison: VariantComparison | null;
+  /** Recipients with the most opens, then clicks; only those who engaged */
+  top_recipients: CampaignRecipient[];
+}
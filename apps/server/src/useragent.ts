@@ -0,0 +1,60 @@
+// User-agent parsing for opens
+// Works out which mail client, OS and kind of device fetched the pixel so the
+// dashboard can say "Outlook on iPhone" instead of showing the raw UA string
+
+export type DeviceType = 'desktop' | 'mobile' | 'tablet' | 'unknown';
+
+export const DEVICE_TYPES: DeviceType[] = ['desktop', 'mobile', 'tablet', 'unknown'];
+
+export interface ParsedUserAgent {
+  client: string | null;
+  os: string | null;
+  device_type: DeviceType;
+}
+
+// Checked in order - mail clients and proxies before the browsers they embed
+const CLIENT_PATTERNS: [RegExp, string][] = [
+  [/GoogleImageProxy|ggpht\.com/i, 'Gmail'],
+  [/YahooMailProxy/i, 'Yahoo Mail'],
+  [/Microsoft Outlook|Outlook-(iOS|Android)|MSOffice|ms-office/i, 'Outlook'],
+  [/Thunderbird/i, 'Thunderbird'],
+  [/Airmail/i, 'Airmail'],
+  [/Spark/i, 'Spark'],
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Version\/[\d.]+.*Safari\//, 'Safari'],
+  // WebKit without a Safari token is the Apple Mail web view (macOS and iOS),
+  // and a bare "Mozilla/5.0" is Apple Mail Privacy Protection
+  [/AppleWebKit\/[\d.]+ \(KHTML, like Gecko\)(?!.*Safari)/, 'Apple Mail'],
+  [/^Mozilla\/5\.0$/, 'Apple Mail'],
+];
+
+const OS_PATTERNS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod|Outlook-iOS/, 'iOS'],
+  [/Android|Outlook-Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Macintosh|Mac OS X/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * Parse a pixel hit's user agent; anything unrecognised comes back as null / 'unknown'
+ */
+export function parseUserAgent(userAgent?: string | null): ParsedUserAgent {
+  const ua = userAgent?.trim() || '';
+
+  const client = CLIENT_PATTERNS.find(([pattern]) => pattern.test(ua))?.[1] ?? null;
+  const os = OS_PATTERNS.find(([pattern]) => pattern.test(ua))?.[1] ?? null;
+
+  return { client, os, device_type: getDeviceType(ua) };
+}
+
+function getDeviceType(ua: string): DeviceType {
+  if (/iPad|Tablet/i.test(ua) || (/Android/.test(ua) && !/Mobile/.test(ua))) return 'tablet';
+  if (/iPhone|iPod|Mobile|Android/.test(ua)) return 'mobile';
+  if (/Windows|Macintosh|CrOS|X11|Linux/.test(ua)) return 'desktop';
+  return 'unknown';
+}
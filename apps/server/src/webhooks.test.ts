@@ -0,0 +1,36 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { checkWebhookUrl, isPublicAddress, signPayload } from './webhooks';
+
+describe('webhook addresses', () => {
+  it('refuses loopback, private, link-local and reserved addresses', () => {
+    for (const address of [
+      '127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1',
+      '0.0.0.0', '224.0.0.1', '255.255.255.255',
+      '::', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe',
+    ]) {
+      assert.equal(isPublicAddress(address), false, address);
+    }
+  });
+
+  it('allows public addresses', () => {
+    for (const address of ['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111', '::ffff:8.8.8.8']) {
+      assert.equal(isPublicAddress(address), true, address);
+    }
+  });
+
+  it('checks the host of a URL, resolving names', async () => {
+    assert.equal(await checkWebhookUrl('http://8.8.8.8/hook'), null);
+    assert.match((await checkWebhookUrl('http://127.0.0.1:8080/hook'))!, /private or local/);
+    assert.match((await checkWebhookUrl('http://[::1]/hook'))!, /private or local/);
+    assert.match((await checkWebhookUrl('http://localhost/hook'))!, /private or local/);
+  });
+});
+
+describe('webhook signatures', () => {
+  it('signs "timestamp.body" with the webhook secret', () => {
+    const expected = crypto.createHmac('sha256', 'whsec_test').update('1700000000.{"a":1}').digest('hex');
+    assert.equal(signPayload('whsec_test', 1700000000, '{"a":1}'), `sha256=${expected}`);
+  });
+});
@@ -0,0 +1,208 @@
+// Outbound webhooks
+// emitEvent queues a delivery per matching webhook in the same transaction as
+// the event, so the queue survives restarts; this worker drains it and retries
+// failures with exponential backoff
+//
+// Webhooks only go to public addresses: the delivery log shows each account the
+// status and errors of its requests, so an internal address would let it probe the
+// server's own network. The host is checked when a webhook is added and again on
+// every delivery, on the address actually connected to, and redirects aren't followed.
+
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { WebhookDelivery } from './types';
+import { storage } from './storage';
+import { subscribeToEvents } from './events';
+
+const WEBHOOK_SECRET_PREFIX = 'whsec_';
+
+const WORKER_INTERVAL_MS = 5000;
+const DELIVERY_TIMEOUT_MS = 10000;
+const DELIVERY_BATCH = 20;
+
+// 30s, 1m, 2m, 4m ... then give up after MAX_ATTEMPTS
+const RETRY_BASE_SECONDS = 30;
+const MAX_ATTEMPTS = 8;
+
+export function generateWebhookSecret(): string {
+  return `${WEBHOOK_SECRET_PREFIX}${crypto.randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Sign "timestamp.body" so receivers can verify the payload and reject replays
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+}
+
+// Loopback, private, link-local (cloud metadata lives at 169.254.169.254), shared,
+// multicast and reserved ranges
+const PRIVATE_NETWORKS = new net.BlockList();
+for (const [address, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(address, prefix, 'ipv4');
+}
+for (const [address, prefix] of [
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(address, prefix, 'ipv6');
+}
+
+/**
+ * Whether a webhook may connect to this IP address; IPv4-mapped IPv6 counts as IPv4
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return !PRIVATE_NETWORKS.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+class PrivateAddressError extends Error {
+  constructor(host: string) {
+    super(`${host} is not a public address`);
+  }
+}
+
+function hostOf(url: URL): string {
+  return url.hostname.replace(/^\[(.*)\]$/, '$1');
+}
+
+/**
+ * Why webhooks can't be sent to url, or null if they can
+ */
+export async function checkWebhookUrl(value: string): Promise<string | null> {
+  const host = hostOf(new URL(value));
+  if (net.isIP(host)) {
+    return isPublicAddress(host) ? null : 'url must not point at a private or local address';
+  }
+
+  try {
+    const addresses = await dns.promises.lookup(host, { all: true });
+    return addresses.every(({ address }) => isPublicAddress(address))
+      ? null
+      : 'url must not point at a private or local address';
+  } catch {
+    return `url's host ${host} could not be found`;
+  }
+}
+
+/**
+ * dns.lookup for outgoing deliveries, failing for any host that resolves to a private address
+ */
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, '');
+    if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+      return callback(new PrivateAddressError(hostname), '');
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * POST the payload and resolve with the status code; redirects count as failures
+ */
+function post(value: string, headers: Record<string, string>, body: string): Promise<number> {
+  const url = new URL(value);
+  const host = hostOf(url);
+  // Node skips the lookup for IP literals, so check those here
+  if (net.isIP(host) && !isPublicAddress(host)) {
+    return Promise.reject(new PrivateAddressError(host));
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = (url.protocol === 'https:' ? https : http).request(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+      lookup: publicLookup,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    }, (response) => {
+      response.resume();
+      resolve(response.statusCode ?? 0);
+    });
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+function retryDelaySeconds(attempts: number): number | null {
+  if (attempts >= MAX_ATTEMPTS) return null;
+  return RETRY_BASE_SECONDS * 2 ** (attempts - 1);
+}
+
+async function deliver(delivery: WebhookDelivery): Promise<void> {
+  const webhook = await storage.getWebhookById(delivery.webhook_id);
+  if (!webhook) return;
+
+  const timestamp = Math.floor(Date.now() / 1000);
+  const attempts = delivery.attempts + 1;
+
+  let statusCode: number | null = null;
+  let error: string | null = null;
+
+  try {
+    statusCode = await post(webhook.url, {
+      'Content-Type': 'application/json',
+      'User-Agent': 'EmailTracker-Webhooks/1.0',
+      'X-Tracker-Event': delivery.event_type,
+      'X-Tracker-Delivery': String(delivery.id),
+      'X-Tracker-Timestamp': String(timestamp),
+      'X-Tracker-Signature': signPayload(webhook.secret, timestamp, delivery.payload),
+    }, delivery.payload);
+    if (statusCode < 200 || statusCode >= 300) {
+      error = `HTTP ${statusCode}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const succeeded = error === null;
+  const retryInSeconds = succeeded ? null : retryDelaySeconds(attempts);
+  await storage.recordWebhookAttempt({ id: delivery.id, succeeded, statusCode, error, retryInSeconds });
+
+  if (succeeded) {
+    console.log(`[webhooks] Delivered ${delivery.event_type} #${delivery.event_id} to ${webhook.url}`);
+  } else if (retryInSeconds === null) {
+    console.log(`[webhooks] Giving up on delivery ${delivery.id} to ${webhook.url} after ${attempts} attempts: ${error}`);
+  } else {
+    console.log(`[webhooks] Delivery ${delivery.id} to ${webhook.url} failed (${error}), retrying in ${retryInSeconds}s`);
+  }
+}
+
+let running = false;
+
+async function processQueue(): Promise<void> {
+  if (running) return;
+  running = true;
+
+  try {
+    let due = await storage.getDueWebhookDeliveries(DELIVERY_BATCH);
+    while (due.length > 0) {
+      await Promise.all(due.map(deliver));
+      if (due.length < DELIVERY_BATCH) break;
+      due = await storage.getDueWebhookDeliveries(DELIVERY_BATCH);
+    }
+  } catch (error) {
+    console.error('[webhooks] Error processing delivery queue:', error);
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Drain the delivery queue on a timer, and straight away whenever an event is published
+ */
+export function startWebhookWorker(): void {
+  setInterval(processQueue, WORKER_INTERVAL_MS).unref();
+  subscribeToEvents(() => {
+    void processQueue();
+  });
+  void processQueue();
+}